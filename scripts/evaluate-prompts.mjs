@@ -0,0 +1,156 @@
+// scripts/evaluate-prompts.mjs
+// Evaluates analysis prompt versions against the golden dataset on a running dev server
+// and prints precision/recall, weight error and category accuracy side by side.
+//
+// Usage:
+//   FIREBASE_ID_TOKEN=... node scripts/evaluate-prompts.mjs [promptVersion ...] \
+//     [--model mock|recorded|live] [--save] [--report report.json] \
+//     [--url http://localhost:3000/api/analysis/evaluation]
+//
+// FIREBASE_ID_TOKEN must belong to an admin: a uid in the server's ADMIN_UIDS, or a user
+// with the admin custom claim. With no versions, every version in
+// evaluation/promptVersions.ts is evaluated.
+// --save writes each live run's answers to evaluation/recordings/<version>.json, so the
+// version can be replayed with --model recorded once promptVersions.ts imports the file.
+
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+import { fileURLToPath } from "url";
+
+const RECORDINGS_DIR = path.join(
+  path.dirname(fileURLToPath(import.meta.url)),
+  "..",
+  "src",
+  "features",
+  "analysis",
+  "evaluation",
+  "recordings"
+);
+
+function parseArgs(argv) {
+  const args = {
+    versions: [],
+    model: "mock",
+    save: false,
+    report: null,
+    url: "http://localhost:3000/api/analysis/evaluation",
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === "--model") args.model = argv[++i];
+    else if (argv[i] === "--save") args.save = true;
+    else if (argv[i] === "--report") args.report = argv[++i];
+    else if (argv[i] === "--url") args.url = argv[++i];
+    else args.versions.push(argv[i]);
+  }
+
+  return args;
+}
+
+const percent = (value) => `${(value * 100).toFixed(1)}%`;
+
+function printComparison(report) {
+  console.log(
+    `\nGolden dataset v${report.datasetVersion}, ${report.evaluationModel} model, ${report.ranAt}\n`
+  );
+  console.table(
+    Object.fromEntries(
+      report.results.map(({ promptVersion, model, metrics }) => [
+        promptVersion,
+        {
+          model,
+          precision: percent(metrics.precision),
+          recall: percent(metrics.recall),
+          f1: percent(metrics.f1),
+          "weight error": metrics.meanWeightError.toFixed(1),
+          "category accuracy": percent(metrics.categoryAccuracy),
+          failed: metrics.failedCount,
+          misresolved: metrics.misresolvedCount,
+        },
+      ])
+    )
+  );
+}
+
+function printMisses(result) {
+  const misses = result.merchants.filter(
+    (merchant) =>
+      merchant.falsePositives.length > 0 ||
+      merchant.falseNegatives.length > 0 ||
+      merchant.weightMisses.length > 0 ||
+      merchant.categoryMisses.length > 0 ||
+      merchant.analysisErrors ||
+      merchant.resolvedMerchant !== merchant.merchant
+  );
+  if (misses.length === 0) return;
+
+  console.log(`\n${result.promptVersion}: ${misses.length} merchants with misses`);
+  misses.forEach((merchant) => {
+    console.log(`  ${merchant.descriptor} (${merchant.resolvedMerchant})`);
+    if (merchant.resolvedMerchant !== merchant.merchant) {
+      console.log(`    resolved to ${merchant.resolvedMerchant}, expected ${merchant.merchant}`);
+    }
+    if (merchant.analysisErrors) console.log(`    failed: ${merchant.analysisErrors.join("; ")}`);
+    if (merchant.falsePositives.length > 0) console.log(`    unexpected: ${merchant.falsePositives.join(", ")}`);
+    if (merchant.falseNegatives.length > 0) console.log(`    missing: ${merchant.falseNegatives.join(", ")}`);
+    merchant.weightMisses.forEach(({ practice, expected, actual }) =>
+      console.log(`    ${practice} weight ${actual}, expected ${expected[0]}-${expected[1]}`)
+    );
+    merchant.categoryMisses.forEach(({ practice, expected, actual }) =>
+      console.log(`    ${practice} category ${actual ?? "none"}, expected ${expected}`)
+    );
+  });
+}
+
+async function saveRecordings(report) {
+  await mkdir(RECORDINGS_DIR, { recursive: true });
+
+  for (const result of report.results) {
+    if (!result.recording) continue;
+    const file = path.join(RECORDINGS_DIR, `${result.promptVersion}.json`);
+    await writeFile(file, `${JSON.stringify(result.recording, null, 2)}\n`);
+    console.log(`💾 Saved ${result.promptVersion} recording to ${path.relative(process.cwd(), file)}`);
+  }
+}
+
+async function main() {
+  const token = process.env.FIREBASE_ID_TOKEN;
+  if (!token) {
+    console.error("Set FIREBASE_ID_TOKEN to an ID token for an admin of the dev server's Firebase project");
+    process.exit(1);
+  }
+
+  const args = parseArgs(process.argv.slice(2));
+  if (args.save && args.model !== "live") {
+    console.error("--save only applies to --model live");
+    process.exit(1);
+  }
+
+  const response = await fetch(args.url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+    body: JSON.stringify({ promptVersions: args.versions, model: args.model }),
+  });
+  const result = await response.json().catch(() => null);
+
+  if (!response.ok || !result?.report) {
+    console.error(`❌ ${response.status} ${result?.error || "Evaluation failed"}`);
+    process.exit(1);
+  }
+
+  printComparison(result.report);
+  result.report.results.forEach(printMisses);
+
+  if (args.report) {
+    await writeFile(args.report, `${JSON.stringify(result.report, null, 2)}\n`);
+    console.log(`\n📄 Full report written to ${args.report}`);
+  }
+  if (args.save) {
+    await saveRecordings(result.report);
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
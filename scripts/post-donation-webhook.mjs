@@ -0,0 +1,94 @@
+// scripts/post-donation-webhook.mjs
+// Posts the every.org webhook fixtures to a running dev server, signed the way every.org signs them,
+// and checks each response against what the fixture expects.
+//
+// Usage:
+//   EVERY_ORG_WEBHOOK_SECRET=... node scripts/post-donation-webhook.mjs [fixture ...] \
+//     [--reference <offsetId>] [--url http://localhost:3000/api/charity/webhook]
+//
+// --reference fills in {{reference}}; use the ID of a pending offset to see it confirmed.
+// Without it, fixtures that expect a match are skipped.
+
+import { createHmac, randomUUID } from "crypto";
+import { readdir, readFile } from "fs/promises";
+import path from "path";
+import { fileURLToPath } from "url";
+
+const FIXTURES_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), "fixtures", "every-org");
+const SIGNATURE_HEADER = "x-every-signature"; // config.charity.webhookSignatureHeader
+
+function parseArgs(argv) {
+  const args = { fixtures: [], reference: null, url: "http://localhost:3000/api/charity/webhook" };
+
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === "--reference") args.reference = argv[++i];
+    else if (argv[i] === "--url") args.url = argv[++i];
+    else args.fixtures.push(argv[i].replace(/\.json$/, ""));
+  }
+
+  return args;
+}
+
+async function loadFixtures(names) {
+  const files = names.length > 0
+    ? names.map((name) => `${name}.json`)
+    : (await readdir(FIXTURES_DIR)).filter((file) => file.endsWith(".json")).sort();
+
+  return Promise.all(
+    files.map(async (file) => ({
+      name: file.replace(/\.json$/, ""),
+      ...JSON.parse(await readFile(path.join(FIXTURES_DIR, file), "utf8")),
+    }))
+  );
+}
+
+async function postFixture(fixture, { url, reference, secret }) {
+  const rawBody = JSON.stringify(fixture.body).replaceAll("{{reference}}", reference);
+  const signature = createHmac("sha256", fixture.signWith || secret).update(rawBody).digest("hex");
+
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", [SIGNATURE_HEADER]: signature },
+    body: rawBody,
+  });
+  const result = await response.json().catch(() => null);
+
+  const passed =
+    response.status === fixture.expect.status &&
+    (fixture.expect.matched === undefined || result?.matched === fixture.expect.matched);
+
+  console.log(`${passed ? "✅" : "❌"} ${fixture.name}: ${fixture.description}`);
+  console.log(`   ${response.status} ${JSON.stringify(result)}`);
+  return passed;
+}
+
+async function main() {
+  const secret = process.env.EVERY_ORG_WEBHOOK_SECRET;
+  if (!secret) {
+    console.error("Set EVERY_ORG_WEBHOOK_SECRET to the secret the dev server was started with");
+    process.exit(1);
+  }
+
+  const args = parseArgs(process.argv.slice(2));
+  const fixtures = await loadFixtures(args.fixtures);
+
+  const runnable = fixtures.filter((fixture) => {
+    if (args.reference || fixture.expect.matched !== true) return true;
+    console.log(`⏭️  ${fixture.name}: needs --reference <pending offset id>`);
+    return false;
+  });
+
+  let failures = 0;
+  for (const fixture of runnable) {
+    const reference = args.reference || randomUUID();
+    if (!(await postFixture(fixture, { ...args, reference, secret }))) failures++;
+  }
+
+  console.log(`\n${runnable.length - failures}/${runnable.length} fixtures behaved as expected`);
+  process.exit(failures > 0 ? 1 : 0);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
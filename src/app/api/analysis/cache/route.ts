@@ -0,0 +1,11 @@
+// src/app/api/analysis/cache/route.ts
+// The merchant cache is shared by every user, so only admins may inspect or clear it
+
+import { withAdmin } from "@/shared/utils/withAuth";
+import {
+  getMerchantCacheStatsHandler,
+  invalidateMerchantCacheHandler,
+} from "@/features/analysis/api/merchantCacheHandler";
+
+export const GET = withAdmin(getMerchantCacheStatsHandler);
+export const DELETE = withAdmin(invalidateMerchantCacheHandler);
@@ -0,0 +1,10 @@
+// src/app/api/analysis/confidence/route.ts
+
+import { withAuth } from "@/shared/utils/withAuth";
+import {
+  getConfidenceModeHandler,
+  saveConfidenceModeHandler,
+} from "@/features/analysis/api/practiceConfidenceHandler";
+
+export const GET = withAuth(getConfidenceModeHandler);
+export const PUT = withAuth(saveConfidenceModeHandler);
@@ -0,0 +1,11 @@
+// src/app/api/analysis/evaluation/route.ts
+// Evaluations can run the whole golden dataset through the paid model, so the route is admin-only
+
+import { withAdmin } from "@/shared/utils/withAuth";
+import {
+  getPromptVersionsHandler,
+  runPromptEvaluationHandler,
+} from "@/features/analysis/api/promptEvaluationHandler";
+
+export const GET = withAdmin(getPromptVersionsHandler);
+export const POST = withAdmin(runPromptEvaluationHandler);
@@ -0,0 +1,12 @@
+// src/app/api/analysis/overrides/route.ts
+
+import { withAuth } from "@/shared/utils/withAuth";
+import {
+  getMerchantOverridesHandler,
+  saveMerchantOverrideHandler,
+  deleteMerchantOverrideHandler,
+} from "@/features/analysis/api/merchantOverridesHandler";
+
+export const GET = withAuth(getMerchantOverridesHandler);
+export const PUT = withAuth(saveMerchantOverrideHandler);
+export const DELETE = withAuth(deleteMerchantOverrideHandler);
@@ -0,0 +1,7 @@
+// src/app/api/analysis/practices/route.ts
+// The unknown-practice log is shared by every user, so only admins may review it
+
+import { withAdmin } from "@/shared/utils/withAuth";
+import { getPracticeTaxonomyHandler } from "@/features/analysis/api/practiceTaxonomyHandler";
+
+export const GET = withAdmin(getPracticeTaxonomyHandler);
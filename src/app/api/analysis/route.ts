@@ -1,5 +1,6 @@
 // src/app/api/analysis/route.ts
 
+import { withAuth } from "@/shared/utils/withAuth";
 import { analyzeTransactionsHandler } from "@/features/analysis/api/analyzeTransactionsHandler";
 
-export { analyzeTransactionsHandler as POST };
\ No newline at end of file
+export const POST = withAuth(analyzeTransactionsHandler);
\ No newline at end of file
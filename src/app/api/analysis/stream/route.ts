@@ -0,0 +1,6 @@
+// src/app/api/analysis/stream/route.ts
+
+import { withAuth } from "@/shared/utils/withAuth";
+import { streamAnalyzeTransactionsHandler } from "@/features/analysis/api/streamAnalysisHandler";
+
+export const POST = withAuth(streamAnalyzeTransactionsHandler);
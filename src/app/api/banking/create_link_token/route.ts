@@ -1,5 +1,6 @@
 // src/app/api/banking/create_link_token/route.ts
 
+import { withAuth } from "@/shared/utils/withAuth";
 import { createLinkTokenHandler } from "@/features/banking/api/createLinkToken";
 
-export { createLinkTokenHandler as GET };
\ No newline at end of file
+export const GET = withAuth(createLinkTokenHandler);
\ No newline at end of file
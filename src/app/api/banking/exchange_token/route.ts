@@ -1,5 +1,6 @@
 // src/app/api/banking/exchange_token/route.ts
 
+import { withAuth } from '@/shared/utils/withAuth';
 import { exchangeTokenHandler } from '@/features/banking/api/exchangeToken';
 
-export { exchangeTokenHandler as POST };
\ No newline at end of file
+export const POST = withAuth(exchangeTokenHandler);
\ No newline at end of file
@@ -0,0 +1,12 @@
+// src/app/api/banking/items/route.ts
+
+import { withAuth } from '@/shared/utils/withAuth';
+import {
+  getPlaidItemsHandler,
+  updatePlaidItemHandler,
+  deletePlaidItemsHandler,
+} from '@/features/banking/api/plaidItems';
+
+export const GET = withAuth(getPlaidItemsHandler);
+export const PATCH = withAuth(updatePlaidItemHandler);
+export const DELETE = withAuth(deletePlaidItemsHandler);
@@ -1,5 +1,6 @@
 // src/app/api/banking/sandbox_token/route.ts
 
+import { withAuth } from '@/shared/utils/withAuth';
 import { createSandboxTokenHandler } from '@/features/banking/api/createSandboxToken';
 
-export { createSandboxTokenHandler as POST };
\ No newline at end of file
+export const POST = withAuth(createSandboxTokenHandler);
\ No newline at end of file
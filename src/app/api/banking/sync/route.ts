@@ -0,0 +1,6 @@
+// src/app/api/banking/sync/route.ts
+
+import { withAuth } from '@/shared/utils/withAuth';
+import { syncTransactionsHandler } from '@/features/banking/api/syncTransactions';
+
+export const POST = withAuth(syncTransactionsHandler);
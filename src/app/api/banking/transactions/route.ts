@@ -1,5 +1,6 @@
 // src/app/api/banking/transactions/route.ts
 
+import { withAuth } from '@/shared/utils/withAuth';
 import { getTransactionsHandler } from '@/features/banking/api/getTransactions';
 
-export { getTransactionsHandler as POST };
\ No newline at end of file
+export const POST = withAuth(getTransactionsHandler);
\ No newline at end of file
@@ -1,5 +1,6 @@
 // src/app/api/charity/details/route.ts
 
+import { withAuth } from '@/shared/utils/withAuth';
 import { getCharityDetailsHandler } from '@/features/charity/api/getCharityDetailsHandler';
 
-export { getCharityDetailsHandler as GET };
\ No newline at end of file
+export const GET = withAuth(getCharityDetailsHandler);
\ No newline at end of file
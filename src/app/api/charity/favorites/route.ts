@@ -0,0 +1,12 @@
+// src/app/api/charity/favorites/route.ts
+
+import { withAuth } from "@/shared/utils/withAuth";
+import {
+  getFavoriteCharitiesHandler,
+  saveFavoriteCharityHandler,
+  removeFavoriteCharityHandler,
+} from "@/features/charity/api/favoriteCharitiesHandler";
+
+export const GET = withAuth(getFavoriteCharitiesHandler);
+export const PUT = withAuth(saveFavoriteCharityHandler);
+export const DELETE = withAuth(removeFavoriteCharityHandler);
@@ -0,0 +1,14 @@
+// src/app/api/charity/offsets/route.ts
+
+import { withAuth } from "@/shared/utils/withAuth";
+import {
+  getOffsetsHandler,
+  recordOffsetHandler,
+  confirmOffsetHandler,
+  removeOffsetHandler,
+} from "@/features/charity/api/offsetLedgerHandler";
+
+export const GET = withAuth(getOffsetsHandler);
+export const POST = withAuth(recordOffsetHandler);
+export const PATCH = withAuth(confirmOffsetHandler);
+export const DELETE = withAuth(removeOffsetHandler);
@@ -1,5 +1,6 @@
 // src/app/api/charity/recommend/route.ts
 
+import { withAuth } from '@/shared/utils/withAuth';
 import { getRecommendedCharitiesHandler } from '@/features/charity/api/getRecommendedCharitiesHandler';
 
-export { getRecommendedCharitiesHandler as GET };
\ No newline at end of file
+export const GET = withAuth(getRecommendedCharitiesHandler);
\ No newline at end of file
@@ -1,5 +1,6 @@
 // src/app/api/charity/search/route.ts
 
+import { withAuth } from '@/shared/utils/withAuth';
 import { searchCharitiesHandler } from '@/features/charity/api/searchCharitiesHandler';
 
-export { searchCharitiesHandler as GET };
\ No newline at end of file
+export const GET = withAuth(searchCharitiesHandler);
\ No newline at end of file
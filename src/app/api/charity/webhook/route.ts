@@ -0,0 +1,6 @@
+// src/app/api/charity/webhook/route.ts
+// every.org posts here, so this route is authenticated by signature instead of withAuth
+
+import { donationWebhookHandler } from "@/features/charity/api/donationWebhookHandler";
+
+export const POST = donationWebhookHandler;
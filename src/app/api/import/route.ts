@@ -0,0 +1,6 @@
+// src/app/api/import/route.ts
+
+import { withAuth } from '@/shared/utils/withAuth';
+import { importTransactionsHandler } from '@/features/import/api/importTransactionsHandler';
+
+export const POST = withAuth(importTransactionsHandler);
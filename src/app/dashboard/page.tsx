@@ -7,15 +7,35 @@ import { ErrorAlert } from "@/shared/components/ui/ErrorAlert";
 import { useTransactionStorage } from "@/features/analysis/useTransactionStorage";
 import { useTransactionAnalysis } from "@/features/analysis/useTransactionAnalysis";
 import { Transaction } from "@/shared/types/transactions";
+import { authFetch } from "@/shared/utils/authFetch";
 import { config } from "@/config";
 import { DashboardLayout } from "@/components/dashboard/DashboardLayout";
 import { DashboardSidebar } from "@/components/dashboard/DashboardSidebar";
 import { GroupedImpactSummary } from "@/features/analysis/GroupedImpactSummary";
 import { PlaidConnectionSection } from "@/features/banking/PlaidConnectionSection";
+import PlaidLink from "@/features/banking/PlaidLink";
+import { LinkedAccountsPanel } from "@/features/banking/LinkedAccountsPanel";
+import { useLinkedItems } from "@/features/banking/useLinkedItems";
+import { StatementImport } from "@/features/import/StatementImport";
+import { StatementImportResult } from "@/features/import/types";
 import { TransactionList } from "@/features/analysis/TransactionList";
 import { ConsolidatedImpactView } from "@/features/analysis/ConsolidatedImpactView";
 import { CategoryExperimentView } from "@/features/analysis/CategoryExperimentView";
 import { PracticeDebtTable } from "@/features/analysis/PracticeDebtTable";
+import { TrendsView } from "@/features/analysis/TrendsView";
+import {
+  aggregateByCategory,
+  summarizeImpact,
+  UNCATEGORIZED,
+} from "@/features/analysis/impactAggregation";
+import { useImpactScore } from "@/features/analysis/useImpactScore";
+import { OffsetHistoryView } from "@/features/charity/OffsetHistoryView";
+import { useOffsetLedger } from "@/features/charity/useOffsetLedger";
+import { useMerchantOverrides, OverrideResult } from "@/features/analysis/useMerchantOverrides";
+import { useConfidenceMode } from "@/features/analysis/useConfidenceMode";
+import { ConfidenceMode } from "@/features/analysis/practiceConfidence";
+import { MerchantOverrideInput } from "@/features/analysis/merchantOverrides";
+import { getTransactionId } from "@/shared/utils/transactionIdentity";
 import {
   deleteAllUserTransactions,
   userHasData,
@@ -50,6 +70,7 @@ export default function Dashboard() {
   const [debugConnectionStatus, setDebugConnectionStatus] = useState(false);
   const [activeView, setActiveView] = useState<string>("transactions");
   const [showDebugPanel, setShowDebugPanel] = useState(false);
+  const [accountFilter, setAccountFilter] = useState<string>("all");
 
   // Authentication state
   const { user, loading: authLoading, logout } = useAuth();
@@ -65,9 +86,35 @@ export default function Dashboard() {
     resetStorage,
   } = useTransactionStorage(user);
 
+  // Linked institutions and their accounts
+  const {
+    linkedItems,
+    error: linkedItemsError,
+    excludedAccountIds,
+    refreshLinkedItems,
+    updateLinkedItem,
+    disconnectItem,
+  } = useLinkedItems(user);
+
   // Transaction analysis
-  const { analyzedData, analysisStatus, analyzeTransactions } =
-    useTransactionAnalysis();
+  const { analyzedData, analysisStatus, analysisProgress, analyzeTransactions } =
+    useTransactionAnalysis({ stream: true });
+
+  // User corrections to merchant practices and weights
+  const { error: overrideError, saveOverride, removeOverride } = useMerchantOverrides();
+
+  // How practices the model is unsure of count towards the debt
+  const { confidenceMode, error: confidenceError, setConfidenceMode } = useConfidenceMode(user);
+
+  // Donations recorded against the user's societal debt
+  const {
+    offsets,
+    offsetSummary,
+    error: offsetError,
+    recordOffset,
+    confirmOffset,
+    removeOffset,
+  } = useOffsetLedger(user);
 
   // Track connection status independent of actual Plaid connection
   const [connectionStatus, setConnectionStatus] = useState({
@@ -77,121 +124,83 @@ export default function Dashboard() {
   });
 
   // Consolidate transactions for display - wrap in useMemo to avoid dependencies warning
-  const displayTransactions = useMemo(() => {
+  const allTransactions = useMemo(() => {
     return analyzedData?.transactions || savedTransactions || [];
   }, [analyzedData?.transactions, savedTransactions]);
 
-  // Calculate practice donations for the PracticeDebtTable
-  const practiceDonations = useMemo(() => {
-    if (!displayTransactions || displayTransactions.length === 0) {
-      return {};
-    }
-
-    const donations: Record<
-      string,
-      { charity: { name: string; url: string } | null; amount: number }
-    > = {};
-
-    displayTransactions.forEach((tx) => {
-      // Process unethical practices
-      (tx.unethicalPractices || []).forEach((practice) => {
-        if (!donations[practice]) {
-          donations[practice] = {
-            charity: tx.charities?.[practice] || null,
-            amount: 0,
-          };
-        }
-
-        // Add the debt amount for this practice
-        const weight = tx.practiceWeights?.[practice] || 0;
-        donations[practice].amount += tx.amount * (weight / 100);
-      });
-
-      // Process ethical practices (negative debt)
-      (tx.ethicalPractices || []).forEach((practice) => {
-        if (!donations[practice]) {
-          donations[practice] = {
-            charity: tx.charities?.[practice] || null,
-            amount: 0,
-          };
-        }
-
-        // Subtract the credit amount for this practice
-        const weight = tx.practiceWeights?.[practice] || 0;
-        donations[practice].amount -= tx.amount * (weight / 100);
-      });
+  // Leave out accounts the user has switched off, and narrow to one account if picked.
+  // Transactions without an account (sample data) only show in the unfiltered view
+  const displayTransactions = useMemo(() => {
+    return allTransactions.filter((tx) => {
+      if (tx.accountId && excludedAccountIds.has(tx.accountId)) return false;
+      if (accountFilter === "all") return true;
+      return tx.accountId === accountFilter;
     });
+  }, [allTransactions, excludedAccountIds, accountFilter]);
 
-    return donations;
-  }, [displayTransactions]);
-
-  // Calculate positive purchase amount
-  const positiveAmount = useMemo(() => {
-    let total = 0;
+  // Stored totals cover every account, so recompute them once anything is filtered out
+  const displayTotalSocietalDebt = useMemo(() => {
+    if (displayTransactions.length === allTransactions.length) {
+      return totalSocietalDebt || analyzedData?.totalSocietalDebt || 0;
+    }
 
-    // Iterate through all transactions
-    displayTransactions.forEach((tx) => {
-      // If we have practice-level details
-      if (tx.ethicalPractices && tx.ethicalPractices.length > 0) {
-        total += tx.amount || 0;
-      }
-      // Or if we have overall societal debt that's negative (positive impact)
-      else if (tx.societalDebt && tx.societalDebt < 0) {
-        total += tx.amount || 0;
-      }
-    });
+    return summarizeImpact(displayTransactions).totalSocietalDebt;
+  }, [displayTransactions, allTransactions, totalSocietalDebt, analyzedData?.totalSocietalDebt]);
+
+  // Accounts that can be picked in the filter
+  const accountOptions = useMemo(() => {
+    return linkedItems.flatMap((item) =>
+      item.accounts
+        .filter((account) => account.included)
+        .map((account) => ({
+          accountId: account.accountId,
+          label: `${item.nickname || item.institutionName || "Bank"} - ${
+            account.nickname || account.name
+          }${account.mask ? ` ••${account.mask}` : ""}`,
+        }))
+    );
+  }, [linkedItems]);
 
-    return total;
-  }, [displayTransactions]);
+  // Fall back to all accounts if the filtered account was excluded or disconnected
+  useEffect(() => {
+    if (
+      accountFilter !== "all" &&
+      !accountOptions.some((option) => option.accountId === accountFilter)
+    ) {
+      setAccountFilter("all");
+    }
+  }, [accountFilter, accountOptions]);
 
-  // Calculate negative purchase amount
-  const negativeAmount = useMemo(() => {
-    let total = 0;
+  // Spending on harmful and beneficial purchases for the sidebar
+  const impactSummary = useMemo(
+    () => summarizeImpact(displayTransactions),
+    [displayTransactions]
+  );
 
-    // Iterate through all transactions
-    displayTransactions.forEach((tx) => {
-      // If we have practice-level details
-      if (tx.unethicalPractices && tx.unethicalPractices.length > 0) {
-        total += tx.amount || 0;
-      }
-      // Or if we have overall societal debt that's positive (negative impact)
-      else if (tx.societalDebt && tx.societalDebt > 0) {
-        total += tx.amount || 0;
-      }
-    });
+  // Impact score from the user's chosen scoring model
+  const { impactScore, scoringModel, scoringModels, setScoringModel } = useImpactScore(
+    user,
+    displayTransactions
+  );
 
-    return total;
+  // Debt per impact category, for splitting an offset across favorite charities
+  const categoryDebts = useMemo(() => {
+    const debts: Record<string, number> = {};
+    aggregateByCategory(displayTransactions)
+      .filter((category) => category.name !== UNCATEGORIZED && category.debtAmount > 0)
+      .forEach((category) => {
+        debts[category.name] = category.debtAmount;
+      });
+    return debts;
   }, [displayTransactions]);
 
   // Calculate top negative impact categories for recommended offsets
   const negativeCategories = useMemo(() => {
-    const categories: Record<string, number> = {};
-
-    // Iterate through all transactions to collect category impact
-    displayTransactions.forEach((tx) => {
-      // Skip if no unethical practices or no practice categories
-      if (!tx.unethicalPractices || !tx.practiceCategories) return;
-
-      // Group by category
-      tx.unethicalPractices.forEach((practice) => {
-        const category = tx.practiceCategories?.[practice];
-        if (category) {
-          // Get practice weight or default to 10%
-          const weight = tx.practiceWeights?.[practice] || 10;
-          const impact = (tx.amount || 0) * (weight / 100);
-
-          // Add to category total
-          categories[category] = (categories[category] || 0) + impact;
-        }
-      });
-    });
-
-    // Convert to array and sort
-    return Object.entries(categories)
+    return Object.entries(categoryDebts)
       .map(([name, amount]) => ({ name, amount }))
       .sort((a, b) => b.amount - a.amount)
       .slice(0, 3); // Top 3 categories
-  }, [displayTransactions]);
+  }, [categoryDebts]);
 
   // Get the sample data generation functions
   const { generateSampleTransactions } = useSampleData();
@@ -266,7 +275,7 @@ export default function Dashboard() {
 
       try {
         // Exchange public token for access token
-        const exchangeResponse = await fetch("/api/banking/exchange_token", {
+        const exchangeResponse = await authFetch("/api/banking/exchange_token", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({ public_token: publicToken }),
@@ -276,45 +285,37 @@ export default function Dashboard() {
           throw new Error(`Token exchange failed: ${exchangeResponse.status}`);
         }
 
-        const { access_token } = await exchangeResponse.json();
+        // The access token stays on the server; we only get an opaque item id
+        const { itemId } = await exchangeResponse.json();
 
-        if (!access_token) {
-          throw new Error("No access token received from server");
+        if (!itemId) {
+          throw new Error("Bank connection was not saved");
         }
 
-        console.log("✅ Successfully exchanged token for access_token");
+        console.log("✅ Successfully linked bank account");
 
-        // Now get transactions with this access token
-        const transactionsResponse = await fetch("/api/banking/transactions", {
+        // Sync changes since the last cursor into the stored transactions
+        const syncResponse = await authFetch("/api/banking/sync", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ access_token }),
+          body: JSON.stringify({ itemId }),
         });
 
-        if (!transactionsResponse.ok) {
-          throw new Error(
-            `Failed to fetch transactions: ${transactionsResponse.status}`
-          );
+        if (!syncResponse.ok) {
+          throw new Error(`Failed to sync transactions: ${syncResponse.status}`);
         }
 
-        const transactionsData = await transactionsResponse.json();
+        const syncData = await syncResponse.json();
+        await refreshLinkedItems();
         console.log(
-          `📊 Fetched ${transactionsData.length} transactions from Plaid`
+          `📊 Synced ${syncData.added.length} new, ${syncData.modifiedCount} modified and ${syncData.removedCount} removed transactions from Plaid`
         );
 
-        // Map Plaid transactions to our format with type safety
-        const mappedTransactions = transactionsData.map(
-          (tx: Record<string, unknown>) => ({
-            date: String(tx.date || ""),
-            name: String(tx.name || "Unknown"),
-            amount: Math.abs(Number(tx.amount) || 0),
-            analyzed: false, // Ensure they get analyzed
-          })
-        );
+        // Only the newly added transactions are unanalyzed, so only they get sent for analysis
+        const syncedTransactions = syncData.transactions as Transaction[];
 
-        // Analyze the transactions
-        if (mappedTransactions.length > 0) {
-          analyzeTransactions(mappedTransactions);
+        if (syncedTransactions.length > 0) {
+          analyzeTransactions(syncedTransactions);
 
           // Update connection status
           setConnectionStatus({
@@ -354,7 +355,22 @@ export default function Dashboard() {
         }
       }
     },
-    [handleLoadSampleData, analyzeTransactions]
+    [handleLoadSampleData, analyzeTransactions, refreshLinkedItems]
+  );
+
+  // Handle an imported CSV/OFX/QFX statement - the server has already stored the new
+  // transactions, so analyze them like a Plaid sync
+  const handleStatementImported = useCallback(
+    (result: StatementImportResult) => {
+      console.log(
+        `📥 Imported ${result.added.length} new transactions, ${result.duplicateCount} already stored`
+      );
+
+      if (result.added.length > 0) {
+        analyzeTransactions(result.transactions);
+      }
+    },
+    [analyzeTransactions]
   );
 
   // Try to load data directly from Firebase if hook-based loading fails
@@ -441,10 +457,11 @@ export default function Dashboard() {
         `📊 Using ${savedTransactions.length} saved transactions from hook`
       );
 
-      // Mark all transactions as analyzed
+      // Mark stored transactions as analyzed, except ones a sync added
+      // that haven't been analyzed yet
       const markedTransactions = savedTransactions.map((tx) => ({
         ...tx,
-        analyzed: true,
+        analyzed: tx.analyzed !== false,
       }));
 
       analyzeTransactions(markedTransactions);
@@ -525,8 +542,11 @@ export default function Dashboard() {
     }
   }, [user, resetStorage]);
 
-  // Handle disconnecting bank
+  // Handle disconnecting every linked bank
   const handleDisconnectBank = useCallback(() => {
+    // Remove the linked items and their server-side tokens
+    disconnectItem();
+
     setConnectionStatus({
       isConnected: false,
       isLoading: false,
@@ -537,22 +557,89 @@ export default function Dashboard() {
 
     // Also clear analyzed data if needed
     resetStorage();
-  }, [resetStorage]);
+  }, [disconnectItem, resetStorage]);
+
+  // Handle disconnecting a single institution - the other accounts keep their data
+  const handleDisconnectItem = useCallback(
+    async (itemId: string) => {
+      const result = await disconnectItem(itemId);
+      if (!result) return;
+
+      if (result.transactions.length === 0 && linkedItems.length <= 1) {
+        handleDisconnectBank();
+        return;
+      }
+
+      console.log(
+        `🗑️ Disconnected bank, ${result.removedCount} transactions removed, ${result.transactions.length} kept`
+      );
+
+      // The server already dropped this institution's transactions from storage;
+      // re-run the local totals over what is left
+      analyzeTransactions(
+        result.transactions.map((tx) => ({
+          ...tx,
+          analyzed: tx.analyzed !== false,
+        }))
+      );
+    },
+    [disconnectItem, linkedItems.length, handleDisconnectBank, analyzeTransactions]
+  );
+
+  // Swap in the transactions the server re-scored after an override or the confidence mode changed
+  const applyOverrideResult = useCallback(
+    (result: OverrideResult | null): boolean => {
+      if (!result) return false;
+
+      const updatedById = new Map(result.updated.map((tx) => [getTransactionId(tx), tx]));
+      analyzeTransactions(
+        allTransactions.map((tx) => updatedById.get(getTransactionId(tx)) ?? tx)
+      );
+      return true;
+    },
+    [allTransactions, analyzeTransactions]
+  );
+
+  const handleSaveOverride = useCallback(
+    async (input: MerchantOverrideInput) => applyOverrideResult(await saveOverride(input)),
+    [saveOverride, applyOverrideResult]
+  );
+
+  const handleResetOverride = useCallback(
+    async (merchantName: string) => applyOverrideResult(await removeOverride(merchantName)),
+    [removeOverride, applyOverrideResult]
+  );
+
+  const handleConfidenceModeChange = useCallback(
+    async (mode: ConfidenceMode) => {
+      applyOverrideResult(await setConfidenceMode(mode));
+    },
+    [setConfidenceMode, applyOverrideResult]
+  );
 
   // Determine if we have data to show
   const hasData = Boolean(analyzedData && analyzedData.transactions.length > 0);
 
   // Get error state
-  const error = connectionStatus.error || analysisStatus.error || storageError;
+  const error =
+    connectionStatus.error ||
+    analysisStatus.error ||
+    storageError ||
+    linkedItemsError ||
+    overrideError ||
+    confidenceError ||
+    offsetError;
   const effectiveConnectionStatus =
-    connectionStatus.isConnected || debugConnectionStatus;
+    connectionStatus.isConnected || debugConnectionStatus || linkedItems.length > 0;
 
   // Get the currently active view component
   const renderActiveView = () => {
-    // Check if any loading state is active
+    // Streaming analysis shows transactions as they are scored,
+    // so only block on analysis until the first results arrive
+    const isAnalyzing = analysisStatus.status === "loading";
     const isLoading =
       connectionStatus.isLoading ||
-      analysisStatus.status === "loading" ||
+      (isAnalyzing && !hasData) ||
       storageLoading ||
       isLoadingDirect;
 
@@ -581,7 +668,7 @@ export default function Dashboard() {
           <p className="text-gray-600 mb-4">
             {effectiveConnectionStatus
               ? "We couldn't find any transactions in your connected account."
-              : "Connect your bank or use the debug tools to load transactions."}
+              : "Connect your bank, import a statement or use the debug tools to load transactions."}
           </p>
           {effectiveConnectionStatus && (
             <button
@@ -601,37 +688,44 @@ export default function Dashboard() {
         return (
           <ConsolidatedImpactView
             transactions={displayTransactions}
-            totalSocietalDebt={
-              totalSocietalDebt || analyzedData?.totalSocietalDebt || 0
-            }
+            totalSocietalDebt={displayTotalSocietalDebt}
+            onRecordOffset={recordOffset}
           />
         );
       case "categories":
         return (
           <CategoryExperimentView
             transactions={displayTransactions}
-            totalSocietalDebt={
-              totalSocietalDebt || analyzedData?.totalSocietalDebt || 0
-            }
+            totalSocietalDebt={displayTotalSocietalDebt}
+            onRecordOffset={recordOffset}
           />
         );
       case "practices":
         return (
           <PracticeDebtTable
-            practiceDonations={practiceDonations}
             transactions={displayTransactions}
-            totalSocietalDebt={
-              totalSocietalDebt || analyzedData?.totalSocietalDebt || 0
-            }
+            totalSocietalDebt={displayTotalSocietalDebt}
+            onRecordOffset={recordOffset}
           />
         );
       case "grouped-impact":
         return (
           <GroupedImpactSummary
             transactions={displayTransactions}
-            totalSocietalDebt={
-              totalSocietalDebt || analyzedData?.totalSocietalDebt || 0
-            }
+            totalSocietalDebt={displayTotalSocietalDebt}
+            onRecordOffset={recordOffset}
+          />
+        );
+      case "trends":
+        return <TrendsView transactions={displayTransactions} />;
+      case "offsets":
+        return (
+          <OffsetHistoryView
+            offsets={offsets}
+            offsetSummary={offsetSummary}
+            totalSocietalDebt={displayTotalSocietalDebt}
+            onConfirmOffset={confirmOffset}
+            onRemoveOffset={removeOffset}
           />
         );
       case "transactions":
@@ -640,6 +734,10 @@ export default function Dashboard() {
           <TransactionList
             transactions={displayTransactions}
             getColorClass={getColorClass}
+            isAnalyzing={isAnalyzing}
+            progress={analysisProgress}
+            onSaveOverride={handleSaveOverride}
+            onResetOverride={handleResetOverride}
           />
         );
     }
@@ -677,13 +775,20 @@ export default function Dashboard() {
           user={user}
           activeView={activeView}
           onViewChange={setActiveView}
-          totalSocietalDebt={
-            totalSocietalDebt || analyzedData?.totalSocietalDebt || 0
-          }
-          offsetsThisMonth={negativeAmount}
-          positiveImpact={positiveAmount}
+          totalSocietalDebt={displayTotalSocietalDebt}
+          offsetSummary={offsetSummary}
+          negativeImpact={impactSummary.harmfulSpending}
+          positiveImpact={impactSummary.beneficialSpending}
           topNegativeCategories={negativeCategories}
+          categoryDebts={categoryDebts}
           hasTransactions={hasData}
+          impactScore={impactScore}
+          scoringModel={scoringModel}
+          scoringModels={scoringModels}
+          onScoringModelChange={setScoringModel}
+          confidenceMode={confidenceMode}
+          onConfidenceModeChange={handleConfidenceModeChange}
+          onRecordOffset={recordOffset}
         />
 
         {/* Main content */}
@@ -705,6 +810,48 @@ export default function Dashboard() {
             </div>
           )}
 
+          {/* Statement import for banks that aren't on Plaid */}
+          <div className="bg-white rounded-xl shadow-md p-6">
+            <h2 className="text-lg font-semibold text-blue-800 mb-2">
+              Import a Statement
+            </h2>
+            <p className="text-sm text-blue-700 mb-4">
+              Bank not available through Plaid? Upload a statement export instead.
+            </p>
+            <StatementImport onImported={handleStatementImported} />
+          </div>
+
+          {/* Linked banks - nicknames, included accounts and the account filter */}
+          {linkedItems.length > 0 && (
+            <div className="bg-white rounded-xl shadow-md p-6">
+              <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+                <h2 className="text-lg font-semibold text-blue-800">
+                  Linked Accounts
+                </h2>
+                <div className="flex items-center gap-3">
+                  <select
+                    value={accountFilter}
+                    onChange={(e) => setAccountFilter(e.target.value)}
+                    className="border border-gray-300 rounded px-2 py-1 text-sm"
+                  >
+                    <option value="all">All included accounts</option>
+                    {accountOptions.map((option) => (
+                      <option key={option.accountId} value={option.accountId}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                  <PlaidLink onSuccess={handlePlaidSuccess} />
+                </div>
+              </div>
+              <LinkedAccountsPanel
+                items={linkedItems}
+                onUpdateItem={updateLinkedItem}
+                onDisconnectItem={handleDisconnectItem}
+              />
+            </div>
+          )}
+
           {/* Main view content */}
           <div className="bg-white rounded-xl shadow-md overflow-hidden">
             {renderActiveView()}
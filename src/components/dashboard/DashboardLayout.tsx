@@ -47,6 +47,7 @@ export function DashboardLayout({
                     <DisconnectBankButton 
                       onDisconnect={onDisconnectBank}
                       isConnected={isBankConnected}
+                      label="Disconnect All"
                     />
                   )}
                 </div>
@@ -2,7 +2,17 @@
 "use client";
 
 import { User } from "firebase/auth";
-import { useCallback } from "react";
+import { useCallback, useState } from "react";
+import { ImpactScoreCard } from "./ImpactScoreCard";
+import { DonationModal } from "@/features/charity/DonationModal";
+import { OffsetEverythingModal } from "@/features/charity/OffsetEverythingModal";
+import { OffsetInput, OffsetSummary } from "@/features/charity/offsetLedger";
+import {
+  ImpactScore,
+  ImpactScoringModel,
+  ScoringModelId,
+} from "@/features/analysis/scoring";
+import { CONFIDENCE_MODES, ConfidenceMode } from "@/features/analysis/practiceConfidence";
 
 interface CategoryImpact {
   name: string;
@@ -14,10 +24,19 @@ interface DashboardSidebarProps {
   activeView: string;
   onViewChange: (view: string) => void;
   totalSocietalDebt: number;
-  offsetsThisMonth: number;
+  offsetSummary: OffsetSummary;
+  negativeImpact: number;
   positiveImpact: number;
   topNegativeCategories: CategoryImpact[];
+  categoryDebts?: Record<string, number>; // Debt in every category, for offsetting everything at once
   hasTransactions: boolean;
+  impactScore?: ImpactScore | null;
+  scoringModel?: ImpactScoringModel;
+  scoringModels?: ImpactScoringModel[];
+  onScoringModelChange?: (modelId: ScoringModelId) => void;
+  confidenceMode?: ConfidenceMode;
+  onConfidenceModeChange?: (mode: ConfidenceMode) => void;
+  onRecordOffset?: (offset: OffsetInput) => void;
 }
 
 export function DashboardSidebar({
@@ -25,11 +44,26 @@ export function DashboardSidebar({
   activeView,
   onViewChange,
   totalSocietalDebt,
-  offsetsThisMonth,
+  offsetSummary,
+  negativeImpact,
   positiveImpact,
   topNegativeCategories,
+  categoryDebts = {},
   hasTransactions,
+  impactScore,
+  scoringModel,
+  scoringModels = [],
+  onScoringModelChange,
+  confidenceMode = "include",
+  onConfidenceModeChange,
+  onRecordOffset,
 }: DashboardSidebarProps) {
+  const [offsetCategory, setOffsetCategory] = useState<CategoryImpact | null>(null);
+  const [isOffsetEverythingOpen, setIsOffsetEverythingOpen] = useState(false);
+
+  // Only confirmed donations reduce the debt
+  const netSocietalDebt = totalSocietalDebt - offsetSummary.confirmed;
+
   // Get color based on societal debt
   const getDebtColor = useCallback((debt: number): string => {
     if (debt <= 0) return "from-green-500 to-teal-600";
@@ -43,20 +77,56 @@ export function DashboardSidebar({
       <div className="bg-white rounded-xl shadow-sm overflow-hidden mb-6">
         <div
           className={`bg-gradient-to-r ${getDebtColor(
-            totalSocietalDebt
+            netSocietalDebt
           )} p-6 text-white`}
         >
           <div className="text-center">
-            <h2 className="text-xl font-bold mb-1">Societal Debt</h2>
+            <h2 className="text-xl font-bold mb-1">Net Societal Debt</h2>
             <div className="text-5xl font-black mb-2">
-              ${Math.abs(totalSocietalDebt).toFixed(2)}
+              ${Math.abs(netSocietalDebt).toFixed(2)}
             </div>
             <div className="text-sm font-medium">
-              {totalSocietalDebt <= 0 ? "Positive Impact" : "Negative Impact"}
+              {netSocietalDebt <= 0 ? "Positive Impact" : "Negative Impact"}
             </div>
+            {offsetSummary.confirmed > 0 && (
+              <div className="text-xs mt-1 opacity-90">
+                ${totalSocietalDebt.toFixed(2)} debt less ${offsetSummary.confirmed.toFixed(2)} offset
+              </div>
+            )}
           </div>
         </div>
 
+        {/* Impact score with the model that produced it */}
+        {impactScore && scoringModel && onScoringModelChange && (
+          <ImpactScoreCard
+            impactScore={impactScore}
+            scoringModel={scoringModel}
+            scoringModels={scoringModels}
+            onScoringModelChange={onScoringModelChange}
+          />
+        )}
+
+        {/* How practices the model isn't sure of count towards the debt */}
+        {hasTransactions && onConfidenceModeChange && (
+          <div className="p-4 border-b border-gray-200">
+            <label className="block text-gray-600 mb-2">Low-Confidence Practices</label>
+            <select
+              value={confidenceMode}
+              onChange={(e) => onConfidenceModeChange(e.target.value as ConfidenceMode)}
+              className="w-full border border-gray-300 rounded px-2 py-1 text-sm mb-1"
+            >
+              {CONFIDENCE_MODES.map((mode) => (
+                <option key={mode.id} value={mode.id}>
+                  {mode.name}
+                </option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-500">
+              {CONFIDENCE_MODES.find((mode) => mode.id === confidenceMode)?.description}
+            </p>
+          </div>
+        )}
+
         {/* Debt summary */}
         <div className="p-4 border-b border-gray-200">
           <div className="flex items-center justify-between">
@@ -72,9 +142,32 @@ export function DashboardSidebar({
           <div className="flex items-center justify-between">
             <span className="text-gray-600">Negative Purchases</span>
             <span className="font-bold text-red-600">
-              ${offsetsThisMonth.toFixed(2)}
+              ${negativeImpact.toFixed(2)}
+            </span>
+          </div>
+        </div>
+
+        {/* Donations recorded against the debt */}
+        <div className="p-4 border-b border-gray-200">
+          <div className="flex items-center justify-between">
+            <span className="text-gray-600">Offsets This Month</span>
+            <span className="font-bold text-green-600">
+              ${offsetSummary.confirmedThisMonth.toFixed(2)}
             </span>
           </div>
+          {offsetSummary.pending > 0 && (
+            <div className="text-xs text-gray-500 text-right">
+              ${offsetSummary.pending.toFixed(2)} awaiting confirmation
+            </div>
+          )}
+          {netSocietalDebt > 0 && Object.keys(categoryDebts).length > 0 && (
+            <button
+              onClick={() => setIsOffsetEverythingOpen(true)}
+              className="mt-3 w-full bg-green-600 hover:bg-green-700 text-white text-sm py-2 rounded-lg"
+            >
+              Offset Everything
+            </button>
+          )}
         </div>
 
         {/* Navigation */}
@@ -111,6 +204,18 @@ export function DashboardSidebar({
               onClick={() => onViewChange("practices")}
               disabled={!hasTransactions}
             />
+            <NavButton
+              label="Trends"
+              isActive={activeView === "trends"}
+              onClick={() => onViewChange("trends")}
+              disabled={!hasTransactions}
+            />
+            <NavButton
+              label="Offset History"
+              isActive={activeView === "offsets"}
+              onClick={() => onViewChange("offsets")}
+              disabled={!hasTransactions}
+            />
           </nav>
         </div>
       </div>
@@ -155,12 +260,7 @@ export function DashboardSidebar({
                     </span>
                     <button
                       className="text-xs bg-green-600 hover:bg-green-700 text-white px-3 py-1 rounded-full"
-                      onClick={() => {
-                        // In a real implementation, this would trigger the donation modal
-                        alert(
-                          `This would open the donation modal for ${category.name} in a complete implementation`
-                        );
-                      }}
+                      onClick={() => setOffsetCategory(category)}
                     >
                       Offset Impact
                     </button>
@@ -181,6 +281,27 @@ export function DashboardSidebar({
           </div>
         </div>
       )}
+
+      {offsetCategory && (
+        <DonationModal
+          practice={offsetCategory.name}
+          amount={offsetCategory.amount}
+          category={offsetCategory.name}
+          isOpen={offsetCategory !== null}
+          onClose={() => setOffsetCategory(null)}
+          onDonate={onRecordOffset}
+        />
+      )}
+
+      {isOffsetEverythingOpen && (
+        <OffsetEverythingModal
+          amount={Math.max(0, netSocietalDebt)}
+          categoryDebts={categoryDebts}
+          isOpen={isOffsetEverythingOpen}
+          onClose={() => setIsOffsetEverythingOpen(false)}
+          onDonate={onRecordOffset}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,116 @@
+// src/components/dashboard/ImpactScoreCard.tsx
+"use client";
+
+import { useState } from "react";
+import {
+  ImpactScore,
+  ImpactScoringModel,
+  ScoreFactor,
+  ScoringModelId,
+} from "@/features/analysis/scoring";
+
+interface ImpactScoreCardProps {
+  impactScore: ImpactScore;
+  scoringModel: ImpactScoringModel;
+  scoringModels: ImpactScoringModel[];
+  onScoringModelChange: (modelId: ScoringModelId) => void;
+}
+
+function formatFactor({ value, format }: ScoreFactor): string {
+  if (format === "currency") return `$${value.toFixed(2)}`;
+  if (format === "percent") return `${value.toFixed(1)}%`;
+  return value.toFixed(2);
+}
+
+// Higher scores are worse
+function scoreColor(score: number): string {
+  if (score < 40) return "bg-green-500";
+  if (score < 70) return "bg-yellow-500";
+  return "bg-red-500";
+}
+
+export function ImpactScoreCard({
+  impactScore,
+  scoringModel,
+  scoringModels,
+  onScoringModelChange,
+}: ImpactScoreCardProps) {
+  const [showExplanation, setShowExplanation] = useState(false);
+
+  return (
+    <div className="p-4 border-b border-gray-200">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-gray-600">Impact Score</span>
+        <span className="text-2xl font-bold text-gray-800">{impactScore.score}</span>
+      </div>
+      <div className="w-full bg-gray-200 rounded-full h-2 mb-2">
+        <div
+          className={`${scoreColor(impactScore.score)} h-2 rounded-full`}
+          style={{ width: `${impactScore.score}%` }}
+        />
+      </div>
+
+      <select
+        value={scoringModel.id}
+        onChange={(e) => onScoringModelChange(e.target.value as ScoringModelId)}
+        className="w-full border border-gray-300 rounded px-2 py-1 text-sm mb-1"
+      >
+        {scoringModels.map((model) => (
+          <option key={model.id} value={model.id}>
+            {model.name}
+          </option>
+        ))}
+      </select>
+      <p className="text-xs text-gray-500">{scoringModel.description}</p>
+
+      <button
+        onClick={() => setShowExplanation(!showExplanation)}
+        className="text-xs text-blue-600 underline mt-2"
+      >
+        {showExplanation ? "Hide explanation" : "Why this score?"}
+      </button>
+
+      {showExplanation && (
+        <div className="mt-2 text-xs space-y-3">
+          <p className="text-gray-700">{impactScore.summary}</p>
+
+          <div className="space-y-1">
+            {impactScore.factors.map((factor) => (
+              <div key={factor.label} className="flex justify-between">
+                <span className="text-gray-600">{factor.label}</span>
+                <span className="font-medium">{formatFactor(factor)}</span>
+              </div>
+            ))}
+          </div>
+
+          {impactScore.drivers.length > 0 && (
+            <div>
+              <h4 className="font-medium text-gray-700 mb-1">What drove it</h4>
+              <ul className="space-y-1">
+                {impactScore.drivers.map((driver) => (
+                  <li
+                    key={`${driver.kind}-${driver.transactionId || driver.label}`}
+                    className="flex justify-between gap-2"
+                  >
+                    <span className="truncate">
+                      <span className="text-gray-400 capitalize">{driver.kind}: </span>
+                      {driver.label}
+                    </span>
+                    <span
+                      className={`whitespace-nowrap ${
+                        driver.amount > 0 ? "text-red-600" : "text-green-600"
+                      }`}
+                    >
+                      {driver.amount > 0 ? "+" : "-"}${Math.abs(driver.amount).toFixed(2)}
+                      {driver.share > 0 && ` (${driver.share.toFixed(0)}%)`}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -8,6 +8,9 @@ export const config = {
     env: process.env.PLAID_ENV || "sandbox",
     isSandbox: process.env.PLAID_ENV === "sandbox",
     useSampleData: process.env.USE_SAMPLE_DATA === "true" || false,
+    syncStateCollection: "plaidSyncState", // Transactions sync cursor per user and item
+    itemsCollection: "plaidItems", // Linked items with their encrypted access tokens
+    tokenEncryptionKey: process.env.PLAID_TOKEN_ENCRYPTION_KEY, // 32 bytes, base64 encoded
   },
   openai: {
     apiKey: process.env.OPENAI_API_KEY,
@@ -17,6 +20,75 @@ export const config = {
     searchContextSize: "low", // Use minimal search context to reduce costs and speed up response
 
   },
+  llm: {
+    // Which provider analyzeTransactionsCore talks to: "openai" | "anthropic" | "local" | "mock"
+    provider: process.env.LLM_PROVIDER || "openai",
+    anthropic: {
+      apiKey: process.env.ANTHROPIC_API_KEY,
+      model: process.env.ANTHROPIC_MODEL || "claude-3-5-sonnet-latest",
+      baseUrl: process.env.ANTHROPIC_BASE_URL || "https://api.anthropic.com/v1",
+      maxTokens: 8192,
+    },
+    local: {
+      // Ollama and llama.cpp both expose an OpenAI-compatible chat endpoint
+      baseUrl: process.env.LOCAL_LLM_BASE_URL || "http://localhost:11434/v1",
+      model: process.env.LOCAL_LLM_MODEL || "llama3.1",
+    },
+    mock: {
+      // Replays recorded merchant analyses instead of calling a model
+      latencyMs: Number(process.env.MOCK_LLM_LATENCY_MS) || 0,
+    },
+  },
+  analysis: {
+    maxBatchSize: 25, // Transactions per completion
+    maxBatchChars: 6000, // Upper bound on serialized transaction payload per completion
+    concurrency: 3, // Completions in flight at once
+  },
+  merchantCache: {
+    collection: "merchantAnalyses",
+    ttlMs: 30 * 24 * 60 * 60 * 1000, // 30 days - merchant practices change slowly
+    maxMemoryEntries: 500, // In-memory LRU size per server instance
+  },
+  merchantOverrides: {
+    subcollection: "merchantOverrides", // users/{userId}/merchantOverrides/{merchantKey}
+    maxPractices: 20, // Added practices per merchant
+  },
+  merchantNormalization: {
+    fuzzyThreshold: 0.8, // Similarity (0-1) a descriptor needs to a known alias to count as that merchant
+    minFuzzyLength: 6, // Shorter aliases only match exactly, so "shell" never swallows "shelf"
+  },
+  practiceTaxonomy: {
+    unknownCollection: "unknownPractices", // Practices the model named that the taxonomy doesn't know, for review
+  },
+  practiceConfidence: {
+    lowThreshold: 0.6, // Practices the model is less sure of than this (0-1) are low confidence
+    defaultMode: "include", // How low-confidence practices count until a user picks: "include" | "downweight" | "hide"
+  },
+  transactionStorage: {
+    usersCollection: "users", // Per-user docs; also records when legacy batches were migrated
+    transactionsSubcollection: "transactions", // users/{userId}/transactions/{transactionId}
+    summariesSubcollection: "monthlySummaries", // users/{userId}/monthlySummaries/{YYYY-MM}
+    legacyBatchesCollection: "transactionBatches", // Whole-list snapshots from before the migration
+    maxWritesPerBatch: 500, // Firestore's limit per writeBatch
+  },
+  scoring: {
+    defaultModel: "ratio", // See features/analysis/scoring for the available models
+    ratioScale: 25, // Multiplier that maps the ratio model's raw ratio onto 0-100
+    maxDrivers: 5, // Transactions, practices or categories listed in a score's explanation
+    // Multipliers for the category-weighted model, keyed on practice category names from
+    // practiceTaxonomy; unlisted categories count at 1
+    categoryWeights: {
+      Environment: 1.5, // Emissions and climate
+      Poverty: 1.5, // Labor exploitation
+      "Animal Welfare": 1.25,
+      "Public Health": 1.25,
+      "Digital Rights": 0.75,
+    } as Record<string, number>,
+  },
+  statementImport: {
+    maxFileBytes: 5 * 1024 * 1024, // Largest CSV/OFX/QFX file the import accepts
+    maxTransactions: 5000, // Per import request
+  },
   firebase: {
     apiKey: process.env.NEXT_PUBLIC_FIREBASE_API_KEY,
     authDomain: process.env.NEXT_PUBLIC_FIREBASE_AUTH_DOMAIN,
@@ -26,9 +98,41 @@ export const config = {
     appId: process.env.NEXT_PUBLIC_FIREBASE_APP_ID,
     measurementId: process.env.NEXT_PUBLIC_FIREBASE_MEASUREMENT_ID,
   },
+  auth: {
+    // Google's public certs for verifying Firebase ID tokens
+    certsUrl:
+      "https://www.googleapis.com/robot/v1/metadata/x509/securetoken@system.gserviceaccount.com",
+    // Local test mode: also accept HS256 tokens signed with AUTH_TEST_SECRET (never in production).
+    // Read on every check so a process can't keep it after switching to production
+    get testMode() {
+      return process.env.AUTH_TEST_MODE === "true" && process.env.NODE_ENV !== "production";
+    },
+    testSecret: process.env.AUTH_TEST_SECRET,
+    // Users allowed into admin routes (shared caches, review and evaluation tools), besides
+    // those whose token carries the admin: true custom claim
+    adminUids: (process.env.ADMIN_UIDS || "").split(",").map((uid) => uid.trim()).filter(Boolean),
+  },
+  offsetLedger: {
+    subcollection: "offsets", // users/{userId}/offsets/{offsetId}
+    referencesCollection: "offsetReferences", // offsetReferences/{offsetId} -> owning user, for webhooks
+    maxAmount: 100000, // Largest single donation the ledger accepts
+  },
   charity: {
     apiKey: process.env.EVERY_ORG_API_KEY,
     baseUrl: "https://partners.every.org/v0.2",
     defaultDonationUrl: "https://www.every.org/donate",
+    // Partner webhooks are signed with an HMAC-SHA256 of "<timestamp>.<raw body>"
+    webhookSecret: process.env.EVERY_ORG_WEBHOOK_SECRET,
+    webhookSignatureHeader: "x-every-signature",
+    webhookTimestampHeader: "x-every-timestamp", // Unix seconds
+    webhookToleranceSeconds: 300, // Older deliveries are refused as replays
+    enrichment: {
+      cacheCollection: "charityRecommendations", // Vetted results per search term and category
+      ttlMs: 24 * 60 * 60 * 1000, // Keep recommendations stable for a day
+      detailsTtlMs: 7 * 24 * 60 * 60 * 1000, // Nonprofit details (NTEE code, tags) rarely change
+      maxMemoryEntries: 200, // In-memory LRU size per server instance, for each cache
+      candidates: 15, // Search results enriched with details before vetting
+      minRelevance: 25, // Charities scoring below this for the practice's category are dropped
+    },
   }
 };
\ No newline at end of file
@@ -3,34 +3,19 @@
 import React, { useState, useMemo } from "react";
 import { Transaction } from "@/shared/types/transactions";
 import { DonationModal } from "@/features/charity/DonationModal";
+import { OffsetInput } from "@/features/charity/offsetLedger";
+import { aggregateByCategory } from "./impactAggregation";
 
 interface CategoryExperimentViewProps {
   transactions: Transaction[];
   totalSocietalDebt: number;
-}
-
-interface PracticeData {
-  name: string;
-  amount: number;
-  isEthical: boolean;
-  vendorContributions: {
-    vendorName: string;
-    amount: number;
-    percentage: number;
-  }[];
-}
-
-interface CategoryData {
-  name: string;
-  practices: PracticeData[];
-  totalAmount: number;
-  positiveAmount: number;
-  negativeAmount: number;
+  onRecordOffset?: (offset: OffsetInput) => void;
 }
 
 export function CategoryExperimentView({
   transactions,
   totalSocietalDebt,
+  onRecordOffset,
 }: CategoryExperimentViewProps) {
   const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
   const [selectedPractice, setSelectedPractice] = useState<string | null>(null);
@@ -45,158 +30,16 @@ export function CategoryExperimentView({
     }));
   };
 
-  // Process data to group by categories and practices
-  const categoryData = useMemo(() => {
-    // Guard against undefined or empty transactions
-    if (!transactions || transactions.length === 0) {
-      return [];
-    }
-    
-    // First group practices
-    const practiceMap: Record<string, PracticeData> = {};
-    
-    // Process all transactions to gather practice data
-    transactions.forEach(transaction => {
-      // Safely access arrays with defaults
-      const unethicalPractices = transaction.unethicalPractices || [];
-      const ethicalPractices = transaction.ethicalPractices || [];
-      const practiceWeights = transaction.practiceWeights || {};
-      
-      // Process unethical practices (positive debt)
-      unethicalPractices.forEach(practice => {
-        const weight = practiceWeights[practice] || 0;
-        const amount = transaction.amount * (weight / 100);
-        
-        // Initialize practice if needed
-        if (!practiceMap[practice]) {
-          practiceMap[practice] = {
-            name: practice,
-            amount: 0,
-            isEthical: false,
-            vendorContributions: []
-          };
-        }
-        
-        // Add to practice total
-        practiceMap[practice].amount += amount;
-        
-        // Add vendor contribution
-        const existingVendor = practiceMap[practice].vendorContributions.find(
-          v => v.vendorName === transaction.name
-        );
-        
-        if (existingVendor) {
-          existingVendor.amount += amount;
-        } else {
-          practiceMap[practice].vendorContributions.push({
-            vendorName: transaction.name,
-            amount,
-            percentage: 0 // Will calculate later
-          });
-        }
-      });
-      
-      // Process ethical practices (negative debt)
-      ethicalPractices.forEach(practice => {
-        const weight = practiceWeights[practice] || 0;
-        const amount = -1 * (transaction.amount * (weight / 100));
-        
-        // Initialize practice if needed
-        if (!practiceMap[practice]) {
-          practiceMap[practice] = {
-            name: practice,
-            amount: 0,
-            isEthical: true,
-            vendorContributions: []
-          };
-        }
-        
-        // Add to practice total
-        practiceMap[practice].amount += amount;
-        
-        // Add vendor contribution
-        const existingVendor = practiceMap[practice].vendorContributions.find(
-          v => v.vendorName === transaction.name
-        );
-        
-        if (existingVendor) {
-          existingVendor.amount += amount;
-        } else {
-          practiceMap[practice].vendorContributions.push({
-            vendorName: transaction.name,
-            amount,
-            percentage: 0 // Will calculate later
-          });
-        }
-      });
-    });
-    
-    // Calculate vendor percentages for each practice
-    Object.values(practiceMap).forEach(practice => {
-      const totalAmount = Math.abs(practice.amount);
-      practice.vendorContributions.forEach(vendor => {
-        vendor.percentage = totalAmount > 0 ? (Math.abs(vendor.amount) / totalAmount) * 100 : 0;
-      });
-      
-      // Sort vendor contributions by percentage
-      practice.vendorContributions.sort((a, b) => b.percentage - a.percentage);
-    });
-    
-    // Now group by categories
-    const categoriesMap: Record<string, CategoryData> = {};
-    
-    Object.entries(practiceMap).forEach(([practiceName, practiceData]) => {
-      // Find the category from all transactions that mention this practice
-      let categoryName = "Other";
-      
-      // Look through all transactions to find category for this practice
-      for (const transaction of transactions) {
-        if (
-          (transaction.unethicalPractices?.includes(practiceName) || 
-           transaction.ethicalPractices?.includes(practiceName)) &&
-          transaction.practiceCategories?.[practiceName]
-        ) {
-          categoryName = transaction.practiceCategories[practiceName];
-          break;
-        }
-      }
-      
-      // Initialize category if needed
-      if (!categoriesMap[categoryName]) {
-        categoriesMap[categoryName] = {
-          name: categoryName,
-          practices: [],
-          totalAmount: 0,
-          positiveAmount: 0,
-          negativeAmount: 0
-        };
-      }
-      
-      // Add practice to category
-      categoriesMap[categoryName].practices.push(practiceData);
-      
-      // Update category totals
-      categoriesMap[categoryName].totalAmount += practiceData.amount;
-      if (practiceData.amount < 0) {
-        categoriesMap[categoryName].positiveAmount += Math.abs(practiceData.amount);
-      } else {
-        categoriesMap[categoryName].negativeAmount += practiceData.amount;
-      }
-    });
-    
-    // Convert to array and sort by absolute impact
-    return Object.values(categoriesMap).sort(
-      (a, b) => Math.abs(b.totalAmount) - Math.abs(a.totalAmount)
-    );
-  }, [transactions]);
+  // Group practices by category
+  const categoryData = useMemo(() => aggregateByCategory(transactions || []), [transactions]);
   
   // Calculate overall positive and negative impacts
   const totalPositiveImpact = useMemo(() => 
-    categoryData.reduce((sum, category) => sum + category.positiveAmount, 0),
+    categoryData.reduce((sum, category) => sum + category.creditAmount, 0),
   [categoryData]);
   
   const totalNegativeImpact = useMemo(() => 
-    categoryData.reduce((sum, category) => sum + category.negativeAmount, 0),
+    categoryData.reduce((sum, category) => sum + category.debtAmount, 0),
   [categoryData]);
 
   // Handle offset buttons
@@ -226,7 +69,7 @@ export function CategoryExperimentView({
     
     if (selectedCategory) {
       const category = categoryData.find(c => c.name === selectedCategory);
-      return category ? Math.max(0, category.negativeAmount) : 0;
+      return category ? Math.max(0, category.debtAmount) : 0;
     }
     
     if (selectedPractice) {
@@ -301,13 +144,13 @@ export function CategoryExperimentView({
                     <div 
                       className="bg-green-500 h-full float-left" 
                       style={{ 
-                        width: `${category.positiveAmount / (category.positiveAmount + category.negativeAmount || 1) * 100}%` 
+                        width: `${category.creditAmount / (category.creditAmount + category.debtAmount || 1) * 100}%` 
                       }}
                     />
                     <div 
                       className="bg-red-500 h-full float-right" 
                       style={{ 
-                        width: `${category.negativeAmount / (category.positiveAmount + category.negativeAmount || 1) * 100}%` 
+                        width: `${category.debtAmount / (category.creditAmount + category.debtAmount || 1) * 100}%` 
                       }}
                     />
                   </div>
@@ -320,7 +163,7 @@ export function CategoryExperimentView({
                 </div>
                 
                 <div className="col-span-2 sm:col-span-2 text-right">
-                  {category.negativeAmount > 0 ? (
+                  {category.debtAmount > 0 ? (
                     <button
                       onClick={(e) => {
                         e.stopPropagation();
@@ -443,8 +286,10 @@ export function CategoryExperimentView({
             ? "All Societal Debt" 
             : selectedCategory || selectedPractice || ""}
           amount={getSelectedAmount()}
+          category={selectedCategory ?? categoryData.find(c => c.practices.some(p => p.name === selectedPractice))?.name}
           isOpen={isDonationModalOpen}
           onClose={() => setIsDonationModalOpen(false)}
+          onDonate={onRecordOffset}
         />
       )}
     </div>
@@ -0,0 +1,37 @@
+// src/features/analysis/ConfidenceIndicator.tsx
+import { confidenceLevel } from "./practiceConfidence";
+
+interface ConfidenceIndicatorProps {
+  confidence: number; // 0-1
+}
+
+const FILLED_BARS = { low: 1, medium: 2, high: 3 };
+
+const BAR_COLORS = {
+  low: "bg-yellow-500",
+  medium: "bg-blue-400",
+  high: "bg-gray-600",
+};
+
+/**
+ * Three signal bars for how sure the model is of a practice
+ */
+export function ConfidenceIndicator({ confidence }: ConfidenceIndicatorProps) {
+  const level = confidenceLevel(confidence);
+
+  return (
+    <span
+      className="inline-flex items-end gap-px ml-1 align-middle"
+      title={`${level[0].toUpperCase()}${level.slice(1)} confidence (${Math.round(confidence * 100)}%)`}
+      aria-label={`${level} confidence`}
+    >
+      {[1, 2, 3].map(bar => (
+        <span
+          key={bar}
+          className={`w-0.5 rounded-sm ${bar <= FILLED_BARS[level] ? BAR_COLORS[level] : "bg-gray-300"}`}
+          style={{ height: `${bar * 3 + 2}px` }}
+        />
+      ))}
+    </span>
+  );
+}
@@ -3,131 +3,25 @@
 import React, { useState, useMemo } from "react";
 import { Transaction } from "@/shared/types/transactions";
 import { DonationModal } from "@/features/charity/DonationModal";
+import { OffsetInput } from "@/features/charity/offsetLedger";
+import { aggregateByPractice } from "./impactAggregation";
 
 interface ConsolidatedImpactViewProps {
   transactions: Transaction[];
   totalSocietalDebt: number;
-}
-
-interface PracticeImpact {
-  name: string;
-  amount: number;
-  isEthical: boolean;
-  vendorContributions: {
-    vendorName: string;
-    amount: number;
-    percentage: number;
-  }[];
+  onRecordOffset?: (offset: OffsetInput) => void;
 }
 
 export function ConsolidatedImpactView({
   transactions,
   totalSocietalDebt,
+  onRecordOffset,
 }: ConsolidatedImpactViewProps) {
   const [selectedPractice, setSelectedPractice] = useState<string | null>(null);
   const [isDonationModalOpen, setIsDonationModalOpen] = useState(false);
 
-  // Group by practice directly - safely handling empty arrays
-  const practiceImpacts = useMemo(() => {
-    // Guard against undefined or empty transactions
-    if (!transactions || transactions.length === 0) {
-      return [];
-    }
-    
-    // Create a mapping to track practice impacts
-    const impactsByPractice: Record<string, PracticeImpact> = {};
-    
-    // Process all transactions
-    transactions.forEach(transaction => {
-      // Safely access arrays with defaults
-      const unethicalPractices = transaction.unethicalPractices || [];
-      const ethicalPractices = transaction.ethicalPractices || [];
-      const practiceWeights = transaction.practiceWeights || {};
-      
-      // Process unethical practices (positive debt)
-      unethicalPractices.forEach(practice => {
-        const weight = practiceWeights[practice] || 0;
-        const amount = transaction.amount * (weight / 100);
-        
-        // Initialize practice if needed
-        if (!impactsByPractice[practice]) {
-          impactsByPractice[practice] = {
-            name: practice,
-            amount: 0,
-            isEthical: false,
-            vendorContributions: []
-          };
-        }
-        
-        // Add to practice total
-        impactsByPractice[practice].amount += amount;
-        
-        // Add vendor contribution
-        const existingVendor = impactsByPractice[practice].vendorContributions.find(
-          v => v.vendorName === transaction.name
-        );
-        
-        if (existingVendor) {
-          existingVendor.amount += amount;
-        } else {
-          impactsByPractice[practice].vendorContributions.push({
-            vendorName: transaction.name,
-            amount,
-            percentage: 0 // Will calculate after all contributions are added
-          });
-        }
-      });
-      
-      // Process ethical practices (negative debt)
-      ethicalPractices.forEach(practice => {
-        const weight = practiceWeights[practice] || 0;
-        const amount = -1 * (transaction.amount * (weight / 100));
-        
-        // Initialize practice if needed
-        if (!impactsByPractice[practice]) {
-          impactsByPractice[practice] = {
-            name: practice,
-            amount: 0,
-            isEthical: true,
-            vendorContributions: []
-          };
-        }
-        
-        // Add to practice total
-        impactsByPractice[practice].amount += amount;
-        
-        // Add vendor contribution
-        const existingVendor = impactsByPractice[practice].vendorContributions.find(
-          v => v.vendorName === transaction.name
-        );
-        
-        if (existingVendor) {
-          existingVendor.amount += amount;
-        } else {
-          impactsByPractice[practice].vendorContributions.push({
-            vendorName: transaction.name,
-            amount,
-            percentage: 0 // Will calculate after all contributions are added
-          });
-        }
-      });
-    });
-    
-    // Calculate percentages for vendor contributions
-    Object.values(impactsByPractice).forEach(practice => {
-      const totalAmount = Math.abs(practice.amount);
-      
-      practice.vendorContributions.forEach(vendor => {
-        vendor.percentage = totalAmount > 0 ? (Math.abs(vendor.amount) / totalAmount) * 100 : 0;
-      });
-      
-      // Sort vendor contributions by percentage (descending)
-      practice.vendorContributions.sort((a, b) => b.percentage - a.percentage);
-    });
-    
-    // Convert to array and sort by absolute impact (descending)
-    return Object.values(impactsByPractice).sort((a, b) => Math.abs(b.amount) - Math.abs(a.amount));
-  }, [transactions]);
+  // Group by practice directly
+  const practiceImpacts = useMemo(() => aggregateByPractice(transactions || []), [transactions]);
 
   // Calculate positive and negative impact totals
   const positiveImpact = useMemo(() => {
@@ -297,8 +191,10 @@ export function ConsolidatedImpactView({
         <DonationModal
           practice={selectedPractice === "all" ? "All Societal Debt" : selectedPractice || ""}
           amount={getSelectedAmount()}
+          category={practiceImpacts.find(p => p.name === selectedPractice)?.category}
           isOpen={isDonationModalOpen}
           onClose={() => setIsDonationModalOpen(false)}
+          onDonate={onRecordOffset}
         />
       )}
     </div>
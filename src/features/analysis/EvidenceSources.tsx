@@ -0,0 +1,46 @@
+// src/features/analysis/EvidenceSources.tsx
+import { EvidenceRecord } from "@/shared/types/transactions";
+
+interface EvidenceSourcesProps {
+  evidence: EvidenceRecord[];
+  // Label each source with the merchant it was found for, when several merchants share a list
+  showMerchant?: boolean;
+}
+
+function hostname(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, "");
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * The sources the model cited for a practice
+ */
+export function EvidenceSources({ evidence, showMerchant = false }: EvidenceSourcesProps) {
+  if (evidence.length === 0) return null;
+
+  return (
+    <ul className="mt-1 space-y-1 not-italic">
+      {evidence.map((record) => (
+        <li key={`${record.merchant}-${record.url}`} className="text-xs">
+          <a
+            href={record.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            title={record.snippet}
+            className="text-blue-600 hover:underline"
+          >
+            {record.title}
+          </a>
+          <span className="text-gray-500">
+            {" "}
+            - {hostname(record.url)}
+            {showMerchant && `, for ${record.merchant}`}, retrieved {record.retrievedAt}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
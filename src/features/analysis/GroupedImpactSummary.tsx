@@ -3,10 +3,13 @@
 import { useState } from "react";
 import { Transaction } from "@/shared/types/transactions";
 import { DonationModal } from "@/features/charity/DonationModal";
+import { OffsetInput } from "@/features/charity/offsetLedger";
+import { aggregateByCategory } from "./impactAggregation";
 
 interface GroupedImpactSummaryProps {
   transactions: Transaction[];
   totalSocietalDebt: number;
+  onRecordOffset?: (offset: OffsetInput) => void;
 }
 
 type PracticeImpact = {
@@ -28,7 +31,8 @@ type CategoryImpact = {
 
 export function GroupedImpactSummary({
   transactions,
-  totalSocietalDebt
+  totalSocietalDebt,
+  onRecordOffset
 }: GroupedImpactSummaryProps) {
   const [selectedImpact, setSelectedImpact] = useState<{
     category: string;
@@ -47,92 +51,26 @@ export function GroupedImpactSummary({
     setIsDonationModalOpen(true);
   };
 
-  // Process transactions to group by category
+  // One row per vendor and practice, grouped by category
   function processTransactionsIntoGroups(transactions: Transaction[]): CategoryImpact[] {
-    // First, collect all impacts grouped by category
-    const categoriesMap: Record<string, CategoryImpact> = {};
-
-    transactions.forEach(tx => {
-      const vendorName = tx.name;
-      
-      // Process unethical practices (positive debt)
-      (tx.unethicalPractices || []).forEach(practice => {
-        const weight = tx.practiceWeights?.[practice] || 10;
-        const amount = tx.amount * (weight / 100);
-        const category = tx.practiceCategories?.[practice] || "Uncategorized";
-        const information = tx.information?.[practice] || "No details available";
-        const searchTerm = tx.practiceSearchTerms?.[practice];
-        
-        // Initialize category if needed
-        if (!categoriesMap[category]) {
-          categoriesMap[category] = {
-            category,
-            practices: [],
-            totalImpact: 0
-          };
-        }
-        
-        // Add practice to category
-        categoriesMap[category].practices.push({
-          practice,
-          amount,
-          isPositive: false,
-          information,
-          searchTerm,
-          category,
-          weight,
-          vendor: vendorName
-        });
-        
-        // Update category total
-        categoriesMap[category].totalImpact += amount;
-      });
-      
-      // Process ethical practices (negative debt)
-      (tx.ethicalPractices || []).forEach(practice => {
-        const weight = tx.practiceWeights?.[practice] || 10;
-        const amount = tx.amount * (weight / 100);
-        const category = tx.practiceCategories?.[practice] || "Uncategorized";
-        const information = tx.information?.[practice] || "No details available";
-        const searchTerm = tx.practiceSearchTerms?.[practice];
-        
-        // Initialize category if needed
-        if (!categoriesMap[category]) {
-          categoriesMap[category] = {
-            category,
-            practices: [],
-            totalImpact: 0
-          };
-        }
-        
-        // Add practice to category
-        categoriesMap[category].practices.push({
-          practice,
-          amount: -amount, // Negative for ethical impact
-          isPositive: true,
-          information,
-          searchTerm,
-          category,
-          weight,
-          vendor: vendorName
-        });
-        
-        // Update category total
-        categoriesMap[category].totalImpact -= amount;
-      });
-    });
-
-    // Convert to array and sort
-    const result = Object.values(categoriesMap)
-      .sort((a, b) => Math.abs(b.totalImpact) - Math.abs(a.totalImpact))
-      .filter(category => category.practices.length > 0); // Only include categories with practices
-    
-    // Sort practices within each category
-    result.forEach(category => {
-      category.practices.sort((a, b) => Math.abs(b.amount) - Math.abs(a.amount));
-    });
-    
-    return result;
+    return aggregateByCategory(transactions).map(category => ({
+      category: category.name,
+      totalImpact: category.totalAmount,
+      practices: category.practices
+        .flatMap(practice =>
+          practice.vendorContributions.map(vendor => ({
+            practice: practice.name,
+            amount: vendor.amount,
+            isPositive: practice.isEthical,
+            information: vendor.information || "No details available",
+            searchTerm: practice.searchTerm,
+            category: category.name,
+            weight: vendor.weight,
+            vendor: vendor.vendorName
+          }))
+        )
+        .sort((a, b) => Math.abs(b.amount) - Math.abs(a.amount))
+    }));
   }
 
   // Get icon for a category
@@ -299,8 +237,13 @@ export function GroupedImpactSummary({
         <DonationModal
           practice={`${selectedImpact.practice} (${selectedImpact.vendor})`}
           amount={selectedImpact.amount}
+          category={selectedImpact.category}
           isOpen={isDonationModalOpen}
           onClose={() => setIsDonationModalOpen(false)}
+          onDonate={
+            onRecordOffset &&
+            ((offset) => onRecordOffset({ ...offset, practice: selectedImpact.practice }))
+          }
         />
       )}
     </div>
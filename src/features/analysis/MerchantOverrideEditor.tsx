@@ -0,0 +1,226 @@
+// src/features/analysis/MerchantOverrideEditor.tsx
+"use client";
+
+import { useState } from "react";
+import { Transaction } from "@/shared/types/transactions";
+import { getModelAnalysis, MerchantOverrideInput, PracticeType } from "./merchantOverrides";
+import { DEFAULT_PRACTICE_WEIGHT } from "./impactAggregation";
+import { getMerchantName } from "./merchantNormalization";
+
+interface MerchantOverrideEditorProps {
+  transaction: Transaction;
+  onSave: (input: MerchantOverrideInput) => Promise<boolean>;
+  onReset?: () => Promise<boolean>;
+  onClose: () => void;
+}
+
+interface PracticeRow {
+  name: string;
+  type: PracticeType;
+  weight: number;
+  category?: string;
+  fromModel: boolean;
+  removed: boolean;
+}
+
+/**
+ * Rows for every practice the model found plus any the user added, with current weights
+ */
+function initialRows(tx: Transaction): PracticeRow[] {
+  const model = getModelAnalysis(tx);
+  const added = new Set(tx.userOverride?.added || []);
+  const removed = new Set(tx.userOverride?.removed || []);
+  const weightOf = (practice: string) =>
+    tx.practiceWeights?.[practice] ?? model.practiceWeights?.[practice] ?? DEFAULT_PRACTICE_WEIGHT;
+
+  const modelRows = [
+    ...(model.unethicalPractices || []).map((name) => ({ name, type: "unethical" as const })),
+    ...(model.ethicalPractices || []).map((name) => ({ name, type: "ethical" as const })),
+  ]
+    .filter((row) => !added.has(row.name))
+    .map((row) => ({ ...row, weight: weightOf(row.name), fromModel: true, removed: removed.has(row.name) }));
+
+  const addedRows = Array.from(added).map((name) => ({
+    name,
+    type: (tx.ethicalPractices || []).includes(name) ? ("ethical" as const) : ("unethical" as const),
+    weight: weightOf(name),
+    category: tx.practiceCategories?.[name],
+    fromModel: false,
+    removed: false,
+  }));
+
+  return [...modelRows, ...addedRows];
+}
+
+/**
+ * Turn the edited rows back into what differs from the model's analysis
+ */
+function toOverrideInput(tx: Transaction, rows: PracticeRow[]): MerchantOverrideInput {
+  const model = getModelAnalysis(tx);
+  const modelTypes = new Map<string, PracticeType>([
+    ...(model.unethicalPractices || []).map((name) => [name, "unethical"] as [string, PracticeType]),
+    ...(model.ethicalPractices || []).map((name) => [name, "ethical"] as [string, PracticeType]),
+  ]);
+
+  const practiceWeights: Record<string, number> = {};
+  const addedPractices: MerchantOverrideInput["addedPractices"] = [];
+
+  rows
+    .filter((row) => !row.removed)
+    .forEach((row) => {
+      if (row.fromModel && modelTypes.get(row.name) === row.type) {
+        if ((model.practiceWeights?.[row.name] ?? DEFAULT_PRACTICE_WEIGHT) !== row.weight) {
+          practiceWeights[row.name] = row.weight;
+        }
+      } else {
+        addedPractices.push({
+          name: row.name,
+          type: row.type,
+          weight: row.weight,
+          ...(row.category ? { category: row.category } : {}),
+        });
+      }
+    });
+
+  return {
+    merchantName: getMerchantName(tx),
+    addedPractices,
+    removedPractices: rows.filter((row) => row.removed && row.fromModel).map((row) => row.name),
+    practiceWeights,
+  };
+}
+
+export function MerchantOverrideEditor({ transaction, onSave, onReset, onClose }: MerchantOverrideEditorProps) {
+  const [rows, setRows] = useState<PracticeRow[]>(() => initialRows(transaction));
+  const [newPractice, setNewPractice] = useState({ name: "", type: "unethical" as PracticeType, weight: 50 });
+  const [isSaving, setIsSaving] = useState(false);
+
+  const updateRow = (index: number, changes: Partial<PracticeRow>) => {
+    setRows((prev) => prev.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  const addPractice = () => {
+    const name = newPractice.name.trim();
+    if (!name || rows.some((row) => row.name === name && !row.removed)) return;
+
+    setRows((prev) => [
+      ...prev.filter((row) => row.name !== name),
+      { name, type: newPractice.type, weight: newPractice.weight, fromModel: false, removed: false },
+    ]);
+    setNewPractice({ name: "", type: newPractice.type, weight: 50 });
+  };
+
+  const run = async (action: () => Promise<boolean>) => {
+    setIsSaving(true);
+    const succeeded = await action();
+    setIsSaving(false);
+    if (succeeded) onClose();
+  };
+
+  return (
+    <div className="mt-3 p-3 border border-blue-200 bg-blue-50 rounded-lg text-sm">
+      <p className="text-gray-700 mb-2">
+        Correct the practices for <strong>{getMerchantName(transaction)}</strong>. Changes apply to all
+        past and future purchases from this merchant.
+      </p>
+
+      <div className="space-y-2">
+        {rows.map((row, index) => (
+          <div key={row.name} className={`flex flex-wrap items-center gap-2 ${row.removed ? "opacity-50" : ""}`}>
+            <span className={`flex-1 min-w-[120px] ${row.removed ? "line-through" : ""}`}>
+              {row.name}
+              {!row.fromModel && <span className="ml-1 text-xs text-blue-700">(added)</span>}
+            </span>
+            <select
+              value={row.type}
+              disabled={row.removed}
+              onChange={(e) => updateRow(index, { type: e.target.value as PracticeType })}
+              className="border border-gray-300 rounded px-1 py-0.5 text-xs"
+            >
+              <option value="unethical">Harmful</option>
+              <option value="ethical">Beneficial</option>
+            </select>
+            <input
+              type="number"
+              min={0}
+              max={100}
+              value={row.weight}
+              disabled={row.removed}
+              onChange={(e) => updateRow(index, { weight: Math.min(100, Math.max(0, Number(e.target.value) || 0)) })}
+              className="w-16 border border-gray-300 rounded px-1 py-0.5 text-xs text-right"
+            />
+            <span className="text-xs text-gray-500">%</span>
+            <button
+              onClick={() =>
+                row.fromModel
+                  ? updateRow(index, { removed: !row.removed })
+                  : setRows((prev) => prev.filter((_, i) => i !== index))
+              }
+              className="text-xs text-red-600 underline"
+            >
+              {row.removed ? "Restore" : "Remove"}
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mt-3 pt-3 border-t border-blue-200">
+        <input
+          type="text"
+          placeholder="Add a practice"
+          value={newPractice.name}
+          onChange={(e) => setNewPractice({ ...newPractice, name: e.target.value })}
+          className="flex-1 min-w-[120px] border border-gray-300 rounded px-2 py-0.5 text-xs"
+        />
+        <select
+          value={newPractice.type}
+          onChange={(e) => setNewPractice({ ...newPractice, type: e.target.value as PracticeType })}
+          className="border border-gray-300 rounded px-1 py-0.5 text-xs"
+        >
+          <option value="unethical">Harmful</option>
+          <option value="ethical">Beneficial</option>
+        </select>
+        <input
+          type="number"
+          min={0}
+          max={100}
+          value={newPractice.weight}
+          onChange={(e) =>
+            setNewPractice({ ...newPractice, weight: Math.min(100, Math.max(0, Number(e.target.value) || 0)) })
+          }
+          className="w-16 border border-gray-300 rounded px-1 py-0.5 text-xs text-right"
+        />
+        <span className="text-xs text-gray-500">%</span>
+        <button onClick={addPractice} className="text-xs text-blue-600 underline">
+          Add
+        </button>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mt-3">
+        <button
+          onClick={() => run(() => onSave(toOverrideInput(transaction, rows)))}
+          disabled={isSaving}
+          className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 text-white px-3 py-1 rounded text-xs"
+        >
+          {isSaving ? "Saving..." : "Save"}
+        </button>
+        {onReset && transaction.userOverride && (
+          <button
+            onClick={() => run(onReset)}
+            disabled={isSaving}
+            className="bg-white border border-gray-300 hover:bg-gray-100 text-gray-800 px-3 py-1 rounded text-xs"
+          >
+            Use model analysis
+          </button>
+        )}
+        <button
+          onClick={onClose}
+          disabled={isSaving}
+          className="bg-gray-300 hover:bg-gray-400 text-gray-800 px-3 py-1 rounded text-xs"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,55 +1,36 @@
 // src/features/transactions/PracticeDebtTable.tsx
 import { Transaction } from "@/shared/types/transactions";
-import React, { useState } from "react";
+import React, { useState, useMemo } from "react";
 import { DonationModal } from "@/features/charity/DonationModal";
+import { OffsetInput } from "@/features/charity/offsetLedger";
+import { aggregateByPractice } from "./impactAggregation";
+import { EvidenceSources } from "./EvidenceSources";
 
 interface PracticeDebtTableProps {
-  practiceDonations: Record<string, { charity: { name: string; url: string } | null; amount: number }>;
   transactions: Transaction[];
   totalSocietalDebt: number | null;
   selectedCharity?: string | null;
+  onRecordOffset?: (offset: OffsetInput) => void;
 }
 
 export function PracticeDebtTable({
-  practiceDonations,
   transactions,
   totalSocietalDebt,
+  onRecordOffset,
 }: PracticeDebtTableProps) {
   const [selectedPractice, setSelectedPractice] = useState<string | null>(null);
   const [isDonationModalOpen, setIsDonationModalOpen] = useState(false);
 
+  // Practices sorted by absolute impact for the table rows
+  const practices = useMemo(() => aggregateByPractice(transactions), [transactions]);
+
   // Early return if no data
-  if (totalSocietalDebt === null || Object.keys(practiceDonations).length === 0) {
+  if (totalSocietalDebt === null || practices.length === 0) {
     return null;
   }
-
-  // Prepare sorted practices for the table rows
-  const sortedPractices = Object.entries(practiceDonations)
-    .sort(([, a], [, b]) => Math.abs(b.amount) - Math.abs(a.amount));
   
   const debtColorClass = totalSocietalDebt > 0 ? "text-red-500" : "text-green-500";
 
-  // Helper function to find information for a practice
-  const findPracticeInfo = (practice: string): string => {
-    // Check all transactions for information about this practice
-    for (const tx of transactions) {
-      if (tx.information && tx.information[practice]) {
-        return tx.information[practice];
-      }
-    }
-    return "No details available";
-  };
-
-  // Find search term for a practice if available
-  const getPracticeSearchTerm = (practice: string): string | undefined => {
-    for (const tx of transactions) {
-      if (tx.practiceSearchTerms && tx.practiceSearchTerms[practice]) {
-        return tx.practiceSearchTerms[practice];
-      }
-    }
-    return undefined;
-  };
-
   // Handle offset click for a specific practice
   const handleOffsetPractice = (practice: string) => {
     setSelectedPractice(practice);
@@ -79,10 +60,9 @@ export function PracticeDebtTable({
             </tr>
           </thead>
           <tbody>
-            {sortedPractices.map(([practice, { amount }], i) => {
-              const practiceInfo = findPracticeInfo(practice);
+            {practices.map(({ name: practice, amount, information, evidence, searchTerm }, i) => {
+              const practiceInfo = information || "No details available";
               const amountColorClass = amount >= 0 ? "text-red-600" : "text-green-600";
-              const searchTerm = getPracticeSearchTerm(practice);
               
               return (
                 <tr key={i} className="border-b border-gray-200 hover:bg-gray-50">
@@ -96,6 +76,7 @@ export function PracticeDebtTable({
                   </td>
                   <td className="p-2 text-gray-700 italic">
                     {practiceInfo || "No information available"}
+                    <EvidenceSources evidence={evidence} showMerchant />
                   </td>
                   <td className={`p-2 text-right font-bold ${amountColorClass}`}>
                     ${Math.abs(amount).toFixed(2)}
@@ -142,10 +123,12 @@ export function PracticeDebtTable({
         <DonationModal
           practice={selectedPractice || "All Societal Debt"}
           amount={selectedPractice && selectedPractice !== "All Societal Debt" 
-            ? practiceDonations[selectedPractice].amount 
+            ? practices.find(p => p.name === selectedPractice)?.amount ?? 0
             : totalSocietalDebt!}
+          category={practices.find(p => p.name === selectedPractice)?.category}
           isOpen={isDonationModalOpen}
           onClose={() => setIsDonationModalOpen(false)}
+          onDonate={onRecordOffset}
         />
       )}
     </div>
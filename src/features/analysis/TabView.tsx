@@ -5,6 +5,7 @@ import { ConsolidatedImpactView } from "./ConsolidatedImpactView";
 import { TransactionList } from "./TransactionList";
 import { CategoryExperimentView } from "./CategoryExperimentView";
 import { VendorBreakdownView } from "./VendorBreakdownView";
+import { TrendsView } from "./TrendsView";
 
 interface TabViewProps {
   transactions: Transaction[];
@@ -13,7 +14,7 @@ interface TabViewProps {
   initialActiveTab?: TabType;
 }
 
-export type TabType = "impact" | "transactions" | "categories" | "vendors";
+export type TabType = "impact" | "transactions" | "categories" | "vendors" | "trends";
 
 export function TabView({
   transactions,
@@ -67,6 +68,12 @@ export function TabView({
         >
           Categories
         </TabButton>
+        <TabButton
+          active={activeTab === "trends"}
+          onClick={() => setActiveTab("trends")}
+        >
+          Trends
+        </TabButton>
       </div>
 
       {/* Tab Content - Content aligned to top */}
@@ -96,6 +103,9 @@ export function TabView({
             getColorClass={getColorClass}
           />
         )}
+        {activeTab === "trends" && (
+          <TrendsView transactions={transactions} />
+        )}
       </div>
     </div>
   );
@@ -1,23 +1,63 @@
 // src/features/analysis/TransactionList.tsx
 import { Transaction } from "@/shared/types/transactions";
 import { TransactionListItem } from "./TransactionListItem";
+import { AnalysisProgress } from "./useTransactionAnalysis";
+import { getTransactionId } from "@/shared/utils/transactionIdentity";
+import { MerchantOverrideInput } from "./merchantOverrides";
+import { summarizeImpact } from "./impactAggregation";
 
 interface TransactionListProps {
   transactions: Transaction[];
   getColorClass: (value: number) => string;
+  isAnalyzing?: boolean;
+  progress?: AnalysisProgress | null;
+  onSaveOverride?: (input: MerchantOverrideInput) => Promise<boolean>;
+  onResetOverride?: (merchantName: string) => Promise<boolean>;
 }
 
-export function TransactionList({ transactions, getColorClass }: TransactionListProps) {
+export function TransactionList({
+  transactions,
+  getColorClass,
+  isAnalyzing = false,
+  progress = null,
+  onSaveOverride,
+  onResetOverride
+}: TransactionListProps) {
   if (transactions.length === 0) return null;
   
   // Calculate total spent and total societal debt
-  const totalSocietalDebt = transactions.reduce((sum, tx) => sum + (tx.societalDebt || 0), 0);
+  const { totalSocietalDebt } = summarizeImpact(transactions);
   
   return (
     <div className="p-2 sm:p-6">
       <h2 className="text-2xl font-bold text-gray-800 mb-4">
         Your Transactions
       </h2>
+
+      {isAnalyzing && (
+        <div className="mb-4">
+          <div className="flex justify-between text-sm text-gray-600 mb-1">
+            <span>
+              {progress
+                ? `Scoring transactions (batch ${progress.startedBatches} of ${progress.totalBatches})...`
+                : "Scoring transactions..."}
+            </span>
+            {progress && progress.totalCount > 0 && (
+              <span>{progress.analyzedCount} / {progress.totalCount}</span>
+            )}
+          </div>
+          <div className="w-full bg-gray-200 rounded-full h-2">
+            <div
+              className="bg-blue-600 h-2 rounded-full transition-all"
+              style={{
+                width: `${progress && progress.totalCount > 0
+                  ? Math.round((progress.analyzedCount / progress.totalCount) * 100)
+                  : 0}%`
+              }}
+            />
+          </div>
+        </div>
+      )}
       
       {transactions.length === 0 ? (
         <p className="text-gray-500 text-center py-4">No transactions found.</p>
@@ -25,12 +65,15 @@ export function TransactionList({ transactions, getColorClass }: TransactionList
         <>
           {/* Non-scrolling list that matches other tabs */}
           <div className="space-y-3 mt-4 mb-6 sm:mb-8">
-            {transactions.map((transaction, index) => (
-              <div key={index} className="border rounded-lg overflow-hidden shadow-sm">
+            {transactions.map((transaction) => (
+              <div key={getTransactionId(transaction)} className="border rounded-lg overflow-hidden shadow-sm">
                 <div className="p-2 sm:p-3 border-l-4 border-gray-300 bg-gray-50">
                   <TransactionListItem 
                     transaction={transaction}
                     getColorClass={getColorClass}
+                    isScoring={isAnalyzing && !transaction.analyzed}
+                    onSaveOverride={onSaveOverride}
+                    onResetOverride={onResetOverride}
                   />
                 </div>
               </div>
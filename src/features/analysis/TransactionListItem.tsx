@@ -1,12 +1,32 @@
 // src/features/analysis/TransactionListItem.tsx
+import { useState } from "react";
 import { Transaction } from "@/shared/types/transactions";
+import { MerchantOverrideEditor } from "./MerchantOverrideEditor";
+import { MerchantOverrideInput } from "./merchantOverrides";
+import { practiceWeight } from "./impactAggregation";
+import { getMerchantName } from "./merchantNormalization";
+import { EvidenceSources } from "./EvidenceSources";
+import { ConfidenceIndicator } from "./ConfidenceIndicator";
+import { isLowConfidence, practiceConfidence } from "./practiceConfidence";
 
 interface TransactionListItemProps {
   transaction: Transaction;
   getColorClass: (value: number) => string;
+  // True while the transaction is still waiting for its analysis
+  isScoring?: boolean;
+  // Correct the merchant's practices; without these the item is read-only
+  onSaveOverride?: (input: MerchantOverrideInput) => Promise<boolean>;
+  onResetOverride?: (merchantName: string) => Promise<boolean>;
 }
 
-export function TransactionListItem({ transaction, getColorClass }: TransactionListItemProps) {
+export function TransactionListItem({
+  transaction,
+  getColorClass,
+  isScoring = false,
+  onSaveOverride,
+  onResetOverride
+}: TransactionListItemProps) {
+  const [isEditing, setIsEditing] = useState(false);
   const { 
     date, 
     name, 
@@ -14,23 +34,35 @@ export function TransactionListItem({ transaction, getColorClass }: TransactionL
     societalDebt = 0, 
     unethicalPractices = [], 
     ethicalPractices = [], 
-    practiceWeights = {}
+    evidence = {},
+    userOverride
   } = transaction;
+
+  // Practices the user added or reweighted
+  const editedPractices = new Set([...(userOverride?.added || []), ...(userOverride?.reweighted || [])]);
   
   // Create badges for practices
   const allPractices = [
     ...unethicalPractices.map(practice => ({
       practice,
-      text: `${practice} (${practiceWeights[practice] || 0}%)`,
+      text: `${practice} (${practiceWeight(transaction, practice)}%)`,
       type: "unethical"
     })),
     ...ethicalPractices.map(practice => ({
       practice,
-      text: `${practice} (${practiceWeights[practice] || 0}%)`,
+      text: `${practice} (${practiceWeight(transaction, practice)}%)`,
       type: "ethical"
     }))
   ];
 
+  // Practices the model cited sources for
+  const citedPractices = [...unethicalPractices, ...ethicalPractices].filter(
+    practice => (evidence[practice] || []).length > 0
+  );
+  const sourceCount = citedPractices.reduce((sum, practice) => sum + evidence[practice].length, 0);
+
+  const canEdit = Boolean(onSaveOverride) && !isScoring && transaction.analyzed !== false;
+
   return (
     <div>
       <div className="grid grid-cols-12 gap-2 items-center mb-2">
@@ -40,33 +72,83 @@ export function TransactionListItem({ transaction, getColorClass }: TransactionL
         </div>
         <div className="col-span-4 sm:col-span-3 text-right">
           <span className="text-gray-700 block">${amount.toFixed(2)}</span>
-          <span className={`text-sm font-medium ${getColorClass(societalDebt)}`}>
-            ${Math.abs(societalDebt).toFixed(2)}
-          </span>
+          {isScoring ? (
+            <span className="text-sm text-gray-400 animate-pulse">Scoring...</span>
+          ) : (
+            <span className={`text-sm font-medium ${getColorClass(societalDebt)}`}>
+              ${Math.abs(societalDebt).toFixed(2)}
+            </span>
+          )}
         </div>
-        <div className="col-span-0 sm:col-span-2">
-          {/* Empty space for consistent layout with other tabs */}
+        <div className="col-span-0 sm:col-span-2 text-right">
+          {canEdit && !isEditing && (
+            <button
+              onClick={() => setIsEditing(true)}
+              className="text-xs text-blue-600 hover:text-blue-800 underline"
+            >
+              Edit practices
+            </button>
+          )}
         </div>
       </div>
 
-      {allPractices.length > 0 && (
+      {(allPractices.length > 0 || (userOverride?.removed || []).length > 0) && (
         <div className="flex flex-wrap gap-1 sm:gap-2 mt-1">
           {allPractices.map((practiceInfo, idx) => {
             const bgColor = practiceInfo.type === "unethical"
               ? "bg-red-100 text-red-800"
               : "bg-green-100 text-green-800";
             
+            const edited = editedPractices.has(practiceInfo.practice);
+            // Only the model's own ratings are shown; user edits count as certain
+            const rated = !edited && transaction.practiceConfidence?.[practiceInfo.practice] !== undefined;
+            const lowConfidence = rated && isLowConfidence(transaction, practiceInfo.practice);
+            
             return (
               <span 
                 key={idx} 
-                className={`${bgColor} px-1 sm:px-2 py-0.5 rounded-full text-xs truncate max-w-[150px] sm:max-w-full`}
+                title={edited ? "Edited by you" : lowConfidence ? "The model isn't sure about this practice" : undefined}
+                className={`${bgColor} ${edited ? "ring-1 ring-blue-400" : ""} ${lowConfidence ? "opacity-70 border border-dashed border-current" : ""} px-1 sm:px-2 py-0.5 rounded-full text-xs truncate max-w-[150px] sm:max-w-full`}
               >
-                {practiceInfo.text}
+                {practiceInfo.text}{edited && " ✎"}
+                {rated && <ConfidenceIndicator confidence={practiceConfidence(transaction, practiceInfo.practice)} />}
               </span>
             );
           })}
+          {(userOverride?.removed || []).map(practice => (
+            <span
+              key={`removed-${practice}`}
+              title="Removed by you"
+              className="bg-gray-100 text-gray-500 line-through px-1 sm:px-2 py-0.5 rounded-full text-xs truncate max-w-[150px] sm:max-w-full"
+            >
+              {practice}
+            </span>
+          ))}
         </div>
       )}
+
+      {citedPractices.length > 0 && (
+        <details className="mt-1">
+          <summary className="text-xs text-gray-500 cursor-pointer">
+            Sources ({sourceCount})
+          </summary>
+          {citedPractices.map(practice => (
+            <div key={practice} className="mt-1 ml-2">
+              <span className="text-xs font-medium text-gray-700">{practice}</span>
+              <EvidenceSources evidence={evidence[practice]} />
+            </div>
+          ))}
+        </details>
+      )}
+
+      {isEditing && onSaveOverride && (
+        <MerchantOverrideEditor
+          transaction={transaction}
+          onSave={onSaveOverride}
+          onReset={onResetOverride ? () => onResetOverride(getMerchantName(transaction)) : undefined}
+          onClose={() => setIsEditing(false)}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,226 @@
+"use client";
+
+import React, { useState, useMemo } from "react";
+import {
+  ResponsiveContainer,
+  ComposedChart,
+  BarChart,
+  Bar,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+} from "recharts";
+import { Transaction } from "@/shared/types/transactions";
+import {
+  aggregateByPeriod,
+  trendCategories,
+  TrendGranularity,
+} from "./impactAggregation";
+
+interface TrendsViewProps {
+  transactions: Transaction[];
+}
+
+const CATEGORY_COLORS = ["#ef4444", "#f97316", "#eab308", "#8b5cf6", "#0ea5e9", "#10b981", "#6b7280"];
+const MAX_CHART_CATEGORIES = 6;
+
+function formatDelta(value: number, suffix = ""): string {
+  const sign = value > 0 ? "+" : value < 0 ? "-" : "";
+  return `${sign}${suffix === "%" ? "" : "$"}${Math.abs(value).toFixed(2)}${suffix}`;
+}
+
+// More debt is worse, so increases are red and decreases green
+function deltaColor(value: number): string {
+  if (value > 0) return "text-red-600";
+  if (value < 0) return "text-green-600";
+  return "text-gray-500";
+}
+
+export function TrendsView({ transactions }: TrendsViewProps) {
+  const [granularity, setGranularity] = useState<TrendGranularity>("month");
+
+  const trends = useMemo(
+    () => aggregateByPeriod(transactions, granularity),
+    [transactions, granularity]
+  );
+
+  // Keep the stacked chart readable - smaller categories are folded into "Other"
+  const categories = useMemo(() => {
+    const ordered = trendCategories(trends);
+    return ordered.length > MAX_CHART_CATEGORIES
+      ? [...ordered.slice(0, MAX_CHART_CATEGORIES - 1), "Other"]
+      : ordered;
+  }, [trends]);
+
+  const chartData = useMemo(
+    () =>
+      trends.map((trend) => {
+        const row: Record<string, string | number> = {
+          period: trend.period,
+          totalSocietalDebt: Number(trend.totalSocietalDebt.toFixed(2)),
+          debtPercentage: Number(trend.debtPercentage.toFixed(1)),
+        };
+
+        Object.entries(trend.categoryDebt).forEach(([category, amount]) => {
+          const key = categories.includes(category) ? category : "Other";
+          row[key] = Number(((Number(row[key]) || 0) + amount).toFixed(2));
+        });
+
+        return row;
+      }),
+    [trends, categories]
+  );
+
+  const latest = trends[trends.length - 1];
+
+  if (trends.length === 0) {
+    return (
+      <div className="p-6 text-center text-gray-500">
+        No dated transactions to chart yet.
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-2 sm:p-6">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h2 className="text-2xl font-bold text-gray-800">Debt Trends</h2>
+        <div className="flex rounded-lg border border-gray-200 overflow-hidden text-sm">
+          {(["month", "year"] as TrendGranularity[]).map((option) => (
+            <button
+              key={option}
+              onClick={() => setGranularity(option)}
+              className={`px-3 py-1 ${
+                granularity === option
+                  ? "bg-blue-600 text-white"
+                  : "bg-white text-gray-700 hover:bg-gray-100"
+              }`}
+            >
+              {option === "month" ? "Monthly" : "Yearly"}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Latest period at a glance */}
+      {latest && (
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 mb-6">
+          <div className="border border-gray-200 rounded-lg p-3">
+            <div className="text-xs text-gray-500">Societal debt ({latest.period})</div>
+            <div className="text-xl font-bold text-gray-800">
+              ${latest.totalSocietalDebt.toFixed(2)}
+            </div>
+            {latest.delta && (
+              <div className={`text-xs ${deltaColor(latest.delta.totalSocietalDebt)}`}>
+                {formatDelta(latest.delta.totalSocietalDebt)} vs previous {granularity}
+              </div>
+            )}
+          </div>
+          <div className="border border-gray-200 rounded-lg p-3">
+            <div className="text-xs text-gray-500">Debt as % of spending</div>
+            <div className="text-xl font-bold text-gray-800">
+              {latest.debtPercentage.toFixed(1)}%
+            </div>
+            {latest.delta && (
+              <div className={`text-xs ${deltaColor(latest.delta.debtPercentage)}`}>
+                {formatDelta(latest.delta.debtPercentage, "%")} vs previous {granularity}
+              </div>
+            )}
+          </div>
+          <div className="border border-gray-200 rounded-lg p-3">
+            <div className="text-xs text-gray-500">Spending</div>
+            <div className="text-xl font-bold text-gray-800">
+              ${latest.totalSpent.toFixed(2)}
+            </div>
+            <div className="text-xs text-gray-500">
+              {latest.transactionCount} transactions
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Total debt with debt percentage on a second axis */}
+      <div className="h-64 mb-8">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={chartData}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="period" tick={{ fontSize: 12 }} />
+            <YAxis yAxisId="debt" tick={{ fontSize: 12 }} />
+            <YAxis yAxisId="percentage" orientation="right" unit="%" tick={{ fontSize: 12 }} />
+            <Tooltip />
+            <Legend />
+            <Bar yAxisId="debt" dataKey="totalSocietalDebt" name="Societal debt ($)" fill="#3b82f6" />
+            <Line
+              yAxisId="percentage"
+              type="monotone"
+              dataKey="debtPercentage"
+              name="Debt % of spending"
+              stroke="#ef4444"
+            />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+
+      {/* Debt by category */}
+      {categories.length > 0 && (
+        <>
+          <h3 className="text-lg font-semibold text-gray-800 mb-2">Debt by Category</h3>
+          <div className="h-64 mb-8">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="period" tick={{ fontSize: 12 }} />
+                <YAxis tick={{ fontSize: 12 }} />
+                <Tooltip />
+                <Legend />
+                {categories.map((category, index) => (
+                  <Bar
+                    key={category}
+                    dataKey={category}
+                    stackId="categories"
+                    fill={CATEGORY_COLORS[index % CATEGORY_COLORS.length]}
+                  />
+                ))}
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </>
+      )}
+
+      {/* Period by period with changes */}
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-gray-200 text-gray-600">
+              <th className="text-left py-2">{granularity === "month" ? "Month" : "Year"}</th>
+              <th className="text-right py-2">Spending</th>
+              <th className="text-right py-2">Debt</th>
+              <th className="text-right py-2">Change</th>
+              <th className="text-right py-2">Debt %</th>
+              <th className="text-right py-2">Change</th>
+            </tr>
+          </thead>
+          <tbody>
+            {[...trends].reverse().map((trend) => (
+              <tr key={trend.period} className="border-b border-gray-100">
+                <td className="py-2">{trend.period}</td>
+                <td className="text-right">${trend.totalSpent.toFixed(2)}</td>
+                <td className="text-right">${trend.totalSocietalDebt.toFixed(2)}</td>
+                <td className={`text-right ${trend.delta ? deltaColor(trend.delta.totalSocietalDebt) : ""}`}>
+                  {trend.delta ? formatDelta(trend.delta.totalSocietalDebt) : "-"}
+                </td>
+                <td className="text-right">{trend.debtPercentage.toFixed(1)}%</td>
+                <td className={`text-right ${trend.delta ? deltaColor(trend.delta.debtPercentage) : ""}`}>
+                  {trend.delta ? formatDelta(trend.delta.debtPercentage, "%") : "-"}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -4,6 +4,9 @@
 import React, { useState, useMemo } from "react";
 import { Transaction } from "@/shared/types/transactions";
 import { DonationModal } from "@/features/charity/DonationModal";
+import { aggregateByVendor } from "./impactAggregation";
+import { ConfidenceIndicator } from "./ConfidenceIndicator";
+import { confidenceLevel } from "./practiceConfidence";
 
 interface VendorBreakdownViewProps {
   transactions: Transaction[];
@@ -11,20 +14,6 @@ interface VendorBreakdownViewProps {
   getColorClass: (value: number) => string;
 }
 
-interface VendorData {
-  name: string;
-  totalSpent: number;
-  societalDebt: number;
-  debtPercentage: number;
-  transactions: Transaction[];
-  practices: {
-    name: string;
-    isEthical: boolean;
-    impact: number;
-    information?: string;
-  }[];
-}
-
 export function VendorBreakdownView({
   transactions,
   totalSocietalDebt,
@@ -35,115 +24,27 @@ export function VendorBreakdownView({
   const [isDonationModalOpen, setIsDonationModalOpen] = useState(false);
 
   // Process transactions by vendor
-  const vendorsData = useMemo(() => {
-    const vendorMap = new Map<string, VendorData>();
-
-    // Group transactions by vendor name
-    transactions.forEach(transaction => {
-      const vendorName = transaction.name;
-      
-      if (!vendorName) return;
-
-      // Initialize vendor data if needed
-      if (!vendorMap.has(vendorName)) {
-        vendorMap.set(vendorName, {
-          name: vendorName,
-          totalSpent: 0,
-          societalDebt: 0,
-          debtPercentage: 0,
-          transactions: [],
-          practices: []
-        });
-      }
-
-      const vendorData = vendorMap.get(vendorName)!;
-      
-      // Add transaction data
-      vendorData.totalSpent += transaction.amount;
-      vendorData.societalDebt += transaction.societalDebt || 0;
-      vendorData.transactions.push(transaction);
-
-      // Collect practice information from transaction
-      const unethicalPractices = transaction.unethicalPractices || [];
-      const ethicalPractices = transaction.ethicalPractices || [];
-      const practiceDebts = transaction.practiceDebts || {};
-      const information = transaction.information || {};
-      
-      // Add unethical practices
-      unethicalPractices.forEach(practiceName => {
-        // Check if this practice is already in the array
-        const existingPractice = vendorData.practices.find(p => p.name === practiceName);
-        
-        if (existingPractice) {
-          // Update existing practice
-          existingPractice.impact += practiceDebts[practiceName] || 0;
-        } else {
-          // Add new practice
-          vendorData.practices.push({
-            name: practiceName,
-            isEthical: false,
-            impact: practiceDebts[practiceName] || 0,
-            information: information[practiceName]
-          });
-        }
-      });
-      
-      // Add ethical practices
-      ethicalPractices.forEach(practiceName => {
-        // Check if this practice is already in the array
-        const existingPractice = vendorData.practices.find(p => p.name === practiceName);
-        
-        if (existingPractice) {
-          // Update existing practice
-          existingPractice.impact += practiceDebts[practiceName] || 0;
-        } else {
-          // Add new practice
-          vendorData.practices.push({
-            name: practiceName,
-            isEthical: true,
-            impact: practiceDebts[practiceName] || 0,
-            information: information[practiceName]
-          });
-        }
-      });
-    });
-
-    // Calculate debt percentage and filter out vendors with no transactions
-    vendorMap.forEach(vendor => {
-      vendor.debtPercentage = vendor.totalSpent > 0 
-        ? (vendor.societalDebt / vendor.totalSpent) * 100 
-        : 0;
-        
-      // Sort practices by absolute impact (highest first)
-      vendor.practices.sort((a, b) => Math.abs(b.impact) - Math.abs(a.impact));
-    });
-
-    // Convert map to array and sort by total debt
-    return Array.from(vendorMap.values())
-      .filter(vendor => vendor.transactions.length > 0)
-      .sort((a, b) => Math.abs(b.societalDebt) - Math.abs(a.societalDebt));
-  }, [transactions]);
+  const vendorsData = useMemo(() => aggregateByVendor(transactions), [transactions]);
 
   // Toggle vendor expansion
-  const toggleVendor = (vendorName: string) => {
+  const toggleVendor = (merchantId: string) => {
     setExpandedVendors(prev => ({
       ...prev,
-      [vendorName]: !prev[vendorName]
+      [merchantId]: !prev[merchantId]
     }));
   };
 
   // Handle vendor offset button
-  const handleOffsetVendor = (vendorName: string) => {
-    setSelectedVendor(vendorName);
+  const handleOffsetVendor = (merchantId: string) => {
+    setSelectedVendor(merchantId);
     setIsDonationModalOpen(true);
   };
 
+  const selectedVendorData = vendorsData.find(v => v.merchantId === selectedVendor);
+
   // Get amount to offset for the selected vendor
   const getSelectedAmount = (): number => {
-    if (!selectedVendor) return 0;
-    
-    const vendor = vendorsData.find(v => v.name === selectedVendor);
-    return vendor ? Math.max(0, vendor.societalDebt) : 0;
+    return selectedVendorData ? Math.max(0, selectedVendorData.societalDebt) : 0;
   };
 
   return (
@@ -160,20 +61,25 @@ export function VendorBreakdownView({
         <div className="space-y-4">
           {vendorsData.map((vendor) => (
             <div 
-              key={vendor.name} 
+              key={vendor.merchantId} 
               className="border rounded-lg overflow-hidden shadow-sm"
             >
               {/* Vendor header - clickable to expand */}
               <div 
                 className="p-3 bg-gray-50 border-b border-gray-200 cursor-pointer"
-                onClick={() => toggleVendor(vendor.name)}
+                onClick={() => toggleVendor(vendor.merchantId)}
               >
                 <div className="flex justify-between items-center">
                   <div className="flex items-center">
                     <span className="mr-2 text-gray-600">
-                      {expandedVendors[vendor.name] ? "▼" : "▶"}
+                      {expandedVendors[vendor.merchantId] ? "▼" : "▶"}
                     </span>
                     <h3 className="font-bold text-gray-800">{vendor.name}</h3>
+                    {(vendor.removedPractices.length > 0 || vendor.practices.some(p => p.edited)) && (
+                      <span className="ml-2 bg-blue-100 text-blue-800 px-2 py-0.5 rounded-full text-xs">
+                        Edited
+                      </span>
+                    )}
                   </div>
                   
                   <div className="flex items-center space-x-4">
@@ -191,8 +97,15 @@ export function VendorBreakdownView({
               </div>
               
               {/* Vendor details when expanded */}
-              {expandedVendors[vendor.name] && (
+              {expandedVendors[vendor.merchantId] && (
                 <div className="p-4 bg-white">
+                  {/* Bank descriptors that resolved to this merchant */}
+                  {(vendor.descriptors.length > 1 || vendor.descriptors[0] !== vendor.name) && (
+                    <p className="mb-3 text-sm text-gray-500">
+                      Appears on statements as: {vendor.descriptors.join(", ")}
+                    </p>
+                  )}
+
                   {/* Summary stats */}
                   <div className="grid grid-cols-2 sm:grid-cols-3 gap-3 mb-4">
                     <div className="p-3 bg-gray-50 rounded-lg">
@@ -230,9 +143,24 @@ export function VendorBreakdownView({
                             }`}
                           >
                             <div className="flex justify-between items-center mb-1">
-                              <div className="font-medium">{practice.name}</div>
-                              <div className={`font-bold ${getColorClass(practice.impact)}`}>
-                                ${Math.abs(practice.impact).toFixed(2)}
+                              <div className="font-medium">
+                                {practice.name}
+                                {practice.confidence !== undefined && (
+                                  <ConfidenceIndicator confidence={practice.confidence} />
+                                )}
+                                {practice.confidence !== undefined && confidenceLevel(practice.confidence) === "low" && (
+                                  <span className="ml-2 bg-yellow-100 text-yellow-800 px-2 py-0.5 rounded-full text-xs font-normal">
+                                    Low confidence
+                                  </span>
+                                )}
+                                {practice.edited && (
+                                  <span className="ml-2 bg-blue-100 text-blue-800 px-2 py-0.5 rounded-full text-xs font-normal">
+                                    Edited by you
+                                  </span>
+                                )}
+                              </div>
+                              <div className={`font-bold ${getColorClass(practice.amount)}`}>
+                                ${Math.abs(practice.amount).toFixed(2)}
                               </div>
                             </div>
                             
@@ -245,6 +173,12 @@ export function VendorBreakdownView({
                         ))}
                       </div>
                     )}
+                    {vendor.removedPractices.length > 0 && (
+                      <p className="mt-2 text-sm text-gray-500">
+                        Removed by you:{" "}
+                        <span className="line-through">{vendor.removedPractices.join(", ")}</span>
+                      </p>
+                    )}
                   </div>
                   
                   {/* Transactions from this vendor */}
@@ -281,7 +215,7 @@ export function VendorBreakdownView({
                       <button
                         onClick={(e) => {
                           e.stopPropagation();
-                          handleOffsetVendor(vendor.name);
+                          handleOffsetVendor(vendor.merchantId);
                         }}
                         className="bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded"
                       >
@@ -297,9 +231,9 @@ export function VendorBreakdownView({
       )}
       
       {/* Donation modal */}
-      {isDonationModalOpen && selectedVendor && (
+      {isDonationModalOpen && selectedVendorData && (
         <DonationModal
-          practice={`${selectedVendor} Impact`}
+          practice={`${selectedVendorData.name} Impact`}
           amount={getSelectedAmount()}
           isOpen={isDonationModalOpen}
           onClose={() => setIsDonationModalOpen(false)}
@@ -2,36 +2,66 @@
 // API-specific logic for handling HTTP requests and responses
 import { NextRequest, NextResponse } from "next/server";
 import { analyzeTransactionsCore } from "../transactionAnalysisService";
+import { getMerchantOverrides } from "../merchantOverrideService";
+import { MerchantOverride } from "../merchantOverrides";
+import { getConfidenceModePreference } from "../practiceConfidenceService";
+import { ConfidenceMode } from "../practiceConfidence";
 import { AnalysisRequest } from "../types";
+import { AuthContext } from "@/shared/utils/withAuth";
+
+export async function analyzeTransactionsHandler(req: NextRequest, { uid: userId }: AuthContext) {
+  // Parse and validate the incoming request - the only failures that are the client's
+  let requestData: AnalysisRequest;
+  try {
+    requestData = await req.json() as AnalysisRequest;
+  } catch {
+    return NextResponse.json(
+      { error: "Invalid request: body must be JSON" },
+      { status: 400 }
+    );
+  }
+
+  if (!Array.isArray(requestData.transactions) || requestData.transactions.length === 0) {
+    return NextResponse.json(
+      { error: "Invalid request: transactions must be a non-empty array" },
+      { status: 400 }
+    );
+  }
+
+  // The user's corrections and their choice of how low-confidence practices count
+  let overrides: MerchantOverride[];
+  let confidenceMode: ConfidenceMode;
+  try {
+    [overrides, confidenceMode] = await Promise.all([
+      getMerchantOverrides(userId),
+      getConfidenceModePreference(userId),
+    ]);
+  } catch (error) {
+    console.error("❌ Error loading merchant overrides or confidence mode:", error);
+    return NextResponse.json(
+      { error: "Failed to load analysis settings" },
+      { status: 500 }
+    );
+  }
 
-export async function analyzeTransactionsHandler(req: NextRequest) {
   try {
-    // Parse and validate the incoming request
-    const requestData = await req.json() as AnalysisRequest;
-    
-    if (!requestData.transactions || !Array.isArray(requestData.transactions)) {
-      return NextResponse.json(
-        { error: "Invalid request: transactions must be an array" },
-        { status: 400 }
-      );
-    }
-    
     // Call the domain service to perform the business logic
-    const analysis = await analyzeTransactionsCore(requestData.transactions);
-    
+    const analysis = await analyzeTransactionsCore(requestData.transactions, undefined, overrides, {
+      confidenceMode,
+    });
+
     // Return the analysis result as JSON
     return NextResponse.json(analysis);
   } catch (error) {
     // Log the error
     console.error("❌ Analysis API Error:", error);
-    
-    // Format the error for the client
+
+    // The model failed or gave nothing usable - an upstream failure, not a bad request
     const errorMessage = error instanceof Error ? error.message : "Internal server error";
-    const statusCode = errorMessage.includes("Invalid") ? 400 : 500;
-    
+
     return NextResponse.json(
       { error: errorMessage },
-      { status: statusCode }
+      { status: 502 }
     );
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,42 @@
+// src/features/analysis/api/merchantCacheHandler.ts
+// API handlers for inspecting and invalidating the merchant analysis cache
+import { NextRequest, NextResponse } from "next/server";
+import { AuthContext } from "@/shared/utils/withAuth";
+import { getMerchantCacheStats, invalidateMerchantAnalysis } from "../merchantCache";
+
+export async function getMerchantCacheStatsHandler() {
+  return NextResponse.json({ stats: getMerchantCacheStats() });
+}
+
+export async function invalidateMerchantCacheHandler(req: NextRequest, { uid }: AuthContext) {
+  try {
+    // Invalidate a single merchant with ?merchant=, or everything with ?all=true
+    const searchParams = req.nextUrl.searchParams;
+    const merchant = searchParams.get("merchant");
+    const all = searchParams.get("all") === "true";
+
+    if (!merchant && !all) {
+      return NextResponse.json(
+        { error: "Invalid request: provide a merchant or all=true" },
+        { status: 400 }
+      );
+    }
+
+    console.log(`🗑️ Merchant cache invalidation requested by admin ${uid}`);
+    const invalidated = await invalidateMerchantAnalysis(merchant || undefined);
+
+    return NextResponse.json({
+      success: true,
+      invalidated,
+    });
+  } catch (error) {
+    console.error("❌ Merchant cache invalidation error:", error);
+
+    const errorMessage = error instanceof Error ? error.message : "Internal server error";
+
+    return NextResponse.json(
+      { error: errorMessage },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,151 @@
+// src/features/analysis/api/merchantOverridesHandler.ts
+// API handlers for listing, saving and removing a user's merchant overrides
+
+import { NextRequest, NextResponse } from "next/server";
+import { config } from "@/config";
+import { AuthContext } from "@/shared/utils/withAuth";
+import {
+  getMerchantOverrides,
+  saveMerchantOverride,
+  deleteMerchantOverride,
+  applyOverrideToStoredTransactions,
+} from "../merchantOverrideService";
+import { MerchantOverrideInput, OverridePractice } from "../merchantOverrides";
+import { PRACTICE_CATEGORIES, findPractice } from "../practiceTaxonomy";
+
+const CATEGORY_NAMES = PRACTICE_CATEGORIES.map((category) => category.name);
+
+function isWeight(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0 && value <= 100;
+}
+
+function toOverridePractice(value: unknown): OverridePractice | null {
+  if (!value || typeof value !== "object") return null;
+
+  const { name, type, weight, category } = value as Record<string, unknown>;
+  if (
+    typeof name !== "string" ||
+    !name.trim() ||
+    (type !== "unethical" && type !== "ethical") ||
+    !isWeight(weight) ||
+    (category !== undefined && (typeof category !== "string" || !CATEGORY_NAMES.includes(category)))
+  ) {
+    return null;
+  }
+
+  // Known practices take the registry's name and category, like the model's do
+  const known = findPractice(name, type);
+
+  return {
+    name: known ? known.name : name.trim(),
+    type,
+    weight,
+    ...(known ? { category: known.category } : category ? { category } : {}),
+  };
+}
+
+/**
+ * Registry name for one of the model's practices, which are stored canonicalized
+ */
+function canonicalPracticeName(name: string): string {
+  return findPractice(name)?.name || name.trim();
+}
+
+/**
+ * Check an override from the client
+ * @returns The override, or why it was rejected
+ */
+function parseOverrideInput(body: Record<string, unknown>): MerchantOverrideInput | string {
+  const { merchantName, addedPractices = [], removedPractices = [], practiceWeights = {} } = body;
+
+  if (typeof merchantName !== "string" || !merchantName.trim()) {
+    return "merchantName is required";
+  }
+
+  if (!Array.isArray(addedPractices) || addedPractices.length > config.merchantOverrides.maxPractices) {
+    return `addedPractices must be an array of at most ${config.merchantOverrides.maxPractices} practices`;
+  }
+  const added = addedPractices.map(toOverridePractice);
+  if (added.some((practice) => practice === null)) {
+    return `Each added practice needs a name, a type of unethical or ethical, a weight from 0 to 100, and a category from: ${CATEGORY_NAMES.join(", ")}`;
+  }
+
+  if (!Array.isArray(removedPractices) || removedPractices.some((practice) => typeof practice !== "string")) {
+    return "removedPractices must be an array of practice names";
+  }
+
+  if (
+    !practiceWeights ||
+    typeof practiceWeights !== "object" ||
+    Array.isArray(practiceWeights) ||
+    !Object.values(practiceWeights).every(isWeight)
+  ) {
+    return "practiceWeights must map practices to weights from 0 to 100";
+  }
+
+  return {
+    merchantName: merchantName.trim(),
+    addedPractices: added as OverridePractice[],
+    removedPractices: (removedPractices as string[]).map(canonicalPracticeName),
+    practiceWeights: Object.fromEntries(
+      Object.entries(practiceWeights as Record<string, number>).map(([practice, weight]) => [
+        canonicalPracticeName(practice),
+        weight,
+      ])
+    ),
+  };
+}
+
+export async function getMerchantOverridesHandler(req: NextRequest, { uid: userId }: AuthContext) {
+  try {
+    return NextResponse.json({ overrides: await getMerchantOverrides(userId) });
+  } catch (error) {
+    console.error("❌ Error listing merchant overrides:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function saveMerchantOverrideHandler(req: NextRequest, { uid: userId }: AuthContext) {
+  try {
+    const input = parseOverrideInput(await req.json());
+    if (typeof input === "string") {
+      return NextResponse.json({ error: input }, { status: 400 });
+    }
+
+    const override = await saveMerchantOverride(userId, input);
+    const result = await applyOverrideToStoredTransactions(userId, override.merchantKey, override);
+
+    return NextResponse.json({ override, ...result });
+  } catch (error) {
+    console.error("❌ Error saving merchant override:", error);
+
+    const message = error instanceof Error ? error.message : "Internal server error";
+    return NextResponse.json(
+      { error: message },
+      { status: message === "Invalid merchant name" ? 400 : 500 }
+    );
+  }
+}
+
+export async function deleteMerchantOverrideHandler(req: NextRequest, { uid: userId }: AuthContext) {
+  try {
+    const merchantKey = req.nextUrl.searchParams.get("merchantKey");
+    if (!merchantKey) {
+      return NextResponse.json({ error: "Missing merchantKey" }, { status: 400 });
+    }
+
+    await deleteMerchantOverride(userId, merchantKey);
+    const result = await applyOverrideToStoredTransactions(userId, merchantKey);
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error("❌ Error removing merchant override:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
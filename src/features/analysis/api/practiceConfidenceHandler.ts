@@ -0,0 +1,56 @@
+// src/features/analysis/api/practiceConfidenceHandler.ts
+// API handlers for reading and changing how low-confidence practices count
+
+import { NextRequest, NextResponse } from "next/server";
+import { config } from "@/config";
+import { AuthContext } from "@/shared/utils/withAuth";
+import {
+  getConfidenceModePreference,
+  saveConfidenceModePreference,
+} from "../practiceConfidenceService";
+import { CONFIDENCE_MODES, isConfidenceMode } from "../practiceConfidence";
+
+export async function getConfidenceModeHandler(req: NextRequest, { uid: userId }: AuthContext) {
+  try {
+    return NextResponse.json({
+      mode: await getConfidenceModePreference(userId),
+      modes: CONFIDENCE_MODES,
+      lowThreshold: config.practiceConfidence.lowThreshold,
+    });
+  } catch (error) {
+    console.error("❌ Error loading confidence mode:", error);
+
+    const errorMessage = error instanceof Error ? error.message : "Internal server error";
+
+    return NextResponse.json(
+      { error: errorMessage },
+      { status: 500 }
+    );
+  }
+}
+
+export async function saveConfidenceModeHandler(req: NextRequest, { uid: userId }: AuthContext) {
+  try {
+    const { mode } = (await req.json()) as { mode?: unknown };
+
+    if (!isConfidenceMode(mode)) {
+      return NextResponse.json(
+        { error: `Invalid request: mode must be one of ${CONFIDENCE_MODES.map((m) => m.id).join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const result = await saveConfidenceModePreference(userId, mode);
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("❌ Error saving confidence mode:", error);
+
+    const errorMessage = error instanceof Error ? error.message : "Internal server error";
+
+    return NextResponse.json(
+      { error: errorMessage },
+      { status: 500 }
+    );
+  }
+}
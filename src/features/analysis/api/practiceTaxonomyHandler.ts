@@ -0,0 +1,24 @@
+// src/features/analysis/api/practiceTaxonomyHandler.ts
+// API handler for reviewing the practice taxonomy and the practices it is missing
+import { NextResponse } from "next/server";
+import { PRACTICE_CATEGORIES, PRACTICE_TAXONOMY } from "../practiceTaxonomy";
+import { getUnknownPractices } from "../unknownPracticeLog";
+
+export async function getPracticeTaxonomyHandler() {
+  try {
+    return NextResponse.json({
+      categories: PRACTICE_CATEGORIES,
+      practices: PRACTICE_TAXONOMY,
+      unknown: await getUnknownPractices(),
+    });
+  } catch (error) {
+    console.error("❌ Error loading practice taxonomy review:", error);
+
+    const errorMessage = error instanceof Error ? error.message : "Internal server error";
+
+    return NextResponse.json(
+      { error: errorMessage },
+      { status: 500 }
+    );
+  }
+}
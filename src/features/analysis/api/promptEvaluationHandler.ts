@@ -0,0 +1,70 @@
+// src/features/analysis/api/promptEvaluationHandler.ts
+// API handlers for listing prompt versions and evaluating them against the golden dataset
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getPromptVersion,
+  goldenDataset,
+  isEvaluationModel,
+  promptVersions,
+  runEvaluation,
+} from "../evaluation";
+
+export async function getPromptVersionsHandler() {
+  return NextResponse.json({
+    datasetVersion: goldenDataset.version,
+    merchantCount: goldenDataset.merchants.length,
+    promptVersions: promptVersions.map(({ id, description, recording }) => ({
+      id,
+      description,
+      hasRecording: Boolean(recording),
+    })),
+  });
+}
+
+export async function runPromptEvaluationHandler(req: NextRequest) {
+  try {
+    const { promptVersions: versionIds = [], model = "mock" } = (await req.json()) as {
+      promptVersions?: string[];
+      model?: string;
+    };
+
+    if (!Array.isArray(versionIds) || !isEvaluationModel(model)) {
+      return NextResponse.json(
+        { error: "Invalid request: promptVersions must be an array and model one of mock, recorded or live" },
+        { status: 400 }
+      );
+    }
+
+    const unknown = versionIds.filter((id) => !getPromptVersion(id));
+    if (unknown.length > 0) {
+      return NextResponse.json(
+        { error: `Invalid request: unknown prompt versions ${unknown.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    if (model === "recorded") {
+      const requested = versionIds.length > 0 ? versionIds : promptVersions.map((version) => version.id);
+      const unrecorded = requested.filter((id) => !getPromptVersion(id)?.recording);
+      if (unrecorded.length > 0) {
+        return NextResponse.json(
+          { error: `Invalid request: no recording for ${unrecorded.join(", ")}` },
+          { status: 400 }
+        );
+      }
+    }
+
+    const report = await runEvaluation(versionIds, model);
+
+    return NextResponse.json({ report });
+  } catch (error) {
+    console.error("❌ Prompt evaluation error:", error);
+
+    const errorMessage = error instanceof Error ? error.message : "Internal server error";
+
+    return NextResponse.json(
+      { error: errorMessage },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,95 @@
+// src/features/analysis/api/streamAnalysisHandler.ts
+// Streaming variant of the analysis API - emits progress as Server-Sent Events
+import { NextRequest, NextResponse } from "next/server";
+import { analyzeTransactionsCore } from "../transactionAnalysisService";
+import { getMerchantOverrides } from "../merchantOverrideService";
+import { MerchantOverride } from "../merchantOverrides";
+import { getConfidenceModePreference } from "../practiceConfidenceService";
+import { ConfidenceMode } from "../practiceConfidence";
+import { AnalysisRequest, AnalysisProgressEvent } from "../types";
+import { AuthContext } from "@/shared/utils/withAuth";
+
+/**
+ * Format an event in SSE wire format
+ */
+function encodeEvent(event: AnalysisProgressEvent): string {
+  return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+export async function streamAnalyzeTransactionsHandler(req: NextRequest, { uid: userId }: AuthContext) {
+  let requestData: AnalysisRequest;
+
+  try {
+    requestData = await req.json() as AnalysisRequest;
+  } catch {
+    return NextResponse.json(
+      { error: "Invalid request: body must be JSON" },
+      { status: 400 }
+    );
+  }
+
+  if (!requestData.transactions || !Array.isArray(requestData.transactions)) {
+    return NextResponse.json(
+      { error: "Invalid request: transactions must be an array" },
+      { status: 400 }
+    );
+  }
+
+  let overrides: MerchantOverride[];
+  let confidenceMode: ConfidenceMode;
+  try {
+    [overrides, confidenceMode] = await Promise.all([
+      getMerchantOverrides(userId),
+      getConfidenceModePreference(userId),
+    ]);
+  } catch (error) {
+    console.error("❌ Error loading merchant overrides or confidence mode:", error);
+    return NextResponse.json(
+      { error: "Failed to load analysis settings" },
+      { status: 500 }
+    );
+  }
+
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      let closed = false;
+      const send = (event: AnalysisProgressEvent) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(encodeEvent(event)));
+        } catch {
+          // Client went away - keep analyzing so results can still be cached
+          closed = true;
+        }
+      };
+
+      try {
+        const analysis = await analyzeTransactionsCore(requestData.transactions, send, overrides, {
+          confidenceMode,
+        });
+        send({ type: "complete", data: analysis });
+      } catch (error) {
+        console.error("❌ Streaming analysis error:", error);
+        send({
+          type: "error",
+          error: error instanceof Error ? error.message : "Internal server error",
+        });
+      } finally {
+        if (!closed) {
+          closed = true;
+          controller.close();
+        }
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
@@ -1,27 +1,17 @@
 // src/features/transactions/api/transactionStorageHandler.ts
 // API handlers for transaction storage
 import { NextRequest, NextResponse } from "next/server";
-import { saveAnalyzedTransactions, getUserTransactionBatches, getLatestTransactionBatch } from "../transactionStorageService";
+import { saveUserTransactions, getMonthlySummaries, getUserTransactions } from "../transactionStorageService";
 import { AnalyzedTransactionData } from "../types";
-// import { getAuth } from "firebase/auth";
+import { AuthContext } from "@/shared/utils/withAuth";
 
 interface SaveTransactionsRequest {
   data: AnalyzedTransactionData;
-  accessToken?: string;
 }
 
-export async function saveTransactionsHandler(req: NextRequest) {
+export async function saveTransactionsHandler(req: NextRequest, { uid: userId }: AuthContext) {
   try {
-    // In a real app, get user ID from session/token
-    // For this example, we'll need to get it from the request
-    const { data, accessToken, userId } = await req.json() as SaveTransactionsRequest & { userId: string };
-    
-    if (!userId) {
-      return NextResponse.json(
-        { error: "Unauthorized: User ID is required" },
-        { status: 401 }
-      );
-    }
+    const { data } = await req.json() as SaveTransactionsRequest;
     
     if (!data || !data.transactions) {
       return NextResponse.json(
@@ -30,11 +20,11 @@ export async function saveTransactionsHandler(req: NextRequest) {
       );
     }
     
-    const batchId = await saveAnalyzedTransactions(userId, data, accessToken);
+    await saveUserTransactions(userId, data.transactions);
     
     return NextResponse.json({ 
       success: true, 
-      batchId 
+      savedCount: data.transactions.length
     });
   } catch (error) {
     console.error("❌ Save transactions API error:", error);
@@ -48,23 +38,12 @@ export async function saveTransactionsHandler(req: NextRequest) {
   }
 }
 
-export async function getUserTransactionsHandler(req: NextRequest) {
+export async function getUserTransactionsHandler(req: NextRequest, { uid: userId }: AuthContext) {
   try {
-    // Get user ID from URL parameters
-    const searchParams = req.nextUrl.searchParams;
-    const userId = searchParams.get("userId");
-    
-    if (!userId) {
-      return NextResponse.json(
-        { error: "Unauthorized: User ID is required" },
-        { status: 401 }
-      );
-    }
-    
-    const batches = await getUserTransactionBatches(userId);
+    const summaries = await getMonthlySummaries(userId);
     
     return NextResponse.json({ 
-      batches
+      summaries
     });
   } catch (error) {
     console.error("❌ Get user transactions API error:", error);
@@ -78,31 +57,18 @@ export async function getUserTransactionsHandler(req: NextRequest) {
   }
 }
 
-export async function getLatestTransactionsHandler(req: NextRequest) {
+export async function getLatestTransactionsHandler(req: NextRequest, { uid: userId }: AuthContext) {
   try {
-    // Get user ID from URL parameters
-    const searchParams = req.nextUrl.searchParams;
-    const userId = searchParams.get("userId");
-    
-    if (!userId) {
-      return NextResponse.json(
-        { error: "Unauthorized: User ID is required" },
-        { status: 401 }
-      );
-    }
-    
-    const batch = await getLatestTransactionBatch(userId);
+    const stored = await getUserTransactions(userId);
     
-    if (!batch) {
+    if (!stored) {
       return NextResponse.json(
-        { batch: null, message: "No transactions found for this user" },
+        { transactions: null, message: "No transactions found for this user" },
         { status: 404 }
       );
     }
     
-    return NextResponse.json({ 
-      batch
-    });
+    return NextResponse.json(stored);
   } catch (error) {
     console.error("❌ Get latest transactions API error:", error);
     
@@ -1,7 +1,10 @@
 // src/features/analysis/directFirebaseLoader.ts
-import { db } from '@/shared/firebase/firebase';
-import { collection, query, where, orderBy, getDocs, limit, writeBatch } from 'firebase/firestore';
 import { Transaction } from '@/shared/types/transactions';
+import {
+  getUserTransactions,
+  getMonthlySummaries,
+  deleteAllStoredTransactions,
+} from './transactionStorageService';
 
 /**
  * Directly load transactions from Firebase without relying on React state
@@ -23,16 +26,9 @@ export async function loadUserTransactions(userId: string): Promise<{
   console.log(`🔍 Direct Firebase Loader: fetching data for user ${userId}`);
   
   try {
-    const q = query(
-      collection(db, 'transactionBatches'),
-      where('userId', '==', userId),
-      orderBy('createdAt', 'desc'),
-      limit(1)
-    );
+    const stored = await getUserTransactions(userId);
     
-    const querySnapshot = await getDocs(q);
-    
-    if (querySnapshot.empty) {
+    if (!stored) {
       console.log(`🔍 Direct Firebase Loader: no data found for user ${userId}`);
       return {
         transactions: null,
@@ -41,15 +37,11 @@ export async function loadUserTransactions(userId: string): Promise<{
       };
     }
     
-    // Get the most recent batch
-    const doc = querySnapshot.docs[0];
-    const data = doc.data();
-    
-    console.log(`🔍 Direct Firebase Loader: found batch ${doc.id} with ${data.transactions?.length || 0} transactions`);
+    console.log(`🔍 Direct Firebase Loader: found ${stored.transactions.length} transactions`);
     
     return {
-      transactions: data.transactions || [],
-      totalSocietalDebt: data.totalSocietalDebt || 0,
+      transactions: stored.transactions,
+      totalSocietalDebt: stored.totalSocietalDebt,
       error: null
     };
   } catch (error) {
@@ -70,14 +62,9 @@ export async function userHasData(userId: string): Promise<boolean> {
   if (!userId) return false;
   
   try {
-    const q = query(
-      collection(db, 'transactionBatches'),
-      where('userId', '==', userId),
-      limit(1)
-    );
-    
-    const querySnapshot = await getDocs(q);
-    return !querySnapshot.empty;
+    // Summaries are small, and migrating legacy batches first keeps old users covered
+    const summaries = await getMonthlySummaries(userId);
+    return summaries.length > 0;
   } catch (error) {
     console.error('🔍 Direct Firebase Loader: error checking user data:', error);
     return false;
@@ -86,19 +73,14 @@ export async function userHasData(userId: string): Promise<boolean> {
 
 /**
  * Get transaction count for a user 
- * Returns the total number of transaction batches stored for this user
+ * Returns the total number of transactions stored for this user
  */
 export async function getUserTransactionCount(userId: string): Promise<number> {
   if (!userId) return 0;
   
   try {
-    const q = query(
-      collection(db, 'transactionBatches'),
-      where('userId', '==', userId)
-    );
-    
-    const querySnapshot = await getDocs(q);
-    return querySnapshot.size;
+    const summaries = await getMonthlySummaries(userId);
+    return summaries.reduce((count, summary) => count + summary.transactionCount, 0);
   } catch (error) {
     console.error('🔍 Direct Firebase Loader: error counting user transactions:', error);
     return 0;
@@ -106,7 +88,7 @@ export async function getUserTransactionCount(userId: string): Promise<number> {
 }
 
 /**
- * Delete all transaction batches for a user
+ * Delete all stored transactions for a user, including monthly summaries and legacy batches
  * USE WITH CAUTION - this is destructive and cannot be undone
  */
 export async function deleteAllUserTransactions(userId: string): Promise<boolean> {
@@ -116,63 +98,14 @@ export async function deleteAllUserTransactions(userId: string): Promise<boolean
   }
   
   try {
-    console.log(`🗑️ Deleting all transaction batches for user: ${userId}`);
-    
-    // First get all transaction batches for this user
-    const q = query(
-      collection(db, 'transactionBatches'),
-      where('userId', '==', userId)
-    );
+    console.log(`🗑️ Deleting all stored transactions for user: ${userId}`);
     
-    const querySnapshot = await getDocs(q);
+    const totalDeleted = await deleteAllStoredTransactions(userId);
     
-    if (querySnapshot.empty) {
-      console.log("No transactions found to delete");
-      return true; // Nothing to delete is still a success
-    }
-    
-    // Use batched writes for better performance if many documents
-    const batchSize = 500; // Firestore limit is 500 operations per batch
-    let totalDeleted = 0;
-    
-    // For smaller sets, use a single batch
-    if (querySnapshot.size <= batchSize) {
-      const batch = writeBatch(db);
-      
-      querySnapshot.forEach(doc => {
-        batch.delete(doc.ref);
-        totalDeleted++;
-      });
-      
-      await batch.commit();
-    } else {
-      // For larger sets, use multiple batches
-      let currentBatch = writeBatch(db);
-      let operationCount = 0;
-      
-      for (const doc of querySnapshot.docs) {
-        currentBatch.delete(doc.ref);
-        operationCount++;
-        totalDeleted++;
-        
-        // If we've reached the batch limit, commit and start a new batch
-        if (operationCount >= batchSize) {
-          await currentBatch.commit();
-          currentBatch = writeBatch(db);
-          operationCount = 0;
-        }
-      }
-      
-      // Commit any remaining operations
-      if (operationCount > 0) {
-        await currentBatch.commit();
-      }
-    }
-    
-    console.log(`🗑️ Successfully deleted ${totalDeleted} transaction batches`);
+    console.log(`🗑️ Successfully deleted ${totalDeleted} transaction documents`);
     return true;
   } catch (error) {
     console.error('🗑️ Error deleting user transactions:', error);
     throw error; // Re-throw to allow proper error handling
   }
-}
\ No newline at end of file
+}
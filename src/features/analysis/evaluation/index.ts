@@ -0,0 +1,149 @@
+// src/features/analysis/evaluation/index.ts
+// Runs the analysis pipeline over the golden dataset, once per prompt version
+//
+// Each run goes through analyzeTransactionsCore like a real request, minus the merchant
+// cache and the unknown-practice log, so normalization, validation and taxonomy mapping are
+// measured along with the prompt without touching what real requests share.
+
+import { Transaction } from "@/shared/types/transactions";
+import { getTransactionId } from "@/shared/utils/transactionIdentity";
+import { analyzeTransactionsCore } from "../transactionAnalysisService";
+import { getLLMProvider, LLMProvider, RecordedAnalysis } from "../providers";
+import { createMockProvider } from "../providers/mockProvider";
+import { getMerchantName } from "../merchantNormalization";
+import { evaluateMerchant, summarizeEvaluations } from "./metrics";
+import { getPromptVersion, promptVersions } from "./promptVersions";
+import dataset from "./goldenDataset.json";
+import {
+  EvaluationModel,
+  EvaluationReport,
+  GoldenDataset,
+  PromptEvaluation,
+  PromptVersion,
+} from "./types";
+
+export type {
+  EvaluationMetrics,
+  EvaluationModel,
+  EvaluationReport,
+  GoldenDataset,
+  MerchantEvaluation,
+  PromptEvaluation,
+  PromptVersion,
+} from "./types";
+export { getPromptVersion, promptVersions } from "./promptVersions";
+
+export const goldenDataset = dataset as GoldenDataset;
+
+const EVALUATION_MODELS: EvaluationModel[] = ["mock", "recorded", "live"];
+
+export function isEvaluationModel(value: unknown): value is EvaluationModel {
+  return EVALUATION_MODELS.includes(value as EvaluationModel);
+}
+
+function providerFor(version: PromptVersion, model: EvaluationModel): LLMProvider {
+  switch (model) {
+    case "mock":
+      return createMockProvider();
+    case "recorded":
+      if (!version.recording) {
+        throw new Error(
+          `Prompt version "${version.id}" has no recording; run it with the live model and save one first`
+        );
+      }
+      return createMockProvider(version.recording);
+    case "live":
+      return getLLMProvider();
+  }
+}
+
+// The answers in the mock provider's format, keyed the way it looks them up
+function toRecording(transactions: Transaction[]): Record<string, RecordedAnalysis> {
+  const recording: Record<string, RecordedAnalysis> = {};
+  transactions
+    .filter((tx) => tx.analyzed)
+    .forEach((tx) => {
+      recording[getMerchantName(tx).toLowerCase()] = {
+        unethicalPractices: tx.unethicalPractices || [],
+        ethicalPractices: tx.ethicalPractices || [],
+        practiceWeights: tx.practiceWeights || {},
+        practiceConfidence: tx.practiceConfidence || {},
+        practiceSearchTerms: tx.practiceSearchTerms || {},
+        practiceCategories: tx.practiceCategories || {},
+        information: tx.information || {},
+      };
+    });
+  return recording;
+}
+
+/**
+ * Analyze the golden dataset with one prompt version and score the result
+ */
+export async function evaluatePrompt(
+  version: PromptVersion,
+  model: EvaluationModel,
+  golden: GoldenDataset = goldenDataset
+): Promise<PromptEvaluation> {
+  const provider = providerFor(version, model);
+  const transactions: Transaction[] = golden.merchants.map((merchant, index) => ({
+    transactionId: `golden-${golden.version}-${index}`,
+    date: golden.updated,
+    name: merchant.descriptor,
+    amount: merchant.amount,
+  }));
+
+  console.log(
+    `🧪 Evaluating prompt "${version.id}" on ${transactions.length} golden merchants with ${provider.name} (${provider.model})`
+  );
+
+  const analysis = await analyzeTransactionsCore(transactions, undefined, [], {
+    provider,
+    prompt: version.prompt,
+    useMerchantCache: false,
+    recordUnknownPractices: false,
+  });
+  const byId = new Map(analysis.transactions.map((tx) => [getTransactionId(tx), tx]));
+
+  const merchants = golden.merchants.map((merchant, index) => {
+    const transactionId = transactions[index].transactionId!;
+    return evaluateMerchant(merchant, byId.get(transactionId) || transactions[index]);
+  });
+
+  return {
+    promptVersion: version.id,
+    provider: provider.name,
+    model: provider.model,
+    metrics: summarizeEvaluations(merchants),
+    merchants,
+    ...(model === "live" ? { recording: toRecording(analysis.transactions) } : {}),
+  };
+}
+
+/**
+ * Evaluate prompt versions one after another, every known version when none are named
+ */
+export async function runEvaluation(
+  versionIds: string[] = [],
+  model: EvaluationModel = "mock"
+): Promise<EvaluationReport> {
+  const versions =
+    versionIds.length > 0
+      ? versionIds.map((id) => {
+          const version = getPromptVersion(id);
+          if (!version) throw new Error(`Unknown prompt version: ${id}`);
+          return version;
+        })
+      : promptVersions;
+
+  const results: PromptEvaluation[] = [];
+  for (const version of versions) {
+    results.push(await evaluatePrompt(version, model));
+  }
+
+  return {
+    datasetVersion: goldenDataset.version,
+    evaluationModel: model,
+    ranAt: new Date().toISOString(),
+    results,
+  };
+}
@@ -0,0 +1,122 @@
+// src/features/analysis/evaluation/metrics.ts
+// Scores analyzed transactions against golden labels
+//
+// A practice counts as found only with the labeled polarity: "Fair Trade" flagged as
+// unethical is both a false positive and a false negative. Weight and category are
+// judged on found practices only, so a prompt isn't rewarded for flagging fewer.
+
+import { Transaction } from "@/shared/types/transactions";
+import { findPractice, PracticePolarity } from "../practiceTaxonomy";
+import { practiceWeight } from "../impactAggregation";
+import { getMerchantName } from "../merchantNormalization";
+import {
+  CategoryMiss,
+  EvaluationMetrics,
+  GoldenMerchant,
+  MerchantEvaluation,
+  PracticeLabel,
+  WeightMiss,
+} from "./types";
+
+function practiceKey(name: string, polarity: PracticePolarity): string {
+  return `${polarity}:${findPractice(name, polarity)?.name ?? name}`;
+}
+
+function predictedPractices(tx: Transaction): Map<string, string> {
+  const predicted = new Map<string, string>();
+  (tx.unethicalPractices || []).forEach((name) => predicted.set(practiceKey(name, "unethical"), name));
+  (tx.ethicalPractices || []).forEach((name) => predicted.set(practiceKey(name, "ethical"), name));
+  return predicted;
+}
+
+function weightError(weight: number, [min, max]: [number, number]): number {
+  if (weight < min) return min - weight;
+  if (weight > max) return weight - max;
+  return 0;
+}
+
+// An empty denominator means nothing could go wrong, e.g. no practices flagged at all
+function ratio(numerator: number, denominator: number): number {
+  return denominator > 0 ? numerator / denominator : 1;
+}
+
+/**
+ * Compare the model's analysis of one golden merchant with its labels
+ */
+export function evaluateMerchant(golden: GoldenMerchant, tx: Transaction): MerchantEvaluation {
+  const predicted = predictedPractices(tx);
+  const labels = new Map<string, PracticeLabel>(
+    golden.practices.map((label) => [practiceKey(label.name, label.polarity), label])
+  );
+
+  const truePositives: string[] = [];
+  const falseNegatives: string[] = [];
+  const weightMisses: WeightMiss[] = [];
+  const categoryMisses: CategoryMiss[] = [];
+
+  labels.forEach((label, key) => {
+    const name = predicted.get(key);
+    if (!name) {
+      falseNegatives.push(label.name);
+      return;
+    }
+
+    truePositives.push(label.name);
+
+    const actual = practiceWeight(tx, name);
+    const error = weightError(actual, label.weight);
+    if (error > 0) {
+      weightMisses.push({ practice: label.name, expected: label.weight, actual, error });
+    }
+
+    const category = tx.practiceCategories?.[name];
+    if (category !== label.category) {
+      categoryMisses.push({ practice: label.name, expected: label.category, actual: category });
+    }
+  });
+
+  const falsePositives = Array.from(predicted.entries())
+    .filter(([key]) => !labels.has(key))
+    .map(([, name]) => name);
+
+  return {
+    descriptor: golden.descriptor,
+    merchant: golden.merchant,
+    resolvedMerchant: getMerchantName(tx),
+    truePositives,
+    falsePositives,
+    falseNegatives,
+    weightMisses,
+    categoryMisses,
+    ...(tx.analysisErrors ? { analysisErrors: tx.analysisErrors } : {}),
+  };
+}
+
+/**
+ * Micro-averaged metrics over every merchant, so merchants with more labels count for more
+ */
+export function summarizeEvaluations(evaluations: MerchantEvaluation[]): EvaluationMetrics {
+  const sum = (count: (evaluation: MerchantEvaluation) => number) =>
+    evaluations.reduce((total, evaluation) => total + count(evaluation), 0);
+
+  const truePositives = sum((e) => e.truePositives.length);
+  const falsePositives = sum((e) => e.falsePositives.length);
+  const falseNegatives = sum((e) => e.falseNegatives.length);
+
+  const precision = ratio(truePositives, truePositives + falsePositives);
+  const recall = ratio(truePositives, truePositives + falseNegatives);
+
+  return {
+    precision,
+    recall,
+    f1: precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0,
+    meanWeightError:
+      truePositives > 0
+        ? sum((e) => e.weightMisses.reduce((total, miss) => total + miss.error, 0)) / truePositives
+        : 0,
+    categoryAccuracy: ratio(truePositives - sum((e) => e.categoryMisses.length), truePositives),
+    merchantCount: evaluations.length,
+    failedCount: evaluations.filter((e) => e.analysisErrors).length,
+    misresolvedCount: evaluations.filter((e) => e.resolvedMerchant !== e.merchant).length,
+  };
+}
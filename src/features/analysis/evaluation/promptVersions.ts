@@ -0,0 +1,22 @@
+// src/features/analysis/evaluation/promptVersions.ts
+// Prompts that can be evaluated against the golden dataset
+//
+// To try a change, add an entry with its own id and prompt text and compare it with the
+// production prompt. To replay a version without a model, run it live with
+// `npm run eval:prompts -- <id> --model live --save`, then import the saved file from
+// ./recordings as the entry's recording.
+
+import { TRANSACTION_ANALYSIS_PROMPT_VERSION, transactionAnalysisPrompt } from "../prompts";
+import { PromptVersion } from "./types";
+
+export const promptVersions: PromptVersion[] = [
+  {
+    id: TRANSACTION_ANALYSIS_PROMPT_VERSION,
+    description: "The production prompt, generated from the practice taxonomy",
+    prompt: transactionAnalysisPrompt,
+  },
+];
+
+export function getPromptVersion(id: string): PromptVersion | undefined {
+  return promptVersions.find((version) => version.id === id);
+}
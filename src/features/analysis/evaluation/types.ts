@@ -0,0 +1,93 @@
+// src/features/analysis/evaluation/types.ts
+import { PracticePolarity } from "../practiceTaxonomy";
+import { RecordedAnalysis } from "../providers";
+
+// A practice a merchant should be flagged for, with the weights a reviewer would accept
+export interface PracticeLabel {
+  name: string; // Canonical taxonomy name
+  polarity: PracticePolarity;
+  weight: [number, number]; // Inclusive range, percent of spend
+  category: string;
+}
+
+export interface GoldenMerchant {
+  descriptor: string; // As a bank would print it, so normalization is exercised too
+  merchant: string; // Canonical merchant the descriptor should resolve to
+  amount: number;
+  practices: PracticeLabel[]; // Empty when nothing should be flagged
+  notes?: string;
+}
+
+// Bump version whenever labels change, so reports from different labels aren't compared
+export interface GoldenDataset {
+  version: number;
+  updated: string; // YYYY-MM-DD
+  merchants: GoldenMerchant[];
+}
+
+// A version of the analysis prompt that can be evaluated
+export interface PromptVersion {
+  id: string;
+  description: string;
+  prompt: string;
+  // The model's answers to this prompt, captured from a live run, for replaying without a model
+  recording?: Record<string, RecordedAnalysis>;
+}
+
+// "mock" replays the built-in recordings, "recorded" the prompt version's own recording,
+// and "live" calls the configured provider
+export type EvaluationModel = "mock" | "recorded" | "live";
+
+export interface WeightMiss {
+  practice: string;
+  expected: [number, number];
+  actual: number;
+  error: number; // Distance outside the expected range
+}
+
+export interface CategoryMiss {
+  practice: string;
+  expected: string;
+  actual?: string;
+}
+
+// How the model did on one golden merchant
+export interface MerchantEvaluation {
+  descriptor: string;
+  merchant: string;
+  resolvedMerchant: string;
+  truePositives: string[];
+  falsePositives: string[];
+  falseNegatives: string[];
+  weightMisses: WeightMiss[];
+  categoryMisses: CategoryMiss[];
+  analysisErrors?: string[];
+}
+
+export interface EvaluationMetrics {
+  precision: number; // 0-1, share of flagged practices that were labeled
+  recall: number; // 0-1, share of labeled practices that were flagged
+  f1: number;
+  meanWeightError: number; // Mean distance outside the labeled range over matched practices
+  categoryAccuracy: number; // 0-1, share of matched practices given the labeled category
+  merchantCount: number;
+  failedCount: number; // Merchants the model returned nothing usable for
+  misresolvedCount: number; // Descriptors that resolved to the wrong merchant
+}
+
+export interface PromptEvaluation {
+  promptVersion: string;
+  provider: string;
+  model: string;
+  metrics: EvaluationMetrics;
+  merchants: MerchantEvaluation[];
+  // Only for live runs: the answers in mock-provider format, ready to save as the version's recording
+  recording?: Record<string, RecordedAnalysis>;
+}
+
+export interface EvaluationReport {
+  datasetVersion: number;
+  evaluationModel: EvaluationModel;
+  ranAt: string; // ISO timestamp
+  results: PromptEvaluation[];
+}
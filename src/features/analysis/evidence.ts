@@ -0,0 +1,173 @@
+// src/features/analysis/evidence.ts
+// Sources behind each practice, kept as structured records instead of links in the text
+//
+// Web-search models cite sources two ways: url_citation annotations on the completion,
+// and [CITATION:...] markers inside the information text. Both become evidence records
+// on the transaction, keyed by practice, and the markers are removed from the text.
+// A store lives for one analysis request, so "turn0search0" style references from one
+// user's completions can never resolve to another's sources.
+
+import { Transaction, EvidenceRecord } from "@/shared/types/transactions";
+import { LLMAnnotation } from "./providers";
+import { findPracticeInText } from "./practiceTaxonomy";
+
+// A url citation from one completion, with the practice it seems to support
+export interface EvidenceCitation {
+  url: string;
+  title: string;
+  practice?: string;
+}
+
+export interface EvidenceStore {
+  addCompletion: (content: string, annotations?: LLMAnnotation[]) => EvidenceCitation[];
+  attach: (transactions: Transaction[], citations: EvidenceCitation[]) => Transaction[];
+}
+
+const CITATION_MARKER = /\s*\[CITATION:([^\]]+)\]/g;
+const TURN_REFERENCE = /^turn\d+search\d+$/;
+
+function today(): string {
+  return new Date().toISOString().split("T")[0];
+}
+
+function titleFromUrl(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, "");
+  } catch {
+    return url;
+  }
+}
+
+function isHttpUrl(value: string): boolean {
+  return /^https?:\/\//.test(value);
+}
+
+/**
+ * Add records to a practice's evidence, skipping sources it already has
+ */
+export function mergeEvidence(existing: EvidenceRecord[] = [], added: EvidenceRecord[]): EvidenceRecord[] {
+  const merged = [...existing];
+  added.forEach((record) => {
+    if (!merged.some((known) => known.url === record.url)) merged.push(record);
+  });
+  return merged;
+}
+
+/**
+ * Move [CITATION:url] markers out of a transaction's information text into evidence
+ * Turn references ("turn0search0") are resolved with `resolveReference`; ones it can't
+ * resolve are dropped from the text, since they mean nothing to a reader
+ */
+export function extractInlineEvidence(
+  tx: Transaction,
+  resolveReference: (reference: string) => string | undefined = () => undefined,
+  retrievedAt = today()
+): Transaction {
+  if (!tx.information) return tx;
+
+  let changed = false;
+  const information: Record<string, string> = {};
+  const evidence: Record<string, EvidenceRecord[]> = { ...(tx.evidence || {}) };
+
+  Object.entries(tx.information).forEach(([practice, text]) => {
+    const found: EvidenceRecord[] = [];
+    const cleaned = text
+      .replace(CITATION_MARKER, (_, reference: string) => {
+        changed = true;
+        const url = isHttpUrl(reference.trim()) ? reference.trim() : resolveReference(reference.trim());
+        if (url) {
+          found.push({ url, title: titleFromUrl(url), practice, merchant: tx.name, retrievedAt });
+        }
+        return "";
+      })
+      .trim();
+
+    information[practice] = cleaned;
+    if (found.length > 0) {
+      // The text the markers sat in is the claim they back up
+      const withSnippet = found.map((record) => (cleaned ? { ...record, snippet: cleaned } : record));
+      evidence[practice] = mergeEvidence(evidence[practice], withSnippet);
+    }
+  });
+
+  return changed ? { ...tx, information, evidence } : tx;
+}
+
+/**
+ * Evidence store for a single analysis request
+ */
+export function createEvidenceStore(retrievedAt = today()): EvidenceStore {
+  // Citation urls in the order the model returned them, so turn references can be matched up
+  const citationUrls: string[] = [];
+  const turnReferences = new Map<string, string>();
+  const titles = new Map<string, string>();
+
+  const resolveReference = (reference: string) => {
+    if (!TURN_REFERENCE.test(reference)) return undefined;
+    if (!turnReferences.has(reference) && turnReferences.size < citationUrls.length) {
+      turnReferences.set(reference, citationUrls[turnReferences.size]);
+    }
+    return turnReferences.get(reference);
+  };
+
+  return {
+    /**
+     * Collect a completion's url citations, guessing which practice each supports
+     * from the text around it
+     */
+    addCompletion(content, annotations) {
+      const citations: EvidenceCitation[] = [];
+
+      (annotations || []).forEach((annotation) => {
+        if (annotation.type !== "url_citation" || !annotation.url_citation) return;
+
+        const { url, title, start_index, end_index } = annotation.url_citation;
+        if (!url || !title) return;
+
+        let practice: string | undefined;
+        if (typeof start_index === "number" && typeof end_index === "number") {
+          const surroundingText = content.substring(
+            Math.max(0, start_index - 100),
+            Math.min(content.length, end_index + 100)
+          );
+          practice = findPracticeInText(surroundingText)?.name;
+        }
+
+        citationUrls.push(url);
+        titles.set(url, title);
+        citations.push({ url, title, practice });
+      });
+
+      return citations;
+    },
+
+    /**
+     * Attach this completion's citations and any inline markers to the practices they support
+     */
+    attach(transactions, citations) {
+      return transactions.map((tx) => {
+        const withInline = extractInlineEvidence(tx, resolveReference, retrievedAt);
+        const practices = [...(tx.unethicalPractices || []), ...(tx.ethicalPractices || [])];
+        const evidence: Record<string, EvidenceRecord[]> = { ...(withInline.evidence || {}) };
+
+        citations
+          .filter((citation) => citation.practice && practices.includes(citation.practice))
+          .forEach(({ url, title, practice }) => {
+            const snippet = withInline.information?.[practice!];
+            evidence[practice!] = mergeEvidence(evidence[practice!], [
+              { url, title, practice: practice!, merchant: tx.name, retrievedAt, ...(snippet ? { snippet } : {}) },
+            ]);
+          });
+
+        // Inline urls pick up the annotation's title when the model cited them both ways
+        Object.entries(evidence).forEach(([practice, records]) => {
+          evidence[practice] = records.map((record) =>
+            titles.has(record.url) ? { ...record, title: titles.get(record.url)! } : record
+          );
+        });
+
+        return Object.keys(evidence).length > 0 ? { ...withInline, evidence } : withInline;
+      });
+    },
+  };
+}
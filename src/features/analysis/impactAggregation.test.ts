@@ -0,0 +1,120 @@
+// src/features/analysis/impactAggregation.test.ts
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Transaction } from "@/shared/types/transactions";
+import {
+  aggregateByCategory,
+  aggregateByVendor,
+  DEFAULT_PRACTICE_WEIGHT,
+  transactionPracticeImpacts,
+  UNCATEGORIZED,
+} from "./impactAggregation";
+
+const transaction = (overrides: Partial<Transaction>): Transaction => ({
+  date: "2025-03-01",
+  name: "Corner Bakery",
+  amount: 100,
+  ...overrides,
+});
+
+describe("transactionPracticeImpacts", () => {
+  it("adds debt for unethical practices and credits ethical ones at their full weight", () => {
+    const impacts = transactionPracticeImpacts(
+      transaction({
+        unethicalPractices: ["Excessive Packaging"],
+        ethicalPractices: ["Fair Trade"],
+        practiceWeights: { "Excessive Packaging": 20, "Fair Trade": 10 },
+      })
+    );
+
+    assert.deepEqual(
+      impacts.map(({ practice, isEthical, amount }) => ({ practice, isEthical, amount })),
+      [
+        { practice: "Excessive Packaging", isEthical: false, amount: 20 },
+        { practice: "Fair Trade", isEthical: true, amount: -10 },
+      ]
+    );
+  });
+
+  it("counts a practice without a weight at the default weight", () => {
+    const [impact] = transactionPracticeImpacts(
+      transaction({ amount: 40, unethicalPractices: ["Water Waste"] })
+    );
+
+    assert.equal(impact.weight, DEFAULT_PRACTICE_WEIGHT);
+    assert.equal(impact.amount, 40 * (DEFAULT_PRACTICE_WEIGHT / 100));
+  });
+
+  it("prefers the debt stored by processAnalyzedTransactions over recomputing it", () => {
+    const [impact] = transactionPracticeImpacts(
+      transaction({
+        unethicalPractices: ["Water Waste"],
+        practiceWeights: { "Water Waste": 30 },
+        practiceDebts: { "Water Waste": 15 },
+      })
+    );
+
+    assert.equal(impact.amount, 15);
+  });
+});
+
+describe("aggregateByCategory", () => {
+  it("nets debts and credits per category and buckets practices without one", () => {
+    const categories = aggregateByCategory([
+      transaction({
+        unethicalPractices: ["Excessive Packaging", "Water Waste"],
+        ethicalPractices: ["Renewable Energy"],
+        practiceWeights: { "Excessive Packaging": 20, "Water Waste": 5, "Renewable Energy": 10 },
+        practiceCategories: { "Excessive Packaging": "Environment", "Renewable Energy": "Environment" },
+      }),
+    ]);
+
+    const environment = categories.find((category) => category.name === "Environment");
+    assert.ok(environment);
+    assert.equal(environment.debtAmount, 20);
+    assert.equal(environment.creditAmount, 10);
+    assert.equal(environment.totalAmount, 10);
+
+    const uncategorized = categories.find((category) => category.name === UNCATEGORIZED);
+    assert.ok(uncategorized);
+    assert.deepEqual(uncategorized.practices.map((practice) => practice.name), ["Water Waste"]);
+    assert.equal(uncategorized.totalAmount, 5);
+  });
+});
+
+describe("aggregateByVendor", () => {
+  it("marks practices a user override added or reweighted, and lists removed ones", () => {
+    const [vendor] = aggregateByVendor([
+      transaction({
+        societalDebt: 25,
+        unethicalPractices: ["Excessive Packaging", "Water Waste"],
+        practiceWeights: { "Excessive Packaging": 20, "Water Waste": 5 },
+        practiceConfidence: { "Excessive Packaging": 0.4, "Water Waste": 0.9 },
+        userOverride: { added: ["Water Waste"], removed: ["Labor Exploitation"], reweighted: [] },
+      }),
+      transaction({
+        societalDebt: 10,
+        unethicalPractices: ["Excessive Packaging"],
+        practiceWeights: { "Excessive Packaging": 10 },
+        practiceConfidence: { "Excessive Packaging": 0.7 },
+        userOverride: { added: [], removed: [], reweighted: ["Excessive Packaging"] },
+      }),
+    ]);
+
+    assert.equal(vendor.societalDebt, 35);
+    assert.equal(vendor.totalSpent, 200);
+    assert.deepEqual(vendor.removedPractices, ["Labor Exploitation"]);
+
+    const packaging = vendor.practices.find((practice) => practice.name === "Excessive Packaging");
+    assert.ok(packaging);
+    assert.equal(packaging.amount, 30);
+    assert.equal(packaging.edited, true);
+    // Only the unedited purchase's confidence counts
+    assert.equal(packaging.confidence, 0.4);
+
+    const water = vendor.practices.find((practice) => practice.name === "Water Waste");
+    assert.ok(water);
+    assert.equal(water.edited, true);
+    assert.equal(water.confidence, undefined);
+  });
+});
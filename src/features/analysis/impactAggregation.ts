@@ -0,0 +1,429 @@
+// src/features/analysis/impactAggregation.ts
+// Rollups of societal debt by practice, category, vendor and period - shared by every view
+//
+// Weighting rule: a practice's impact on a transaction is the debt processAnalyzedTransactions
+// stored for it in practiceDebts. Transactions without stored debts fall back to the same
+// calculation: amount x weight / 100, where a practice with no weight counts at
+// DEFAULT_PRACTICE_WEIGHT. Unethical practices add debt, ethical practices subtract it.
+
+import { Charity, EvidenceRecord, Transaction } from "@/shared/types/transactions";
+import { getMerchantId, getMerchantName } from "./merchantNormalization";
+import { mergeEvidence } from "./evidence";
+
+export const DEFAULT_PRACTICE_WEIGHT = 100;
+export const UNCATEGORIZED = "Uncategorized";
+
+// One practice on one transaction
+export interface PracticeImpact {
+  practice: string;
+  category: string;
+  isEthical: boolean;
+  weight: number;
+  amount: number; // Positive = debt, negative = credit
+}
+
+export interface VendorContribution {
+  vendorName: string;
+  amount: number;
+  percentage: number; // Share of the practice's absolute impact
+  weight: number; // The vendor's weight for the practice
+  information?: string;
+}
+
+export interface PracticeRollup {
+  name: string;
+  category: string;
+  isEthical: boolean;
+  amount: number;
+  transactionCount: number;
+  vendorContributions: VendorContribution[]; // Largest share first
+  information?: string;
+  evidence: EvidenceRecord[]; // Sources from every vendor with the practice
+  searchTerm?: string;
+  charity?: Charity;
+}
+
+export interface CategoryRollup {
+  name: string;
+  totalAmount: number; // Net of debts and credits
+  debtAmount: number; // Sum of positive practice totals
+  creditAmount: number; // Sum of negative practice totals, as a positive number
+  practices: PracticeRollup[];
+}
+
+export interface VendorPracticeRollup {
+  name: string;
+  isEthical: boolean;
+  amount: number;
+  information?: string;
+  edited: boolean; // Added or reweighted by the user's override
+  confidence?: number; // The model's lowest confidence across the vendor's purchases, when it gave one
+}
+
+export interface VendorRollup {
+  merchantId: string;
+  name: string; // Canonical merchant name
+  descriptors: string[]; // Every bank descriptor seen for the merchant
+  totalSpent: number;
+  societalDebt: number;
+  debtPercentage: number;
+  transactions: Transaction[];
+  practices: VendorPracticeRollup[];
+  removedPractices: string[]; // Model practices the user's override removed
+}
+
+export interface ImpactSummary {
+  totalSpent: number;
+  totalSocietalDebt: number;
+  debtPercentage: number;
+  harmfulSpending: number; // Spent on purchases that carry debt
+  beneficialSpending: number; // Spent on purchases that earn credit
+}
+
+export type TrendGranularity = "month" | "year";
+
+export interface TrendDelta {
+  totalSocietalDebt: number;
+  debtPercentage: number; // Percentage points
+}
+
+export interface PeriodTrend {
+  period: string; // YYYY-MM or YYYY
+  transactionCount: number;
+  totalSpent: number;
+  totalSocietalDebt: number;
+  debtPercentage: number;
+  categoryDebt: Record<string, number>; // Net debt per practice category; credits are negative
+  delta: TrendDelta | null; // Change from the previous period, null for the first one
+}
+
+const byAbsoluteAmount = (a: { amount: number }, b: { amount: number }) =>
+  Math.abs(b.amount) - Math.abs(a.amount);
+
+/**
+ * A practice's weight on a transaction, as a percentage of the purchase
+ */
+export function practiceWeight(tx: Transaction, practice: string): number {
+  return tx.practiceWeights?.[practice] ?? DEFAULT_PRACTICE_WEIGHT;
+}
+
+/**
+ * Every practice on a transaction with its signed impact, following the weighting rule
+ */
+export function transactionPracticeImpacts(tx: Transaction): PracticeImpact[] {
+  const impact = (practice: string, isEthical: boolean): PracticeImpact => {
+    const weight = practiceWeight(tx, practice);
+    const computed = (tx.amount || 0) * (weight / 100) * (isEthical ? -1 : 1);
+
+    return {
+      practice,
+      category: tx.practiceCategories?.[practice] || UNCATEGORIZED,
+      isEthical,
+      weight,
+      amount: tx.practiceDebts?.[practice] ?? computed,
+    };
+  };
+
+  return [
+    ...(tx.unethicalPractices || []).map((practice) => impact(practice, false)),
+    ...(tx.ethicalPractices || []).map((practice) => impact(practice, true)),
+  ];
+}
+
+/**
+ * Net debt per practice category for one transaction
+ */
+export function transactionCategoryDebt(tx: Transaction): Record<string, number> {
+  const categoryDebt: Record<string, number> = {};
+  transactionPracticeImpacts(tx).forEach(({ category, amount }) => {
+    categoryDebt[category] = (categoryDebt[category] || 0) + amount;
+  });
+  return categoryDebt;
+}
+
+/**
+ * Spending and debt totals, with how much was spent on harmful and beneficial purchases
+ * Unanalyzed transactions count towards spending but not debt
+ */
+export function summarizeImpact(transactions: Transaction[]): ImpactSummary {
+  const summary: ImpactSummary = {
+    totalSpent: 0,
+    totalSocietalDebt: 0,
+    debtPercentage: 0,
+    harmfulSpending: 0,
+    beneficialSpending: 0,
+  };
+
+  transactions.forEach((tx) => {
+    const amount = tx.amount || 0;
+    summary.totalSpent += amount;
+    summary.totalSocietalDebt += tx.societalDebt || 0;
+
+    if ((tx.unethicalPractices || []).length > 0 || (tx.societalDebt || 0) > 0) {
+      summary.harmfulSpending += amount;
+    }
+    if ((tx.ethicalPractices || []).length > 0 || (tx.societalDebt || 0) < 0) {
+      summary.beneficialSpending += amount;
+    }
+  });
+
+  summary.debtPercentage =
+    summary.totalSpent > 0 ? (summary.totalSocietalDebt / summary.totalSpent) * 100 : 0;
+  return summary;
+}
+
+/**
+ * Impact per practice with each vendor's share, largest impact first
+ * A practice takes the first category, information, search term and charity found for it
+ */
+export function aggregateByPractice(transactions: Transaction[]): PracticeRollup[] {
+  const practices = new Map<string, PracticeRollup>();
+
+  transactions.forEach((tx) => {
+    transactionPracticeImpacts(tx).forEach((impact) => {
+      let rollup = practices.get(impact.practice);
+      if (!rollup) {
+        rollup = {
+          name: impact.practice,
+          category: impact.category,
+          isEthical: impact.isEthical,
+          amount: 0,
+          transactionCount: 0,
+          vendorContributions: [],
+          evidence: [],
+        };
+        practices.set(impact.practice, rollup);
+      }
+
+      rollup.amount += impact.amount;
+      rollup.transactionCount++;
+      if (rollup.category === UNCATEGORIZED) rollup.category = impact.category;
+      rollup.information = rollup.information ?? tx.information?.[impact.practice];
+      rollup.evidence = mergeEvidence(rollup.evidence, tx.evidence?.[impact.practice] || []);
+      rollup.searchTerm = rollup.searchTerm ?? tx.practiceSearchTerms?.[impact.practice];
+      rollup.charity = rollup.charity ?? tx.charities?.[impact.practice];
+
+      const vendor = rollup.vendorContributions.find((v) => v.vendorName === tx.name);
+      if (vendor) {
+        vendor.amount += impact.amount;
+      } else {
+        rollup.vendorContributions.push({
+          vendorName: tx.name,
+          amount: impact.amount,
+          percentage: 0,
+          weight: impact.weight,
+          information: tx.information?.[impact.practice],
+        });
+      }
+    });
+  });
+
+  const rollups = Array.from(practices.values());
+  rollups.forEach((rollup) => {
+    const total = Math.abs(rollup.amount);
+    rollup.vendorContributions.forEach((vendor) => {
+      vendor.percentage = total > 0 ? (Math.abs(vendor.amount) / total) * 100 : 0;
+    });
+    rollup.vendorContributions.sort(byAbsoluteAmount);
+  });
+
+  return rollups.sort(byAbsoluteAmount);
+}
+
+/**
+ * Practice rollups grouped by category, largest net impact first
+ */
+export function aggregateByCategory(transactions: Transaction[]): CategoryRollup[] {
+  const categories = new Map<string, CategoryRollup>();
+
+  aggregateByPractice(transactions).forEach((practice) => {
+    let rollup = categories.get(practice.category);
+    if (!rollup) {
+      rollup = { name: practice.category, totalAmount: 0, debtAmount: 0, creditAmount: 0, practices: [] };
+      categories.set(practice.category, rollup);
+    }
+
+    rollup.practices.push(practice);
+    rollup.totalAmount += practice.amount;
+    if (practice.amount < 0) {
+      rollup.creditAmount += Math.abs(practice.amount);
+    } else {
+      rollup.debtAmount += practice.amount;
+    }
+  });
+
+  return Array.from(categories.values()).sort(
+    (a, b) => Math.abs(b.totalAmount) - Math.abs(a.totalAmount)
+  );
+}
+
+/**
+ * Spending, debt and practices per vendor, largest impact first
+ * Practices the user edited or removed through an override are marked
+ */
+export function aggregateByVendor(transactions: Transaction[]): VendorRollup[] {
+  const vendors = new Map<string, VendorRollup>();
+
+  transactions.forEach((tx) => {
+    if (!tx.name) return;
+
+    // Group by merchant so "AMZN Mktp US" and "Amazon.com" are one vendor
+    const merchantId = getMerchantId(tx);
+    let vendor = vendors.get(merchantId);
+    if (!vendor) {
+      vendor = {
+        merchantId,
+        name: getMerchantName(tx),
+        descriptors: [],
+        totalSpent: 0,
+        societalDebt: 0,
+        debtPercentage: 0,
+        transactions: [],
+        practices: [],
+        removedPractices: [],
+      };
+      vendors.set(merchantId, vendor);
+    }
+
+    if (!vendor.descriptors.includes(tx.name)) vendor.descriptors.push(tx.name);
+
+    vendor.totalSpent += tx.amount || 0;
+    vendor.societalDebt += tx.societalDebt || 0;
+    vendor.transactions.push(tx);
+
+    const edited = new Set([...(tx.userOverride?.added || []), ...(tx.userOverride?.reweighted || [])]);
+    (tx.userOverride?.removed || []).forEach((practice) => {
+      if (!vendor.removedPractices.includes(practice)) vendor.removedPractices.push(practice);
+    });
+
+    transactionPracticeImpacts(tx).forEach((impact) => {
+      const confidence = edited.has(impact.practice) ? undefined : tx.practiceConfidence?.[impact.practice];
+      const existing = vendor.practices.find((p) => p.name === impact.practice);
+      if (existing) {
+        existing.amount += impact.amount;
+        existing.edited = existing.edited || edited.has(impact.practice);
+        if (confidence !== undefined) {
+          existing.confidence = Math.min(existing.confidence ?? confidence, confidence);
+        }
+      } else {
+        vendor.practices.push({
+          name: impact.practice,
+          isEthical: impact.isEthical,
+          amount: impact.amount,
+          information: tx.information?.[impact.practice],
+          edited: edited.has(impact.practice),
+          ...(confidence !== undefined ? { confidence } : {}),
+        });
+      }
+    });
+  });
+
+  const rollups = Array.from(vendors.values());
+  rollups.forEach((vendor) => {
+    vendor.debtPercentage = vendor.totalSpent > 0 ? (vendor.societalDebt / vendor.totalSpent) * 100 : 0;
+    vendor.practices.sort(byAbsoluteAmount);
+  });
+
+  return rollups.sort((a, b) => Math.abs(b.societalDebt) - Math.abs(a.societalDebt));
+}
+
+function periodOf(date: string, granularity: TrendGranularity): string {
+  return granularity === "year" ? date.slice(0, 4) : date.slice(0, 7);
+}
+
+/**
+ * Every period from first to last inclusive, so gaps show up as zero rather than
+ * being skipped over on a chart
+ */
+function periodRange(first: string, last: string, granularity: TrendGranularity): string[] {
+  const periods: string[] = [];
+  let year = Number(first.slice(0, 4));
+  let month = granularity === "month" ? Number(first.slice(5, 7)) : 1;
+
+  for (;;) {
+    const period =
+      granularity === "year" ? String(year) : `${year}-${String(month).padStart(2, "0")}`;
+    periods.push(period);
+    if (period >= last) break;
+
+    if (granularity === "year") {
+      year++;
+    } else if (month === 12) {
+      year++;
+      month = 1;
+    } else {
+      month++;
+    }
+  }
+
+  return periods;
+}
+
+/**
+ * Aggregate transactions into monthly or yearly debt totals, oldest period first
+ * Unanalyzed transactions count towards spending but not debt, the same as the
+ * dashboard totals
+ */
+export function aggregateByPeriod(
+  transactions: Transaction[],
+  granularity: TrendGranularity = "month"
+): PeriodTrend[] {
+  const dated = transactions.filter((tx) => /^\d{4}-\d{2}/.test(tx.date || ""));
+  if (dated.length === 0) return [];
+
+  const byPeriod = new Map<string, Transaction[]>();
+  dated.forEach((tx) => {
+    const period = periodOf(tx.date, granularity);
+    byPeriod.set(period, [...(byPeriod.get(period) || []), tx]);
+  });
+
+  const sortedPeriods = Array.from(byPeriod.keys()).sort();
+  const periods = periodRange(sortedPeriods[0], sortedPeriods[sortedPeriods.length - 1], granularity);
+
+  let previous: PeriodTrend | null = null;
+  return periods.map((period) => {
+    const periodTransactions = byPeriod.get(period) || [];
+    const { totalSpent, totalSocietalDebt, debtPercentage } = summarizeImpact(periodTransactions);
+
+    const categoryDebt: Record<string, number> = {};
+    periodTransactions.forEach((tx) => {
+      Object.entries(transactionCategoryDebt(tx)).forEach(([category, amount]) => {
+        categoryDebt[category] = (categoryDebt[category] || 0) + amount;
+      });
+    });
+
+    const trend: PeriodTrend = {
+      period,
+      transactionCount: periodTransactions.length,
+      totalSpent,
+      totalSocietalDebt,
+      debtPercentage,
+      categoryDebt,
+      delta: previous
+        ? {
+            totalSocietalDebt: totalSocietalDebt - previous.totalSocietalDebt,
+            debtPercentage: debtPercentage - previous.debtPercentage,
+          }
+        : null,
+    };
+
+    previous = trend;
+    return trend;
+  });
+}
+
+/**
+ * Categories ordered by their total debt across all periods, largest first
+ */
+export function trendCategories(trends: PeriodTrend[]): string[] {
+  const totals: Record<string, number> = {};
+  trends.forEach((trend) => {
+    Object.entries(trend.categoryDebt).forEach(([category, amount]) => {
+      totals[category] = (totals[category] || 0) + amount;
+    });
+  });
+
+  return Object.entries(totals)
+    .sort(([, a], [, b]) => b - a)
+    .map(([category]) => category);
+}
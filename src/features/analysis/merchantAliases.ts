@@ -0,0 +1,56 @@
+// src/features/analysis/merchantAliases.ts
+// Known merchants and the descriptors banks print for them
+//
+// Aliases are matched against cleaned descriptors (lowercase, no punctuation, no store
+// numbers), either exactly or as the leading words, so "amzn mktp" covers
+// "AMZN Mktp US*2K4". Longer aliases win, which keeps "uber eats" apart from "uber".
+// Add a merchant here when the same company keeps showing up under several names.
+
+export interface MerchantAlias {
+  name: string; // Canonical display name; its normalized form is the merchant id
+  aliases: string[];
+}
+
+export const MERCHANT_ALIASES: MerchantAlias[] = [
+  { name: "Amazon", aliases: ["amazon", "amzn", "amzn mktp", "amazon mktplace", "amazon prime", "prime video", "amazon digital", "amazon retail", "kindle"] },
+  { name: "Whole Foods", aliases: ["whole foods", "wholefds", "whole foods market", "wfm"] },
+  { name: "Walmart", aliases: ["walmart", "wal mart", "wm supercenter"] },
+  { name: "Target", aliases: ["target", "tgt"] },
+  { name: "Costco", aliases: ["costco", "costco whse", "costco gas"] },
+  { name: "Kroger", aliases: ["kroger", "kroger fuel"] },
+  { name: "Safeway", aliases: ["safeway", "safeway fuel"] },
+  { name: "Trader Joe's", aliases: ["trader joe's", "trader joes", "trader joe"] },
+  { name: "Starbucks", aliases: ["starbucks", "sbux", "starbucks store", "starbucks card"] },
+  { name: "Dunkin'", aliases: ["dunkin", "dunkin'", "dunkin donuts"] },
+  { name: "McDonald's", aliases: ["mcdonald's", "mcdonalds", "mcdonald"] },
+  { name: "Chipotle", aliases: ["chipotle", "chipotle mexican grill"] },
+  { name: "Uber Eats", aliases: ["uber eats", "ubereats"] },
+  { name: "Uber", aliases: ["uber", "uber trip", "uber technologies", "uber bv"] },
+  { name: "Lyft", aliases: ["lyft", "lyft ride"] },
+  { name: "DoorDash", aliases: ["doordash", "dd doordash", "door dash"] },
+  { name: "Grubhub", aliases: ["grubhub", "grub hub"] },
+  { name: "Netflix", aliases: ["netflix"] },
+  { name: "Spotify", aliases: ["spotify", "spotify usa"] },
+  { name: "Hulu", aliases: ["hulu"] },
+  { name: "Disney+", aliases: ["disney plus", "disneyplus"] },
+  { name: "Apple", aliases: ["apple", "apple store", "itunes"] },
+  { name: "Google", aliases: ["google", "google play", "google storage", "google one", "youtube premium"] },
+  { name: "Microsoft", aliases: ["microsoft", "msft", "xbox"] },
+  { name: "Airbnb", aliases: ["airbnb", "air bnb"] },
+  { name: "eBay", aliases: ["ebay"] },
+  { name: "Etsy", aliases: ["etsy"] },
+  { name: "Best Buy", aliases: ["best buy", "bestbuy"] },
+  { name: "Home Depot", aliases: ["home depot", "the home depot", "homedepot"] },
+  { name: "Lowe's", aliases: ["lowe's", "lowes"] },
+  { name: "CVS", aliases: ["cvs", "cvs pharmacy"] },
+  { name: "Walgreens", aliases: ["walgreens"] },
+  { name: "7-Eleven", aliases: ["7 eleven", "7eleven", "seven eleven"] },
+  { name: "Shell", aliases: ["shell", "shell oil", "shell service"] },
+  { name: "Chevron", aliases: ["chevron"] },
+  { name: "ExxonMobil", aliases: ["exxonmobil", "exxon", "mobil", "exxon mobil"] },
+  { name: "BP", aliases: ["bp"] },
+  { name: "Delta Air Lines", aliases: ["delta air", "delta air lines", "delta airlines"] },
+  { name: "United Airlines", aliases: ["united airlines", "united air"] },
+  { name: "American Airlines", aliases: ["american airlines", "american air"] },
+  { name: "Southwest Airlines", aliases: ["southwest airlines", "southwest air", "southwes"] },
+];
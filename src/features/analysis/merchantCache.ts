@@ -0,0 +1,242 @@
+// src/features/analysis/merchantCache.ts
+// Merchant-level analysis cache - in-memory LRU backed by Firestore
+
+import { db } from "@/shared/firebase/firebase";
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  setDoc,
+  deleteDoc,
+  writeBatch,
+  Timestamp,
+} from "firebase/firestore";
+import { config } from "@/config";
+import { Transaction } from "./types";
+import { resolveMerchant } from "./merchantNormalization";
+
+// The parts of an analysis that depend only on the merchant, not the purchase
+export type MerchantAnalysis = Pick<
+  Transaction,
+  | "unethicalPractices"
+  | "ethicalPractices"
+  | "practiceWeights"
+  | "practiceConfidence"
+  | "practiceCategories"
+  | "practiceSearchTerms"
+  | "information"
+  | "evidence"
+>;
+
+export interface MerchantCacheEntry {
+  merchantKey: string;
+  merchantName: string;
+  analysis: MerchantAnalysis;
+  cachedAt: number;
+}
+
+interface StoredMerchantAnalysis extends MerchantAnalysis {
+  merchantName: string;
+  cachedAt: Timestamp;
+}
+
+// Where analyzeTransactionsCore reads and writes merchant analyses; tests pass their own
+export interface MerchantAnalysisStore {
+  get: (merchantKey: string) => Promise<MerchantAnalysis | null>;
+  set: (merchantKey: string, merchantName: string, analysis: MerchantAnalysis) => Promise<void>;
+}
+
+export interface MerchantCacheStats {
+  hits: number;
+  memoryHits: number;
+  firestoreHits: number;
+  misses: number;
+  hitRate: number;
+  memoryEntries: number;
+  maxMemoryEntries: number;
+  ttlMs: number;
+}
+
+// Map keeps insertion order, so the first key is always the least recently used
+const memoryCache = new Map<string, MerchantCacheEntry>();
+
+const counters = {
+  memoryHits: 0,
+  firestoreHits: 0,
+  misses: 0,
+};
+
+function isExpired(cachedAt: number): boolean {
+  return Date.now() - cachedAt > config.merchantCache.ttlMs;
+}
+
+function rememberInMemory(entry: MerchantCacheEntry) {
+  memoryCache.delete(entry.merchantKey);
+  memoryCache.set(entry.merchantKey, entry);
+
+  // Evict least recently used entries
+  while (memoryCache.size > config.merchantCache.maxMemoryEntries) {
+    const oldestKey = memoryCache.keys().next().value;
+    if (oldestKey === undefined) break;
+    memoryCache.delete(oldestKey);
+  }
+}
+
+/**
+ * Pick the merchant-level fields out of an analyzed transaction
+ */
+export function extractMerchantAnalysis(tx: Transaction): MerchantAnalysis {
+  return {
+    unethicalPractices: tx.unethicalPractices || [],
+    ethicalPractices: tx.ethicalPractices || [],
+    practiceWeights: tx.practiceWeights || {},
+    practiceConfidence: tx.practiceConfidence || {},
+    practiceCategories: tx.practiceCategories || {},
+    practiceSearchTerms: tx.practiceSearchTerms || {},
+    information: tx.information || {},
+    evidence: tx.evidence || {},
+  };
+}
+
+/**
+ * Look up a merchant's cached analysis by merchant id, checking memory before Firestore
+ */
+export async function getCachedMerchantAnalysis(
+  merchantKey: string
+): Promise<MerchantAnalysis | null> {
+  if (!merchantKey) return null;
+
+  const memoryEntry = memoryCache.get(merchantKey);
+  if (memoryEntry && !isExpired(memoryEntry.cachedAt)) {
+    // Refresh LRU position
+    rememberInMemory(memoryEntry);
+    counters.memoryHits++;
+    return memoryEntry.analysis;
+  }
+
+  if (memoryEntry) {
+    memoryCache.delete(merchantKey);
+  }
+
+  try {
+    const snapshot = await getDoc(doc(db, config.merchantCache.collection, merchantKey));
+
+    if (snapshot.exists()) {
+      const { merchantName: storedName, cachedAt, ...analysis } =
+        snapshot.data() as StoredMerchantAnalysis;
+      const cachedAtMs = cachedAt.toMillis();
+
+      if (!isExpired(cachedAtMs)) {
+        rememberInMemory({
+          merchantKey,
+          merchantName: storedName,
+          analysis,
+          cachedAt: cachedAtMs,
+        });
+        counters.firestoreHits++;
+        return analysis;
+      }
+    }
+  } catch (error) {
+    // A cache failure should never block analysis
+    console.warn(`⚠️ Merchant cache read failed for "${merchantKey}":`, error);
+  }
+
+  counters.misses++;
+  return null;
+}
+
+/**
+ * Store a merchant's analysis in memory and Firestore under its merchant id
+ */
+export async function cacheMerchantAnalysis(
+  merchantKey: string,
+  merchantName: string,
+  analysis: MerchantAnalysis
+): Promise<void> {
+  if (!merchantKey) return;
+
+  const cachedAt = Date.now();
+  rememberInMemory({ merchantKey, merchantName, analysis, cachedAt });
+
+  try {
+    const stored: StoredMerchantAnalysis = {
+      ...analysis,
+      merchantName,
+      cachedAt: Timestamp.fromMillis(cachedAt),
+    };
+    await setDoc(doc(db, config.merchantCache.collection, merchantKey), stored);
+  } catch (error) {
+    console.warn(`⚠️ Merchant cache write failed for "${merchantKey}":`, error);
+  }
+}
+
+/**
+ * Remove one merchant from the cache, or every merchant when no name is given
+ * Any of a merchant's descriptors works, e.g. "AMZN Mktp US" clears Amazon
+ * Returns the number of Firestore documents deleted
+ */
+export async function invalidateMerchantAnalysis(merchantName?: string): Promise<number> {
+  if (merchantName) {
+    const merchantKey = resolveMerchant({ name: merchantName }).merchantId;
+    memoryCache.delete(merchantKey);
+
+    const ref = doc(db, config.merchantCache.collection, merchantKey);
+    const snapshot = await getDoc(ref);
+    if (!snapshot.exists()) return 0;
+
+    await deleteDoc(ref);
+    console.log(`🗑️ Invalidated merchant cache for "${merchantKey}"`);
+    return 1;
+  }
+
+  memoryCache.clear();
+
+  const querySnapshot = await getDocs(collection(db, config.merchantCache.collection));
+  const batchSize = 500; // Firestore limit is 500 operations per batch
+  let batch = writeBatch(db);
+  let operationCount = 0;
+
+  for (const docSnapshot of querySnapshot.docs) {
+    batch.delete(docSnapshot.ref);
+    operationCount++;
+
+    if (operationCount % batchSize === 0) {
+      await batch.commit();
+      batch = writeBatch(db);
+    }
+  }
+
+  if (operationCount % batchSize !== 0) {
+    await batch.commit();
+  }
+
+  console.log(`🗑️ Invalidated ${operationCount} cached merchants`);
+  return operationCount;
+}
+
+/**
+ * Hit/miss counters for this server instance
+ */
+export function getMerchantCacheStats(): MerchantCacheStats {
+  const hits = counters.memoryHits + counters.firestoreHits;
+  const lookups = hits + counters.misses;
+
+  return {
+    hits,
+    memoryHits: counters.memoryHits,
+    firestoreHits: counters.firestoreHits,
+    misses: counters.misses,
+    hitRate: lookups > 0 ? hits / lookups : 0,
+    memoryEntries: memoryCache.size,
+    maxMemoryEntries: config.merchantCache.maxMemoryEntries,
+    ttlMs: config.merchantCache.ttlMs,
+  };
+}
+
+// The shared cache: an in-memory LRU in front of Firestore
+export const merchantCache: MerchantAnalysisStore = {
+  get: getCachedMerchantAnalysis,
+  set: cacheMerchantAnalysis,
+};
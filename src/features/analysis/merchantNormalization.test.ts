@@ -0,0 +1,115 @@
+// src/features/analysis/merchantNormalization.test.ts
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { config } from "@/config";
+import {
+  cleanMerchantDescriptor,
+  getMerchantId,
+  resolveMerchant,
+  withCanonicalMerchant,
+} from "./merchantNormalization";
+
+describe("cleanMerchantDescriptor", () => {
+  it("strips processor prefixes, references, domains, store numbers and a trailing state", () => {
+    assert.equal(cleanMerchantDescriptor("AMZN Mktp US*2K4"), "amzn mktp us");
+    assert.equal(cleanMerchantDescriptor("SQ *BLUE BOTTLE COFFEE"), "blue bottle coffee");
+    assert.equal(cleanMerchantDescriptor("Amazon.com"), "amazon");
+    assert.equal(cleanMerchantDescriptor("POS DEBIT CORNER BAKERY 0423 SEATTLE WA"), "corner bakery seattle");
+  });
+
+  it("keeps a plain word after the star as part of the name", () => {
+    assert.equal(cleanMerchantDescriptor("UBER *EATS"), "uber eats");
+  });
+});
+
+describe("resolveMerchant", () => {
+  it("resolves every alias of a company to one merchant", () => {
+    ["AMZN Mktp US*2K4", "Amazon.com", "AMAZON PRIME"].forEach((name) => {
+      assert.deepEqual(resolveMerchant({ name }), {
+        merchantId: "amazon",
+        merchantName: "Amazon",
+        matchedBy: "alias",
+      });
+    });
+    assert.equal(resolveMerchant({ name: "STARBUCKS STORE #1234" }).merchantId, "starbucks");
+  });
+
+  it("prefers the longer alias, keeping Uber Eats apart from Uber", () => {
+    assert.equal(resolveMerchant({ name: "UBER *EATS" }).merchantName, "Uber Eats");
+    assert.equal(resolveMerchant({ name: "UBER *TRIP HELP.UBER.COM" }).merchantName, "Uber");
+  });
+
+  it("matches typos and truncations at or above the fuzzy threshold", () => {
+    // "amazn" is 5/6 similar to "amazon", "starbuck" 8/9 to "starbucks"
+    assert.deepEqual(resolveMerchant({ name: "AMAZN" }), {
+      merchantId: "amazon",
+      merchantName: "Amazon",
+      matchedBy: "fuzzy",
+    });
+    assert.equal(resolveMerchant({ name: "STARBUCK" }).matchedBy, "fuzzy");
+  });
+
+  it("leaves descriptors below the fuzzy threshold to themselves", () => {
+    // "targte" is two edits, 4/6, from "target"
+    assert.deepEqual(resolveMerchant({ name: "TARGTE" }), {
+      merchantId: "targte",
+      merchantName: "Targte",
+      matchedBy: "descriptor",
+    });
+  });
+
+  it("follows the configured fuzzy threshold", () => {
+    const { fuzzyThreshold } = config.merchantNormalization;
+
+    try {
+      config.merchantNormalization.fuzzyThreshold = 0.9;
+      assert.equal(resolveMerchant({ name: "AMAZN" }).matchedBy, "descriptor");
+
+      config.merchantNormalization.fuzzyThreshold = 0.6;
+      assert.equal(resolveMerchant({ name: "TARGTE" }).merchantName, "Target");
+    } finally {
+      config.merchantNormalization.fuzzyThreshold = fuzzyThreshold;
+    }
+  });
+
+  it("doesn't fuzzy match aliases shorter than the minimum length", () => {
+    // One edit from "hulu", but four-letter aliases only match exactly
+    assert.equal(resolveMerchant({ name: "HULO" }).matchedBy, "descriptor");
+  });
+
+  it("falls back to Plaid's merchant name, then to the cleaned descriptor", () => {
+    assert.deepEqual(resolveMerchant({ name: "PAYPAL *XYZ123", merchantName: "Blue Bottle" }), {
+      merchantId: "blue bottle",
+      merchantName: "Blue Bottle",
+      matchedBy: "plaid",
+    });
+    assert.deepEqual(resolveMerchant({ name: "CHECKCARD 0312 JOE'S DINER 12345 PORTLAND OR" }), {
+      merchantId: "joe's diner portland",
+      merchantName: "Joe's Diner Portland",
+      matchedBy: "descriptor",
+    });
+  });
+
+  it("checks Plaid's merchant name against the aliases before the descriptor", () => {
+    assert.equal(resolveMerchant({ name: "SQ *XYZ", merchantName: "Starbucks" }).merchantId, "starbucks");
+  });
+
+  it("still keys a descriptor that is nothing but noise", () => {
+    assert.deepEqual(resolveMerchant({ name: "1234567" }), {
+      merchantId: "1234567",
+      merchantName: "1234567",
+      matchedBy: "descriptor",
+    });
+  });
+});
+
+describe("withCanonicalMerchant", () => {
+  it("stores the resolved merchant and is safe to repeat", () => {
+    const tx = { date: "2025-03-02", name: "AMZN Mktp US*2K4", amount: 80 };
+    const canonical = withCanonicalMerchant(tx);
+
+    assert.deepEqual(canonical, { ...tx, merchantId: "amazon", merchantName: "Amazon" });
+    assert.equal(withCanonicalMerchant(canonical), canonical);
+    assert.equal(getMerchantId(tx), "amazon");
+  });
+});
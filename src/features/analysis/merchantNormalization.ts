@@ -0,0 +1,229 @@
+// src/features/analysis/merchantNormalization.ts
+// Turn raw bank descriptors into one canonical merchant per company
+//
+// "AMZN Mktp US*2K4", "Amazon.com" and "AMAZON PRIME" all resolve to the merchant id
+// "amazon". The id is what vendor grouping, the merchant cache and overrides key on, so
+// one company is analyzed, cached and shown once however its bank describes it.
+// Resolution tries, in order: the alias table, fuzzy matching against the alias table,
+// Plaid's merchant_name, and finally the cleaned descriptor itself.
+
+import { config } from "@/config";
+import { Transaction } from "@/shared/types/transactions";
+import { MERCHANT_ALIASES, MerchantAlias } from "./merchantAliases";
+
+export type MerchantMatch = "alias" | "fuzzy" | "plaid" | "descriptor";
+
+export interface ResolvedMerchant {
+  merchantId: string;
+  merchantName: string;
+  matchedBy: MerchantMatch;
+}
+
+type MerchantFields = Pick<Transaction, "name" | "merchantName">;
+
+// Card processors and banks put these in front of the merchant, e.g. "SQ *BLUE BOTTLE"
+const STARRED_PREFIX = /^(?:sq|sqr|tst|pp|paypal|dd|sp|pos)\s*\*\s*/;
+const WORD_PREFIX =
+  /^(?:pos debit|pos purchase|pos|debit card purchase|debit purchase|check ?card(?: purchase)?|purchase authorized on \d{1,2}\/\d{1,2}|purchase|recurring payment|recurring|ach debit|ach)\s+/;
+
+const US_STATES = new Set(
+  "al ak az ar ca co ct de fl ga hi id il in ia ks ky la me md ma mi mn ms mo mt ne nv nh nj nm ny nc nd oh ok or pa ri sc sd tn tx ut vt va wa wv wi wy dc".split(
+    " "
+  )
+);
+
+/**
+ * Normalize a merchant name into a stable key
+ * Strips store numbers and punctuation so "STARBUCKS #1234" and "Starbucks" match
+ */
+export function normalizeMerchantName(name: string): string {
+  return (name || "")
+    .toLowerCase()
+    .replace(/#\s*\d+/g, " ")
+    .replace(/[^a-z0-9&' ]+/g, " ")
+    .replace(/\s+\d+\s*$/, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Strip the noise banks add around a merchant name: processor prefixes, reference codes
+ * after "*", domains, store and card numbers, dates and a trailing state code
+ */
+export function cleanMerchantDescriptor(descriptor: string): string {
+  let cleaned = (descriptor || "").toLowerCase().trim();
+
+  let previous;
+  do {
+    previous = cleaned;
+    cleaned = cleaned.replace(STARRED_PREFIX, "").replace(WORD_PREFIX, "").trim();
+  } while (cleaned !== previous);
+
+  // "amzn mktp us*2k4" - what follows the star is usually a reference, not the merchant,
+  // but a plain word after it is part of the name, as in "uber *eats"
+  const star = cleaned.indexOf("*");
+  if (star > 0) {
+    const rest = cleaned.slice(star + 1).trim();
+    cleaned = /^[a-z]{3,}\b/.test(rest) && !/^[a-z]+\d/.test(rest)
+      ? `${cleaned.slice(0, star)} ${rest}`
+      : cleaned.slice(0, star);
+  }
+
+  cleaned = cleaned
+    .replace(/\bwww\./g, " ")
+    .replace(/\.(?:com|net|org|co|io|us)\b/g, " ")
+    .replace(/\b\d{1,2}\/\d{1,2}(?:\/\d{2,4})?\b/g, " ")
+    .replace(/#\s*\d+/g, " ")
+    .replace(/\bstore\s+\d+/g, " ")
+    .replace(/\bx+\d+\b/g, " ")
+    .replace(/\b\d{3,}\b/g, " ")
+    .replace(/[^a-z0-9&' ]+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+  const tokens = cleaned.split(" ");
+  if (tokens.length > 2 && US_STATES.has(tokens[tokens.length - 1])) {
+    cleaned = tokens.slice(0, -1).join(" ");
+  }
+
+  return cleaned;
+}
+
+// Apostrophes are dropped for matching only, so "mcdonalds" finds "mcdonald's"
+function matchForm(value: string): string {
+  return value.replace(/'/g, "");
+}
+
+interface IndexedAlias {
+  alias: string;
+  tokenCount: number;
+  merchant: MerchantAlias;
+}
+
+// Longest aliases first, so "uber eats" is tried before "uber"
+const ALIAS_INDEX: IndexedAlias[] = MERCHANT_ALIASES.flatMap((merchant) =>
+  merchant.aliases.map((alias) => {
+    const form = matchForm(cleanMerchantDescriptor(alias));
+    return { alias: form, tokenCount: form.split(" ").length, merchant };
+  })
+)
+  .filter(({ alias }) => alias.length > 0)
+  .sort((a, b) => b.alias.length - a.alias.length);
+
+function findAlias(cleaned: string): MerchantAlias | undefined {
+  const form = matchForm(cleaned);
+  return ALIAS_INDEX.find(({ alias }) => form === alias || form.startsWith(`${alias} `))?.merchant;
+}
+
+function editDistance(a: string, b: string): number {
+  let previousRow = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previousRow[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+      row.push(Math.min(previousRow[j] + 1, row[j - 1] + 1, substitution));
+    }
+    previousRow = row;
+  }
+
+  return previousRow[b.length];
+}
+
+/**
+ * Closest alias to the descriptor's leading words, for typos and truncations like
+ * "amazn" or "starbuck" that the alias table doesn't list
+ */
+function findFuzzyAlias(cleaned: string): MerchantAlias | undefined {
+  const { fuzzyThreshold, minFuzzyLength } = config.merchantNormalization;
+  const tokens = matchForm(cleaned).split(" ");
+  let best: { merchant: MerchantAlias; similarity: number } | undefined;
+
+  ALIAS_INDEX.forEach(({ alias, tokenCount, merchant }) => {
+    if (alias.length < minFuzzyLength) return;
+
+    const candidate = tokens.slice(0, tokenCount).join(" ");
+    const similarity =
+      1 - editDistance(candidate, alias) / Math.max(candidate.length, alias.length);
+
+    if (similarity >= fuzzyThreshold && (!best || similarity > best.similarity)) {
+      best = { merchant, similarity };
+    }
+  });
+
+  return best?.merchant;
+}
+
+function titleCase(value: string): string {
+  return value.replace(/(^|\s)([a-z])/g, (_, space: string, letter: string) => space + letter.toUpperCase());
+}
+
+function fromAlias(merchant: MerchantAlias, matchedBy: MerchantMatch): ResolvedMerchant {
+  return { merchantId: normalizeMerchantName(merchant.name), merchantName: merchant.name, matchedBy };
+}
+
+/**
+ * Work out which merchant a transaction is from
+ * Plaid's merchant_name is checked against the alias table before the raw descriptor,
+ * since it is usually the cleaner of the two
+ */
+export function resolveMerchant(tx: MerchantFields): ResolvedMerchant {
+  const plaidName = (tx.merchantName || "").trim();
+  const candidates = [plaidName, tx.name]
+    .map((value) => cleanMerchantDescriptor(value || ""))
+    .filter((value) => value.length > 0);
+
+  for (const candidate of candidates) {
+    const merchant = findAlias(candidate);
+    if (merchant) return fromAlias(merchant, "alias");
+  }
+
+  for (const candidate of candidates) {
+    const merchant = findFuzzyAlias(candidate);
+    if (merchant) return fromAlias(merchant, "fuzzy");
+  }
+
+  if (plaidName) {
+    return {
+      merchantId: normalizeMerchantName(cleanMerchantDescriptor(plaidName) || plaidName),
+      merchantName: plaidName,
+      matchedBy: "plaid",
+    };
+  }
+
+  const cleaned = cleanMerchantDescriptor(tx.name);
+  return {
+    // A descriptor that is nothing but noise still needs a key
+    merchantId: normalizeMerchantName(cleaned || tx.name) || (tx.name || "").trim().toLowerCase(),
+    merchantName: cleaned ? titleCase(cleaned) : tx.name,
+    matchedBy: "descriptor",
+  };
+}
+
+/**
+ * Store the canonical merchant on a transaction
+ * Safe to repeat: a canonical name resolves to itself
+ */
+export function withCanonicalMerchant<T extends MerchantFields & Pick<Transaction, "merchantId">>(
+  tx: T
+): T {
+  const { merchantId, merchantName } = resolveMerchant(tx);
+  if (tx.merchantId === merchantId && tx.merchantName === merchantName) {
+    return tx;
+  }
+  return { ...tx, merchantId, merchantName };
+}
+
+/**
+ * Merchant id of a transaction, resolving it for ones stored before merchants were normalized
+ */
+export function getMerchantId(tx: MerchantFields & Pick<Transaction, "merchantId">): string {
+  return tx.merchantId || resolveMerchant(tx).merchantId;
+}
+
+/**
+ * Display name of a transaction's merchant
+ */
+export function getMerchantName(tx: MerchantFields & Pick<Transaction, "merchantId">): string {
+  return tx.merchantId && tx.merchantName ? tx.merchantName : resolveMerchant(tx).merchantName;
+}
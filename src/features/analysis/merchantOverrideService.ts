@@ -0,0 +1,119 @@
+// src/features/analysis/merchantOverrideService.ts
+// Stores a user's merchant overrides and applies them to stored transactions - no HTTP concerns
+
+import { db } from "@/shared/firebase/firebase";
+import { collection, doc, getDocs, setDoc, deleteDoc } from "firebase/firestore";
+import { config } from "@/config";
+import { Transaction, AnalyzedTransactionData } from "./types";
+import { getTransactionId } from "@/shared/utils/transactionIdentity";
+import { processAnalyzedTransactions } from "./transactionAnalysisService";
+import { getUserTransactions, saveUserTransactions } from "./transactionStorageService";
+import { recomputeTotals } from "@/features/banking/transactionSyncService";
+import { MerchantOverride, MerchantOverrideInput, merchantOverrideKey } from "./merchantOverrides";
+import { getMerchantId } from "./merchantNormalization";
+import { getConfidenceModePreference } from "./practiceConfidenceService";
+
+export interface OverrideApplyResult extends AnalyzedTransactionData {
+  updated: Transaction[]; // The stored transactions the change was applied to
+}
+
+function overridesRef(userId: string) {
+  return collection(
+    db,
+    config.transactionStorage.usersCollection,
+    userId,
+    config.merchantOverrides.subcollection
+  );
+}
+
+function overrideDocId(merchantKey: string): string {
+  return encodeURIComponent(merchantKey).replace(/\./g, "%2E");
+}
+
+/**
+ * All of a user's merchant overrides
+ */
+export async function getMerchantOverrides(userId: string): Promise<MerchantOverride[]> {
+  if (!userId) {
+    throw new Error("User ID is required");
+  }
+
+  const snapshot = await getDocs(overridesRef(userId));
+  return snapshot.docs.map((snap) => snap.data() as MerchantOverride);
+}
+
+/**
+ * Create or replace the override for a merchant
+ */
+export async function saveMerchantOverride(
+  userId: string,
+  input: MerchantOverrideInput
+): Promise<MerchantOverride> {
+  if (!userId) {
+    throw new Error("User ID is required");
+  }
+
+  const merchantKey = merchantOverrideKey(input.merchantName);
+  if (!merchantKey) {
+    throw new Error("Invalid merchant name");
+  }
+
+  const override: MerchantOverride = {
+    merchantKey,
+    merchantName: input.merchantName,
+    addedPractices: input.addedPractices.map((practice) => ({
+      name: practice.name,
+      type: practice.type,
+      weight: practice.weight,
+      ...(practice.category ? { category: practice.category } : {}),
+    })),
+    removedPractices: input.removedPractices,
+    practiceWeights: input.practiceWeights,
+    updatedAt: Date.now(),
+  };
+
+  await setDoc(doc(overridesRef(userId), overrideDocId(merchantKey)), override);
+  return override;
+}
+
+export async function deleteMerchantOverride(userId: string, merchantKey: string): Promise<void> {
+  if (!userId) {
+    throw new Error("User ID is required");
+  }
+
+  await deleteDoc(doc(overridesRef(userId), overrideDocId(merchantKey)));
+}
+
+/**
+ * Re-score a merchant's stored transactions after its override changed
+ * Pass no override when it was deleted, to put the model's analysis back
+ */
+export async function applyOverrideToStoredTransactions(
+  userId: string,
+  merchantKey: string,
+  override?: MerchantOverride
+): Promise<OverrideApplyResult> {
+  const stored = (await getUserTransactions(userId))?.transactions || [];
+
+  // Unanalyzed transactions pick the override up when they are analyzed
+  const matching = stored.filter(
+    (tx) => tx.analyzed !== false && getMerchantId(tx) === merchantKey
+  );
+  const confidenceMode = await getConfidenceModePreference(userId);
+  const updated = processAnalyzedTransactions(
+    matching,
+    override ? [override] : [],
+    confidenceMode
+  ).transactions;
+
+  await saveUserTransactions(userId, updated);
+
+  const updatedById = new Map(updated.map((tx) => [getTransactionId(tx), tx]));
+  const totals = recomputeTotals(
+    stored.map((tx) => updatedById.get(getTransactionId(tx)) ?? tx)
+  );
+
+  console.log(`✏️ Applied override for "${merchantKey}" to ${updated.length} stored transactions`);
+
+  return { ...totals, updated };
+}
@@ -0,0 +1,127 @@
+// src/features/analysis/merchantOverrides.ts
+// A user's corrections to the practices and weights the model gave a merchant
+//
+// Overrides are kept per merchant and layered over the model's analysis whenever debt is
+// computed, so they cover past purchases as well as ones analyzed later. The model's own
+// analysis stays on the transaction, so an override can be changed or undone.
+
+import { Transaction, ModelPracticeAnalysis } from "@/shared/types/transactions";
+import { getMerchantId, resolveMerchant } from "./merchantNormalization";
+
+export type PracticeType = "unethical" | "ethical";
+
+export interface OverridePractice {
+  name: string;
+  type: PracticeType;
+  weight: number; // Percentage of the purchase, 0-100
+  category?: string;
+}
+
+export interface MerchantOverride {
+  merchantKey: string; // Merchant id, see merchantNormalization
+  merchantName: string; // As the user saw it when editing
+  addedPractices: OverridePractice[];
+  removedPractices: string[]; // Model practices that no longer apply
+  practiceWeights: Record<string, number>; // New weights for the model's practices
+  updatedAt: number;
+}
+
+// What the client sends to create or replace an override
+export type MerchantOverrideInput = Omit<MerchantOverride, "merchantKey" | "updatedAt">;
+
+/**
+ * Key an override is stored under - the merchant id the merchant cache also uses
+ */
+export function merchantOverrideKey(merchantName: string): string {
+  return resolveMerchant({ name: merchantName }).merchantId;
+}
+
+/**
+ * The model's analysis of a transaction, from before any override was applied
+ */
+export function getModelAnalysis(tx: Transaction): ModelPracticeAnalysis {
+  return (
+    tx.modelAnalysis || {
+      unethicalPractices: tx.unethicalPractices || [],
+      ethicalPractices: tx.ethicalPractices || [],
+      practiceWeights: tx.practiceWeights || {},
+      practiceCategories: tx.practiceCategories || {},
+    }
+  );
+}
+
+/**
+ * Layer an override over a transaction's model analysis, or undo one when none is given
+ * Computed debts are dropped so processAnalyzedTransactions recalculates them
+ */
+export function applyMerchantOverride(tx: Transaction, override?: MerchantOverride): Transaction {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { modelAnalysis, userOverride, societalDebt, practiceDebts, ...rest } = tx;
+  const model = getModelAnalysis(tx);
+
+  if (!override) {
+    return { ...rest, ...model };
+  }
+
+  const modelUnethical = model.unethicalPractices || [];
+  const modelEthical = model.ethicalPractices || [];
+  const removed = new Set(override.removedPractices);
+  const addedNames = new Set(override.addedPractices.map((practice) => practice.name));
+
+  // An added practice replaces a model practice of the same name, e.g. to flip its type
+  const keep = (practice: string) => !removed.has(practice) && !addedNames.has(practice);
+
+  const practiceWeights = { ...(model.practiceWeights || {}) };
+  const practiceCategories = { ...(model.practiceCategories || {}) };
+  const reweighted: string[] = [];
+
+  [...modelUnethical, ...modelEthical].filter(keep).forEach((practice) => {
+    const weight = override.practiceWeights[practice];
+    if (weight === undefined || weight === practiceWeights[practice]) return;
+    practiceWeights[practice] = weight;
+    reweighted.push(practice);
+  });
+
+  override.addedPractices.forEach((practice) => {
+    practiceWeights[practice.name] = practice.weight;
+    if (practice.category) {
+      practiceCategories[practice.name] = practice.category;
+    }
+  });
+
+  const addedOfType = (type: PracticeType) =>
+    override.addedPractices
+      .filter((practice) => practice.type === type)
+      .map((practice) => practice.name);
+
+  return {
+    ...rest,
+    unethicalPractices: [...modelUnethical.filter(keep), ...addedOfType("unethical")],
+    ethicalPractices: [...modelEthical.filter(keep), ...addedOfType("ethical")],
+    practiceWeights,
+    practiceCategories,
+    modelAnalysis: model,
+    userOverride: {
+      added: Array.from(addedNames),
+      removed: [...modelUnethical, ...modelEthical].filter((practice) => removed.has(practice)),
+      reweighted,
+    },
+  };
+}
+
+/**
+ * Apply a user's full set of overrides to a list of transactions
+ * Transactions carrying an override that is no longer in the set go back to the
+ * model's analysis; ones with nothing to change are returned as they are
+ */
+export function applyMerchantOverrides(
+  transactions: Transaction[],
+  overrides: MerchantOverride[]
+): Transaction[] {
+  const byKey = new Map(overrides.map((override) => [override.merchantKey, override]));
+
+  return transactions.map((tx) => {
+    const override = byKey.get(getMerchantId(tx));
+    return override || tx.userOverride ? applyMerchantOverride(tx, override) : tx;
+  });
+}
@@ -0,0 +1,63 @@
+// src/features/analysis/practiceConfidence.ts
+// How sure the model is of each practice, and how much unsure practices count
+//
+// The model rates each practice from 0 to 1. Practices without a rating, from analyses
+// made before ratings existed, and practices the user added or reweighted count as certain.
+// Below config.practiceConfidence.lowThreshold a practice is low confidence, and the
+// user's mode decides what it contributes to debt: all of it, its weight scaled by its
+// confidence, or nothing.
+
+import { config } from "@/config";
+import { Transaction } from "@/shared/types/transactions";
+
+export type ConfidenceMode = "include" | "downweight" | "hide";
+
+export type ConfidenceLevel = "high" | "medium" | "low";
+
+export const CONFIDENCE_MODES: { id: ConfidenceMode; name: string; description: string }[] = [
+  { id: "include", name: "Count fully", description: "Every practice counts at its full weight" },
+  {
+    id: "downweight",
+    name: "Down-weight",
+    description: "Low-confidence practices count in proportion to the model's confidence",
+  },
+  { id: "hide", name: "Hide", description: "Low-confidence practices don't count towards debt" },
+];
+
+export function isConfidenceMode(value: unknown): value is ConfidenceMode {
+  return CONFIDENCE_MODES.some((mode) => mode.id === value);
+}
+
+export function defaultConfidenceMode(): ConfidenceMode {
+  return isConfidenceMode(config.practiceConfidence.defaultMode)
+    ? config.practiceConfidence.defaultMode
+    : "include";
+}
+
+/**
+ * The model's confidence in a practice on a transaction, from 0 to 1
+ */
+export function practiceConfidence(tx: Transaction, practice: string): number {
+  const userEdited = [...(tx.userOverride?.added || []), ...(tx.userOverride?.reweighted || [])];
+  if (userEdited.includes(practice)) return 1;
+  return tx.practiceConfidence?.[practice] ?? 1;
+}
+
+export function confidenceLevel(confidence: number): ConfidenceLevel {
+  const { lowThreshold } = config.practiceConfidence;
+  if (confidence < lowThreshold) return "low";
+  // Halfway between the threshold and certainty
+  return confidence < (lowThreshold + 1) / 2 ? "medium" : "high";
+}
+
+export function isLowConfidence(tx: Transaction, practice: string): boolean {
+  return practiceConfidence(tx, practice) < config.practiceConfidence.lowThreshold;
+}
+
+/**
+ * Share of a practice's weighted debt that counts under a confidence mode
+ */
+export function confidenceMultiplier(tx: Transaction, practice: string, mode: ConfidenceMode): number {
+  if (mode === "include" || !isLowConfidence(tx, practice)) return 1;
+  return mode === "hide" ? 0 : practiceConfidence(tx, practice);
+}
@@ -0,0 +1,68 @@
+// src/features/analysis/practiceConfidenceService.ts
+// Stores how each user wants low-confidence practices counted and re-scores their
+// stored transactions when it changes - no HTTP concerns
+
+import { db } from "@/shared/firebase/firebase";
+import { doc, getDoc, setDoc } from "firebase/firestore";
+import { config } from "@/config";
+import { Transaction, AnalyzedTransactionData } from "./types";
+import { processAnalyzedTransactions } from "./transactionAnalysisService";
+import { getUserTransactions, saveUserTransactions } from "./transactionStorageService";
+import { ConfidenceMode, defaultConfidenceMode, isConfidenceMode } from "./practiceConfidence";
+
+export interface ConfidenceModeResult extends AnalyzedTransactionData {
+  mode: ConfidenceMode;
+  updated: Transaction[]; // The stored transactions that were re-scored
+}
+
+function userRef(userId: string) {
+  return doc(db, config.transactionStorage.usersCollection, userId);
+}
+
+/**
+ * The user's confidence mode, or the configured default if they haven't picked one
+ */
+export async function getConfidenceModePreference(userId: string): Promise<ConfidenceMode> {
+  if (!userId) {
+    throw new Error("User ID is required");
+  }
+
+  const snapshot = await getDoc(userRef(userId));
+  const confidenceMode = snapshot.exists() ? snapshot.data().confidenceMode : null;
+  return isConfidenceMode(confidenceMode) ? confidenceMode : defaultConfidenceMode();
+}
+
+/**
+ * Save the user's confidence mode and re-score their stored transactions under it
+ */
+export async function saveConfidenceModePreference(
+  userId: string,
+  confidenceMode: ConfidenceMode
+): Promise<ConfidenceModeResult> {
+  if (!userId) {
+    throw new Error("User ID is required");
+  }
+
+  await setDoc(userRef(userId), { confidenceMode }, { merge: true });
+
+  // Unanalyzed transactions pick the mode up when they are analyzed
+  const stored = (await getUserTransactions(userId))?.transactions || [];
+  const analyzed = processAnalyzedTransactions(
+    stored.filter((tx) => tx.analyzed !== false),
+    undefined,
+    confidenceMode
+  );
+
+  await saveUserTransactions(userId, analyzed.transactions);
+
+  console.log(
+    `🎚️ Re-scored ${analyzed.transactions.length} stored transactions with confidence mode "${confidenceMode}"`
+  );
+
+  return {
+    ...analyzed,
+    transactions: [...analyzed.transactions, ...stored.filter((tx) => tx.analyzed === false)],
+    mode: confidenceMode,
+    updated: analyzed.transactions,
+  };
+}
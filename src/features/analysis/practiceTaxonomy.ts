@@ -0,0 +1,427 @@
+// src/features/analysis/practiceTaxonomy.ts
+// The one list of practices the app knows about
+//
+// Each practice has a stable id, the name shown to users and the model, the synonyms the
+// model tends to use instead, its polarity, impact category and charity search term.
+// The analysis prompt is generated from this list, model output is mapped back onto it,
+// and anything that doesn't match is logged so the list can grow. Add a practice here,
+// never in a prompt or a lookup table of its own.
+
+import { Transaction } from "@/shared/types/transactions";
+
+export type PracticePolarity = "unethical" | "ethical";
+
+export interface PracticeCategory {
+  name: string;
+  description: string; // What belongs in the category, as the prompt explains it
+}
+
+export interface PracticeDefinition {
+  id: string;
+  name: string; // Canonical display name
+  polarity: PracticePolarity;
+  category: string; // One of PRACTICE_CATEGORIES
+  searchTerm: string; // What to search every.org for when offsetting it
+  synonyms: string[];
+  industry?: string; // Prompt guidance: the industry the practice is typical for
+  typicalWeight?: string; // Prompt guidance: usual share of spend in that industry
+}
+
+export interface UnknownPractice {
+  name: string;
+  polarity: PracticePolarity;
+}
+
+type PracticeFields = Pick<
+  Transaction,
+  | "unethicalPractices"
+  | "ethicalPractices"
+  | "practiceWeights"
+  | "practiceConfidence"
+  | "practiceCategories"
+  | "practiceSearchTerms"
+  | "information"
+>;
+
+export const PRACTICE_CATEGORIES: PracticeCategory[] = [
+  { name: "Environment", description: "For practices related to emissions, energy usage, and environmental degradation" },
+  { name: "Poverty", description: "For practices related to economic inequality, exploitation, and access" },
+  { name: "Food Insecurity", description: "For practices related to food systems, agriculture, and nutrition" },
+  { name: "Conflict", description: "For practices related to resource conflicts, human rights, and exploitation" },
+  { name: "Inequality", description: "For practices related to social justice, fairness, and discrimination" },
+  { name: "Animal Welfare", description: "For practices related to treatment of animals and animal rights" },
+  { name: "Public Health", description: "For practices related to health impacts, safety, and wellbeing" },
+  { name: "Digital Rights", description: "For practices related to privacy, surveillance, and digital freedoms" },
+];
+
+export const PRACTICE_TAXONOMY: PracticeDefinition[] = [
+  // Unethical
+  {
+    id: "factory-farming",
+    name: "Factory Farming",
+    polarity: "unethical",
+    category: "Animal Welfare",
+    searchTerm: "animal welfare",
+    synonyms: ["Industrial Animal Agriculture", "Intensive Animal Farming", "Factory Farmed Meat"],
+    industry: "FOOD INDUSTRY",
+    typicalWeight: "30-70% for meat producers, 15-40% for fast food",
+  },
+  {
+    id: "excessive-packaging",
+    name: "Excessive Packaging",
+    polarity: "unethical",
+    category: "Environment",
+    searchTerm: "environment",
+    synonyms: ["Plastic Packaging", "Packaging Waste", "Single-Use Plastics"],
+    industry: "RETAIL/SHIPPING",
+    typicalWeight: "5-20% for consumer goods, 10-30% for e-commerce",
+  },
+  {
+    id: "labor-exploitation",
+    name: "Labor Exploitation",
+    polarity: "unethical",
+    category: "Poverty",
+    searchTerm: "workers rights",
+    synonyms: ["Worker Conditions", "Poor Working Conditions", "Labor Practices", "Sweatshop Labor", "Worker Exploitation", "Unfair Labor Practices"],
+    industry: "APPAREL",
+    typicalWeight: "10-60% for fast fashion",
+  },
+  {
+    id: "high-emissions",
+    name: "High Emissions",
+    polarity: "unethical",
+    category: "Environment",
+    searchTerm: "climate",
+    synonyms: ["Carbon Emissions", "High Carbon Emissions", "Greenhouse Gas Emissions", "Fossil Fuel Emissions"],
+    industry: "ENERGY",
+    typicalWeight: "40-90% for oil/gas, 20-50% for airlines",
+  },
+  {
+    id: "environmental-degradation",
+    name: "Environmental Degradation",
+    polarity: "unethical",
+    category: "Environment",
+    searchTerm: "conservation",
+    synonyms: ["Environmental Impact", "Habitat Destruction", "Deforestation", "Pollution"],
+    industry: "MINING/EXTRACTION",
+    typicalWeight: "20-60%",
+  },
+  {
+    id: "animal-testing",
+    name: "Animal Testing",
+    polarity: "unethical",
+    category: "Animal Welfare",
+    searchTerm: "animal rights",
+    synonyms: ["Animal Experimentation", "Tests on Animals"],
+    industry: "BEAUTY/COSMETICS",
+    typicalWeight: "20-40% for conventional cosmetics",
+  },
+  {
+    id: "water-waste",
+    name: "Water Waste",
+    polarity: "unethical",
+    category: "Environment",
+    searchTerm: "water conservation",
+    synonyms: ["Water Overuse", "Excessive Water Usage", "Water Depletion"],
+    industry: "AGRICULTURE",
+    typicalWeight: "10-30% for conventional agriculture",
+  },
+  {
+    id: "data-privacy-issues",
+    name: "Data Privacy Issues",
+    polarity: "unethical",
+    category: "Digital Rights",
+    searchTerm: "digital rights",
+    synonyms: ["Data Privacy", "Data Privacy Concerns", "Privacy Violations", "Data Collection", "Surveillance"],
+    industry: "TECH/DIGITAL",
+    typicalWeight: "10-40%",
+  },
+  {
+    id: "high-energy-usage",
+    name: "High Energy Usage",
+    polarity: "unethical",
+    category: "Environment",
+    searchTerm: "renewable energy",
+    synonyms: ["Energy Consumption", "High Energy Consumption", "Data Center Energy Use"],
+    industry: "TECH/DIGITAL",
+    typicalWeight: "5-20%",
+  },
+  {
+    id: "resource-depletion",
+    name: "Resource Depletion",
+    polarity: "unethical",
+    category: "Environment",
+    searchTerm: "sustainability",
+    synonyms: ["Resource Consumption", "Overconsumption of Resources", "Unsustainable Sourcing"],
+  },
+
+  // Ethical
+  {
+    id: "organic-farming",
+    name: "Organic Farming",
+    polarity: "ethical",
+    category: "Food Insecurity",
+    searchTerm: "sustainable agriculture",
+    synonyms: ["Organic Agriculture", "Organic Products", "Organic Sourcing"],
+    industry: "FOOD INDUSTRY",
+    typicalWeight: "10-30%",
+  },
+  {
+    id: "fair-trade",
+    name: "Fair Trade",
+    polarity: "ethical",
+    category: "Poverty",
+    searchTerm: "fair trade",
+    synonyms: ["Fair Trade Sourcing", "Fair Trade Products", "Ethical Sourcing"],
+    industry: "FOOD INDUSTRY",
+    typicalWeight: "5-25%",
+  },
+  {
+    id: "sustainable-materials",
+    name: "Sustainable Materials",
+    polarity: "ethical",
+    category: "Environment",
+    searchTerm: "sustainability",
+    synonyms: ["Sustainable Sourcing", "Eco-Friendly Materials", "Recycled Materials"],
+    industry: "RETAIL",
+    typicalWeight: "5-30%",
+  },
+  {
+    id: "circular-economy",
+    name: "Circular Economy",
+    polarity: "ethical",
+    category: "Environment",
+    searchTerm: "recycling",
+    synonyms: ["Recycling Programs", "Product Recycling", "Resale Programs"],
+    industry: "RETAIL",
+    typicalWeight: "5-20%",
+  },
+  {
+    id: "privacy-protection",
+    name: "Privacy Protection",
+    polarity: "ethical",
+    category: "Digital Rights",
+    searchTerm: "digital rights",
+    synonyms: ["Data Protection", "Strong Privacy Practices", "End-to-End Encryption"],
+    industry: "TECH/DIGITAL",
+    typicalWeight: "10-30%",
+  },
+  {
+    id: "clean-energy-usage",
+    name: "Clean Energy Usage",
+    polarity: "ethical",
+    category: "Environment",
+    searchTerm: "renewable energy",
+    synonyms: ["Renewable Energy", "Renewable Energy Usage", "Clean Energy", "Green Energy"],
+    industry: "TECH/DIGITAL",
+    typicalWeight: "5-25%",
+  },
+  {
+    id: "ethical-investment",
+    name: "Ethical Investment",
+    polarity: "ethical",
+    category: "Inequality",
+    searchTerm: "ethical finance",
+    synonyms: ["Responsible Investing", "Sustainable Investing", "ESG Investing"],
+    industry: "FINANCE",
+    typicalWeight: "10-40%",
+  },
+  {
+    id: "community-development",
+    name: "Community Development",
+    polarity: "ethical",
+    category: "Poverty",
+    searchTerm: "community development",
+    synonyms: ["Economic Opportunity", "Community Investment", "Local Investment", "Job Creation"],
+    industry: "FINANCE",
+    typicalWeight: "5-20%",
+  },
+  {
+    id: "preventative-care",
+    name: "Preventative Care",
+    polarity: "ethical",
+    category: "Public Health",
+    searchTerm: "public health",
+    synonyms: ["Preventive Care", "Preventive Health"],
+    industry: "HEALTH",
+    typicalWeight: "10-40%",
+  },
+  {
+    id: "affordable-access",
+    name: "Affordable Access",
+    polarity: "ethical",
+    category: "Public Health",
+    searchTerm: "health access",
+    synonyms: ["Affordable Healthcare", "Affordable Care", "Accessible Pricing"],
+    industry: "HEALTH",
+    typicalWeight: "5-30%",
+  },
+  {
+    id: "content-diversity",
+    name: "Content Diversity",
+    polarity: "ethical",
+    category: "Inequality",
+    searchTerm: "media diversity",
+    synonyms: ["Diverse Content", "Media Diversity", "Inclusive Content"],
+  },
+];
+
+/**
+ * Lookup form of a practice name: no emojis, case or punctuation
+ */
+function practiceKey(name: string): string {
+  return (name || "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+const practicesByKey = new Map<string, PracticeDefinition>();
+PRACTICE_TAXONOMY.forEach((practice) => {
+  [practice.id, practice.name, ...practice.synonyms].forEach((name) => {
+    practicesByKey.set(practiceKey(name), practice);
+  });
+});
+
+/**
+ * The registry entry for a practice id, name or synonym
+ * Pass a polarity to only accept practices of that kind, so an ethical synonym the
+ * model listed as unethical isn't quietly flipped
+ */
+export function findPractice(name: string, polarity?: PracticePolarity): PracticeDefinition | undefined {
+  const practice = practicesByKey.get(practiceKey(name));
+  return practice && (!polarity || practice.polarity === polarity) ? practice : undefined;
+}
+
+/**
+ * Charity search term for a practice, falling back to the practice itself
+ */
+export function practiceSearchTerm(name: string): string {
+  return findPractice(name)?.searchTerm || name.toLowerCase();
+}
+
+/**
+ * First practice mentioned by name or synonym in a piece of text
+ */
+export function findPracticeInText(text: string): PracticeDefinition | undefined {
+  const haystack = ` ${practiceKey(text)} `;
+  return PRACTICE_TAXONOMY.find((practice) =>
+    [practice.name, ...practice.synonyms].some((name) => haystack.includes(` ${practiceKey(name)} `))
+  );
+}
+
+/**
+ * Rename the model's practices to their canonical names across every per-practice field
+ * Known practices take the registry's category and search term. Two synonyms of one
+ * practice are merged, keeping the larger weight. Practices the registry doesn't know
+ * are kept as the model wrote them and returned so they can be reviewed
+ */
+export function canonicalizePractices<T extends PracticeFields>(
+  tx: T
+): { transaction: T; unknown: UnknownPractice[] } {
+  const renames = new Map<string, string>();
+  const unknown: UnknownPractice[] = [];
+
+  const canonicalList = (practices: string[] | undefined, polarity: PracticePolarity) => {
+    const names: string[] = [];
+    (practices || []).forEach((practice) => {
+      const known = findPractice(practice, polarity);
+      const name = known ? known.name : practice.trim();
+      if (!known) unknown.push({ name, polarity });
+
+      renames.set(practice, name);
+      if (!names.includes(name)) names.push(name);
+    });
+    return names;
+  };
+
+  const unethicalPractices = canonicalList(tx.unethicalPractices, "unethical");
+  const ethicalPractices = canonicalList(tx.ethicalPractices, "ethical");
+
+  const practiceWeights: Record<string, number> = {};
+  Object.entries(tx.practiceWeights || {}).forEach(([practice, weight]) => {
+    const name = renames.get(practice) || practice;
+    practiceWeights[name] = Math.max(practiceWeights[name] ?? weight, weight);
+  });
+
+  const practiceConfidence: Record<string, number> = {};
+  Object.entries(tx.practiceConfidence || {}).forEach(([practice, confidence]) => {
+    const name = renames.get(practice) || practice;
+    practiceConfidence[name] = Math.max(practiceConfidence[name] ?? confidence, confidence);
+  });
+
+  const practiceCategories: Record<string, string> = {};
+  const practiceSearchTerms: Record<string, string> = {};
+  Object.entries(tx.practiceCategories || {}).forEach(([practice, category]) => {
+    practiceCategories[renames.get(practice) || practice] = category;
+  });
+  Object.entries(tx.practiceSearchTerms || {}).forEach(([practice, searchTerm]) => {
+    practiceSearchTerms[renames.get(practice) || practice] = searchTerm;
+  });
+  const applyRegistry = (names: string[], polarity: PracticePolarity) =>
+    names.forEach((name) => {
+      const known = findPractice(name, polarity);
+      if (known) {
+        practiceCategories[name] = known.category;
+        practiceSearchTerms[name] = known.searchTerm;
+      }
+    });
+  applyRegistry(unethicalPractices, "unethical");
+  applyRegistry(ethicalPractices, "ethical");
+
+  const information: Record<string, string> = {};
+  Object.entries(tx.information || {}).forEach(([practice, text]) => {
+    const name = renames.get(practice) || practice;
+    information[name] = information[name] ? `${information[name]} ${text}` : text;
+  });
+
+  return {
+    transaction: {
+      ...tx,
+      unethicalPractices,
+      ethicalPractices,
+      practiceWeights,
+      practiceConfidence,
+      practiceCategories,
+      practiceSearchTerms,
+      information,
+    },
+    unknown,
+  };
+}
+
+/**
+ * Prompt lines listing each industry's typical practices of one polarity with their weights,
+ * e.g. "* TECH/DIGITAL: Data Privacy Issues (10-40%), High Energy Usage (5-20%)"
+ */
+export function industryGuidancePrompt(polarity: PracticePolarity, indent: string): string {
+  const byIndustry = new Map<string, string[]>();
+  PRACTICE_TAXONOMY.filter((practice) => practice.polarity === polarity && practice.industry).forEach(
+    (practice) => {
+      const entry = practice.typicalWeight ? `${practice.name} (${practice.typicalWeight})` : practice.name;
+      byIndustry.set(practice.industry!, [...(byIndustry.get(practice.industry!) || []), entry]);
+    }
+  );
+
+  return Array.from(byIndustry.entries())
+    .map(([industry, entries]) => `${indent}* ${industry}: ${entries.join(", ")}`)
+    .join("\n");
+}
+
+/**
+ * Prompt lines describing each impact category
+ */
+export function categoryPrompt(indent: string): string {
+  return PRACTICE_CATEGORIES.map(
+    (category) => `${indent}* "${category.name}" - ${category.description}`
+  ).join("\n");
+}
+
+/**
+ * Prompt lines giving each practice's category and search term
+ */
+export function practiceMappingPrompt(indent: string): string {
+  return PRACTICE_TAXONOMY.map(
+    (practice) => `${indent}* ${practice.name} → category "${practice.category}", searchTerm "${practice.searchTerm}"`
+  ).join("\n");
+}
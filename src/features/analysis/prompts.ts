@@ -1,4 +1,14 @@
 // src/features/analysis/prompts.ts
+// Practice lists, categories and search terms come from the practice taxonomy
+import {
+  categoryPrompt,
+  industryGuidancePrompt,
+  practiceMappingPrompt,
+} from "./practiceTaxonomy";
+
+// Bump when the prompt changes, so evaluation reports say which prompt they measured
+export const TRANSACTION_ANALYSIS_PROMPT_VERSION = "taxonomy-2";
+
 export const transactionAnalysisPrompt = `
 You are an AI that analyzes financial transactions to calculate societal debt - the ethical impact of consumer spending. Your goal is to calculate the percentage of the customer's money that directly supports unethical practices, as well as any ethical practices. Scrutinize ethical practices to compensate for propaganda.kio Focus on high impact practices and avoid insignificant ones.
 
@@ -14,25 +24,14 @@ Rules:
    
 3) Assign accurate percentage weights (0-100%) showing how much of the customer's money directly supports each practice:
    - For well-known merchants, use their specific business model, supply chain, and operations:
-     * Example: McDonald's might have: Factory Farming (40-60%), Resource Consumption (15-30%)
-     * Example: Amazon might have: Worker Conditions (15-30%), Environmental Impact (10-25%), Economic Opportunity (5-15%)
+     * Example: McDonald's might have: Factory Farming (40-60%), Resource Depletion (15-30%)
+     * Example: Amazon might have: Labor Exploitation (15-30%), Environmental Degradation (10-25%), Community Development (5-15%)
    
    - Industry-specific unethical practices:
-     * FOOD INDUSTRY: Factory Farming (30-70% for meat producers, 15-40% for fast food)
-     * RETAIL/SHIPPING: Excessive Packaging (5-20% for consumer goods, 10-30% for e-commerce)
-     * APPAREL: Labor Exploitation (10-60% for fast fashion)
-     * ENERGY: High Emissions (40-90% for oil/gas, 20-50% for airlines)
-     * MINING/EXTRACTION: Environmental Degradation (20-60%)
-     * BEAUTY/COSMETICS: Animal Testing (20-40% for conventional cosmetics)
-     * AGRICULTURE: Water Waste (10-30% for conventional agriculture)
-     * TECH/DIGITAL: Data Privacy Issues (10-40%), High Energy Usage (5-20%)
+${industryGuidancePrompt("unethical", "     ")}
    
    - Industry-specific ethical practices:
-     * FOOD INDUSTRY: Organic Farming (10-30%), Fair Trade (5-25%)
-     * RETAIL: Sustainable Materials (5-30%), Circular Economy (5-20%)
-     * TECH/DIGITAL: Privacy Protection (10-30%), Clean Energy Usage (5-25%)
-     * FINANCE: Ethical Investment (10-40%), Community Development (5-20%)
-     * HEALTH: Preventative Care (10-40%), Affordable Access (5-30%)
+${industryGuidancePrompt("ethical", "     ")}
    
    - For merchants that don't clearly fit these categories:
      * It's better to assign NO practices than to make inaccurate assignments
@@ -53,29 +52,18 @@ Rules:
 
 5) For each practice, provide:
    - A concise impact description (under 15 words)
+   - A "confidence" from 0 to 1 for how sure you are the practice applies to this merchant:
+     * 0.8-1.0: Well documented and central to the merchant's business
+     * 0.5-0.8: Reported, but partial, dated or disputed
+     * Below 0.5: Inferred from the industry rather than known about this merchant
    - For every practice, include a "searchTerm" that's optimized for charity searches
    - Assign a "category" for each practice from the following list:
-     * "Environment" - For practices related to emissions, energy usage, and environmental degradation
-     * "Poverty" - For practices related to economic inequality, exploitation, and access
-     * "Food Insecurity" - For practices related to food systems, agriculture, and nutrition
-     * "Conflict" - For practices related to resource conflicts, human rights, and exploitation
-     * "Inequality" - For practices related to social justice, fairness, and discrimination
-     * "Animal Welfare" - For practices related to treatment of animals and animal rights
-     * "Public Health" - For practices related to health impacts, safety, and wellbeing
-     * "Digital Rights" - For practices related to privacy, surveillance, and digital freedoms
-   - Use these exact search term mappings:
-     * Factory Farming → "animal welfare"
-     * High Emissions → "climate[]
-     * Environmental Degradation → "conservation"
-     * Water Waste → "water conservation"
-     * Resource Depletion → "sustainability"
-     * Data Privacy Issues → "digital rights"
-     * Labor Exploitation → "workers rights"
-     * Excessive Packaging → "environment"
-     * Animal Testing → "animal rights"
+${categoryPrompt("     ")}
+   - Use these exact practice names, categories and search terms whenever one of them applies:
+${practiceMappingPrompt("     ")}
 
 6) Output Guidelines:
-   - Be consistent in practice naming across transactions
+   - Be consistent in practice naming across transactions, using the practice names listed above before inventing new ones
    - Be skeptical of positive ethical practices, especially information that comes directly from the vendor. Counterbalance with opposite information if available.
    - Value should not add up to 100%. They should be a direct reflection of the percent of the customer's money that directly supports each practice.
    - Format societal debt calculations based on the weighted sum of all practices
@@ -95,11 +83,14 @@ Return ONLY strict JSON with no additional text or markdown:
     "practiceWeights": {
         "Factory Farming": 45
     },
+    "practiceConfidence": {
+        "Factory Farming": 0.9
+    },
     "practiceSearchTerms": {
         "Factory Farming": "animal welfare"
     },
     "practiceCategories": {
-        "Factory Farming": "Food Insecurity"
+        "Factory Farming": "Animal Welfare"
     },
     "information": {
         "Factory Farming": "Relies on industrial meat production with environmental and animal welfare concerns. https://citation.com/mcodonalsfactyfarming"
@@ -115,13 +106,17 @@ Return ONLY strict JSON with no additional text or markdown:
         "Data Privacy Issues": 25,
         "Clean Energy Usage": 15
     },
+    "practiceConfidence": {
+        "Data Privacy Issues": 0.85,
+        "Clean Energy Usage": 0.6
+    },
     "practiceSearchTerms": {
         "Data Privacy Issues": "digital rights",
         "Clean Energy Usage": "renewable energy"
     },
     "practiceCategories": {
         "Data Privacy Issues": "Digital Rights",
-        "Clean Energy Usage": "Climate Change"
+        "Clean Energy Usage": "Environment"
     },
     "information": {
         "Data Privacy Issues": "Collects and monetizes extensive user data with privacy implications.",
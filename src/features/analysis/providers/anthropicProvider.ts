@@ -0,0 +1,58 @@
+// src/features/analysis/providers/anthropicProvider.ts
+import { config } from "@/config";
+import { LLMProvider } from "./types";
+
+interface AnthropicMessageResponse {
+  content?: Array<{ type: string; text?: string }>;
+  error?: { type: string; message: string };
+}
+
+/**
+ * Anthropic-style Messages API provider
+ * Talks to the HTTP API directly so no extra SDK is needed
+ */
+export function createAnthropicProvider(): LLMProvider {
+  const { apiKey, model, baseUrl, maxTokens } = config.llm.anthropic;
+
+  return {
+    name: "Anthropic",
+    model,
+    supportsWebSearch: false,
+    complete: async ({ systemPrompt, userMessage }) => {
+      if (!apiKey) {
+        throw new Error("Anthropic API key is not configured");
+      }
+
+      const response = await fetch(`${baseUrl}/messages`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "x-api-key": apiKey,
+          "anthropic-version": "2023-06-01",
+        },
+        body: JSON.stringify({
+          model,
+          max_tokens: maxTokens,
+          system: systemPrompt,
+          messages: [{ role: "user", content: userMessage }],
+        }),
+        signal: AbortSignal.timeout(config.openai.timeout),
+      });
+
+      const data = (await response.json()) as AnthropicMessageResponse;
+
+      if (!response.ok) {
+        throw new Error(
+          `Anthropic API error: ${data.error?.message || response.status}`
+        );
+      }
+
+      const content = (data.content || [])
+        .filter((block) => block.type === "text" && block.text)
+        .map((block) => block.text)
+        .join("");
+
+      return { content };
+    },
+  };
+}
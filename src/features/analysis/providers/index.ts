@@ -0,0 +1,28 @@
+// src/features/analysis/providers/index.ts
+import { config } from "@/config";
+import { LLMProvider } from "./types";
+import { createOpenAIProvider } from "./openaiProvider";
+import { createAnthropicProvider } from "./anthropicProvider";
+import { createLocalProvider } from "./localProvider";
+import { createMockProvider } from "./mockProvider";
+
+export type { LLMProvider, LLMAnnotation, LLMCompletionRequest, LLMCompletionResult } from "./types";
+export type { RecordedAnalysis } from "./mockProvider";
+
+/**
+ * Get the LLM provider selected by config.llm.provider
+ */
+export function getLLMProvider(): LLMProvider {
+  switch (config.llm.provider) {
+    case "anthropic":
+      return createAnthropicProvider();
+    case "local":
+      return createLocalProvider();
+    case "mock":
+      return createMockProvider();
+    case "openai":
+      return createOpenAIProvider();
+    default:
+      throw new Error(`Unknown LLM provider: ${config.llm.provider}`);
+  }
+}
@@ -0,0 +1,47 @@
+// src/features/analysis/providers/localProvider.ts
+import { config } from "@/config";
+import { LLMProvider } from "./types";
+
+interface ChatCompletionResponse {
+  choices?: Array<{ message?: { content?: string } }>;
+  error?: { message?: string } | string;
+}
+
+/**
+ * Local model provider for Ollama or llama.cpp servers
+ * Both expose an OpenAI-compatible /chat/completions endpoint
+ */
+export function createLocalProvider(): LLMProvider {
+  const { baseUrl, model } = config.llm.local;
+
+  return {
+    name: "Local LLM",
+    model,
+    supportsWebSearch: false,
+    complete: async ({ systemPrompt, userMessage }) => {
+      const response = await fetch(`${baseUrl}/chat/completions`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          model,
+          messages: [
+            { role: "system", content: systemPrompt },
+            { role: "user", content: userMessage },
+          ],
+          stream: false,
+        }),
+        signal: AbortSignal.timeout(config.openai.timeout),
+      });
+
+      const data = (await response.json()) as ChatCompletionResponse;
+
+      if (!response.ok) {
+        const message =
+          typeof data.error === "string" ? data.error : data.error?.message;
+        throw new Error(`Local LLM error: ${message || response.status}`);
+      }
+
+      return { content: data.choices?.[0]?.message?.content || "" };
+    },
+  };
+}
@@ -0,0 +1,76 @@
+// src/features/analysis/providers/mockProvider.ts
+import { config } from "@/config";
+import { Transaction } from "../types";
+import { LLMProvider } from "./types";
+import recordings from "./recordings.json";
+
+// What the model answered for one merchant, keyed by lowercase merchant name in a recording
+export type RecordedAnalysis = Pick<
+  Transaction,
+  | "unethicalPractices"
+  | "ethicalPractices"
+  | "practiceWeights"
+  | "practiceConfidence"
+  | "practiceSearchTerms"
+  | "practiceCategories"
+  | "information"
+>;
+
+const recordedAnalyses = recordings as Record<string, RecordedAnalysis>;
+
+/**
+ * Pull the transactions payload out of the user message
+ * The message may have instructions in front of the JSON
+ */
+function extractRequestTransactions(userMessage: string): Transaction[] {
+  const jsonStart = userMessage.indexOf('{"transactions"');
+  if (jsonStart === -1) {
+    return [];
+  }
+
+  try {
+    const payload = JSON.parse(userMessage.slice(jsonStart)) as { transactions?: Transaction[] };
+    return payload.transactions || [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Deterministic provider that replays recorded merchant analyses
+ * Unknown merchants get no practices, matching the prompt's "when unsure" rule
+ * Pass a recording to replay it instead of the built-in one, e.g. a prompt version's
+ */
+export function createMockProvider(
+  recording: Record<string, RecordedAnalysis> = recordedAnalyses
+): LLMProvider {
+  return {
+    name: "Mock",
+    model: "recorded-responses",
+    supportsWebSearch: false,
+    complete: async ({ userMessage }) => {
+      if (config.llm.mock.latencyMs > 0) {
+        await new Promise((resolve) => setTimeout(resolve, config.llm.mock.latencyMs));
+      }
+
+      const transactions = extractRequestTransactions(userMessage).map((tx) => {
+        const recorded = recording[tx.name.trim().toLowerCase()];
+
+        return {
+          date: tx.date,
+          name: tx.name,
+          amount: tx.amount,
+          unethicalPractices: recorded?.unethicalPractices || [],
+          ethicalPractices: recorded?.ethicalPractices || [],
+          practiceWeights: recorded?.practiceWeights || {},
+          practiceConfidence: recorded?.practiceConfidence || {},
+          practiceSearchTerms: recorded?.practiceSearchTerms || {},
+          practiceCategories: recorded?.practiceCategories || {},
+          information: recorded?.information || {},
+        };
+      });
+
+      return { content: JSON.stringify({ transactions }) };
+    },
+  };
+}
@@ -0,0 +1,73 @@
+// src/features/analysis/providers/openaiProvider.ts
+import OpenAI from "openai";
+import type { ChatCompletion } from "openai/resources/chat";
+import { config } from "@/config";
+import { LLMProvider, LLMAnnotation } from "./types";
+
+// Interface for OpenAI API parameters
+interface OpenAICompletionParams {
+  model: string;
+  messages: Array<{
+    role: "system" | "user" | "assistant";
+    content: string;
+  }>;
+  web_search_options?: {
+    search_context_size?: string;
+  };
+}
+
+export function createOpenAIProvider(): LLMProvider {
+  const model = config.openai.model;
+  const isSearchEnabled = model.includes("search");
+
+  return {
+    name: "OpenAI",
+    model,
+    supportsWebSearch: isSearchEnabled,
+    complete: async ({ systemPrompt, userMessage }) => {
+      // Create OpenAI client with configured API key
+      const openai = new OpenAI({
+        apiKey: config.openai.apiKey,
+        timeout: config.openai.timeout || 60000,
+      });
+
+      const messages: OpenAICompletionParams["messages"] = [
+        { role: "system", content: systemPrompt },
+        { role: "user", content: userMessage },
+      ];
+
+      let rawResponse: ChatCompletion;
+      if (isSearchEnabled) {
+        // For search-enabled models with custom parameters
+        const searchParams: OpenAICompletionParams = {
+          model,
+          messages,
+          web_search_options: {
+            search_context_size: config.openai.searchContextSize || "high",
+          },
+        };
+
+        rawResponse = (await openai.chat.completions.create(
+          searchParams as OpenAICompletionParams
+        )) as ChatCompletion;
+      } else {
+        // For standard models
+        rawResponse = (await openai.chat.completions.create({
+          model,
+          messages,
+          stream: false,
+        })) as ChatCompletion;
+      }
+
+      const responseMessage = rawResponse.choices[0]?.message;
+
+      // Check if annotations exist on the message using type assertion
+      const messageObj = responseMessage as unknown as { annotations?: LLMAnnotation[] };
+
+      return {
+        content: responseMessage?.content || "",
+        annotations: messageObj?.annotations,
+      };
+    },
+  };
+}
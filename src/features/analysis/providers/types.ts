@@ -0,0 +1,35 @@
+// src/features/analysis/providers/types.ts
+
+export interface Citation {
+  url: string;
+  title: string;
+  start_index?: number;
+  end_index?: number;
+}
+
+export interface LLMAnnotation {
+  type: string;
+  url_citation?: Citation;
+}
+
+export interface LLMCompletionRequest {
+  systemPrompt: string;
+  userMessage: string;
+}
+
+export interface LLMCompletionResult {
+  content: string;
+  // Only populated by providers that can search the web
+  annotations?: LLMAnnotation[];
+}
+
+/**
+ * A chat model that can analyze transactions
+ * Implementations must return the raw message text; parsing stays in the service
+ */
+export interface LLMProvider {
+  name: string;
+  model: string;
+  supportsWebSearch: boolean;
+  complete: (request: LLMCompletionRequest) => Promise<LLMCompletionResult>;
+}
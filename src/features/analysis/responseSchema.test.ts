@@ -0,0 +1,135 @@
+// src/features/analysis/responseSchema.test.ts
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Transaction } from "@/shared/types/transactions";
+import { validateAnalysisResponse } from "./responseSchema";
+
+const requested: Transaction[] = [
+  { date: "2025-03-02", name: "Amazon", amount: 80 },
+  { date: "2025-03-03", name: "Starbucks", amount: 12.5 },
+];
+
+// A model answer for one requested transaction that passes every check
+function answer(tx: Transaction, overrides: Record<string, unknown> = {}) {
+  return {
+    date: tx.date,
+    name: tx.name,
+    amount: tx.amount,
+    unethicalPractices: ["Excessive Packaging"],
+    ethicalPractices: [],
+    practiceWeights: { "Excessive Packaging": 15 },
+    practiceConfidence: { "Excessive Packaging": 0.8 },
+    practiceCategories: { "Excessive Packaging": "Environment" },
+    practiceSearchTerms: { "Excessive Packaging": "environment" },
+    information: { "Excessive Packaging": "Oversized boxes." },
+    ...overrides,
+  };
+}
+
+const messages = (result: ReturnType<typeof validateAnalysisResponse>) =>
+  result.quarantined.flatMap((item) => item.errors.map((error) => `${error.path}: ${error.message}`));
+
+describe("validateAnalysisResponse", () => {
+  it("accepts answers that follow the contract", () => {
+    const result = validateAnalysisResponse(
+      { transactions: requested.map((tx) => answer(tx)) },
+      requested
+    );
+
+    assert.deepEqual(result.responseErrors, []);
+    assert.deepEqual(result.quarantined, []);
+    assert.equal(result.valid.length, 2);
+    assert.deepEqual(result.valid[0].practiceConfidence, { "Excessive Packaging": 0.8 });
+  });
+
+  it("rejects a response without a transactions array outright", () => {
+    const result = validateAnalysisResponse({ results: [] }, requested);
+
+    assert.equal(result.responseErrors.length, 1);
+    assert.deepEqual(result.valid, []);
+  });
+
+  it("quarantines only the transaction with a weight outside 0-100", () => {
+    const result = validateAnalysisResponse(
+      {
+        transactions: [
+          answer(requested[0]),
+          answer(requested[1], { practiceWeights: { "Excessive Packaging": 150 } }),
+        ],
+      },
+      requested
+    );
+
+    assert.deepEqual(result.valid.map((tx) => tx.name), ["Amazon"]);
+    assert.deepEqual(result.quarantined.map((item) => item.transaction), [requested[1]]);
+    assert.deepEqual(messages(result), [
+      "transactions[1].practiceWeights.Excessive Packaging: must be a number between 0 and 100",
+    ]);
+  });
+
+  it("quarantines a confidence outside 0-1 but allows it to be left out", () => {
+    const result = validateAnalysisResponse(
+      {
+        transactions: [
+          answer(requested[0], { practiceConfidence: undefined }),
+          answer(requested[1], { practiceConfidence: { "Excessive Packaging": 1.5 } }),
+        ],
+      },
+      requested
+    );
+
+    assert.deepEqual(result.valid.map((tx) => tx.name), ["Amazon"]);
+    assert.deepEqual(messages(result), [
+      "transactions[1].practiceConfidence.Excessive Packaging: must be a number between 0 and 1",
+    ]);
+  });
+
+  it("quarantines categories that aren't in the taxonomy", () => {
+    const result = validateAnalysisResponse(
+      {
+        transactions: [
+          answer(requested[0], { practiceCategories: { "Excessive Packaging": "Climate Change" } }),
+          answer(requested[1]),
+        ],
+      },
+      requested
+    );
+
+    assert.deepEqual(result.valid.map((tx) => tx.name), ["Starbucks"]);
+    assert.match(messages(result)[0], /"Climate Change" is not one of: Environment, Poverty/);
+  });
+
+  it("quarantines weights without a practice and practices without a weight", () => {
+    const result = validateAnalysisResponse(
+      {
+        transactions: [
+          answer(requested[0], { practiceWeights: { "Excessive Packaging": 15, "Water Waste": 5 } }),
+          answer(requested[1], { practiceWeights: {} }),
+        ],
+      },
+      requested
+    );
+
+    assert.deepEqual(result.valid, []);
+    assert.deepEqual(messages(result), [
+      "transactions[0].practiceWeights.Water Waste: has no matching entry in unethicalPractices or ethicalPractices",
+      'transactions[1].practiceWeights: missing weight for "Excessive Packaging"',
+    ]);
+  });
+
+  it("quarantines transactions the model skipped and ignores ones it wasn't asked about", () => {
+    const result = validateAnalysisResponse(
+      {
+        transactions: [
+          answer(requested[0]),
+          answer({ date: "2025-03-03", name: "Starbucks Coffee", amount: 12.5 }),
+        ],
+      },
+      requested
+    );
+
+    assert.deepEqual(result.valid.map((tx) => tx.name), ["Amazon"]);
+    assert.deepEqual(result.quarantined.map((item) => item.transaction), [requested[1]]);
+    assert.match(messages(result)[0], /missing analysis for "Starbucks"/);
+  });
+});
@@ -0,0 +1,284 @@
+// src/features/analysis/responseSchema.ts
+// Runtime validation for the model's analysis output
+import { Transaction } from "./types";
+import { legacyTransactionKey } from "@/shared/utils/transactionIdentity";
+import { PRACTICE_CATEGORIES } from "./practiceTaxonomy";
+
+// Categories the prompt allows for practiceCategories values
+const CATEGORY_NAMES = PRACTICE_CATEGORIES.map((category) => category.name);
+
+export interface ValidationError {
+  path: string;
+  message: string;
+}
+
+export interface QuarantinedTransaction {
+  transaction: Transaction;
+  errors: ValidationError[];
+}
+
+export interface AnalysisValidationResult {
+  // Errors that make the whole response unusable (not JSON, no transactions array)
+  responseErrors: ValidationError[];
+  valid: Transaction[];
+  quarantined: QuarantinedTransaction[];
+}
+
+/**
+ * Key used to match model output to what we asked about
+ * The model never sees transaction ids, so this is date-name-amount
+ */
+export function transactionKey(tx: Pick<Transaction, "date" | "name" | "amount">): string {
+  return legacyTransactionKey(tx);
+}
+
+export function formatValidationErrors(errors: ValidationError[]): string[] {
+  return errors.map((error) => `${error.path}: ${error.message}`);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function validateStringArray(
+  value: unknown,
+  path: string,
+  errors: ValidationError[]
+): string[] {
+  if (value === undefined) return [];
+
+  if (!Array.isArray(value) || value.some((item) => typeof item !== "string" || !item.trim())) {
+    errors.push({ path, message: "must be an array of non-empty strings" });
+    return [];
+  }
+
+  return value as string[];
+}
+
+function validateStringMap(
+  value: unknown,
+  path: string,
+  errors: ValidationError[]
+): Record<string, string> {
+  if (value === undefined) return {};
+
+  if (!isRecord(value)) {
+    errors.push({ path, message: "must be an object of strings" });
+    return {};
+  }
+
+  Object.entries(value).forEach(([key, entry]) => {
+    if (typeof entry !== "string") {
+      errors.push({ path: `${path}.${key}`, message: "must be a string" });
+    }
+  });
+
+  return value as Record<string, string>;
+}
+
+/**
+ * Validate one transaction from the model against the analysis contract
+ */
+function validateTransaction(raw: unknown, path: string): {
+  transaction: Transaction | null;
+  errors: ValidationError[];
+} {
+  const errors: ValidationError[] = [];
+
+  if (!isRecord(raw)) {
+    return { transaction: null, errors: [{ path, message: "must be an object" }] };
+  }
+
+  if (typeof raw.date !== "string" || !raw.date) {
+    errors.push({ path: `${path}.date`, message: "must be a non-empty string" });
+  }
+  if (typeof raw.name !== "string" || !raw.name) {
+    errors.push({ path: `${path}.name`, message: "must be a non-empty string" });
+  }
+  if (typeof raw.amount !== "number" || !Number.isFinite(raw.amount)) {
+    errors.push({ path: `${path}.amount`, message: "must be a number" });
+  }
+
+  const unethicalPractices = validateStringArray(
+    raw.unethicalPractices,
+    `${path}.unethicalPractices`,
+    errors
+  );
+  const ethicalPractices = validateStringArray(
+    raw.ethicalPractices,
+    `${path}.ethicalPractices`,
+    errors
+  );
+  const practices = [...unethicalPractices, ...ethicalPractices];
+
+  // The same practice can't be both ethical and unethical
+  unethicalPractices
+    .filter((practice) => ethicalPractices.includes(practice))
+    .forEach((practice) => {
+      errors.push({
+        path: `${path}.ethicalPractices`,
+        message: `"${practice}" is also listed as unethical`,
+      });
+    });
+
+  // Weights: 0-100, one per practice, no weights for practices that aren't listed
+  const practiceWeights: Record<string, number> = {};
+  if (raw.practiceWeights !== undefined && !isRecord(raw.practiceWeights)) {
+    errors.push({ path: `${path}.practiceWeights`, message: "must be an object of numbers" });
+  } else {
+    const weights = (raw.practiceWeights || {}) as Record<string, unknown>;
+
+    Object.entries(weights).forEach(([practice, weight]) => {
+      if (typeof weight !== "number" || !Number.isFinite(weight) || weight < 0 || weight > 100) {
+        errors.push({
+          path: `${path}.practiceWeights.${practice}`,
+          message: "must be a number between 0 and 100",
+        });
+      } else {
+        practiceWeights[practice] = weight;
+      }
+
+      if (!practices.includes(practice)) {
+        errors.push({
+          path: `${path}.practiceWeights.${practice}`,
+          message: "has no matching entry in unethicalPractices or ethicalPractices",
+        });
+      }
+    });
+
+    practices.forEach((practice) => {
+      if (!(practice in weights)) {
+        errors.push({ path: `${path}.practiceWeights`, message: `missing weight for "${practice}"` });
+      }
+    });
+  }
+
+  // Confidence: 0-1, optional per practice so analyses from models that leave it out still count
+  const practiceConfidence: Record<string, number> = {};
+  if (raw.practiceConfidence !== undefined && !isRecord(raw.practiceConfidence)) {
+    errors.push({ path: `${path}.practiceConfidence`, message: "must be an object of numbers" });
+  } else {
+    Object.entries((raw.practiceConfidence || {}) as Record<string, unknown>).forEach(([practice, confidence]) => {
+      if (typeof confidence !== "number" || !Number.isFinite(confidence) || confidence < 0 || confidence > 1) {
+        errors.push({
+          path: `${path}.practiceConfidence.${practice}`,
+          message: "must be a number between 0 and 1",
+        });
+      } else if (!practices.includes(practice)) {
+        errors.push({
+          path: `${path}.practiceConfidence.${practice}`,
+          message: "has no matching entry in unethicalPractices or ethicalPractices",
+        });
+      } else {
+        practiceConfidence[practice] = confidence;
+      }
+    });
+  }
+
+  // Categories must come from the prompt's fixed list
+  const practiceCategories = validateStringMap(
+    raw.practiceCategories,
+    `${path}.practiceCategories`,
+    errors
+  );
+  practices.forEach((practice) => {
+    const category = practiceCategories[practice];
+    if (!category) {
+      errors.push({ path: `${path}.practiceCategories`, message: `missing category for "${practice}"` });
+    } else if (!CATEGORY_NAMES.includes(category)) {
+      errors.push({
+        path: `${path}.practiceCategories.${practice}`,
+        message: `"${category}" is not one of: ${CATEGORY_NAMES.join(", ")}`,
+      });
+    }
+  });
+
+  const practiceSearchTerms = validateStringMap(
+    raw.practiceSearchTerms,
+    `${path}.practiceSearchTerms`,
+    errors
+  );
+  const information = validateStringMap(raw.information, `${path}.information`, errors);
+
+  if (errors.length > 0) {
+    return { transaction: null, errors };
+  }
+
+  return {
+    transaction: {
+      date: raw.date as string,
+      name: raw.name as string,
+      amount: raw.amount as number,
+      unethicalPractices,
+      ethicalPractices,
+      practiceWeights,
+      practiceConfidence,
+      practiceCategories,
+      practiceSearchTerms,
+      information,
+    },
+    errors,
+  };
+}
+
+/**
+ * Validate a parsed model response against the transactions we asked about
+ * Invalid or missing transactions are quarantined individually
+ */
+export function validateAnalysisResponse(
+  raw: unknown,
+  requested: Transaction[]
+): AnalysisValidationResult {
+  if (!isRecord(raw) || !Array.isArray(raw.transactions)) {
+    return {
+      responseErrors: [{ path: "transactions", message: "response must be an object with a transactions array" }],
+      valid: [],
+      quarantined: [],
+    };
+  }
+
+  const requestedByKey = new Map(requested.map((tx) => [transactionKey(tx), tx]));
+  const seen = new Set<string>();
+  const valid: Transaction[] = [];
+  const quarantined: QuarantinedTransaction[] = [];
+
+  raw.transactions.forEach((item, index) => {
+    const path = `transactions[${index}]`;
+    const { transaction, errors } = validateTransaction(item, path);
+
+    if (!transaction) {
+      // Quarantine against the requested transaction when we can still identify it
+      const key = isRecord(item) ? transactionKey(item as unknown as Transaction) : "";
+      const original = requestedByKey.get(key);
+      if (original && !seen.has(key)) {
+        seen.add(key);
+        quarantined.push({ transaction: original, errors });
+      }
+      return;
+    }
+
+    const key = transactionKey(transaction);
+    if (!requestedByKey.has(key)) {
+      // Unmatched output (renamed merchant, changed amount) can't be merged back
+      return;
+    }
+    if (seen.has(key)) return;
+
+    seen.add(key);
+    valid.push(transaction);
+  });
+
+  // Anything the model skipped is quarantined too
+  requested.forEach((tx) => {
+    const key = transactionKey(tx);
+    if (!seen.has(key)) {
+      seen.add(key);
+      quarantined.push({
+        transaction: tx,
+        errors: [{ path: "transactions", message: `missing analysis for "${tx.name}" on ${tx.date} (${tx.amount})` }],
+      });
+    }
+  });
+
+  return { responseErrors: [], valid, quarantined };
+}
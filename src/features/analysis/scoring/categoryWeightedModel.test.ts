@@ -0,0 +1,23 @@
+// src/features/analysis/scoring/categoryWeightedModel.test.ts
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { config } from "@/config";
+import { findPractice, PRACTICE_CATEGORIES } from "../practiceTaxonomy";
+import { categoryWeight } from "./categoryWeightedModel";
+
+describe("categoryWeight", () => {
+  it("is only configured for categories the taxonomy has", () => {
+    const known = PRACTICE_CATEGORIES.map((category) => category.name);
+    const unknown = Object.keys(config.scoring.categoryWeights).filter((name) => !known.includes(name));
+
+    assert.deepEqual(unknown, []);
+  });
+
+  it("counts climate and labor harms for more", () => {
+    ["High Emissions", "Labor Exploitation"].forEach((name) => {
+      const practice = findPractice(name);
+      assert.ok(practice, `${name} is in the taxonomy`);
+      assert.ok(categoryWeight(practice.category) > 1, `${practice.category} is weighted up`);
+    });
+  });
+});
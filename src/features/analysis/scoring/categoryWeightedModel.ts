@@ -0,0 +1,56 @@
+// src/features/analysis/scoring/categoryWeightedModel.ts
+import { config } from "@/config";
+import { Transaction } from "@/shared/types/transactions";
+import { aggregateByCategory, summarizeImpact } from "../impactAggregation";
+import { ImpactScoringModel } from "./types";
+import { clampScore, practiceDrivers, rankDrivers } from "./drivers";
+
+export function categoryWeight(category: string): number {
+  return config.scoring.categoryWeights[category] ?? 1;
+}
+
+/**
+ * Debt percentage with each category's net debt scaled by config.scoring.categoryWeights,
+ * so harm in the categories that matter most counts for more
+ */
+export function createCategoryWeightedModel(): ImpactScoringModel {
+  return {
+    id: "category_weighted",
+    name: "Weighted by category",
+    description: "Debt percentage with climate and labor harms counting for more",
+    score: (transactions: Transaction[]) => {
+      const { totalSpent } = summarizeImpact(transactions);
+      const categories = aggregateByCategory(transactions).map((category) => ({
+        name: category.name,
+        weight: categoryWeight(category.name),
+        weightedAmount: category.totalAmount * categoryWeight(category.name),
+      }));
+      const weightedDebt = categories.reduce((sum, category) => sum + category.weightedAmount, 0);
+      const weightedPercentage = totalSpent > 0 ? (weightedDebt / totalSpent) * 100 : 0;
+
+      return {
+        modelId: "category_weighted",
+        score: clampScore(weightedPercentage),
+        summary:
+          totalSpent > 0
+            ? `$${weightedDebt.toFixed(2)} of weighted debt on $${totalSpent.toFixed(2)} of spending`
+            : "No spending to score yet",
+        factors: [
+          { label: "Weighted societal debt", value: weightedDebt, format: "currency" },
+          { label: "Total spending", value: totalSpent, format: "currency" },
+          { label: "Weighted debt percentage", value: weightedPercentage, format: "percent" },
+        ],
+        drivers: [
+          ...rankDrivers(
+            categories.map((category) => ({
+              kind: "category" as const,
+              label: category.weight === 1 ? category.name : `${category.name} (x${category.weight})`,
+              amount: category.weightedAmount,
+            }))
+          ),
+          ...practiceDrivers(transactions),
+        ],
+      };
+    },
+  };
+}
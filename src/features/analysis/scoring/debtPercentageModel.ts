@@ -0,0 +1,35 @@
+// src/features/analysis/scoring/debtPercentageModel.ts
+import { Transaction } from "@/shared/types/transactions";
+import { summarizeImpact } from "../impactAggregation";
+import { ImpactScoringModel } from "./types";
+import { clampScore, practiceDrivers, transactionDrivers } from "./drivers";
+
+/**
+ * Net societal debt as a percentage of spending
+ * Spending whose debt is fully offset by credits scores 0
+ */
+export function createDebtPercentageModel(): ImpactScoringModel {
+  return {
+    id: "debt_percentage",
+    name: "Debt percentage",
+    description: "Net societal debt as a share of everything you spent",
+    score: (transactions: Transaction[]) => {
+      const { totalSpent, totalSocietalDebt, debtPercentage } = summarizeImpact(transactions);
+
+      return {
+        modelId: "debt_percentage",
+        score: clampScore(debtPercentage),
+        summary:
+          totalSpent > 0
+            ? `$${totalSocietalDebt.toFixed(2)} of societal debt on $${totalSpent.toFixed(2)} of spending`
+            : "No spending to score yet",
+        factors: [
+          { label: "Societal debt", value: totalSocietalDebt, format: "currency" },
+          { label: "Total spending", value: totalSpent, format: "currency" },
+          { label: "Debt percentage", value: debtPercentage, format: "percent" },
+        ],
+        drivers: [...transactionDrivers(transactions), ...practiceDrivers(transactions)],
+      };
+    },
+  };
+}
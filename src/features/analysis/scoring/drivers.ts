@@ -0,0 +1,63 @@
+// src/features/analysis/scoring/drivers.ts
+// Shared pieces of a score's explanation
+
+import { config } from "@/config";
+import { Transaction } from "@/shared/types/transactions";
+import { getTransactionId } from "@/shared/utils/transactionIdentity";
+import { aggregateByPractice } from "../impactAggregation";
+import { ScoreDriver } from "./types";
+
+/**
+ * Round a raw score into 0-100
+ */
+export function clampScore(value: number): number {
+  if (!Number.isFinite(value)) return value > 0 ? 100 : 0;
+  return Math.round(Math.min(100, Math.max(0, value)));
+}
+
+/**
+ * Turn signed amounts into drivers, largest first, with each harmful one's share of
+ * the total harm
+ */
+export function rankDrivers(
+  drivers: Omit<ScoreDriver, "share">[],
+  limit = config.scoring.maxDrivers
+): ScoreDriver[] {
+  const totalHarm = drivers.reduce((sum, driver) => sum + Math.max(0, driver.amount), 0);
+
+  return drivers
+    .filter((driver) => driver.amount !== 0)
+    .sort((a, b) => Math.abs(b.amount) - Math.abs(a.amount))
+    .slice(0, limit)
+    .map((driver) => ({
+      ...driver,
+      share: totalHarm > 0 && driver.amount > 0 ? (driver.amount / totalHarm) * 100 : 0,
+    }));
+}
+
+/**
+ * The purchases with the largest societal debt or credit
+ */
+export function transactionDrivers(transactions: Transaction[]): ScoreDriver[] {
+  return rankDrivers(
+    transactions.map((tx) => ({
+      kind: "transaction" as const,
+      label: `${tx.name} (${tx.date})`,
+      amount: tx.societalDebt || 0,
+      transactionId: getTransactionId(tx),
+    }))
+  );
+}
+
+/**
+ * The practices with the largest debt or credit across all purchases
+ */
+export function practiceDrivers(transactions: Transaction[]): ScoreDriver[] {
+  return rankDrivers(
+    aggregateByPractice(transactions).map((practice) => ({
+      kind: "practice" as const,
+      label: practice.name,
+      amount: practice.amount,
+    }))
+  );
+}
@@ -0,0 +1,34 @@
+// src/features/analysis/scoring/index.ts
+import { config } from "@/config";
+import { Transaction } from "@/shared/types/transactions";
+import { ImpactScore, ImpactScoringModel, ScoringModelId } from "./types";
+import { createRatioModel } from "./ratioModel";
+import { createDebtPercentageModel } from "./debtPercentageModel";
+import { createCategoryWeightedModel } from "./categoryWeightedModel";
+
+export type { ImpactScore, ImpactScoringModel, ScoringModelId, ScoreDriver, ScoreFactor } from "./types";
+
+export const scoringModels: ImpactScoringModel[] = [
+  createRatioModel(),
+  createDebtPercentageModel(),
+  createCategoryWeightedModel(),
+];
+
+export function isScoringModelId(value: unknown): value is ScoringModelId {
+  return scoringModels.some((model) => model.id === value);
+}
+
+/**
+ * Get a scoring model, falling back to config.scoring.defaultModel for unknown ids
+ */
+export function getScoringModel(id?: string | null): ImpactScoringModel {
+  return (
+    scoringModels.find((model) => model.id === id) ||
+    scoringModels.find((model) => model.id === config.scoring.defaultModel) ||
+    scoringModels[0]
+  );
+}
+
+export function scoreTransactions(transactions: Transaction[], modelId?: string | null): ImpactScore {
+  return getScoringModel(modelId).score(transactions);
+}
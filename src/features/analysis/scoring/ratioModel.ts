@@ -0,0 +1,69 @@
+// src/features/analysis/scoring/ratioModel.ts
+import { config } from "@/config";
+import { Transaction } from "@/shared/types/transactions";
+import { transactionPracticeImpacts } from "../impactAggregation";
+import { ImpactScoringModel } from "./types";
+import { clampScore, practiceDrivers, transactionDrivers } from "./drivers";
+
+/**
+ * The original score: (neutral + negative * 2) / positive, scaled by config.scoring.ratioScale
+ * Negative and positive impact are the summed practice debts and credits; neutral is
+ * spending on analyzed purchases with no practices. With no positive impact at all the
+ * ratio is unbounded, so any negative or neutral spending scores the maximum
+ */
+export function createRatioModel(): ImpactScoringModel {
+  return {
+    id: "ratio",
+    name: "Impact ratio",
+    description: "Harmful and neutral spending weighed against the good your purchases do",
+    score: (transactions: Transaction[]) => {
+      let positiveImpact = 0;
+      let negativeImpact = 0;
+      let neutralImpact = 0;
+
+      transactions
+        .filter((tx) => tx.analyzed !== false)
+        .forEach((tx) => {
+          const impacts = transactionPracticeImpacts(tx);
+          if (impacts.length === 0) {
+            neutralImpact += tx.amount || 0;
+            return;
+          }
+
+          impacts.forEach(({ amount }) => {
+            if (amount < 0) {
+              positiveImpact += Math.abs(amount);
+            } else {
+              negativeImpact += amount;
+            }
+          });
+        });
+
+      const weighted = neutralImpact + negativeImpact * 2;
+      const rawScore =
+        positiveImpact > 0
+          ? (weighted / positiveImpact) * config.scoring.ratioScale
+          : weighted > 0
+          ? Infinity
+          : 0;
+      const score = clampScore(rawScore);
+
+      return {
+        modelId: "ratio",
+        score,
+        summary:
+          positiveImpact > 0
+            ? `Harmful and neutral spending is ${(weighted / positiveImpact).toFixed(2)}x the good your purchases do`
+            : weighted > 0
+            ? "None of your purchases offset their harm, so the score is at its maximum"
+            : "No analyzed purchases to score yet",
+        factors: [
+          { label: "Negative impact (counted twice)", value: negativeImpact, format: "currency" },
+          { label: "Neutral spending", value: neutralImpact, format: "currency" },
+          { label: "Positive impact", value: positiveImpact, format: "currency" },
+        ],
+        drivers: [...practiceDrivers(transactions), ...transactionDrivers(transactions)],
+      };
+    },
+  };
+}
@@ -0,0 +1,28 @@
+// src/features/analysis/scoring/scoringPreferences.ts
+// Which scoring model each user picked, kept on their users/{userId} document
+
+import { db } from "@/shared/firebase/firebase";
+import { doc, getDoc, setDoc } from "firebase/firestore";
+import { config } from "@/config";
+import { ScoringModelId } from "./types";
+import { isScoringModelId } from "./index";
+
+function userRef(userId: string) {
+  return doc(db, config.transactionStorage.usersCollection, userId);
+}
+
+/**
+ * @returns null if the user hasn't picked a model, or picked one that no longer exists
+ */
+export async function getScoringModelPreference(userId: string): Promise<ScoringModelId | null> {
+  const snapshot = await getDoc(userRef(userId));
+  const scoringModel = snapshot.exists() ? snapshot.data().scoringModel : null;
+  return isScoringModelId(scoringModel) ? scoringModel : null;
+}
+
+export async function saveScoringModelPreference(
+  userId: string,
+  scoringModel: ScoringModelId
+): Promise<void> {
+  await setDoc(userRef(userId), { scoringModel }, { merge: true });
+}
@@ -0,0 +1,39 @@
+// src/features/analysis/scoring/types.ts
+import { Transaction } from "@/shared/types/transactions";
+
+export type ScoringModelId = "ratio" | "debt_percentage" | "category_weighted";
+
+// One input to a model's formula, shown so the user can follow the arithmetic
+export interface ScoreFactor {
+  label: string;
+  value: number;
+  format: "currency" | "percent" | "number";
+}
+
+// Something that moved the score - a purchase, a practice or a category
+export interface ScoreDriver {
+  kind: "transaction" | "practice" | "category";
+  label: string;
+  amount: number; // Signed impact in dollars; positive raises the score
+  share: number; // Percent of the harmful impact the score is built on, 0 for credits
+  transactionId?: string;
+}
+
+export interface ImpactScore {
+  modelId: ScoringModelId;
+  score: number; // 0-100, higher is worse
+  summary: string;
+  factors: ScoreFactor[];
+  drivers: ScoreDriver[]; // Largest first
+}
+
+/**
+ * A way of turning transactions into a bounded impact score
+ * Implementations must clamp to 0-100 and explain what drove the result
+ */
+export interface ImpactScoringModel {
+  id: ScoringModelId;
+  name: string;
+  description: string;
+  score: (transactions: Transaction[]) => ImpactScore;
+}
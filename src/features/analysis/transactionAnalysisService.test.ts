@@ -0,0 +1,196 @@
+// src/features/analysis/transactionAnalysisService.test.ts
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Transaction } from "@/shared/types/transactions";
+import { analyzeTransactionsCore, AnalysisOptions } from "./transactionAnalysisService";
+import { createMockProvider } from "./providers/mockProvider";
+import { LLMProvider } from "./providers";
+import { MerchantAnalysis, MerchantAnalysisStore } from "./merchantCache";
+import { AnalysisProgressEvent } from "./types";
+
+const transactions: Transaction[] = [
+  { date: "2025-03-02", name: "AMZN Mktp US*2K4", amount: 80 },
+  { date: "2025-03-03", name: "STARBUCKS STORE 1234", amount: 12.5 },
+  { date: "2025-03-04", name: "WHOLEFDS MKT 10", amount: 64 },
+  { date: "2025-03-05", name: "CORNER BAKERY 42", amount: 9 },
+];
+
+// An in-memory merchant cache that records what was written to it
+function createMemoryCache(entries: Record<string, MerchantAnalysis> = {}) {
+  const stored = new Map(Object.entries(entries));
+  const cache: MerchantAnalysisStore = {
+    get: async (merchantKey) => stored.get(merchantKey) || null,
+    set: async (merchantKey, merchantName, analysis) => {
+      stored.set(merchantKey, analysis);
+    },
+  };
+  return { cache, stored };
+}
+
+// The mock provider, noting every merchant name it is asked about
+function createRecordingProvider() {
+  const asked: string[] = [];
+  const mock = createMockProvider();
+  const provider: LLMProvider = {
+    ...mock,
+    complete: async (request) => {
+      const payload = JSON.parse(request.userMessage.slice(request.userMessage.indexOf('{"transactions"')));
+      asked.push(...payload.transactions.map((tx: Transaction) => tx.name));
+      return mock.complete(request);
+    },
+  };
+  return { provider, asked };
+}
+
+function analyze(options: AnalysisOptions) {
+  return analyzeTransactionsCore(transactions, undefined, [], {
+    recordUnknownPractices: false,
+    ...options,
+  });
+}
+
+const byName = (result: { transactions: Transaction[] }, name: string) =>
+  result.transactions.find((tx) => tx.name === name)!;
+
+describe("analyzeTransactionsCore with the mock provider", () => {
+  it("returns the recorded practices and the debts they add up to", async () => {
+    const { cache } = createMemoryCache();
+    const result = await analyze({ provider: createMockProvider(), merchantCache: cache });
+
+    assert.deepEqual(byName(result, "AMZN Mktp US*2K4").unethicalPractices, [
+      "Labor Exploitation",
+      "Excessive Packaging",
+    ]);
+    assert.equal(byName(result, "AMZN Mktp US*2K4").societalDebt, 28);
+    assert.deepEqual(byName(result, "STARBUCKS STORE 1234").ethicalPractices, ["Fair Trade"]);
+    assert.equal(byName(result, "STARBUCKS STORE 1234").societalDebt, 0);
+    assert.ok(Math.abs(byName(result, "WHOLEFDS MKT 10").societalDebt! - -3.2) < 1e-9);
+
+    // A merchant the recording doesn't know gets no practices rather than a guess
+    const unknown = byName(result, "CORNER BAKERY 42");
+    assert.deepEqual([unknown.unethicalPractices, unknown.ethicalPractices], [[], []]);
+    assert.equal(unknown.societalDebt, 0);
+
+    assert.ok(Math.abs(result.totalSocietalDebt - 24.8) < 1e-9);
+    assert.ok(Math.abs(result.debtPercentage - (24.8 / 165.5) * 100) < 1e-9);
+  });
+
+  it("answers cached merchants from the cache and caches the rest", async () => {
+    const { cache, stored } = createMemoryCache({
+      amazon: {
+        unethicalPractices: ["Excessive Packaging"],
+        ethicalPractices: [],
+        practiceWeights: { "Excessive Packaging": 10 },
+      },
+    });
+    const { provider, asked } = createRecordingProvider();
+
+    const result = await analyze({ provider, merchantCache: cache });
+
+    assert.ok(!asked.includes("Amazon"));
+    assert.equal(byName(result, "AMZN Mktp US*2K4").societalDebt, 8);
+    assert.ok(stored.has("starbucks"));
+    assert.ok(stored.has("whole foods"));
+  });
+
+  it("asks the model about every merchant when the cache is off", async () => {
+    const { cache, stored } = createMemoryCache({ amazon: { unethicalPractices: [] } });
+    const { provider, asked } = createRecordingProvider();
+
+    await analyze({ provider, merchantCache: cache, useMerchantCache: false });
+
+    assert.equal(asked.length, transactions.length);
+    assert.equal(stored.size, 1);
+  });
+});
+
+describe("analyzeTransactionsCore correction requests", () => {
+  it("keeps transactions that passed validation when the correction request fails", async () => {
+    let calls = 0;
+    const provider: LLMProvider = {
+      name: "Flaky",
+      model: "test",
+      supportsWebSearch: false,
+      complete: async () => {
+        calls++;
+        if (calls > 1) throw new Error("network down");
+        return {
+          content: JSON.stringify({
+            transactions: [
+              {
+                date: "2025-03-02",
+                name: "Amazon",
+                amount: 80,
+                unethicalPractices: ["Excessive Packaging"],
+                ethicalPractices: [],
+                practiceWeights: { "Excessive Packaging": 10 },
+                practiceSearchTerms: { "Excessive Packaging": "environment" },
+                practiceCategories: { "Excessive Packaging": "Environment" },
+                information: { "Excessive Packaging": "Oversized boxes." },
+              },
+              {
+                date: "2025-03-03",
+                name: "Starbucks",
+                amount: 12.5,
+                unethicalPractices: ["Water Waste"],
+                ethicalPractices: [],
+                practiceWeights: { "Water Waste": 250 },
+                practiceSearchTerms: { "Water Waste": "water conservation" },
+                practiceCategories: { "Water Waste": "Environment" },
+                information: { "Water Waste": "Single-use cups." },
+              },
+            ],
+          }),
+        };
+      },
+    };
+
+    const result = await analyzeTransactionsCore(transactions.slice(0, 2), undefined, [], {
+      provider,
+      useMerchantCache: false,
+      recordUnknownPractices: false,
+    });
+
+    assert.equal(calls, 2);
+    assert.equal(byName(result, "AMZN Mktp US*2K4").analyzed, true);
+    assert.equal(byName(result, "AMZN Mktp US*2K4").societalDebt, 8);
+
+    const quarantined = byName(result, "STARBUCKS STORE 1234");
+    assert.equal(quarantined.analyzed, false);
+    assert.ok(quarantined.analysisErrors?.some((error) => error.includes("network down")));
+  });
+});
+
+describe("analyzeTransactionsCore progress", () => {
+  it("streams running totals scored the same way as the final result", async () => {
+    // Stored before the user hid low-confidence practices, so its debt still counts them
+    const stored: Transaction = {
+      transactionId: "stored-1",
+      date: "2025-02-01",
+      name: "Shell",
+      amount: 50,
+      analyzed: true,
+      unethicalPractices: ["High Emissions"],
+      ethicalPractices: [],
+      practiceWeights: { "High Emissions": 40 },
+      practiceConfidence: { "High Emissions": 0.3 },
+      practiceDebts: { "High Emissions": 20 },
+      societalDebt: 20,
+    };
+    const events: AnalysisProgressEvent[] = [];
+    const { cache } = createMemoryCache();
+
+    const result = await analyzeTransactionsCore(
+      [stored, ...transactions],
+      (event) => events.push(event),
+      [],
+      { provider: createMockProvider(), merchantCache: cache, recordUnknownPractices: false, confidenceMode: "hide" }
+    );
+
+    const totals = events.filter((event) => event.type === "totals_updated");
+    const last = totals[totals.length - 1];
+    assert.ok(last && last.type === "totals_updated");
+    assert.equal(byName(result, "Shell").societalDebt, 0);
+    assert.equal(last.totalSocietalDebt, result.totalSocietalDebt);
+  });
+});
@@ -1,138 +1,467 @@
 // src/features/analysis/transactionAnalysisService.ts
-import OpenAI from "openai";
-import { Transaction, AnalyzedTransactionData } from "./types";
+import {
+  Transaction,
+  AnalyzedTransactionData,
+  AnalysisBatchReport,
+  AnalysisProgressEvent,
+} from "./types";
 import { transactionAnalysisPrompt } from "./prompts";
+import { getLLMProvider, LLMCompletionResult, LLMProvider } from "./providers";
 import { config } from "@/config";
-import type { ChatCompletion } from "openai/resources/chat";
-
-// Define consolidated interfaces for OpenAI API
-interface Citation {
-  url: string;
-  title: string;
-  start_index?: number;
-  end_index?: number;
+import {
+  validateAnalysisResponse,
+  formatValidationErrors,
+  transactionKey,
+  QuarantinedTransaction,
+  ValidationError,
+} from "./responseSchema";
+import { extractMerchantAnalysis, merchantCache, MerchantAnalysisStore } from "./merchantCache";
+import {
+  getMerchantId,
+  getMerchantName,
+  resolveMerchant,
+  withCanonicalMerchant,
+} from "./merchantNormalization";
+import { assignTransactionIds, getTransactionId } from "@/shared/utils/transactionIdentity";
+import { applyMerchantOverrides, MerchantOverride } from "./merchantOverrides";
+import { DEFAULT_PRACTICE_WEIGHT } from "./impactAggregation";
+import { canonicalizePractices, practiceSearchTerm } from "./practiceTaxonomy";
+import { recordUnknownPractices, UnknownPracticeSighting } from "./unknownPracticeLog";
+import { createEvidenceStore, EvidenceStore, extractInlineEvidence } from "./evidence";
+import { ConfidenceMode, confidenceMultiplier, defaultConfidenceMode } from "./practiceConfidence";
+
+// confidenceMode is the user's choice of how low-confidence practices count. Prompt
+// evaluation passes its own provider and prompt, turns the merchant cache off so every
+// merchant reaches the model, and keeps its runs out of the unknown-practice log.
+// Tests swap the shared merchant cache for their own
+export interface AnalysisOptions {
+  confidenceMode?: ConfidenceMode;
+  provider?: LLMProvider;
+  prompt?: string;
+  useMerchantCache?: boolean;
+  merchantCache?: MerchantAnalysisStore;
+  recordUnknownPractices?: boolean;
 }
 
-interface OpenAIAnnotation {
-  type: string;
-  url_citation?: Citation;
+// Outcome of sending one batch to the model
+interface BatchResult {
+  batch: Transaction[];
+  transactions: Transaction[];
+  quarantined: QuarantinedTransaction[];
+  report: AnalysisBatchReport;
 }
 
-// Interface for OpenAI API parameters
-interface OpenAICompletionParams {
-  model: string;
-  messages: Array<{
-    role: "system" | "user" | "assistant";
-    content: string;
-  }>;
-  web_search_options?: {
-    search_context_size?: string;
-  };
+/**
+ * Split transactions into batches bounded by count and serialized size
+ * so a single completion never has to cover a whole year of history
+ */
+function createAnalysisBatches(transactions: Transaction[]): Transaction[][] {
+  const { maxBatchSize, maxBatchChars } = config.analysis;
+  const batches: Transaction[][] = [];
+  let currentBatch: Transaction[] = [];
+  let currentChars = 0;
+
+  transactions.forEach((tx) => {
+    const txChars = JSON.stringify({ date: tx.date, name: tx.name, amount: tx.amount }).length;
+
+    if (
+      currentBatch.length > 0 &&
+      (currentBatch.length >= maxBatchSize || currentChars + txChars > maxBatchChars)
+    ) {
+      batches.push(currentBatch);
+      currentBatch = [];
+      currentChars = 0;
+    }
+
+    currentBatch.push(tx);
+    currentChars += txChars;
+  });
+
+  if (currentBatch.length > 0) {
+    batches.push(currentBatch);
+  }
+
+  return batches;
 }
 
-// Simplified interface for tracking citation info
-interface CitationInfo {
-  url: string;
-  title: string;
-  relevantPractice?: string;
+/**
+ * Run an async worker over items with at most `limit` in flight, preserving order
+ */
+async function runWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+
+  const runners = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await worker(items[index], index);
+    }
+  });
+
+  await Promise.all(runners);
+  return results;
 }
 
-// Interface for OpenAI JSON response format
-interface OpenAIResponse {
-  transactions: Transaction[];
+/**
+ * Split transactions into ones we can answer from the merchant cache and ones
+ * that still need the model
+ */
+async function applyMerchantCache(
+  transactions: Transaction[],
+  cache: MerchantAnalysisStore
+): Promise<{
+  cachedTransactions: Transaction[];
+  uncachedTransactions: Transaction[];
+}> {
+  // Look up each merchant once, even if it appears in many transactions
+  const lookups = new Map<string, ReturnType<MerchantAnalysisStore["get"]>>();
+  transactions.forEach((tx) => {
+    const key = getMerchantId(tx);
+    if (!lookups.has(key)) {
+      lookups.set(key, cache.get(key));
+    }
+  });
+
+  const cachedTransactions: Transaction[] = [];
+  const uncachedTransactions: Transaction[] = [];
+
+  for (const tx of transactions) {
+    const cached = await lookups.get(getMerchantId(tx));
+    if (cached) {
+      cachedTransactions.push({ ...tx, ...cached, analyzed: true });
+    } else {
+      uncachedTransactions.push(tx);
+    }
+  }
+
+  return { cachedTransactions, uncachedTransactions };
 }
 
-// Store extracted citations for reuse
-const extractedCitations: Record<string, string> = {};
+/**
+ * Store fresh model results so later requests can skip these merchants
+ */
+async function cacheAnalyzedMerchants(
+  transactions: Transaction[],
+  cache: MerchantAnalysisStore
+): Promise<void> {
+  const byMerchant = new Map<string, Transaction>();
+  transactions.forEach((tx) => {
+    const key = getMerchantId(tx);
+    if (key && !byMerchant.has(key)) {
+      byMerchant.set(key, tx);
+    }
+  });
+
+  await Promise.all(
+    Array.from(byMerchant.entries()).map(([key, tx]) =>
+      cache.set(key, getMerchantName(tx), extractMerchantAnalysis(tx))
+    )
+  );
+}
 
 /**
- * Process a transaction's information field to replace citation references with real URLs
+ * Group transactions by merchant id, keeping the order merchants first appear in
  */
-function processCitationReferences(
-  information: Record<string, string>,
-  annotations: OpenAIAnnotation[] | undefined
-): Record<string, string> {
-  const processed: Record<string, string> = {};
-  
-  // Extract URLs from annotations if available
-  const citationUrls: string[] = [];
-  if (annotations) {
-    annotations.forEach(a => {
-      if (a.type === 'url_citation' && a.url_citation?.url) {
-        citationUrls.push(a.url_citation.url);
-      }
-    });
-  }
-  
-  // Process each information entry
-  Object.entries(information).forEach(([key, value]) => {
-    let processedValue = value;
-    
-    // Replace [CITATION:turn0search0] with real URLs when possible
-    const turnSearchPattern = /\[CITATION:turn(\d+)search(\d+)\]/g;
-    let i = 0;
-    
-    // Replace each citation reference
-    processedValue = processedValue.replace(turnSearchPattern, (fullMatch) => {
-      // Try to find a corresponding URL
-      if (i < citationUrls.length) {
-        const url = citationUrls[i++];
-        // Save this mapping for future reference
-        extractedCitations[fullMatch] = url;
-        return `[Source](${url})`;
-      }
-      // If we don't have a URL, keep the original citation
-      return fullMatch;
-    });
-    
-    // Also check our previously extracted citations
-    Object.entries(extractedCitations).forEach(([ref, url]) => {
-      processedValue = processedValue.replace(ref, `[Source](${url})`);
+function groupByMerchant(transactions: Transaction[]): Map<string, Transaction[]> {
+  const groups = new Map<string, Transaction[]>();
+  transactions.forEach((tx) => {
+    const key = getMerchantId(tx);
+    groups.set(key, [...(groups.get(key) || []), tx]);
+  });
+  return groups;
+}
+
+/**
+ * Merge analyzed transactions back into the original list by identifier,
+ * preserving any that weren't sent for analysis
+ */
+function mergeAnalyzedTransactions(
+  transactions: Transaction[],
+  analyzedTransactions: Transaction[]
+): Transaction[] {
+  // Create a mapping of analyzed transactions by their stable id
+  const analyzedTransactionMap = new Map<string, Transaction>();
+  analyzedTransactions.forEach((tx) => {
+    const identifier = getTransactionId(tx);
+    analyzedTransactionMap.set(identifier, {
+      ...tx,
+      analyzed: true, // Mark as analyzed
     });
-    
-    processed[key] = processedValue;
   });
-  
-  return processed;
+
+  return transactions.map((tx) => {
+    const identifier = getTransactionId(tx);
+    if (analyzedTransactionMap.has(identifier)) {
+      return analyzedTransactionMap.get(identifier)!;
+    }
+    return tx;
+  });
 }
 
 /**
  * Core domain logic for analyzing transactions
  * This function should have no awareness of HTTP requests/responses
+ * Pass onProgress to be told about batches and newly scored transactions as they happen,
+ * and the user's merchant overrides to have them applied on top of the model's analysis
  */
 export async function analyzeTransactionsCore(
-  transactions: Transaction[]
+  transactions: Transaction[],
+  onProgress?: (event: AnalysisProgressEvent) => void,
+  overrides: MerchantOverride[] = [],
+  options: AnalysisOptions = {}
 ): Promise<AnalyzedTransactionData> {
+  const {
+    confidenceMode,
+    prompt = transactionAnalysisPrompt,
+    useMerchantCache = true,
+    merchantCache: cache = merchantCache,
+    recordUnknownPractices: logUnknownPractices = true,
+  } = options;
+  const emit = (event: AnalysisProgressEvent) => {
+    try {
+      onProgress?.(event);
+    } catch (error) {
+      // A broken listener must not abort the analysis
+      console.warn("Analysis progress listener failed:", error);
+    }
+  };
+
   if (!Array.isArray(transactions) || transactions.length === 0) {
     throw new Error("Invalid transactions data");
   }
 
+  // Every transaction needs an id so results can be merged back without
+  // collapsing identical purchases, and a merchant id so descriptors of the
+  // same company share one analysis
+  transactions = assignTransactionIds(transactions).map(withCanonicalMerchant);
+
   // Skip any transactions that are already analyzed
   const transactionsToAnalyze = transactions.filter((tx) => !tx.analyzed);
 
   if (transactionsToAnalyze.length === 0) {
     // If all transactions are already analyzed, just calculate totals
-    return processAnalyzedTransactions(transactions);
+    return processAnalyzedTransactions(transactions, overrides, confidenceMode);
   }
 
-  // Create OpenAI client with configured API key
-  const openai = new OpenAI({
-    apiKey: config.openai.apiKey,
-    timeout: config.openai.timeout || 60000,
-  });
+  // Reuse cached merchant analyses and only ask the model about unseen merchants
+  const { cachedTransactions, uncachedTransactions } = useMerchantCache
+    ? await applyMerchantCache(transactionsToAnalyze, cache)
+    : { cachedTransactions: [], uncachedTransactions: transactionsToAnalyze };
+
+  // Running set of scored transactions, used for incremental totals. Totals are scored
+  // with the user's overrides and confidence mode so they match the final result
+  const scoredTransactions: Transaction[] = [
+    ...transactions.filter((tx) => tx.analyzed),
+  ];
+  const reportScored = (newlyScored: Transaction[]) => {
+    if (newlyScored.length === 0) return;
+
+    const processedNew = processAnalyzedTransactions(newlyScored, overrides, confidenceMode).transactions;
+    scoredTransactions.push(...processedNew);
+    const totals = processAnalyzedTransactions(scoredTransactions, overrides, confidenceMode);
+
+    emit({ type: "merchant_analyzed", transactions: processedNew });
+    emit({
+      type: "totals_updated",
+      totalSocietalDebt: totals.totalSocietalDebt,
+      debtPercentage: totals.debtPercentage,
+      analyzedCount: scoredTransactions.length,
+      totalCount: transactions.length,
+    });
+  };
+
+  reportScored(cachedTransactions);
 
-  const isSearchEnabled = config.openai.model.includes("search");
+  if (uncachedTransactions.length === 0) {
+    console.log(`♻️ All ${cachedTransactions.length} transactions answered from merchant cache`);
+    return processAnalyzedTransactions(
+      mergeAnalyzedTransactions(transactions, cachedTransactions),
+      overrides,
+      confidenceMode
+    );
+  }
+
+  // The model sees each merchant once, under its canonical name, and every purchase
+  // from that merchant gets the answer
+  const merchantGroups = groupByMerchant(uncachedTransactions);
+  const representatives = Array.from(merchantGroups.values()).map(([first]) => ({
+    ...first,
+    name: getMerchantName(first),
+  }));
+  const forMerchants = (analyzed: Transaction[]) =>
+    analyzed.flatMap((representative) =>
+      (merchantGroups.get(getMerchantId(representative)) || []).map((tx) => ({
+        ...tx,
+        ...extractMerchantAnalysis(representative),
+        analyzed: true,
+      }))
+    );
+
+  const provider = options.provider || getLLMProvider();
+  const batches = createAnalysisBatches(representatives);
+  // Citations resolve only against this request's completions
+  const evidence = createEvidenceStore();
   console.log(
-    `📡 Sending ${transactionsToAnalyze.length} transactions to OpenAI using model: ${
-      config.openai.model
-    } (search ${isSearchEnabled ? "enabled" : "disabled"})`
+    `📡 Sending ${representatives.length} merchants (${uncachedTransactions.length} transactions) to ${
+      provider.name
+    } using model: ${provider.model} in ${batches.length} batches (search ${
+      provider.supportsWebSearch ? "enabled" : "disabled"
+    }, ${cachedTransactions.length} cached)`
+  );
+
+  const batchResults = await runWithConcurrency(
+    batches,
+    config.analysis.concurrency,
+    async (batch, index) => {
+      emit({
+        type: "batch_started",
+        index,
+        totalBatches: batches.length,
+        transactionCount: batch.length,
+      });
+
+      const result = await analyzeBatch(provider, prompt, batch, index, emit, evidence, logUnknownPractices);
+      reportScored(forMerchants(result.transactions));
+      return result;
+    }
+  );
+
+  const batchReports = batchResults.map((result) => result.report);
+  const failedReports = batchReports.filter((report) => report.status === "failed");
+
+  // Only fail the whole run when nothing at all could be analyzed
+  if (failedReports.length === batches.length && cachedTransactions.length === 0) {
+    throw new Error(failedReports[0].error || "Failed to analyze transactions");
+  }
+
+  if (failedReports.length > 0) {
+    console.warn(
+      `⚠️ ${failedReports.length} of ${batches.length} analysis batches failed, their transactions stay unanalyzed`
+    );
+  }
+
+  const analyzedTransactions = batchResults.flatMap((result) => forMerchants(result.transactions));
+  if (useMerchantCache) {
+    await cacheAnalyzedMerchants(analyzedTransactions, cache);
+  }
+
+  const mergedTransactions = mergeAnalyzedTransactions(transactions, [
+    ...cachedTransactions,
+    ...analyzedTransactions,
+  ]);
+
+  // Transactions from failed batches or quarantined by validation go back
+  // unanalyzed, with the reason attached, so they can be retried
+  const unanalyzedErrors = new Map<string, string[]>();
+  const setMerchantErrors = (representative: Transaction, errors: string[]) =>
+    (merchantGroups.get(getMerchantId(representative)) || []).forEach((tx) =>
+      unanalyzedErrors.set(getTransactionId(tx), errors)
+    );
+  batchResults.forEach((result) => {
+    if (result.report.status === "failed") {
+      result.batch.forEach((tx) => setMerchantErrors(tx, [result.report.error || "Analysis failed"]));
+    }
+    result.quarantined.forEach((item) =>
+      setMerchantErrors(item.transaction, formatValidationErrors(item.errors))
+    );
+  });
+
+  const processed = processAnalyzedTransactions(
+    mergedTransactions.filter((tx) => !unanalyzedErrors.has(getTransactionId(tx))),
+    overrides,
+    confidenceMode
   );
+  const unanalyzed = mergedTransactions
+    .filter((tx) => unanalyzedErrors.has(getTransactionId(tx)))
+    .map((tx) => ({
+      ...tx,
+      analyzed: false,
+      analysisErrors: unanalyzedErrors.get(getTransactionId(tx)),
+    }));
+
+  return {
+    ...processed,
+    transactions: [...processed.transactions, ...unanalyzed],
+    batches: batchReports,
+  };
+}
+
+/**
+ * Pull the JSON payload out of a model response
+ * Accepts a bare object or one wrapped in a code block, but does not try to repair it
+ */
+function parseModelJson(messageContent: string): { data?: unknown; error?: ValidationError } {
+  let jsonString = messageContent;
+
+  // Look for JSON between backticks (```) or code blocks
+  const jsonMatch = messageContent.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
+
+  if (jsonMatch && jsonMatch[1]) {
+    jsonString = jsonMatch[1];
+  } else {
+    // Try to find JSON between curly braces if not in code block
+    const curlyBraceMatch = messageContent.match(/\{[\s\S]*\}/);
+    if (curlyBraceMatch) {
+      jsonString = curlyBraceMatch[0];
+    }
+  }
+
+  try {
+    return { data: JSON.parse(jsonString) };
+  } catch (err) {
+    return {
+      error: {
+        path: "$",
+        message: `response is not valid JSON (${err instanceof Error ? err.message : "parse error"})`,
+      },
+    };
+  }
+}
+
+/**
+ * Build the follow-up message asking the model to fix specific validation errors
+ */
+function buildCorrectionMessage(
+  errors: ValidationError[],
+  transactionsToRetry: Transaction[]
+): string {
+  return `Your previous response failed validation with these errors:
+${formatValidationErrors(errors).map((error) => `- ${error}`).join("\n")}
 
-  let annotations: OpenAIAnnotation[] | undefined;
+Fix these problems and return ONLY strict JSON in the exact format requested, for these transactions:
+
+${JSON.stringify({ transactions: transactionsToRetry })}`;
+}
+
+/**
+ * Send a single batch to the model and return its analyzed transactions
+ * Errors are reported on the batch instead of thrown so other batches still count
+ */
+async function analyzeBatch(
+  provider: LLMProvider,
+  prompt: string,
+  batch: Transaction[],
+  index: number,
+  emit: (event: AnalysisProgressEvent) => void,
+  evidence: EvidenceStore,
+  logUnknownPractices: boolean
+): Promise<BatchResult> {
+  const isSearchEnabled = provider.supportsWebSearch;
+  console.log(`📦 Batch ${index + 1}: analyzing ${batch.length} transactions`);
 
   try {
+    // The model is asked about each date-name-amount once; identical purchases
+    // share its answer below
+    const uniqueBatch = batch.filter(
+      (tx, position) => batch.findIndex((other) => transactionKey(other) === transactionKey(tx)) === position
+    );
+
     // Ensure we have valid transactions with required fields
-    const sanitizedTransactions = transactionsToAnalyze.map((tx) => ({
+    const sanitizedTransactions = uniqueBatch.map((tx) => ({
       date: tx.date || new Date().toISOString().split("T")[0],
       name: tx.name || "Unknown Merchant",
       amount:
@@ -145,12 +474,13 @@ export async function analyzeTransactionsCore(
         : {}),
       ...(tx.ethicalPractices ? { ethicalPractices: tx.ethicalPractices } : {}),
       ...(tx.practiceWeights ? { practiceWeights: tx.practiceWeights } : {}),
+      ...(tx.practiceConfidence ? { practiceConfidence: tx.practiceConfidence } : {}),
       ...(tx.information ? { information: tx.information } : {}),
     }));
 
     // Prepare the prompt with instructions for handling web search
     const systemPrompt = `
-${transactionAnalysisPrompt}
+${prompt}
 
 ADDITIONAL INSTRUCTIONS FOR WEB SEARCH CAPABILITY:
 1. You may use web search to find the most up-to-date information about companies and business practices.
@@ -161,8 +491,6 @@ ADDITIONAL INSTRUCTIONS FOR WEB SEARCH CAPABILITY:
 6. Do not include any text or explanations outside of the JSON structure.
 `;
 
-    // Create a response based on whether search is enabled
-    let rawResponse: ChatCompletion;
     const userMessage = isSearchEnabled 
       ? `Analyze these transactions and return valid JSON in the exact format requested.
 For each merchant, try to find current information about their ethical practices and sustainability initiatives.
@@ -171,267 +499,200 @@ Include any relevant ethical information, but ensure your response is valid JSON
 ${JSON.stringify({ transactions: sanitizedTransactions })}`
       : JSON.stringify({ transactions: sanitizedTransactions });
 
-    if (isSearchEnabled) {
-      // For search-enabled models with custom parameters
-      const searchParams = {
-        model: config.openai.model,
-        messages: [
-          { role: "system", content: systemPrompt },
-          { role: "user", content: userMessage }
-        ],
-        web_search_options: {
-          search_context_size: config.openai.searchContextSize || "high",
-        }
-      } as OpenAICompletionParams;
-      
-      // Define an extended interface for the API parameters
-      // type WebSearchOptions = {
-      //   web_search_options?: {
-      //     search_context_size?: string;
-      //   };
-      // };
-      
-      // Use type assertion with the extended interface
-      rawResponse = await openai.chat.completions.create(searchParams as OpenAICompletionParams) as ChatCompletion;
-    } else {
-      // For standard models
-      rawResponse = await openai.chat.completions.create({
-        model: config.openai.model,
-        messages: [
-          { role: "system", content: systemPrompt },
-          { role: "user", content: userMessage }
-        ],
-        stream: false
-      }) as ChatCompletion;
-    }
+    // Ask the model, validate, and ask once more about anything that failed validation
+    const validTransactions: Transaction[] = [];
+    const unknownPractices: UnknownPracticeSighting[] = [];
+    let quarantined: QuarantinedTransaction[] = [];
+    let pending: Transaction[] = sanitizedTransactions;
+    let message = userMessage;
 
-    // Extract annotations if they exist
-    const responseMessage = rawResponse.choices[0]?.message;
-    const messageContent = responseMessage?.content || "";
-    
-    // Check if annotations exist on the message using type assertion
-    const messageObj = responseMessage as unknown as {annotations?: OpenAIAnnotation[]};
-    annotations = messageObj.annotations;
-
-    // Log any citations found
-    const citations: CitationInfo[] = [];
-    if (annotations) {
-      annotations.forEach((annotation) => {
-        if (annotation.type === "url_citation" && annotation.url_citation) {
-          const { url, title, start_index, end_index } = annotation.url_citation;
-          
-          if (url && title) {
-            // Try to extract which practice this citation is relevant to
-            // by examining the text around the citation
-            let relevantPractice: string | undefined;
-            
-            if (typeof start_index === 'number' && typeof end_index === 'number') {
-              const surroundingText = messageContent.substring(
-                Math.max(0, start_index - 100),
-                Math.min(messageContent.length, end_index + 100)
-              );
-
-              // Look for practice names in surrounding text
-              const commonPractices = [
-                "Factory Farming",
-                "High Emissions",
-                "Environmental Degradation",
-                "Labor Exploitation",
-                "Water Waste",
-                "Data Privacy Issues",
-                "Excessive Packaging",
-                "Animal Testing",
-                "Resource Depletion",
-              ];
-
-              relevantPractice = commonPractices.find((practice) =>
-                surroundingText.includes(practice)
-              );
-            }
-
-            citations.push({ url, title, relevantPractice });
-          }
+    for (let attempt = 1; attempt <= 2 && pending.length > 0; attempt++) {
+      let completion: LLMCompletionResult;
+      try {
+        completion = await provider.complete({ systemPrompt, userMessage: message });
+        if (!completion.content) {
+          throw new Error(`${provider.name} request returned empty response. Please try again.`);
         }
-      });
-    }
-
-    console.log(`🔍 OpenAI response received with ${citations.length} citations`);
-
-    // Extract the raw text from the response
-    if (!messageContent) {
-      throw new Error("OpenAI request returned empty response. Please try again.");
-    }
+      } catch (error) {
+        // A failed first ask fails the batch; a failed correction only costs the
+        // transactions it was about
+        if (attempt === 1) throw error;
+
+        console.warn(
+          `⚠️ Batch ${index + 1}: correction request to ${provider.name} failed, keeping ${validTransactions.length} valid transactions:`,
+          error
+        );
+        quarantined = pending.map((transaction) => ({
+          transaction,
+          errors: [{ path: "$", message: formatAnalysisError(provider, error) }],
+        }));
+        break;
+      }
 
-    // Try to find JSON content in the response
-    let jsonString = messageContent;
+      const messageContent = completion.content;
+      const citations = evidence.addCompletion(messageContent, completion.annotations);
 
-    // Look for JSON between backticks (```) or code blocks
-    const jsonRegex = /```(?:json)?\s*([\s\S]*?)\s*```/;
-    const jsonMatch = messageContent.match(jsonRegex);
+      console.log(`🔍 ${provider.name} response received with ${citations.length} citations`);
 
-    if (jsonMatch && jsonMatch[1]) {
-      jsonString = jsonMatch[1];
-      console.log("📋 Extracted JSON from code block");
-    } else {
-      // Try to find JSON between curly braces if not in code block
-      const curlyBraceMatch = messageContent.match(/\{[\s\S]*\}/);
-      if (curlyBraceMatch) {
-        jsonString = curlyBraceMatch[0];
-        console.log("📋 Extracted JSON using curly brace detection");
+      if (citations.length > 0) {
+        emit({
+          type: "citations_found",
+          index,
+          citations,
+        });
       }
-    }
 
-    // Parse the JSON from the extracted content
-    let analyzedData: OpenAIResponse;
-    try {
-      analyzedData = JSON.parse(jsonString) as OpenAIResponse;
-    } catch (err) {
-      console.error("❌ JSON parsing error:", err);
+      const { data, error } = parseModelJson(messageContent);
+      const validation = error
+        ? { responseErrors: [error], valid: [], quarantined: [] }
+        : validateAnalysisResponse(data, pending);
+
+      // Map the model's practice names onto the taxonomy before anything keys on them.
+      // The shared review log only names merchants from the alias table - a descriptor
+      // it doesn't know, like "ZELLE TO <name>", can carry personal details
+      const canonical = validation.valid.map((tx) => {
+        const { transaction, unknown } = canonicalizePractices(tx);
+        const merchant = resolveMerchant(tx);
+        unknownPractices.push(
+          ...unknown.map((practice) => ({
+            ...practice,
+            ...(merchant.matchedBy !== "descriptor" ? { merchant: merchant.merchantName } : {}),
+          }))
+        );
+        return transaction;
+      });
 
-      // Try to fix common JSON issues and try parsing again
-      try {
-        // Replace single quotes with double quotes
-        const fixedJson = jsonString
-          .replace(/'/g, '"') // Replace single quotes with double quotes
-          .replace(/\n/g, " ") // Remove newlines
-          .replace(/,\s*}/g, "}") // Remove trailing commas
-          .replace(/,\s*]/g, "]") // Remove trailing commas in arrays
-          .replace(/([{,]\s*)(\w+)(\s*:)/g, '$1"$2"$3'); // Add quotes around keys
-
-        console.log("🔧 Attempting to fix JSON");
-        analyzedData = JSON.parse(fixedJson) as OpenAIResponse;
-        console.log("✅ JSON fixed and parsed successfully");
-      } catch (fixErr) {
-        console.error("Failed to fix JSON:", fixErr);
-
-        // If all else fails, return a minimal valid structure
-        console.log("⚠️ Creating fallback analysis data");
-
-        const fallbackTransactions = sanitizedTransactions.map((tx) => ({
-          ...tx,
-          societalDebt: 0,
-          unethicalPractices: [],
-          ethicalPractices: [],
-          practiceWeights: {},
-          information: {
-            _error: "Failed to analyze this transaction due to API response format issues.",
-          },
-          analyzed: true,
+      validTransactions.push(...evidence.attach(canonical, citations));
+
+      if (validation.responseErrors.length > 0) {
+        // Nothing usable came back; every pending transaction is still pending
+        quarantined = pending.map((transaction) => ({
+          transaction,
+          errors: validation.responseErrors,
         }));
+      } else {
+        quarantined = validation.quarantined;
+      }
 
-        return processAnalyzedTransactions([
-          ...transactions.filter((tx) => tx.analyzed),
-          ...fallbackTransactions,
-        ]);
+      if (quarantined.length > 0 && attempt === 1) {
+        const errors = quarantined.flatMap((item) => item.errors);
+        console.warn(
+          `⚠️ Batch ${index + 1}: ${quarantined.length} transactions failed validation, asking ${provider.name} to correct them`
+        );
+        pending = quarantined.map((item) => item.transaction);
+        message = buildCorrectionMessage(errors, pending);
+      } else {
+        pending = [];
       }
     }
 
-    if (!analyzedData.transactions) {
-      throw new Error("No transactions in OpenAI response");
+    if (logUnknownPractices) {
+      await recordUnknownPractices(unknownPractices);
     }
 
-    // Process citations and add them to transaction information
-    if (citations.length > 0) {
-      console.log(`Processing ${citations.length} citations from web search`);
-
-      citations.forEach((citation) => {
-        // Find transactions that might be related to this citation
-        if (citation.relevantPractice) {
-          // Look for transactions with this practice
-          analyzedData.transactions.forEach((tx) => {
-            const hasRelevantPractice =
-              (tx.unethicalPractices &&
-                tx.unethicalPractices.includes(citation.relevantPractice!)) ||
-              (tx.ethicalPractices &&
-                tx.ethicalPractices.includes(citation.relevantPractice!));
-
-            if (hasRelevantPractice) {
-              // Add citation to information
-              if (!tx.information) tx.information = {};
-
-              if (tx.information[citation.relevantPractice!]) {
-                // Append to existing information
-                tx.information[
-                  citation.relevantPractice!
-                ] += ` [Source: ${citation.title}](${citation.url})`;
-              } else {
-                // Create new information with citation
-                tx.information[
-                  citation.relevantPractice!
-                ] = `Information about ${citation.relevantPractice} [Source: ${citation.title}](${citation.url})`;
-              }
-            }
-          });
-        }
-      });
+    if (quarantined.length > 0) {
+      console.warn(
+        `⚠️ Batch ${index + 1}: quarantining ${quarantined.length} transactions after correction attempt`
+      );
     }
 
-    // Process turn/search references in information fields
-    analyzedData.transactions.forEach(tx => {
-      if (tx.information) {
-        // Use our citation processor
-        tx.information = processCitationReferences(tx.information, annotations);
-      }
-    });
+    if (validTransactions.length === 0 && quarantined.length > 0) {
+      throw new Error(
+        `Invalid ${provider.name} response: ${formatValidationErrors(quarantined[0].errors).join("; ")}`
+      );
+    }
 
-    // Create a mapping of analyzed transactions by a unique identifier
-    const analyzedTransactionMap = new Map<string, Transaction>();
-    analyzedData.transactions.forEach((tx) => {
-      // Create a unique identifier based on date, name, and amount
-      const identifier = `${tx.date}-${tx.name}-${tx.amount}`;
-      analyzedTransactionMap.set(identifier, {
-        ...tx,
-        analyzed: true, // Mark as analyzed
-      });
-    });
+    // Fan results back out to the original transactions so each keeps its own id
+    const validByKey = new Map(validTransactions.map((tx) => [transactionKey(tx), tx]));
+    const errorsByKey = new Map(
+      quarantined.map((item) => [transactionKey(item.transaction), item.errors])
+    );
 
-    // Merge with original transactions, preserving any that weren't sent for analysis
-    const mergedTransactions = transactions.map((tx) => {
-      const identifier = `${tx.date}-${tx.name}-${tx.amount}`;
-      if (analyzedTransactionMap.has(identifier)) {
-        return analyzedTransactionMap.get(identifier)!;
-      }
-      return tx;
-    });
+    const quarantinedTransactions = batch
+      .filter((tx) => errorsByKey.has(transactionKey(tx)))
+      .map((tx) => ({ transaction: tx, errors: errorsByKey.get(transactionKey(tx)) || [] }));
 
-    return processAnalyzedTransactions(mergedTransactions);
+    return {
+      batch,
+      transactions: batch
+        .filter((tx) => validByKey.has(transactionKey(tx)))
+        .map((tx) => ({ ...tx, ...validByKey.get(transactionKey(tx)), analyzed: true })),
+      quarantined: quarantinedTransactions,
+      report: {
+        index,
+        status: "success",
+        transactionCount: batch.length,
+        quarantinedCount: quarantinedTransactions.length,
+      },
+    };
   } catch (error) {
-    console.error("OpenAI API error:", error);
-
-    // Create a more user-friendly error message
-    let errorMessage = "Failed to analyze transactions";
-
-    if (error instanceof Error) {
-      // Check for common API errors
-      if (error.message.includes("API key")) {
-        errorMessage =
-          "OpenAI API key error. Please check your API key configuration.";
-      } else if (error.message.includes("timeout")) {
-        errorMessage =
-          "OpenAI request timed out. Please try again with fewer transactions.";
-      } else if (error.message.includes("rate limit")) {
-        errorMessage =
-          "OpenAI rate limit exceeded. Please wait a moment and try again.";
-      } else {
-        errorMessage = `Analysis error: ${error.message}`;
-      }
-    }
+    console.error(`${provider.name} API error (batch ${index + 1}):`, error);
 
-    throw new Error(errorMessage);
+    return {
+      batch,
+      transactions: [],
+      quarantined: [],
+      report: {
+        index,
+        status: "failed",
+        transactionCount: batch.length,
+        error: formatAnalysisError(provider, error),
+      },
+    };
   }
 }
 
+/**
+ * Create a more user-friendly error message
+ */
+function formatAnalysisError(provider: LLMProvider, error: unknown): string {
+  let errorMessage = "Failed to analyze transactions";
+
+  if (error instanceof Error) {
+    // Check for common API errors
+    if (error.message.includes("API key")) {
+      errorMessage =
+        `${provider.name} API key error. Please check your API key configuration.`;
+    } else if (error.message.includes("timeout")) {
+      errorMessage =
+        `${provider.name} request timed out. Please try again.`;
+    } else if (error.message.includes("rate limit")) {
+      errorMessage =
+        `${provider.name} rate limit exceeded. Please wait a moment and try again.`;
+    } else {
+      errorMessage = `Analysis error: ${error.message}`;
+    }
+  }
+
+  return errorMessage;
+}
+
 /**
  * Process the transactions returned from the AI
  * Apply business rules for calculating societal debt
+ * When overrides are passed they are taken as the user's full set: matching merchants get
+ * their debts recomputed from the override, and transactions whose override was removed
+ * go back to the model's analysis. Without them, existing overrides are left as they are
+ * When a confidence mode is passed every transaction's debts are recomputed under it, since
+ * stored debts may have been computed under another; without one, stored debts are kept
  */
 export function processAnalyzedTransactions(
-  transactions: Transaction[]
+  transactions: Transaction[],
+  overrides?: MerchantOverride[],
+  confidenceMode?: ConfidenceMode
 ): AnalyzedTransactionData {
+  const withOverrides = overrides
+    ? applyMerchantOverrides(transactions, overrides)
+    : transactions;
+
+  // Debts computed without the user's mode fall back to the configured default
+  const mode = confidenceMode ?? defaultConfidenceMode();
+
   // Process transactions with practice weights and search terms
-  const updatedTransactions = transactions.map((t) => {
+  const updatedTransactions = withOverrides.map((t) => {
     // Skip processing if transaction is already fully processed
     if (
+      !confidenceMode &&
       t.societalDebt !== undefined &&
       t.practiceDebts &&
       Object.keys(t.practiceDebts).length > 0
@@ -447,59 +708,32 @@ export function processAnalyzedTransactions(
     const ethicalPractices = t.ethicalPractices || [];
     const practiceWeights = t.practiceWeights || {};
     const practiceSearchTerms = t.practiceSearchTerms || {};
-    const information = t.information || {};
 
     // Build search terms if not provided by the API
     const builtSearchTerms: Record<string, string> = { ...practiceSearchTerms };
 
-    // Default search term mappings
-    const defaultMappings: Record<string, string> = {
-      "Factory Farming": "animal welfare",
-      "High Emissions": "climate",
-      "Environmental Degradation": "conservation",
-      "Water Waste": "water conservation",
-      "Resource Depletion": "sustainability",
-      "Data Privacy Issues": "digital rights",
-      "Labor Exploitation": "workers rights",
-      "Excessive Packaging": "environment",
-      "Animal Testing": "animal rights",
-      "High Energy Usage": "renewable energy",
-      "Content Diversity": "media diversity",
-      "Sustainable Materials": "sustainability",
-      "Ethical Investment": "ethical finance",
-    };
-
     // Combine unethical and ethical practices for search term processing
     [...unethicalPractices, ...ethicalPractices].forEach((practice) => {
       if (!builtSearchTerms[practice]) {
-        builtSearchTerms[practice] =
-          defaultMappings[practice] || practice.toLowerCase();
+        builtSearchTerms[practice] = practiceSearchTerm(practice);
       }
     });
 
-    // Process any embedded citation links in information field
-    const processedInformation: Record<string, string> = {};
-    Object.entries(information).forEach(([key, value]) => {
-      // Replace any [CITATION:url] with markdown links
-      const processedValue = value.replace(
-        /\[CITATION:(https?:\/\/[^\]]+)\]/g,
-        (match, url) => `[Source](${url})`
-      );
-      processedInformation[key] = processedValue;
-    });
+    // Citation markers left in the text (cached or sample data) become evidence records
+    const { information = {}, evidence } = extractInlineEvidence(t);
 
     // Unethical practices => always positive contributions (creating debt)
     unethicalPractices.forEach((practice) => {
-      const weight = practiceWeights[practice] ?? 100;
-      const portion = t.amount * (weight / 100);
+      const weight = practiceWeights[practice] ?? DEFAULT_PRACTICE_WEIGHT;
+      const portion = t.amount * (weight / 100) * confidenceMultiplier(t, practice, mode);
       practiceDebts[practice] = portion; // Positive value = debt
       newSocietalDebt += portion;
     });
 
     // Ethical practices => always negative contributions (reducing debt)
     ethicalPractices.forEach((practice) => {
-      const weight = practiceWeights[practice] ?? 100;
-      const portion = -1 * (t.amount * (weight / 100)); // Make it negative
+      const weight = practiceWeights[practice] ?? DEFAULT_PRACTICE_WEIGHT;
+      const portion = -1 * (t.amount * (weight / 100) * confidenceMultiplier(t, practice, mode)); // Make it negative
       practiceDebts[practice] = portion; // Negative value = credit
       newSocietalDebt += portion; // Add the negative value
     });
@@ -517,7 +751,8 @@ export function processAnalyzedTransactions(
       ethicalPractices,
       practiceWeights,
       practiceSearchTerms: builtSearchTerms,
-      information: processedInformation,
+      information,
+      ...(evidence ? { evidence } : {}),
       analyzed: true, // Mark as analyzed
     };
   });
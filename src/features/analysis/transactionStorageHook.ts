@@ -11,7 +11,6 @@ interface TransactionBatch {
   totalSocietalDebt: number;
   debtPercentage: number;
   createdAt: Timestamp;
-  accessToken?: string;
   id?: string;
 }
 
@@ -1,48 +1,175 @@
 // src/features/transactions/transactionStorageService.ts
 // Domain logic for storing and retrieving transactions - no HTTP concerns
+//
+// Each transaction is its own document under users/{userId}/transactions, keyed on its
+// transaction id, with a summary document per month under users/{userId}/monthlySummaries.
+// History accumulates across months and no single document grows with the user's history.
 
 import { db } from "@/shared/firebase/firebase";
-import { collection, addDoc, getDocs, query, where, orderBy, Timestamp, limit, DocumentData } from "firebase/firestore";
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  orderBy,
+  setDoc,
+  writeBatch,
+  Timestamp,
+  WriteBatch,
+  DocumentData,
+} from "firebase/firestore";
+import { config } from "@/config";
 import { Transaction, AnalyzedTransactionData } from "./types";
+import {
+  assignTransactionIds,
+  dedupeTransactions,
+  getTransactionId,
+} from "@/shared/utils/transactionIdentity";
 
-export interface TransactionBatch {
-  userId: string;
-  transactions: Transaction[];
+const storage = config.transactionStorage;
+
+export interface MonthlySummary {
+  month: string; // YYYY-MM
+  transactionCount: number;
+  analyzedCount: number;
+  totalSpent: number;
   totalSocietalDebt: number;
   debtPercentage: number;
-  createdAt: Timestamp;
-  accessToken?: string;
-  id?: string;
+  updatedAt: Timestamp;
+}
+
+// Fields only the stored documents carry
+interface StoredTransactionFields {
+  month: string;
+  updatedAt: Timestamp;
+}
+
+function userRef(userId: string) {
+  return doc(db, storage.usersCollection, userId);
+}
+
+function transactionsRef(userId: string) {
+  return collection(db, storage.usersCollection, userId, storage.transactionsSubcollection);
+}
+
+function summariesRef(userId: string) {
+  return collection(db, storage.usersCollection, userId, storage.summariesSubcollection);
+}
+
+/**
+ * Firestore document id for a transaction - ids may contain characters Firestore reserves
+ */
+function transactionDocId(tx: Transaction): string {
+  return encodeURIComponent(getTransactionId(tx)).replace(/\./g, "%2E");
+}
+
+function transactionMonth(tx: Pick<Transaction, "date">): string {
+  return (tx.date || "").slice(0, 7);
+}
+
+/**
+ * Firestore rejects undefined anywhere in a document, and analysis results can carry them
+ */
+function withoutUndefined<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
+
+function fromStoredTransaction(data: DocumentData): Transaction {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { month, updatedAt, ...transaction } = data as Transaction & StoredTransactionFields;
+  return transaction;
+}
+
+/**
+ * Sum a set of transactions into the same totals the batches used to store
+ */
+export function summarizeTransactions(
+  transactions: Transaction[]
+): Pick<AnalyzedTransactionData, "totalSocietalDebt" | "debtPercentage"> & { totalSpent: number } {
+  const totalSpent = transactions.reduce((sum, tx) => sum + (tx.amount || 0), 0);
+  const totalSocietalDebt = transactions.reduce((sum, tx) => sum + (tx.societalDebt || 0), 0);
+
+  return {
+    totalSpent,
+    totalSocietalDebt,
+    debtPercentage: totalSpent > 0 ? (totalSocietalDebt / totalSpent) * 100 : 0,
+  };
+}
+
+/**
+ * Run writes in as many batches as Firestore's per-batch limit needs
+ */
+async function commitInChunks(writes: ((batch: WriteBatch) => void)[]): Promise<void> {
+  for (let start = 0; start < writes.length; start += storage.maxWritesPerBatch) {
+    const batch = writeBatch(db);
+    writes.slice(start, start + storage.maxWritesPerBatch).forEach((write) => write(batch));
+    await batch.commit();
+  }
+}
+
+/**
+ * Recompute the summary documents for the given months from their stored transactions
+ * Months left without transactions lose their summary
+ */
+async function refreshMonthlySummaries(userId: string, months: Iterable<string>): Promise<void> {
+  const writes: ((batch: WriteBatch) => void)[] = [];
+
+  for (const month of new Set(months)) {
+    if (!month) continue;
+
+    const snapshot = await getDocs(query(transactionsRef(userId), where("month", "==", month)));
+    const summaryRef = doc(summariesRef(userId), month);
+
+    if (snapshot.empty) {
+      writes.push((batch) => batch.delete(summaryRef));
+      continue;
+    }
+
+    const transactions = snapshot.docs.map((snap) => fromStoredTransaction(snap.data()));
+    const { totalSpent, totalSocietalDebt, debtPercentage } = summarizeTransactions(transactions);
+    const summary: MonthlySummary = {
+      month,
+      transactionCount: transactions.length,
+      analyzedCount: transactions.filter((tx) => tx.analyzed !== false).length,
+      totalSpent,
+      totalSocietalDebt,
+      debtPercentage,
+      updatedAt: Timestamp.now(),
+    };
+    writes.push((batch) => batch.set(summaryRef, summary));
+  }
+
+  await commitInChunks(writes);
 }
 
 /**
- * Save a batch of analyzed transactions to Firestore
+ * Add or replace transactions, keyed on their transaction id, and refresh their months' summaries
+ * @returns How many transaction documents were written
  */
-export async function saveAnalyzedTransactions(
-  userId: string, 
-  data: AnalyzedTransactionData,
-  accessToken?: string
-): Promise<string> {
+export async function saveUserTransactions(userId: string, transactions: Transaction[]): Promise<number> {
   if (!userId) {
     throw new Error("User ID is required");
   }
+  if (transactions.length === 0) return 0;
 
   try {
-    // Create a batch document
-    const batch: TransactionBatch = {
-      userId,
-      transactions: data.transactions,
-      totalSocietalDebt: data.totalSocietalDebt,
-      debtPercentage: data.debtPercentage,
-      createdAt: Timestamp.now(),
-      accessToken // Store for future transaction updates
-    };
+    const updatedAt = Timestamp.now();
+    const unique = dedupeTransactions(transactions);
 
-    // Add to batches collection
-    const docRef = await addDoc(collection(db, "transactionBatches"), batch);
-    
-    console.log("Transaction batch saved with ID:", docRef.id);
-    return docRef.id;
+    await commitInChunks(
+      unique.map((tx) => (batch: WriteBatch) =>
+        batch.set(
+          doc(transactionsRef(userId), transactionDocId(tx)),
+          withoutUndefined({ ...tx, month: transactionMonth(tx), updatedAt })
+        )
+      )
+    );
+    await refreshMonthlySummaries(userId, unique.map(transactionMonth));
+
+    console.log(`Saved ${unique.length} transactions for user ${userId}`);
+    return unique.length;
   } catch (error) {
     console.error("Error saving transactions:", error);
     throw new Error("Failed to save transactions to database");
@@ -50,69 +177,134 @@ export async function saveAnalyzedTransactions(
 }
 
 /**
- * Get all transaction batches for a user
+ * Delete stored transactions and refresh their months' summaries
  */
-export async function getUserTransactionBatches(userId: string): Promise<TransactionBatch[]> {
+export async function deleteUserTransactions(userId: string, transactions: Transaction[]): Promise<void> {
   if (!userId) {
     throw new Error("User ID is required");
   }
+  if (transactions.length === 0) return;
 
   try {
-    const q = query(
-      collection(db, "transactionBatches"), 
+    await commitInChunks(
+      transactions.map((tx) => (batch: WriteBatch) =>
+        batch.delete(doc(transactionsRef(userId), transactionDocId(tx)))
+      )
+    );
+    await refreshMonthlySummaries(userId, transactions.map(transactionMonth));
+  } catch (error) {
+    console.error("Error deleting transactions:", error);
+    throw new Error("Failed to update stored transactions");
+  }
+}
+
+/**
+ * Copy a user's legacy transactionBatches snapshots into per-transaction documents, once
+ * Each batch was a full snapshot, so the newest batch that covers a month is taken as the
+ * truth for it - that keeps transactions a later sync removed from coming back. Older
+ * batches only contribute months no newer batch covers. The old batches are left in place
+ * as a backup
+ * @returns How many transactions were migrated
+ */
+export async function migrateTransactionBatches(userId: string): Promise<number> {
+  const userSnapshot = await getDoc(userRef(userId));
+  if (userSnapshot.exists() && userSnapshot.data().transactionsMigratedAt) {
+    return 0;
+  }
+
+  const batches = await getDocs(
+    query(
+      collection(db, storage.legacyBatchesCollection),
       where("userId", "==", userId),
       orderBy("createdAt", "desc")
+    )
+  );
+
+  // Legacy rows mostly have no transaction ids; give each its own so identical purchases on the
+  // same day stay separate documents instead of collapsing into one
+  const coveredMonths = new Set<string>();
+  const transactions = batches.docs.flatMap((snapshot) => {
+    const batchTransactions = assignTransactionIds(
+      (snapshot.data().transactions || []) as Transaction[],
+      "legacy"
     );
+    const fresh = batchTransactions.filter((tx) => !coveredMonths.has(transactionMonth(tx)));
+    batchTransactions.forEach((tx) => coveredMonths.add(transactionMonth(tx)));
+    return fresh;
+  });
+  const migrated = await saveUserTransactions(userId, transactions);
+  await setDoc(userRef(userId), { transactionsMigratedAt: Timestamp.now() }, { merge: true });
 
-    const querySnapshot = await getDocs(q);
-    const batches: TransactionBatch[] = [];
-    
-    querySnapshot.forEach((doc) => {
-      const data = doc.data() as DocumentData;
-      batches.push({
-        ...data as TransactionBatch,
-        id: doc.id
-      });
-    });
-    
-    return batches;
-  } catch (error) {
-    console.error("Error getting user transaction batches:", error);
-    throw new Error("Failed to load transaction history");
+  if (batches.size > 0) {
+    console.log(`📦 Migrated ${batches.size} transaction batches for user ${userId}`);
   }
+  return migrated;
 }
 
 /**
- * Get the most recent transaction batch for a user
+ * Get all of a user's stored transactions, newest first, with their debt totals
+ * @returns null if the user has nothing stored
  */
-export async function getLatestTransactionBatch(userId: string): Promise<TransactionBatch | null> {
+export async function getUserTransactions(userId: string): Promise<AnalyzedTransactionData | null> {
   if (!userId) {
     throw new Error("User ID is required");
   }
 
   try {
-    const q = query(
-      collection(db, "transactionBatches"), 
-      where("userId", "==", userId),
-      orderBy("createdAt", "desc"),
-      limit(1)
-    );
+    await migrateTransactionBatches(userId);
 
-    const querySnapshot = await getDocs(q);
-    
-    if (querySnapshot.empty) {
+    const snapshot = await getDocs(query(transactionsRef(userId), orderBy("date", "desc")));
+    if (snapshot.empty) {
       return null;
     }
-    
-    const doc = querySnapshot.docs[0];
-    const data = doc.data() as DocumentData;
-    
-    return {
-      ...data as TransactionBatch,
-      id: doc.id
-    };
+
+    const transactions = snapshot.docs.map((snap) => fromStoredTransaction(snap.data()));
+    const { totalSocietalDebt, debtPercentage } = summarizeTransactions(transactions);
+
+    return { transactions, totalSocietalDebt, debtPercentage };
   } catch (error) {
-    console.error("Error getting latest transaction batch:", error);
-    throw new Error("Failed to load latest transactions");
+    console.error("Error getting user transactions:", error);
+    throw new Error("Failed to load transactions");
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Get a user's monthly summaries, newest month first
+ */
+export async function getMonthlySummaries(userId: string): Promise<MonthlySummary[]> {
+  if (!userId) {
+    throw new Error("User ID is required");
+  }
+
+  try {
+    await migrateTransactionBatches(userId);
+
+    const snapshot = await getDocs(query(summariesRef(userId), orderBy("month", "desc")));
+    return snapshot.docs.map((snap) => snap.data() as MonthlySummary);
+  } catch (error) {
+    console.error("Error getting monthly summaries:", error);
+    throw new Error("Failed to load transaction history");
+  }
+}
+
+/**
+ * Delete everything stored for a user's transactions, legacy batches included
+ * USE WITH CAUTION - this is destructive and cannot be undone
+ * @returns How many documents were deleted
+ */
+export async function deleteAllStoredTransactions(userId: string): Promise<number> {
+  if (!userId) {
+    throw new Error("User ID is required");
+  }
+
+  const [transactions, summaries, batches] = await Promise.all([
+    getDocs(transactionsRef(userId)),
+    getDocs(summariesRef(userId)),
+    getDocs(query(collection(db, storage.legacyBatchesCollection), where("userId", "==", userId))),
+  ]);
+
+  const refs = [...transactions.docs, ...summaries.docs, ...batches.docs].map((snap) => snap.ref);
+  await commitInChunks(refs.map((ref) => (batch: WriteBatch) => batch.delete(ref)));
+
+  return refs.length;
+}
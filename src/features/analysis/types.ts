@@ -1,31 +1,72 @@
 // src/shared/types/transactions.ts
+import { EvidenceRecord, ModelPracticeAnalysis, UserOverrideMarks } from "@/shared/types/transactions";
+
 export interface Charity {
   name: string;
   url: string;
 }
 
 export interface Transaction {
+  transactionId?: string; // Plaid transaction_id, or a generated fallback id for CSV/sample data
+  accountId?: string; // Plaid account_id
+  pending?: boolean; // Plaid pending flag
+  category?: string[]; // Plaid category hierarchy, e.g. ["Food and Drink", "Coffee Shop"]
   date: string;
-  name: string;
+  name: string; // The descriptor as the bank printed it
+  merchantId?: string; // Canonical merchant key, see merchantNormalization
+  merchantName?: string; // Canonical merchant name; Plaid's merchant_name until normalized
   amount: number;
   societalDebt?: number;
   unethicalPractices?: string[];
   ethicalPractices?: string[];
   practiceWeights?: Record<string, number>; // percentages
+  practiceConfidence?: Record<string, number>; // 0-1, how sure the model is of each practice
   practiceDebts?: Record<string, number>; // + or -
   practiceSearchTerms?: Record<string, string>; // search terms for charity lookup
   practiceCategories?: Record<string, string>; // categories for practices like "Climate Change", "Poverty", etc.
   charities?: Record<string, Charity>;
   information?: Record<string, string>; // Information per practice
+  evidence?: Record<string, EvidenceRecord[]>; // Sources per practice
+  analysisErrors?: string[]; // Why the model's analysis was rejected, if it was
+  modelAnalysis?: ModelPracticeAnalysis; // The model's own practices, kept while a user override applies
+  userOverride?: UserOverrideMarks; // Which practices the user's merchant override changed
   analyzed?: boolean;
 }
 
+export interface AnalysisBatchReport {
+  index: number;
+  status: "success" | "failed";
+  transactionCount: number;
+  quarantinedCount?: number; // Transactions that failed validation after the correction attempt
+  error?: string;
+}
+
 export interface AnalyzedTransactionData {
   transactions: Transaction[];
   totalSocietalDebt: number;
   debtPercentage: number;
+  batches?: AnalysisBatchReport[]; // Per-batch outcome when analysis ran in batches
 }
 
+// Events emitted while an analysis is running, streamed to the client as SSE
+export type AnalysisProgressEvent =
+  | { type: "batch_started"; index: number; totalBatches: number; transactionCount: number }
+  | { type: "merchant_analyzed"; transactions: Transaction[] }
+  | {
+      type: "citations_found";
+      index: number;
+      citations: { url: string; title: string; practice?: string }[];
+    }
+  | {
+      type: "totals_updated";
+      totalSocietalDebt: number;
+      debtPercentage: number;
+      analyzedCount: number;
+      totalCount: number;
+    }
+  | { type: "complete"; data: AnalyzedTransactionData }
+  | { type: "error"; error: string };
+
 export interface PlaidError {
   error_code: string;
   error_message: string;
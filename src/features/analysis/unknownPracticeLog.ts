@@ -0,0 +1,98 @@
+// src/features/analysis/unknownPracticeLog.ts
+// Practices the model named that the practice taxonomy doesn't know, counted for review
+
+import { db } from "@/shared/firebase/firebase";
+import {
+  collection,
+  doc,
+  getDocs,
+  increment,
+  limit,
+  orderBy,
+  query,
+  setDoc,
+  Timestamp,
+} from "firebase/firestore";
+import { config } from "@/config";
+import { PracticePolarity, UnknownPractice } from "./practiceTaxonomy";
+
+export interface UnknownPracticeSighting extends UnknownPractice {
+  merchant?: string; // Canonical merchant name; never a raw bank descriptor
+}
+
+export interface UnknownPracticeReport extends UnknownPractice {
+  count: number; // Transactions it was seen on
+  lastMerchant?: string;
+  lastSeenAt: number;
+}
+
+interface StoredUnknownPractice {
+  name: string;
+  polarity: PracticePolarity;
+  count: number;
+  lastMerchant?: string;
+  lastSeenAt: Timestamp;
+}
+
+function sightingId({ name, polarity }: UnknownPractice): string {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "");
+  return `${polarity}-${slug || "unnamed"}`;
+}
+
+/**
+ * Count each unknown practice once per sighting
+ * Best effort: a logging failure never blocks analysis
+ */
+export async function recordUnknownPractices(sightings: UnknownPracticeSighting[]): Promise<void> {
+  if (sightings.length === 0) return;
+
+  const byId = new Map<string, { sighting: UnknownPracticeSighting; count: number }>();
+  sightings.forEach((sighting) => {
+    const id = sightingId(sighting);
+    byId.set(id, { sighting, count: (byId.get(id)?.count || 0) + 1 });
+  });
+
+  console.warn(
+    `🏷️ Model used ${byId.size} practices missing from the taxonomy: ${Array.from(byId.values())
+      .map(({ sighting }) => `"${sighting.name}" (${sighting.polarity})`)
+      .join(", ")}`
+  );
+
+  try {
+    await Promise.all(
+      Array.from(byId.entries()).map(([id, { sighting, count }]) =>
+        setDoc(
+          doc(db, config.practiceTaxonomy.unknownCollection, id),
+          {
+            name: sighting.name,
+            polarity: sighting.polarity,
+            count: increment(count),
+            ...(sighting.merchant ? { lastMerchant: sighting.merchant } : {}),
+            lastSeenAt: Timestamp.now(),
+          },
+          { merge: true }
+        )
+      )
+    );
+  } catch (error) {
+    console.warn("⚠️ Failed to record unknown practices:", error);
+  }
+}
+
+/**
+ * Unknown practices, most often seen first
+ */
+export async function getUnknownPractices(max = 100): Promise<UnknownPracticeReport[]> {
+  const snapshot = await getDocs(
+    query(
+      collection(db, config.practiceTaxonomy.unknownCollection),
+      orderBy("count", "desc"),
+      limit(max)
+    )
+  );
+
+  return snapshot.docs.map((snap) => {
+    const { lastSeenAt, ...practice } = snap.data() as StoredUnknownPractice;
+    return { ...practice, lastSeenAt: lastSeenAt.toMillis() };
+  });
+}
@@ -0,0 +1,72 @@
+// src/features/analysis/useConfidenceMode.ts
+import { useState, useEffect, useCallback } from 'react';
+import { User } from 'firebase/auth';
+import { Transaction } from '@/shared/types/transactions';
+import { authFetch } from '@/shared/utils/authFetch';
+import { ConfidenceMode, defaultConfidenceMode } from './practiceConfidence';
+
+// Stored transactions after the server re-scored them under a new mode
+export interface ConfidenceModeChange {
+  mode: ConfidenceMode;
+  updated: Transaction[];
+  transactions: Transaction[];
+  totalSocietalDebt: number;
+  debtPercentage: number;
+}
+
+interface UseConfidenceModeResult {
+  confidenceMode: ConfidenceMode;
+  error: string | null;
+  setConfidenceMode: (mode: ConfidenceMode) => Promise<ConfidenceModeChange | null>;
+}
+
+/**
+ * How the user wants low-confidence practices to count towards their debt
+ */
+export function useConfidenceMode(user: User | null): UseConfidenceModeResult {
+  const [confidenceMode, setMode] = useState<ConfidenceMode>(defaultConfidenceMode());
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+
+    authFetch("/api/analysis/confidence")
+      .then(async response => {
+        if (!response.ok) {
+          throw new Error(`Failed to load confidence setting: ${response.status}`);
+        }
+        const { mode } = await response.json();
+        setMode(mode);
+      })
+      .catch(err => console.error("Error loading confidence setting:", err));
+  }, [user]);
+
+  const setConfidenceMode = useCallback(async (mode: ConfidenceMode): Promise<ConfidenceModeChange | null> => {
+    try {
+      const response = await authFetch("/api/analysis/confidence", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ mode }),
+      });
+      if (!response.ok) {
+        const { error } = await response.json().catch(() => ({ error: null }));
+        throw new Error(error || `Failed to save confidence setting: ${response.status}`);
+      }
+
+      const result = await response.json();
+      setMode(result.mode);
+      setError(null);
+      return result;
+    } catch (error) {
+      console.error("Error saving confidence setting:", error);
+      setError(error instanceof Error ? error.message : "Failed to save confidence setting");
+      return null;
+    }
+  }, []);
+
+  return {
+    confidenceMode,
+    error,
+    setConfidenceMode,
+  };
+}
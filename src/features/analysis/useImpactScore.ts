@@ -0,0 +1,59 @@
+// src/features/analysis/useImpactScore.ts
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { User } from 'firebase/auth';
+import { Transaction } from '@/shared/types/transactions';
+import {
+  getScoringModel,
+  scoringModels,
+  ImpactScore,
+  ImpactScoringModel,
+  ScoringModelId
+} from './scoring';
+import { getScoringModelPreference, saveScoringModelPreference } from './scoring/scoringPreferences';
+
+interface UseImpactScoreResult {
+  impactScore: ImpactScore | null;
+  scoringModel: ImpactScoringModel;
+  scoringModels: ImpactScoringModel[];
+  setScoringModel: (modelId: ScoringModelId) => void;
+}
+
+/**
+ * Score transactions with the scoring model the user picked
+ */
+export function useImpactScore(user: User | null, transactions: Transaction[]): UseImpactScoreResult {
+  const [modelId, setModelId] = useState<ScoringModelId | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+
+    getScoringModelPreference(user.uid)
+      .then(preference => {
+        if (preference) setModelId(preference);
+      })
+      .catch(err => console.error("Error loading scoring model preference:", err));
+  }, [user]);
+
+  const setScoringModel = useCallback((nextModelId: ScoringModelId) => {
+    setModelId(nextModelId);
+
+    if (user) {
+      saveScoringModelPreference(user.uid, nextModelId)
+        .catch(err => console.error("Error saving scoring model preference:", err));
+    }
+  }, [user]);
+
+  const scoringModel = getScoringModel(modelId);
+
+  const impactScore = useMemo(
+    () => (transactions.length > 0 ? scoringModel.score(transactions) : null),
+    [scoringModel, transactions]
+  );
+
+  return {
+    impactScore,
+    scoringModel,
+    scoringModels,
+    setScoringModel
+  };
+}
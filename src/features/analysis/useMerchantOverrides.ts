@@ -0,0 +1,77 @@
+// src/features/analysis/useMerchantOverrides.ts
+import { useState, useCallback } from 'react';
+import { Transaction } from '@/shared/types/transactions';
+import { authFetch } from '@/shared/utils/authFetch';
+import { MerchantOverrideInput, merchantOverrideKey } from './merchantOverrides';
+
+// Stored transactions after an override was saved or removed
+export interface OverrideResult {
+  updated: Transaction[];
+  transactions: Transaction[];
+  totalSocietalDebt: number;
+  debtPercentage: number;
+}
+
+interface UseMerchantOverridesResult {
+  error: string | null;
+  saveOverride: (input: MerchantOverrideInput) => Promise<OverrideResult | null>;
+  removeOverride: (merchantName: string) => Promise<OverrideResult | null>;
+}
+
+/**
+ * Save and remove the user's corrections to merchant practices and weights
+ */
+export function useMerchantOverrides(): UseMerchantOverridesResult {
+  const [error, setError] = useState<string | null>(null);
+
+  const saveOverride = useCallback(async (input: MerchantOverrideInput): Promise<OverrideResult | null> => {
+    try {
+      const response = await authFetch("/api/analysis/overrides", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(input),
+      });
+      if (!response.ok) {
+        const { error } = await response.json().catch(() => ({ error: null }));
+        throw new Error(error || `Failed to save merchant override: ${response.status}`);
+      }
+
+      const result = await response.json();
+      setError(null);
+      return result;
+    } catch (error) {
+      console.error("Error saving merchant override:", error);
+      setError(error instanceof Error ? error.message : "Failed to save merchant override");
+      return null;
+    }
+  }, []);
+
+  // Put the model's analysis back for a merchant
+  const removeOverride = useCallback(async (merchantName: string): Promise<OverrideResult | null> => {
+    const merchantKey = merchantOverrideKey(merchantName);
+
+    try {
+      const response = await authFetch(
+        `/api/analysis/overrides?merchantKey=${encodeURIComponent(merchantKey)}`,
+        { method: "DELETE" }
+      );
+      if (!response.ok) {
+        throw new Error(`Failed to remove merchant override: ${response.status}`);
+      }
+
+      const result = await response.json();
+      setError(null);
+      return result;
+    } catch (error) {
+      console.error("Error removing merchant override:", error);
+      setError(error instanceof Error ? error.message : "Failed to remove merchant override");
+      return null;
+    }
+  }, []);
+
+  return {
+    error,
+    saveOverride,
+    removeOverride,
+  };
+}
@@ -1,42 +1,102 @@
 // src/features/analysis/useTransactionAnalysis.ts
 import { useState, useCallback, useRef } from 'react';
-import { Transaction, AnalyzedTransactionData } from './types';
+import { Transaction, AnalyzedTransactionData, AnalysisProgressEvent } from './types';
+import { assignTransactionIds, getTransactionId } from '@/shared/utils/transactionIdentity';
+import { authFetch } from '@/shared/utils/authFetch';
 
 interface AnalysisStatus {
   status: 'idle' | 'loading' | 'success' | 'error';
   error: string | null;
 }
 
+export interface AnalysisProgress {
+  startedBatches: number;
+  totalBatches: number;
+  analyzedCount: number;
+  totalCount: number;
+}
+
+interface UseTransactionAnalysisOptions {
+  // Use the streaming endpoint and publish transactions as they are scored
+  stream?: boolean;
+}
+
 interface UseTransactionAnalysisResult {
   analyzedData: AnalyzedTransactionData | null;
   analysisStatus: AnalysisStatus;
+  analysisProgress: AnalysisProgress | null;
   analyzeTransactions: (transactions: Transaction[]) => Promise<void>;
 }
 
-// Helper function to generate a unique identifier for a transaction
-function getTransactionIdentifier(transaction: Transaction): string {
-  return `${transaction.date}-${transaction.name}-${transaction.amount}`;
+/**
+ * Read Server-Sent Events from a streaming analysis response
+ */
+async function readAnalysisStream(
+  response: Response,
+  onEvent: (event: AnalysisProgressEvent) => void
+): Promise<void> {
+  if (!response.body) {
+    throw new Error("Analysis stream returned no body");
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+
+    // Events are separated by a blank line
+    let boundary = buffer.indexOf("\n\n");
+    while (boundary !== -1) {
+      const rawEvent = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+
+      const data = rawEvent
+        .split("\n")
+        .filter(line => line.startsWith("data:"))
+        .map(line => line.slice(5).trim())
+        .join("\n");
+
+      if (data) {
+        onEvent(JSON.parse(data) as AnalysisProgressEvent);
+      }
+
+      boundary = buffer.indexOf("\n\n");
+    }
+  }
 }
 
-export function useTransactionAnalysis(): UseTransactionAnalysisResult {
+export function useTransactionAnalysis(
+  options: UseTransactionAnalysisOptions = {}
+): UseTransactionAnalysisResult {
+  const { stream = false } = options;
   const [analyzedData, setAnalyzedData] = useState<AnalyzedTransactionData | null>(null);
   const [analysisStatus, setAnalysisStatus] = useState<AnalysisStatus>({
     status: 'idle',
     error: null
   });
+  const [analysisProgress, setAnalysisProgress] = useState<AnalysisProgress | null>(null);
   
   // Use a ref to track if we're currently analyzing
   const isAnalyzing = useRef(false);
 
-  const analyzeTransactions = useCallback(async (transactions: Transaction[]) => {
+  const analyzeTransactions = useCallback(async (incomingTransactions: Transaction[]) => {
     // Skip if no transactions or we're already analyzing
-    if (!transactions.length || isAnalyzing.current) {
+    if (!incomingTransactions.length || isAnalyzing.current) {
       return;
     }
 
+    // Give transactions without a Plaid id a fallback id before anything is merged
+    const transactions = assignTransactionIds(incomingTransactions);
+
     // Set analyzing flag to prevent duplicate calls
     isAnalyzing.current = true;
     setAnalysisStatus({ status: 'loading', error: null });
+    setAnalysisProgress(null);
 
     try {
       // Filter for unanalyzed transactions
@@ -75,7 +135,7 @@ export function useTransactionAnalysis(): UseTransactionAnalysisResult {
       console.log(`Analyzing ${unanalyzedTransactions.length} transactions`);
 
       // Call the API to analyze transactions
-      const response = await fetch("/api/analysis", {
+      const response = await authFetch(stream ? "/api/analysis/stream" : "/api/analysis", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({ transactions: unanalyzedTransactions }),
@@ -85,21 +145,93 @@ export function useTransactionAnalysis(): UseTransactionAnalysisResult {
         throw new Error(`Analysis API error: ${response.status}`);
       }
 
-      const data = await response.json() as AnalyzedTransactionData;
+      let data: AnalyzedTransactionData;
+
+      if (stream) {
+        // Show every transaction right away, then swap in each one as it is scored
+        const scoredTransactions = new Map<string, Transaction>();
+        let completedData: AnalyzedTransactionData | null = null;
+        let streamError: string | null = null;
+
+        setAnalyzedData({
+          transactions,
+          totalSocietalDebt: 0,
+          debtPercentage: 0
+        });
+
+        await readAnalysisStream(response, (event) => {
+          switch (event.type) {
+            case 'batch_started':
+              setAnalysisProgress(prev => ({
+                startedBatches: (prev?.startedBatches ?? 0) + 1,
+                totalBatches: event.totalBatches,
+                analyzedCount: prev?.analyzedCount ?? 0,
+                totalCount: prev?.totalCount ?? unanalyzedTransactions.length
+              }));
+              break;
+            case 'merchant_analyzed':
+              event.transactions.forEach(tx => {
+                scoredTransactions.set(getTransactionId(tx), tx);
+              });
+              setAnalyzedData(prev => ({
+                totalSocietalDebt: prev?.totalSocietalDebt ?? 0,
+                debtPercentage: prev?.debtPercentage ?? 0,
+                transactions: transactions.map(
+                  tx => scoredTransactions.get(getTransactionId(tx)) ?? tx
+                )
+              }));
+              break;
+            case 'totals_updated':
+              setAnalyzedData(prev => prev && {
+                ...prev,
+                totalSocietalDebt: event.totalSocietalDebt,
+                debtPercentage: event.debtPercentage
+              });
+              setAnalysisProgress(prev => ({
+                startedBatches: prev?.startedBatches ?? 0,
+                totalBatches: prev?.totalBatches ?? 0,
+                analyzedCount: event.analyzedCount,
+                totalCount: event.totalCount
+              }));
+              break;
+            case 'citations_found':
+              console.log(`Batch ${event.index + 1}: found ${event.citations.length} citations`);
+              break;
+            case 'complete':
+              completedData = event.data;
+              break;
+            case 'error':
+              streamError = event.error;
+              break;
+          }
+        });
+
+        if (streamError) {
+          throw new Error(streamError);
+        }
+        if (!completedData) {
+          throw new Error("Analysis stream ended before completing");
+        }
+        data = completedData;
+      } else {
+        data = await response.json() as AnalyzedTransactionData;
+      }
       
       // Create a map of analyzed transactions keyed by transaction identifier
       const analyzedTransactionMap = new Map(
-        data.transactions.map((tx) => [getTransactionIdentifier(tx), tx])
+        data.transactions.map((tx) => [getTransactionId(tx), tx])
       );
       
       // Merge analyzed transactions with existing ones
       const updatedTransactions = transactions.map(tx => {
-        const identifier = getTransactionIdentifier(tx);
+        const identifier = getTransactionId(tx);
         if (analyzedTransactionMap.has(identifier)) {
-          // This is a newly analyzed transaction
+          // This is a newly analyzed transaction, or one from a failed batch
+          // that the server returned unanalyzed so it can be retried
+          const analyzedTx = analyzedTransactionMap.get(identifier) as Transaction;
           return {
-            ...analyzedTransactionMap.get(identifier) as Transaction,
-            analyzed: true
+            ...analyzedTx,
+            analyzed: analyzedTx.analyzed !== false
           };
         }
         // This is an already analyzed transaction or one that wasn't sent for analysis
@@ -134,7 +266,20 @@ export function useTransactionAnalysis(): UseTransactionAnalysisResult {
         debtPercentage
       });
       
-      setAnalysisStatus({ status: 'success', error: null });
+      // Report batches that failed or quarantined transactions without
+      // discarding the ones that succeeded. Batch counts are per merchant, so
+      // count the returned transactions that came back with errors instead
+      const failedBatches = (data.batches || []).filter(batch => batch.status === 'failed');
+      const failedCount = data.transactions.filter(tx => tx.analysisErrors?.length).length;
+
+      setAnalysisStatus({
+        status: 'success',
+        error: failedCount > 0
+          ? `${failedCount} of ${unanalyzedTransactions.length} transactions could not be analyzed${
+              failedBatches.length > 0 ? `: ${failedBatches[0].error}` : ''
+            }`
+          : null
+      });
       
     } catch (error) {
       console.error("Analysis error:", error);
@@ -145,11 +290,12 @@ export function useTransactionAnalysis(): UseTransactionAnalysisResult {
     } finally {
       isAnalyzing.current = false;
     }
-  }, []);
+  }, [stream]);
 
   return {
     analyzedData,
     analysisStatus,
+    analysisProgress,
     analyzeTransactions
   };
 }
\ No newline at end of file
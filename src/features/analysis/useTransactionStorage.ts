@@ -1,20 +1,12 @@
 // src/features/analysis/useTransactionStorage.ts
 import { useState, useEffect, useRef, useCallback } from 'react';
-import { db } from '@/shared/firebase/firebase';
-import { collection, addDoc, query, where, orderBy, getDocs, limit, Timestamp, DocumentData } from 'firebase/firestore';
 import { User } from 'firebase/auth';
 import { Transaction } from '@/shared/types/transactions';
 import { firebaseDebug } from '@/shared/utils/firebase-debug';
+import { config } from '@/config';
+import { saveUserTransactions, getUserTransactions } from './transactionStorageService';
 
-interface TransactionBatch {
-  userId: string;
-  transactions: Transaction[];
-  totalSocietalDebt: number;
-  debtPercentage: number;
-  createdAt: Timestamp;
-  accessToken?: string;
-  id?: string;
-}
+const transactionsPath = `${config.transactionStorage.usersCollection}/{userId}/${config.transactionStorage.transactionsSubcollection}`;
 
 interface UseTransactionStorageResult {
   savedTransactions: Transaction[] | null;
@@ -98,28 +90,15 @@ export function useTransactionStorage(user: User | null): UseTransactionStorageR
     updateState(() => setError(null));
 
     try {
-      // Calculate debt percentage
-      const totalSpent = transactions.reduce((sum, tx) => sum + tx.amount, 0);
-      const debtPercentage = totalSpent > 0 ? (totalDebt / totalSpent) * 100 : 0;
-
-      // Create batch document
-      const batch: Omit<TransactionBatch, 'id'> = {
-        userId: currentUser.uid,
-        transactions,
-        totalSocietalDebt: totalDebt,
-        debtPercentage,
-        createdAt: Timestamp.now(),
-      };
-
       // Log the data being saved
-      firebaseDebug.logWrite('transactionBatches', batch, { status: 'pending' });
+      firebaseDebug.logWrite(transactionsPath, { userId: currentUser.uid, count: transactions.length }, { status: 'pending' });
 
-      // Add to Firestore
-      const docRef = await addDoc(collection(db, 'transactionBatches'), batch);
-      console.log('✅ Transaction batch saved with ID:', docRef.id);
+      // Each transaction is upserted into the user's transactions, keyed on its id
+      await saveUserTransactions(currentUser.uid, transactions);
+      console.log(`✅ Saved ${transactions.length} transactions`);
       
       // Log successful write
-      firebaseDebug.logWrite('transactionBatches', batch, { id: docRef.id });
+      firebaseDebug.logWrite(transactionsPath, { userId: currentUser.uid, count: transactions.length }, { status: 'saved' });
 
       // Update local state only if component is still mounted
       if (mountedRef.current) {
@@ -141,7 +120,7 @@ export function useTransactionStorage(user: User | null): UseTransactionStorageR
     }
   }, [hasSavedData]);
 
-  // Load latest transaction batch for current user
+  // Load the stored transactions for current user
   const loadLatestTransactions = useCallback(async (): Promise<boolean> => {
     // Store values in local variables to avoid closure issues
     const currentUser = userRef.current;
@@ -177,28 +156,20 @@ export function useTransactionStorage(user: User | null): UseTransactionStorageR
     updateState(() => setError(null));
 
     try {
-      const q = query(
-        collection(db, 'transactionBatches'),
-        where('userId', '==', currentUser.uid),
-        orderBy('createdAt', 'desc'),
-        limit(1)
-      );
-
       // Log the query
-      firebaseDebug.logRead('transactionBatches', {
+      firebaseDebug.logRead(transactionsPath, {
         userId: currentUser.uid,
-        orderBy: 'createdAt desc',
-        limit: 1
+        orderBy: 'date desc'
       }, { status: 'pending' });
 
-      const querySnapshot = await getDocs(q);
+      // Migrates any legacy batches on first load
+      const stored = await getUserTransactions(currentUser.uid);
       
       // Log the query results
-      firebaseDebug.logRead('transactionBatches', {
+      firebaseDebug.logRead(transactionsPath, {
         userId: currentUser.uid,
-        orderBy: 'createdAt desc',
-        limit: 1
-      }, { count: querySnapshot.size });
+        orderBy: 'date desc'
+      }, { count: stored?.transactions.length || 0 });
       
       // Check mounted state again after async operation
       if (!mountedRef.current) {
@@ -207,28 +178,20 @@ export function useTransactionStorage(user: User | null): UseTransactionStorageR
         return false;
       }
       
-      if (querySnapshot.empty) {
+      if (!stored) {
         console.log('⚠️ No saved transactions found for user:', currentUser.uid);
         updateState(() => setIsLoading(false));
         isLoadingRef.current = false;
         return false;
       }
       
-      // Get the latest batch
-      const doc = querySnapshot.docs[0];
-      const data = doc.data() as DocumentData;
-      const batch = {
-        ...data as TransactionBatch,
-        id: doc.id
-      };
-
-      console.log(`✅ Loaded transaction batch: ${batch.id} with ${batch.transactions.length} transactions`);
+      console.log(`✅ Loaded ${stored.transactions.length} stored transactions`);
 
       // Update state only if still mounted
       if (mountedRef.current) {
         updateState(() => {
-          setSavedTransactions(batch.transactions);
-          setTotalSocietalDebt(batch.totalSocietalDebt);
+          setSavedTransactions(stored.transactions);
+          setTotalSocietalDebt(stored.totalSocietalDebt);
           setHasSavedData(true);
           setIsLoading(false);
         });
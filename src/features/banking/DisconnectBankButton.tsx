@@ -4,9 +4,14 @@ import { useState, useCallback } from 'react';
 interface DisconnectBankButtonProps {
   onDisconnect: () => void;
   isConnected: boolean;
+  label?: string; // e.g. "Disconnect Chase" for a single institution
 }
 
-export function DisconnectBankButton({ onDisconnect, isConnected }: DisconnectBankButtonProps) {
+export function DisconnectBankButton({
+  onDisconnect,
+  isConnected,
+  label = "Disconnect Bank"
+}: DisconnectBankButtonProps) {
   const [confirming, setConfirming] = useState(false);
   
   const handleDisconnect = useCallback(() => {
@@ -52,7 +57,7 @@ export function DisconnectBankButton({ onDisconnect, isConnected }: DisconnectBa
       onClick={handleDisconnect}
       className="text-red-600 hover:text-red-800 text-sm underline"
     >
-      Disconnect Bank
+      {label}
     </button>
   );
 }
\ No newline at end of file
@@ -0,0 +1,148 @@
+// src/features/banking/LinkedAccountsPanel.tsx
+"use client";
+
+import { useState } from 'react';
+import { DisconnectBankButton } from './DisconnectBankButton';
+import { LinkedPlaidItem, LinkedAccount, LinkedItemUpdate } from './types';
+
+interface LinkedAccountsPanelProps {
+  items: LinkedPlaidItem[];
+  onUpdateItem: (itemId: string, update: LinkedItemUpdate) => void;
+  onDisconnectItem: (itemId: string) => void;
+}
+
+function itemLabel(item: LinkedPlaidItem): string {
+  return item.nickname || item.institutionName || "Bank";
+}
+
+function accountLabel(account: LinkedAccount): string {
+  const name = account.nickname || account.name;
+  return account.mask ? `${name} ••${account.mask}` : name;
+}
+
+function SyncStatusBadge({ item }: { item: LinkedPlaidItem }) {
+  if (item.syncStatus === "error") {
+    return (
+      <span
+        className="bg-red-100 text-red-800 text-xs px-2 py-0.5 rounded-full"
+        title={item.syncError}
+      >
+        Sync failed
+      </span>
+    );
+  }
+
+  if (item.syncStatus === "never_synced") {
+    return (
+      <span className="bg-gray-100 text-gray-700 text-xs px-2 py-0.5 rounded-full">
+        Not synced yet
+      </span>
+    );
+  }
+
+  return (
+    <span className="bg-green-100 text-green-800 text-xs px-2 py-0.5 rounded-full">
+      Synced{item.lastSyncedAt ? ` ${new Date(item.lastSyncedAt).toLocaleDateString()}` : ""}
+    </span>
+  );
+}
+
+// Nickname field that only saves once editing is done
+function NicknameInput({
+  value,
+  placeholder,
+  onSave
+}: {
+  value?: string;
+  placeholder: string;
+  onSave: (nickname: string) => void;
+}) {
+  const [draft, setDraft] = useState(value || "");
+
+  const save = () => {
+    if (draft.trim() !== (value || "")) {
+      onSave(draft);
+    }
+  };
+
+  return (
+    <input
+      type="text"
+      value={draft}
+      placeholder={placeholder}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={save}
+      onKeyDown={(e) => e.key === "Enter" && save()}
+      className="border border-gray-300 rounded px-2 py-1 text-sm w-full sm:w-48"
+    />
+  );
+}
+
+export function LinkedAccountsPanel({ items, onUpdateItem, onDisconnectItem }: LinkedAccountsPanelProps) {
+  if (items.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-4">
+      {items.map((item) => (
+        <div key={item.id} className="border border-gray-200 rounded-lg p-4">
+          <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+            <div className="flex items-center gap-2">
+              <span className="font-semibold text-gray-800">{itemLabel(item)}</span>
+              <SyncStatusBadge item={item} />
+            </div>
+            <DisconnectBankButton
+              onDisconnect={() => onDisconnectItem(item.id)}
+              isConnected={true}
+              label={`Disconnect ${itemLabel(item)}`}
+            />
+          </div>
+
+          <NicknameInput
+            value={item.nickname}
+            placeholder={item.institutionName || "Nickname"}
+            onSave={(nickname) => onUpdateItem(item.id, { nickname })}
+          />
+
+          {item.accounts.length > 0 ? (
+            <ul className="mt-3 divide-y divide-gray-100">
+              {item.accounts.map((account) => (
+                <li key={account.accountId} className="flex flex-wrap items-center gap-3 py-2">
+                  <label className="flex items-center gap-2 text-sm text-gray-700 flex-1 min-w-0">
+                    <input
+                      type="checkbox"
+                      checked={account.included}
+                      onChange={(e) =>
+                        onUpdateItem(item.id, {
+                          accounts: [{ accountId: account.accountId, included: e.target.checked }]
+                        })
+                      }
+                    />
+                    <span className="truncate">{accountLabel(account)}</span>
+                    {account.subtype && (
+                      <span className="text-xs text-gray-400">{account.subtype}</span>
+                    )}
+                  </label>
+                  <NicknameInput
+                    value={account.nickname}
+                    placeholder={account.name}
+                    onSave={(nickname) =>
+                      onUpdateItem(item.id, {
+                        accounts: [{ accountId: account.accountId, nickname }]
+                      })
+                    }
+                  />
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="mt-3 text-xs text-gray-500">
+              Accounts will appear after the first sync.
+            </p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -3,6 +3,7 @@
 
 import { useEffect, useState, useCallback } from "react";
 import { config } from "@/config";
+import { authFetch } from "@/shared/utils/authFetch";
 
 interface PlaidErrorType {
   error_code?: string;
@@ -38,7 +39,7 @@ export default function PlaidLink({ onSuccess }: PlaidLinkProps) {
         setLoading(true);
         setError(null);
         
-        const response = await fetch("/api/banking/create_link_token", { method: "GET" });
+        const response = await authFetch("/api/banking/create_link_token", { method: "GET" });
         
         if (!response.ok) {
           throw new Error(`Failed to create link token: ${response.status}`);
@@ -67,7 +68,7 @@ export default function PlaidLink({ onSuccess }: PlaidLinkProps) {
     try {
       // Instead of auto-generating a sandbox token, 
       // let's get a link token for sandbox mode
-      const response = await fetch("/api/banking/create_link_token", { 
+      const response = await authFetch("/api/banking/create_link_token", { 
         method: "GET",
         headers: { 
           "Content-Type": "application/json",
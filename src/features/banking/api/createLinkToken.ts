@@ -1,10 +1,11 @@
 // src/features/banking/api/createLinkToken.ts
 
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
 import { Configuration, PlaidApi, PlaidEnvironments, Products, CountryCode } from "plaid";
 import { config } from "@/config";
+import { AuthContext } from "@/shared/utils/withAuth";
 
-export async function createLinkTokenHandler() {
+export async function createLinkTokenHandler(req: NextRequest, { uid }: AuthContext) {
   try {
     console.log("🚀 Requesting Plaid Link Token...");
     
@@ -21,12 +22,9 @@ export async function createLinkTokenHandler() {
 
     const plaidClient = new PlaidApi(configuration);
     
-    // Create a user ID for this session
-    const userId = Math.random().toString(36).substring(2, 15);
-    
-    // Create link token request
+    // Create link token request for the authenticated user
     const createTokenRequest = {
-      user: { client_user_id: userId },
+      user: { client_user_id: uid },
       client_name: "Ethinomics App",
       products: [Products.Transactions],
       country_codes: [CountryCode.Us],
@@ -1,9 +1,11 @@
 // src/features/banking/api/exchangeToken.ts
 
 import { NextRequest, NextResponse } from 'next/server';
-import { exchangePublicToken } from '@/features/banking/plaidService';
+import { exchangePublicToken, getItemDetails } from '@/features/banking/plaidService';
+import { savePlaidItem } from '@/features/banking/plaidItemStore';
+import { AuthContext } from '@/shared/utils/withAuth';
 
-export async function exchangeTokenHandler(req: NextRequest) {
+export async function exchangeTokenHandler(req: NextRequest, { uid: userId }: AuthContext) {
   try {
     // Read request body safely
     const { public_token } = await req.json();
@@ -12,11 +14,17 @@ export async function exchangeTokenHandler(req: NextRequest) {
       return NextResponse.json({ error: 'Missing public_token' }, { status: 400 });
     }
 
-    // Exchange public_token for access_token
-    const access_token = await exchangePublicToken(public_token);
-    console.log("✅ Access Token Received:", access_token);
+    // Exchange public_token for access_token, which stays on the server
+    const { accessToken, itemId: plaidItemId } = await exchangePublicToken(public_token);
+    // Accounts are filled in on the first sync if Plaid can't list them yet
+    const details = await getItemDetails(accessToken).catch((error) => {
+      console.warn("⚠️ Could not load accounts for item:", plaidItemId, error);
+      return { institutionName: undefined, accounts: [] };
+    });
+    const itemId = await savePlaidItem(userId, plaidItemId, accessToken, details);
+    console.log("✅ Access token exchanged and stored for item:", plaidItemId);
 
-    return NextResponse.json({ access_token });
+    return NextResponse.json({ itemId, institutionName: details.institutionName || null });
   } catch (error) {
     console.error('Plaid Token Exchange Error:', error);
     return NextResponse.json({ error: 'Plaid token exchange failed' }, { status: 500 });
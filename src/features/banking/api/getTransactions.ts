@@ -1,12 +1,16 @@
 // src/features/banking/api/getTransactions.ts
 
 import { NextRequest, NextResponse } from 'next/server';
-import { getTransactions } from '@/features/banking/plaidService';
+import { getTransactions, mapPlaidTransaction } from '@/features/banking/plaidService';
+import { getUserPlaidItems, getPlaidAccessToken } from '@/features/banking/plaidItemStore';
 import { config } from '@/config';
+import { Transaction } from '@/shared/types/transactions';
+import { assignTransactionIds } from '@/shared/utils/transactionIdentity';
+import { AuthContext } from '@/shared/utils/withAuth';
 
-export async function getTransactionsHandler(req: NextRequest) {
+export async function getTransactionsHandler(req: NextRequest, { uid: userId }: AuthContext) {
   try {
-    const { access_token, useSampleData } = await req.json();
+    const { itemId, useSampleData } = await req.json();
     
     // Return sample data if explicitly requested or if config says to use sample data
     if (useSampleData === true || config.plaid.useSampleData) {
@@ -14,15 +18,24 @@ export async function getTransactionsHandler(req: NextRequest) {
       return NextResponse.json(getSampleTransactions());
     }
     
-    if (!access_token) {
+    // Access tokens never come from the client; look them up for this user
+    const items = (await getUserPlaidItems(userId)).filter(
+      (item) => !itemId || item.id === itemId
+    );
+
+    if (items.length === 0) {
       return NextResponse.json(
-        { error: "Missing access_token" },
-        { status: 400 }
+        { error: "No linked bank accounts" },
+        { status: 404 }
       );
     }
     
     try {
-      const transactions = await getTransactions(access_token);
+      const transactions: Transaction[] = [];
+      for (const item of items) {
+        const accessToken = await getPlaidAccessToken(userId, item.id);
+        transactions.push(...(await getTransactions(accessToken)).map(mapPlaidTransaction));
+      }
       
       // if (config.plaid.isSandbox || config.plaid.useSampleData) {
       //   console.log("📝 Error in sandbox mode, using sample data...");
@@ -32,6 +45,7 @@ export async function getTransactionsHandler(req: NextRequest) {
       return NextResponse.json(transactions);
     } catch (error) {
       console.error("💥 Error fetching transactions:", error);
+      throw error;
     }
   } catch (error) {
     console.error("💥 Error in transactions route:", error);
@@ -53,51 +67,45 @@ export async function getTransactionsHandler(req: NextRequest) {
 }
 
 // Helper function for sandbox mode to provide sample transactions when Plaid API is being flaky
-function getSampleTransactions() {
+function getSampleTransactions(): Transaction[] {
   const currentDate = new Date();
   
-  return [
+  return assignTransactionIds([
     {
-      transaction_id: "tx1",
       date: new Date(currentDate.getTime() - 1 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
       name: "Whole Foods Market",
       amount: 84.73,
       category: ["Food and Drink", "Groceries"]
     },
     {
-      transaction_id: "tx2",
       date: new Date(currentDate.getTime() - 2 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
       name: "Amazon",
       amount: 37.49,
       category: ["Shops", "Online Marketplaces"]
     },
     {
-      transaction_id: "tx3",
       date: new Date(currentDate.getTime() - 3 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
       name: "Starbucks",
       amount: 5.25,
       category: ["Food and Drink", "Coffee Shop"]
     },
     {
-      transaction_id: "tx4",
       date: new Date(currentDate.getTime() - 5 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
       name: "Netflix",
       amount: 15.99,
       category: ["Service", "Subscription"]
     },
     {
-      transaction_id: "tx5",
       date: new Date(currentDate.getTime() - 7 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
       name: "Shell",
       amount: 48.22,
       category: ["Travel", "Gas Stations"]
     },
     {
-      transaction_id: "tx6",
       date: new Date(currentDate.getTime() - 10 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
       name: "Target",
       amount: 127.43,
       category: ["Shops", "Department Stores"]
     }
-  ];
+  ], "sample");
 }
\ No newline at end of file
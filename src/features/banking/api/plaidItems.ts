@@ -0,0 +1,141 @@
+// src/features/banking/api/plaidItems.ts
+// API handlers for listing, updating and disconnecting a user's linked Plaid items
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getItemDetails, removeItem } from '@/features/banking/plaidService';
+import {
+  getUserPlaidItems,
+  getPlaidAccessToken,
+  deletePlaidItem,
+  updatePlaidItemSettings,
+  PlaidItemRecord,
+} from '@/features/banking/plaidItemStore';
+import {
+  getSyncState,
+  deleteSyncState,
+  removeAccountTransactions,
+} from '@/features/banking/transactionSyncService';
+import { LinkedPlaidItem, LinkedItemUpdate } from '@/features/banking/types';
+import { AuthContext } from '@/shared/utils/withAuth';
+
+/**
+ * Combine a stored item with its sync state into what the client sees
+ */
+async function toLinkedItem(userId: string, item: PlaidItemRecord): Promise<LinkedPlaidItem> {
+  const syncState = await getSyncState(userId, item.plaidItemId);
+
+  return {
+    id: item.id,
+    ...(item.institutionName ? { institutionName: item.institutionName } : {}),
+    ...(item.nickname ? { nickname: item.nickname } : {}),
+    accounts: item.accounts,
+    createdAt: item.createdAt.toMillis(),
+    syncStatus: syncState ? syncState.status || "synced" : "never_synced",
+    ...(syncState?.lastSyncedAt ? { lastSyncedAt: syncState.lastSyncedAt.toMillis() } : {}),
+    ...(syncState?.status === "error" && syncState.error ? { syncError: syncState.error } : {}),
+  };
+}
+
+export async function getPlaidItemsHandler(req: NextRequest, { uid: userId }: AuthContext) {
+  try {
+    const items = await getUserPlaidItems(userId);
+
+    return NextResponse.json({
+      items: await Promise.all(items.map((item) => toLinkedItem(userId, item))),
+    });
+  } catch (error) {
+    console.error("❌ Error listing Plaid items:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function updatePlaidItemHandler(req: NextRequest, { uid: userId }: AuthContext) {
+  try {
+    const { itemId, nickname, accounts } = await req.json();
+
+    if (!itemId) {
+      return NextResponse.json({ error: "Missing itemId" }, { status: 400 });
+    }
+
+    if (accounts !== undefined && !Array.isArray(accounts)) {
+      return NextResponse.json({ error: "accounts must be an array" }, { status: 400 });
+    }
+
+    const update: LinkedItemUpdate = {
+      ...(typeof nickname === "string" ? { nickname } : {}),
+      ...(accounts ? { accounts } : {}),
+    };
+
+    const item = await updatePlaidItemSettings(userId, itemId, update);
+    return NextResponse.json({ item: await toLinkedItem(userId, item) });
+  } catch (error) {
+    console.error("❌ Error updating Plaid item:", error);
+
+    const message = error instanceof Error ? error.message : "Internal server error";
+    return NextResponse.json(
+      { error: message },
+      { status: message === "Plaid item not found" ? 404 : 500 }
+    );
+  }
+}
+
+export async function deletePlaidItemsHandler(req: NextRequest, { uid: userId }: AuthContext) {
+  try {
+    // Disconnect one item with ?itemId=, or every item the user has linked
+    const itemId = req.nextUrl.searchParams.get("itemId");
+
+    const items = (await getUserPlaidItems(userId)).filter(
+      (item) => !itemId || item.id === itemId
+    );
+
+    if (itemId && items.length === 0) {
+      return NextResponse.json({ error: "Plaid item not found" }, { status: 404 });
+    }
+
+    const accountIds: string[] = [];
+
+    for (const item of items) {
+      accountIds.push(...item.accounts.map((account) => account.accountId));
+
+      try {
+        const accessToken = await getPlaidAccessToken(userId, item.id);
+
+        // Items linked before accounts were tracked don't list them; ask Plaid while
+        // the token still works so their transactions go too
+        if (item.accounts.length === 0) {
+          try {
+            const { accounts } = await getItemDetails(accessToken);
+            accountIds.push(...accounts.map((account) => account.accountId));
+          } catch (error) {
+            console.warn(`⚠️ Could not look up accounts for Plaid item ${item.plaidItemId}:`, error);
+          }
+        }
+
+        // Revoke the token at Plaid too, but don't keep a token we can't revoke
+        await removeItem(accessToken);
+      } catch (error) {
+        console.warn(`⚠️ Could not revoke Plaid item ${item.plaidItemId}:`, error);
+      }
+      await deletePlaidItem(userId, item.id);
+      await deleteSyncState(userId, item.plaidItemId);
+    }
+
+    // Only the disconnected accounts' transactions go; other institutions keep theirs
+    const remaining = await removeAccountTransactions(userId, accountIds);
+
+    return NextResponse.json({
+      success: true,
+      removed: items.length,
+      ...remaining,
+    });
+  } catch (error) {
+    console.error("❌ Error disconnecting Plaid items:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,26 @@
+// src/features/banking/api/syncTransactions.ts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { syncUserTransactions } from '@/features/banking/transactionSyncService';
+import { AuthContext } from '@/shared/utils/withAuth';
+
+export async function syncTransactionsHandler(req: NextRequest, { uid: userId }: AuthContext) {
+  try {
+    const { itemId } = await req.json();
+
+    const summary = await syncUserTransactions(userId, itemId ? [itemId] : undefined);
+    return NextResponse.json(summary);
+  } catch (error) {
+    console.error("💥 Error syncing transactions:", error);
+
+    const message = error instanceof Error ? error.message : "Unknown error";
+    if (message === "No linked bank accounts" || message === "Plaid item not found") {
+      return NextResponse.json({ error: message }, { status: 404 });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to sync transactions", details: message },
+      { status: message === "PRODUCT_NOT_READY" || message === "RATE_LIMITED" ? 503 : 500 }
+    );
+  }
+}
@@ -1,69 +1,56 @@
 // src/features/banking/bankConnectionTest.ts
+import { authFetch } from '@/shared/utils/authFetch';
 
 /**
  * Test utility to verify the state of bank connections
  * This can be used for debugging or in the development environment
+ * Access tokens live on the server, so this only sees the opaque item ids
  */
-export function testBankConnection(): {
-    hasStoredToken: boolean;
-    tokenInfo: string | null;
+export async function testBankConnection(): Promise<{
+    hasLinkedItems: boolean;
+    itemInfo: string | null;
     isValid: boolean;
-  } {
+  }> {
     try {
-      // Check if token exists in localStorage
-      const storedData = localStorage.getItem('plaid_access_token_info');
-      if (!storedData) {
+      const response = await authFetch('/api/banking/items');
+      if (!response.ok) {
         return {
-          hasStoredToken: false,
-          tokenInfo: null,
+          hasLinkedItems: false,
+          itemInfo: `Error: ${response.status}`,
           isValid: false
         };
       }
       
-      // Parse token info
-      const tokenInfo = JSON.parse(storedData);
-      
-      // Verify structure
-      if (!tokenInfo.token || !tokenInfo.userId || !tokenInfo.timestamp) {
-        return {
-          hasStoredToken: true,
-          tokenInfo: JSON.stringify(tokenInfo, null, 2),
-          isValid: false
-        };
-      }
-      
-      // Check token age
-      const thirtyDaysMs = 30 * 24 * 60 * 60 * 1000;
-      const tokenAge = Date.now() - tokenInfo.timestamp;
-      const isExpired = tokenAge > thirtyDaysMs;
+      const { items = [] } = await response.json();
       
       return {
-        hasStoredToken: true,
-        tokenInfo: JSON.stringify({
-          userId: tokenInfo.userId,
-          tokenAge: Math.floor(tokenAge / (24 * 60 * 60 * 1000)) + ' days',
-          isExpired
-        }, null, 2),
-        isValid: !isExpired
+        hasLinkedItems: items.length > 0,
+        itemInfo: items.length > 0 ? JSON.stringify(items, null, 2) : null,
+        isValid: items.length > 0
       };
     } catch (error) {
       return {
-        hasStoredToken: false,
-        tokenInfo: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        hasLinkedItems: false,
+        itemInfo: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
         isValid: false
       };
     }
   }
   
   /**
-   * Clear any stored bank connection tokens
+   * Disconnect every linked bank account for the signed-in user
    * Can be used for testing or debugging
    */
-  export function clearBankConnectionToken(): void {
+  export async function clearBankConnections(): Promise<void> {
     try {
-      localStorage.removeItem('plaid_access_token_info');
-      console.log('✅ Bank connection token cleared');
+      const response = await authFetch('/api/banking/items', {
+        method: 'DELETE'
+      });
+      if (!response.ok) {
+        throw new Error(`Server error: ${response.status}`);
+      }
+      console.log('✅ Bank connections cleared');
     } catch (error) {
-      console.error('Failed to clear bank token:', error);
+      console.error('Failed to clear bank connections:', error);
     }
-  }
\ No newline at end of file
+  }
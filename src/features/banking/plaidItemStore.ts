@@ -0,0 +1,288 @@
+// src/features/banking/plaidItemStore.ts
+// Server-only storage for linked Plaid items - access tokens are encrypted at rest
+// and never leave the server; clients refer to items by an opaque id
+
+import { createCipheriv, createDecipheriv, randomBytes, randomUUID } from "crypto";
+import { db } from "@/shared/firebase/firebase";
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  setDoc,
+  updateDoc,
+  deleteDoc,
+  query,
+  where,
+  Timestamp,
+} from "firebase/firestore";
+import { config } from "@/config";
+import { LinkedAccount, LinkedItemUpdate } from "./types";
+import { PlaidAccountSummary } from "./plaidService";
+
+const ENCRYPTION_ALGORITHM = "aes-256-gcm";
+const TOKEN_FORMAT_VERSION = "v1";
+
+interface StoredPlaidItem {
+  userId: string;
+  plaidItemId: string;
+  encryptedAccessToken: string;
+  institutionName?: string;
+  nickname?: string;
+  accounts?: LinkedAccount[]; // Missing on items linked before accounts were tracked
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+// What callers see - everything except the token
+export interface PlaidItemRecord {
+  id: string; // Opaque id handed to the client
+  userId: string;
+  plaidItemId: string;
+  institutionName?: string;
+  nickname?: string;
+  accounts: LinkedAccount[];
+  createdAt: Timestamp;
+}
+
+function getEncryptionKey(): Buffer {
+  const encodedKey = config.plaid.tokenEncryptionKey;
+  if (!encodedKey) {
+    throw new Error("PLAID_TOKEN_ENCRYPTION_KEY is not configured");
+  }
+
+  const key = Buffer.from(encodedKey, "base64");
+  if (key.length !== 32) {
+    throw new Error("PLAID_TOKEN_ENCRYPTION_KEY must be 32 bytes, base64 encoded");
+  }
+
+  return key;
+}
+
+/**
+ * Encrypt an access token as "v1:<iv>:<auth tag>:<ciphertext>"
+ */
+function encryptAccessToken(accessToken: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(ENCRYPTION_ALGORITHM, getEncryptionKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(accessToken, "utf8"), cipher.final()]);
+
+  return [
+    TOKEN_FORMAT_VERSION,
+    iv.toString("base64"),
+    cipher.getAuthTag().toString("base64"),
+    ciphertext.toString("base64"),
+  ].join(":");
+}
+
+function decryptAccessToken(payload: string): string {
+  const [version, iv, authTag, ciphertext] = payload.split(":");
+  if (version !== TOKEN_FORMAT_VERSION || !iv || !authTag || !ciphertext) {
+    throw new Error("Stored Plaid access token has an unknown format");
+  }
+
+  const decipher = createDecipheriv(
+    ENCRYPTION_ALGORITHM,
+    getEncryptionKey(),
+    Buffer.from(iv, "base64")
+  );
+  decipher.setAuthTag(Buffer.from(authTag, "base64"));
+
+  return Buffer.concat([
+    decipher.update(Buffer.from(ciphertext, "base64")),
+    decipher.final(),
+  ]).toString("utf8");
+}
+
+function toRecord(id: string, item: StoredPlaidItem): PlaidItemRecord {
+  return {
+    id,
+    userId: item.userId,
+    plaidItemId: item.plaidItemId,
+    ...(item.institutionName ? { institutionName: item.institutionName } : {}),
+    ...(item.nickname ? { nickname: item.nickname } : {}),
+    accounts: item.accounts || [],
+    createdAt: item.createdAt,
+  };
+}
+
+/**
+ * Merge fresh account details from Plaid into the stored accounts
+ * The user's nickname and include setting survive; new accounts are included by default
+ */
+export function mergeLinkedAccounts(
+  stored: LinkedAccount[],
+  fresh: PlaidAccountSummary[]
+): LinkedAccount[] {
+  const merged = new Map(stored.map((account) => [account.accountId, account]));
+
+  fresh.forEach((account) => {
+    const existing = merged.get(account.accountId);
+    merged.set(account.accountId, {
+      ...account,
+      ...(existing?.nickname ? { nickname: existing.nickname } : {}),
+      included: existing ? existing.included : true,
+    });
+  });
+
+  return Array.from(merged.values());
+}
+
+async function getOwnedItem(userId: string, itemId: string) {
+  const itemRef = doc(db, config.plaid.itemsCollection, itemId);
+  const snapshot = await getDoc(itemRef);
+  const item = snapshot.exists() ? (snapshot.data() as StoredPlaidItem) : null;
+
+  if (!item || item.userId !== userId) {
+    throw new Error("Plaid item not found");
+  }
+
+  return { itemRef, item };
+}
+
+/**
+ * Store a newly linked item, or replace the token if the user relinked the same item
+ * @param details Institution and accounts reported by Plaid at link time
+ * @returns The opaque item id to give the client
+ */
+export async function savePlaidItem(
+  userId: string,
+  plaidItemId: string,
+  accessToken: string,
+  details: { institutionName?: string; accounts: PlaidAccountSummary[] } = { accounts: [] }
+): Promise<string> {
+  if (!userId) {
+    throw new Error("User ID is required");
+  }
+
+  const encryptedAccessToken = encryptAccessToken(accessToken);
+  const now = Timestamp.now();
+
+  const existing = await getDocs(
+    query(
+      collection(db, config.plaid.itemsCollection),
+      where("userId", "==", userId),
+      where("plaidItemId", "==", plaidItemId)
+    )
+  );
+
+  const institution = details.institutionName ? { institutionName: details.institutionName } : {};
+
+  if (!existing.empty) {
+    const itemRef = existing.docs[0].ref;
+    const stored = existing.docs[0].data() as StoredPlaidItem;
+    await updateDoc(itemRef, {
+      encryptedAccessToken,
+      ...institution,
+      accounts: mergeLinkedAccounts(stored.accounts || [], details.accounts),
+      updatedAt: now,
+    });
+    return itemRef.id;
+  }
+
+  const id = randomUUID();
+  const item: StoredPlaidItem = {
+    userId,
+    plaidItemId,
+    encryptedAccessToken,
+    ...institution,
+    accounts: mergeLinkedAccounts([], details.accounts),
+    createdAt: now,
+    updatedAt: now,
+  };
+  await setDoc(doc(db, config.plaid.itemsCollection, id), item);
+
+  console.log(`🔐 Stored encrypted access token for Plaid item ${plaidItemId}`);
+  return id;
+}
+
+/**
+ * List a user's linked items (without tokens)
+ */
+export async function getUserPlaidItems(userId: string): Promise<PlaidItemRecord[]> {
+  if (!userId) {
+    throw new Error("User ID is required");
+  }
+
+  const snapshot = await getDocs(
+    query(collection(db, config.plaid.itemsCollection), where("userId", "==", userId))
+  );
+
+  return snapshot.docs.map((itemDoc) => toRecord(itemDoc.id, itemDoc.data() as StoredPlaidItem));
+}
+
+/**
+ * Decrypt the access token for one of the user's items
+ * Items belonging to another user are treated as missing
+ */
+export async function getPlaidAccessToken(userId: string, itemId: string): Promise<string> {
+  const { item } = await getOwnedItem(userId, itemId);
+  return decryptAccessToken(item.encryptedAccessToken);
+}
+
+/**
+ * Refresh an item's accounts from what Plaid reported during a sync
+ */
+export async function updatePlaidItemAccounts(
+  userId: string,
+  itemId: string,
+  accounts: PlaidAccountSummary[]
+): Promise<void> {
+  if (accounts.length === 0) return;
+
+  const { itemRef, item } = await getOwnedItem(userId, itemId);
+  await updateDoc(itemRef, {
+    accounts: mergeLinkedAccounts(item.accounts || [], accounts),
+    updatedAt: Timestamp.now(),
+  });
+}
+
+/**
+ * Apply the user's nickname and include/exclude settings to an item
+ * Accounts that aren't part of the item are ignored
+ * An empty nickname clears it
+ */
+export async function updatePlaidItemSettings(
+  userId: string,
+  itemId: string,
+  update: LinkedItemUpdate
+): Promise<PlaidItemRecord> {
+  const { itemRef, item } = await getOwnedItem(userId, itemId);
+
+  const changes = new Map((update.accounts || []).map((change) => [change.accountId, change]));
+  const accounts = (item.accounts || []).map((account) => {
+    const change = changes.get(account.accountId);
+    if (!change) return account;
+
+    const { nickname, ...rest } = account;
+    const nextNickname = change.nickname !== undefined ? change.nickname.trim() : nickname;
+    return {
+      ...rest,
+      ...(nextNickname ? { nickname: nextNickname } : {}),
+      included: change.included ?? account.included,
+    };
+  });
+
+  const { nickname, ...rest } = item;
+  const nextNickname = update.nickname !== undefined ? update.nickname.trim() : nickname;
+  const updated: StoredPlaidItem = {
+    ...rest,
+    ...(nextNickname ? { nickname: nextNickname } : {}),
+    accounts,
+    updatedAt: Timestamp.now(),
+  };
+
+  // Overwrite rather than update so a cleared nickname is actually removed
+  await setDoc(itemRef, updated);
+  return toRecord(itemId, updated);
+}
+
+/**
+ * Delete one of the user's items
+ */
+export async function deletePlaidItem(userId: string, itemId: string): Promise<void> {
+  const { itemRef } = await getOwnedItem(userId, itemId);
+
+  await deleteDoc(itemRef);
+  console.log(`🗑️ Deleted Plaid item ${itemId}`);
+}
@@ -6,9 +6,16 @@ import {
   Products,
   CountryCode,
   TransactionsGetResponse,
+  Transaction as PlaidTransaction,
+  AccountBase,
 } from "plaid";
 import { config } from "@/config";
-import { PlaidError } from "@/shared/types/transactions";
+import { PlaidError, Transaction } from "@/shared/types/transactions";
+import { LinkedAccount } from "./types";
+import { withCanonicalMerchant } from "@/features/analysis/merchantNormalization";
+
+// Account details as Plaid reports them, before the user's own settings are applied
+export type PlaidAccountSummary = Omit<LinkedAccount, "nickname" | "included">;
 
 // Initialize Plaid client
 const configuration = new Configuration({
@@ -44,16 +51,64 @@ export async function createLinkToken(): Promise<string> {
   }
 }
 
-export async function exchangePublicToken(publicToken: string): Promise<string> {
+export async function exchangePublicToken(
+  publicToken: string
+): Promise<{ accessToken: string; itemId: string }> {
   try {
     const response = await plaidClient.itemPublicTokenExchange({ public_token: publicToken });
-    return response.data.access_token;
+    return {
+      accessToken: response.data.access_token,
+      itemId: response.data.item_id,
+    };
   } catch (error) {
     console.error("❌ Plaid token exchange error:", error);
     throw error;
   }
 }
 
+/**
+ * Revoke an access token so Plaid stops serving data for the item
+ */
+export async function removeItem(accessToken: string): Promise<void> {
+  try {
+    await plaidClient.itemRemove({ access_token: accessToken });
+  } catch (error) {
+    console.error("❌ Plaid item remove error:", error);
+    throw error;
+  }
+}
+
+/**
+ * Look up the institution and accounts behind an access token
+ * The institution name is best effort - not every item reports one
+ */
+export async function getItemDetails(
+  accessToken: string
+): Promise<{ institutionName?: string; accounts: PlaidAccountSummary[] }> {
+  try {
+    const response = await plaidClient.accountsGet({ access_token: accessToken });
+    const { item, accounts } = response.data;
+
+    let institutionName = item.institution_name || undefined;
+    if (!institutionName && item.institution_id) {
+      try {
+        const institution = await plaidClient.institutionsGetById({
+          institution_id: item.institution_id,
+          country_codes: [CountryCode.Us],
+        });
+        institutionName = institution.data.institution.name;
+      } catch (error) {
+        console.warn(`⚠️ Could not look up institution ${item.institution_id}:`, error);
+      }
+    }
+
+    return { institutionName, accounts: accounts.map(mapPlaidAccount) };
+  } catch (error) {
+    console.error("❌ Plaid accounts error:", error);
+    throw error;
+  }
+}
+
 /**
  * Helper function to delay execution
  * @param ms Milliseconds to delay
@@ -132,6 +187,119 @@ export async function getTransactions(
   }
 }
 
+export interface PlaidSyncResult {
+  added: Transaction[];
+  modified: Transaction[];
+  removed: string[]; // transaction_ids
+  accounts: PlaidAccountSummary[]; // Accounts that had transactions in this sync
+  nextCursor: string;
+}
+
+/**
+ * Pull every change since `cursor` using Plaid's cursor-based /transactions/sync
+ * Pages are followed until has_more is false; if the data changes mid-pagination
+ * Plaid asks us to restart from the original cursor
+ * @param cursor Cursor from the previous sync, or undefined for a full history
+ */
+export async function syncTransactions(
+  accessToken: string,
+  cursor?: string
+): Promise<PlaidSyncResult> {
+  const MAX_RESTARTS = 3;
+
+  for (let restart = 0; restart <= MAX_RESTARTS; restart++) {
+    const added: PlaidTransaction[] = [];
+    const modified: PlaidTransaction[] = [];
+    const removed: string[] = [];
+    const accounts = new Map<string, AccountBase>();
+    let nextCursor = cursor;
+    let hasMore = true;
+
+    try {
+      while (hasMore) {
+        console.log(`🔄 Syncing Plaid transactions${nextCursor ? " from cursor" : " (initial sync)"}...`);
+
+        const response = await plaidClient.transactionsSync({
+          access_token: accessToken,
+          cursor: nextCursor,
+          count: 500,
+        });
+        const data = response.data;
+
+        added.push(...data.added);
+        modified.push(...data.modified);
+        removed.push(...data.removed.map((tx) => tx.transaction_id));
+        data.accounts.forEach((account) => accounts.set(account.account_id, account));
+        nextCursor = data.next_cursor;
+        hasMore = data.has_more;
+      }
+
+      return {
+        added: added.map(mapPlaidTransaction),
+        modified: modified.map(mapPlaidTransaction),
+        removed,
+        accounts: Array.from(accounts.values()).map(mapPlaidAccount),
+        nextCursor: nextCursor || "",
+      };
+    } catch (error) {
+      if (
+        isPlaidErrorResponse(error) &&
+        error.response?.data?.error_code === "TRANSACTIONS_SYNC_MUTATION_DURING_PAGINATION" &&
+        restart < MAX_RESTARTS
+      ) {
+        console.warn("⚠️ Plaid data changed during sync, restarting from the original cursor");
+        continue;
+      }
+
+      console.error("❌ Plaid transactions sync error:", error);
+
+      if (isPlaidErrorResponse(error)) {
+        if (error.response?.data?.error_code === "PRODUCT_NOT_READY") {
+          throw new Error("PRODUCT_NOT_READY");
+        }
+        if (error.response?.status === 429) {
+          throw new Error("RATE_LIMITED");
+        }
+      }
+
+      throw error;
+    }
+  }
+
+  throw new Error("Plaid transactions sync kept changing during pagination");
+}
+
+/**
+ * Map a Plaid transaction to our Transaction shape, keeping its Plaid identity
+ * Optional fields are only set when present since Firestore rejects undefined values
+ */
+export function mapPlaidTransaction(tx: PlaidTransaction): Transaction {
+  return withCanonicalMerchant({
+    transactionId: tx.transaction_id,
+    accountId: tx.account_id,
+    pending: tx.pending,
+    ...(tx.category ? { category: tx.category } : {}),
+    date: tx.date,
+    name: tx.name || "Unknown",
+    ...(tx.merchant_name ? { merchantName: tx.merchant_name } : {}),
+    amount: Math.abs(tx.amount || 0),
+    analyzed: false,
+  });
+}
+
+/**
+ * Map a Plaid account to the details we keep for it
+ */
+export function mapPlaidAccount(account: AccountBase): PlaidAccountSummary {
+  return {
+    accountId: account.account_id,
+    name: account.name,
+    ...(account.mask ? { mask: account.mask } : {}),
+    type: account.type,
+    ...(account.subtype ? { subtype: account.subtype } : {}),
+  };
+}
+
 /**
  * Creates a sandbox public token for testing
  * @param institutionId Optional institution ID (defaults to Chase Bank)
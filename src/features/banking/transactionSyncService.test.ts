@@ -0,0 +1,96 @@
+// src/features/banking/transactionSyncService.test.ts
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Transaction } from "@/shared/types/transactions";
+import { applyTransactionDeltas, recomputeTotals } from "./transactionSyncService";
+
+const analyzedCoffee: Transaction = {
+  transactionId: "tx-coffee",
+  date: "2025-03-01",
+  name: "Starbucks",
+  amount: 10,
+  analyzed: true,
+  unethicalPractices: ["Water Waste"],
+  ethicalPractices: [],
+  practiceWeights: { "Water Waste": 20 },
+  practiceDebts: { "Water Waste": 2 },
+  societalDebt: 2,
+};
+
+const groceries: Transaction = {
+  transactionId: "tx-groceries",
+  date: "2025-03-02",
+  name: "Whole Foods",
+  amount: 40,
+  analyzed: false,
+};
+
+const noDelta = { added: [], modified: [], removed: [] };
+
+describe("applyTransactionDeltas", () => {
+  it("adds new transactions as unanalyzed", () => {
+    const fresh = { transactionId: "tx-new", date: "2025-03-03", name: "Target", amount: 25 };
+    const { transactions, added } = applyTransactionDeltas([analyzedCoffee], { ...noDelta, added: [fresh] });
+
+    assert.deepEqual(added, [fresh]);
+    assert.deepEqual(transactions.find((tx) => tx.transactionId === "tx-new"), { ...fresh, analyzed: false });
+  });
+
+  it("treats a re-sent added transaction as a modification that keeps its analysis", () => {
+    const resent = { transactionId: "tx-coffee", date: "2025-03-01", name: "Starbucks", amount: 10 };
+    const { transactions, added } = applyTransactionDeltas([analyzedCoffee], { ...noDelta, added: [resent] });
+
+    assert.deepEqual(added, []);
+    assert.equal(transactions.length, 1);
+    assert.equal(transactions[0].analyzed, true);
+    assert.deepEqual(transactions[0].unethicalPractices, ["Water Waste"]);
+  });
+
+  it("keeps a modified transaction's analysis but drops its debt so it is recalculated", () => {
+    const modified = { transactionId: "tx-coffee", date: "2025-03-01", name: "Starbucks", amount: 15 };
+    const { transactions } = applyTransactionDeltas([analyzedCoffee], { ...noDelta, modified: [modified] });
+
+    const [coffee] = transactions;
+    assert.equal(coffee.amount, 15);
+    assert.equal(coffee.analyzed, true);
+    assert.deepEqual(coffee.practiceWeights, { "Water Waste": 20 });
+    assert.equal(coffee.societalDebt, undefined);
+    assert.equal(coffee.practiceDebts, undefined);
+
+    assert.equal(recomputeTotals(transactions).totalSocietalDebt, 3);
+  });
+
+  it("adds a modified transaction it has never seen", () => {
+    const unseen = { transactionId: "tx-unseen", date: "2025-03-04", name: "Shell", amount: 30 };
+    const { added } = applyTransactionDeltas([], { ...noDelta, modified: [unseen] });
+
+    assert.deepEqual(added, [unseen]);
+  });
+
+  it("drops removed transactions", () => {
+    const { transactions } = applyTransactionDeltas([analyzedCoffee, groceries], {
+      ...noDelta,
+      removed: ["tx-coffee"],
+    });
+
+    assert.deepEqual(transactions.map((tx) => tx.transactionId), ["tx-groceries"]);
+  });
+});
+
+describe("recomputeTotals", () => {
+  it("leaves unanalyzed transactions out of the debt and keeps them unanalyzed", () => {
+    const result = recomputeTotals([analyzedCoffee, groceries]);
+
+    assert.equal(result.totalSocietalDebt, 2);
+    assert.equal(result.debtPercentage, 20);
+    assert.equal(result.transactions.find((tx) => tx.transactionId === "tx-groceries")?.analyzed, false);
+    assert.equal(result.transactions.length, 2);
+  });
+
+  it("rescores every analyzed transaction under a confidence mode", () => {
+    const lowConfidence = { ...analyzedCoffee, practiceConfidence: { "Water Waste": 0.2 } };
+
+    assert.equal(recomputeTotals([lowConfidence]).totalSocietalDebt, 2);
+    assert.equal(recomputeTotals([lowConfidence], "hide").totalSocietalDebt, 0);
+  });
+});
@@ -0,0 +1,300 @@
+// src/features/banking/transactionSyncService.ts
+// Incremental transaction sync - applies Plaid /transactions/sync deltas to stored transactions
+
+import { db } from "@/shared/firebase/firebase";
+import { doc, getDoc, setDoc, deleteDoc, Timestamp } from "firebase/firestore";
+import { config } from "@/config";
+import { Transaction } from "@/shared/types/transactions";
+import { getTransactionId } from "@/shared/utils/transactionIdentity";
+import { syncTransactions, PlaidSyncResult } from "./plaidService";
+import {
+  getUserPlaidItems,
+  getPlaidAccessToken,
+  updatePlaidItemAccounts,
+} from "./plaidItemStore";
+import { processAnalyzedTransactions } from "@/features/analysis/transactionAnalysisService";
+import { getConfidenceModePreference } from "@/features/analysis/practiceConfidenceService";
+import { ConfidenceMode } from "@/features/analysis/practiceConfidence";
+import {
+  getUserTransactions,
+  saveUserTransactions,
+  deleteUserTransactions,
+} from "@/features/analysis/transactionStorageService";
+
+export interface SyncState {
+  userId: string;
+  itemId: string;
+  cursor: string;
+  lastSyncedAt: Timestamp;
+  status?: "synced" | "error"; // Missing on states saved before errors were tracked
+  error?: string; // Why the last attempt failed; the cursor is left where it was
+  lastAttemptAt?: Timestamp;
+}
+
+export interface TransactionSyncSummary {
+  itemIds: string[]; // Opaque ids of the items that were synced
+  failedItemIds: string[]; // Items whose sync failed; their stored transactions are untouched
+  transactions: Transaction[]; // Full stored list after the deltas were applied
+  added: Transaction[]; // New transactions that still need analysis
+  modifiedCount: number;
+  removedCount: number;
+  totalSocietalDebt: number;
+  debtPercentage: number;
+}
+
+function syncStateRef(userId: string, itemId: string) {
+  return doc(db, config.plaid.syncStateCollection, `${userId}_${itemId}`);
+}
+
+/**
+ * Get the sync state for a user's Plaid item, if it has ever been synced
+ */
+export async function getSyncState(userId: string, itemId: string): Promise<SyncState | null> {
+  const snapshot = await getDoc(syncStateRef(userId, itemId));
+  return snapshot.exists() ? (snapshot.data() as SyncState) : null;
+}
+
+/**
+ * Get the saved sync cursor for a user's Plaid item, if there is one
+ */
+export async function getSyncCursor(userId: string, itemId: string): Promise<string | undefined> {
+  return (await getSyncState(userId, itemId))?.cursor || undefined;
+}
+
+/**
+ * Save the cursor to resume from on the next sync
+ */
+export async function saveSyncCursor(userId: string, itemId: string, cursor: string): Promise<void> {
+  const now = Timestamp.now();
+  const state: SyncState = {
+    userId,
+    itemId,
+    cursor,
+    lastSyncedAt: now,
+    status: "synced",
+    lastAttemptAt: now,
+  };
+  await setDoc(syncStateRef(userId, itemId), state);
+}
+
+/**
+ * Record a failed sync without moving the cursor, so the next sync retries from it
+ */
+export async function saveSyncError(userId: string, itemId: string, error: string): Promise<void> {
+  await setDoc(
+    syncStateRef(userId, itemId),
+    { userId, itemId, status: "error", error, lastAttemptAt: Timestamp.now() },
+    { merge: true }
+  );
+}
+
+/**
+ * Forget an item's sync state, e.g. when it is disconnected
+ */
+export async function deleteSyncState(userId: string, itemId: string): Promise<void> {
+  await deleteDoc(syncStateRef(userId, itemId));
+}
+
+/**
+ * Recompute debt totals for a stored list that may contain unanalyzed transactions
+ * Only analyzed transactions go through processAnalyzedTransactions, since it marks
+ * everything it sees as analyzed
+ */
+export function recomputeTotals(transactions: Transaction[], confidenceMode?: ConfidenceMode) {
+  const analyzed = processAnalyzedTransactions(
+    transactions.filter((tx) => tx.analyzed !== false),
+    undefined,
+    confidenceMode
+  );
+  return {
+    ...analyzed,
+    transactions: [...analyzed.transactions, ...transactions.filter((tx) => tx.analyzed === false)],
+  };
+}
+
+/**
+ * Apply added/modified/removed deltas to a list of stored transactions
+ * Modified transactions keep their analysis but have their debt recalculated,
+ * since the amount may have changed
+ */
+export function applyTransactionDeltas(
+  stored: Transaction[],
+  delta: Pick<PlaidSyncResult, "added" | "modified" | "removed">
+): { transactions: Transaction[]; added: Transaction[] } {
+  const removedIds = new Set(delta.removed);
+  const byId = new Map<string, Transaction>();
+
+  stored
+    .filter((tx) => !removedIds.has(getTransactionId(tx)))
+    .forEach((tx) => byId.set(getTransactionId(tx), tx));
+
+  // Plaid can re-send a transaction we already have as "added" after a cursor reset,
+  // so anything we already know about is treated as a modification
+  const added: Transaction[] = [];
+  const modified = [...delta.modified];
+  delta.added.forEach((tx) => {
+    if (byId.has(getTransactionId(tx))) {
+      modified.push(tx);
+    } else {
+      added.push(tx);
+    }
+  });
+
+  modified.forEach((tx) => {
+    const id = getTransactionId(tx);
+    const existing = byId.get(id);
+
+    if (!existing) {
+      added.push(tx);
+      return;
+    }
+
+    // Drop computed debt so processAnalyzedTransactions recalculates it
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { societalDebt, practiceDebts, ...analysis } = existing;
+    byId.set(id, {
+      ...analysis,
+      ...tx,
+      analyzed: existing.analyzed,
+    });
+  });
+
+  added.forEach((tx) => byId.set(getTransactionId(tx), { ...tx, analyzed: false }));
+
+  return { transactions: Array.from(byId.values()), added };
+}
+
+/**
+ * Sync a user's Plaid items: fetch deltas since each item's saved cursor, apply them
+ * to the stored transactions, recompute debt totals, then advance the cursors
+ * @param itemIds Opaque ids of the items to sync; defaults to all of the user's items
+ */
+export async function syncUserTransactions(
+  userId: string,
+  itemIds?: string[]
+): Promise<TransactionSyncSummary> {
+  if (!userId) {
+    throw new Error("User ID is required");
+  }
+
+  const items = (await getUserPlaidItems(userId)).filter(
+    (item) => !itemIds || itemIds.includes(item.id)
+  );
+  if (items.length === 0) {
+    throw new Error("No linked bank accounts");
+  }
+
+  const delta: Pick<PlaidSyncResult, "added" | "modified" | "removed"> = {
+    added: [],
+    modified: [],
+    removed: [],
+  };
+  const nextCursors: { plaidItemId: string; cursor: string }[] = [];
+  const syncedItemIds: string[] = [];
+  const failed: { itemId: string; plaidItemId: string; error: unknown }[] = [];
+
+  // Each institution syncs on its own, so one failing doesn't hold back the others
+  for (const item of items) {
+    try {
+      const accessToken = await getPlaidAccessToken(userId, item.id);
+      const cursor = await getSyncCursor(userId, item.plaidItemId);
+      const itemDelta = await syncTransactions(accessToken, cursor);
+
+      console.log(
+        `🔄 Plaid sync for item ${item.plaidItemId}: ${itemDelta.added.length} added, ${itemDelta.modified.length} modified, ${itemDelta.removed.length} removed`
+      );
+
+      delta.added.push(...itemDelta.added);
+      delta.modified.push(...itemDelta.modified);
+      delta.removed.push(...itemDelta.removed);
+      nextCursors.push({ plaidItemId: item.plaidItemId, cursor: itemDelta.nextCursor });
+      syncedItemIds.push(item.id);
+
+      await updatePlaidItemAccounts(userId, item.id, itemDelta.accounts);
+    } catch (error) {
+      console.error(`❌ Plaid sync failed for item ${item.plaidItemId}:`, error);
+      failed.push({ itemId: item.id, plaidItemId: item.plaidItemId, error });
+    }
+  }
+
+  await Promise.all(
+    failed.map(({ plaidItemId, error }) =>
+      saveSyncError(userId, plaidItemId, error instanceof Error ? error.message : "Unknown error")
+    )
+  );
+
+  if (syncedItemIds.length === 0) {
+    throw failed[0].error;
+  }
+
+  const stored = (await getUserTransactions(userId))?.transactions || [];
+  const { transactions, added } = applyTransactionDeltas(stored, delta);
+
+  // Recompute debt from the analyzed transactions only; new ones are stored
+  // unanalyzed until the client sends them for analysis
+  const totals = recomputeTotals(transactions, await getConfidenceModePreference(userId));
+
+  const hasChanges =
+    delta.added.length > 0 || delta.modified.length > 0 || delta.removed.length > 0;
+
+  // Store the deltas before advancing the cursors so a failed write is retried next sync
+  // Only the transactions the deltas touched are written
+  if (hasChanges) {
+    const removedIds = new Set(delta.removed);
+    const changedIds = new Set([...delta.added, ...delta.modified].map(getTransactionId));
+
+    await deleteUserTransactions(
+      userId,
+      stored.filter((tx) => removedIds.has(getTransactionId(tx)))
+    );
+    await saveUserTransactions(
+      userId,
+      totals.transactions.filter((tx) => changedIds.has(getTransactionId(tx)))
+    );
+  }
+
+  await Promise.all(
+    nextCursors.map(({ plaidItemId, cursor }) => saveSyncCursor(userId, plaidItemId, cursor))
+  );
+
+  return {
+    itemIds: syncedItemIds,
+    failedItemIds: failed.map(({ itemId }) => itemId),
+    transactions: totals.transactions,
+    added,
+    modifiedCount: delta.modified.length,
+    removedCount: delta.removed.length,
+    totalSocietalDebt: totals.totalSocietalDebt,
+    debtPercentage: totals.debtPercentage,
+  };
+}
+
+/**
+ * Drop the stored transactions that belong to the given accounts and recompute the totals,
+ * leaving every other account's transactions (and their analysis) as they were
+ * @returns The remaining stored transactions and totals
+ */
+export async function removeAccountTransactions(
+  userId: string,
+  accountIds: string[]
+): Promise<{ transactions: Transaction[]; removedCount: number; totalSocietalDebt: number; debtPercentage: number }> {
+  const stored = (await getUserTransactions(userId))?.transactions || [];
+
+  const removedAccounts = new Set(accountIds);
+  const isRemoved = (tx: Transaction) => Boolean(tx.accountId && removedAccounts.has(tx.accountId));
+  const remaining = stored.filter((tx) => !isRemoved(tx));
+  const totals = recomputeTotals(remaining);
+  const removedCount = stored.length - remaining.length;
+
+  if (removedCount > 0) {
+    await deleteUserTransactions(userId, stored.filter(isRemoved));
+    console.log(`🗑️ Removed ${removedCount} transactions from disconnected accounts`);
+  }
+
+  return {
+    transactions: totals.transactions,
+    removedCount,
+    totalSocietalDebt: totals.totalSocietalDebt,
+    debtPercentage: totals.debtPercentage,
+  };
+}
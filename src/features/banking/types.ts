@@ -0,0 +1,32 @@
+// src/features/banking/types.ts
+
+// One account within a linked Plaid item, with the user's display settings
+export interface LinkedAccount {
+  accountId: string; // Plaid account_id, matches Transaction.accountId
+  name: string;
+  mask?: string; // Last digits of the account number
+  type: string;
+  subtype?: string;
+  nickname?: string;
+  included: boolean; // Whether the account counts towards dashboard totals
+}
+
+export type ItemSyncStatus = "never_synced" | "synced" | "error";
+
+// A linked institution as the client sees it - no tokens, opaque id only
+export interface LinkedPlaidItem {
+  id: string;
+  institutionName?: string;
+  nickname?: string;
+  accounts: LinkedAccount[];
+  createdAt: number; // millis
+  syncStatus: ItemSyncStatus;
+  lastSyncedAt?: number; // millis
+  syncError?: string;
+}
+
+// Changes a user can make to an item's display settings
+export interface LinkedItemUpdate {
+  nickname?: string;
+  accounts?: { accountId: string; nickname?: string; included?: boolean }[];
+}
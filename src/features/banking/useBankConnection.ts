@@ -2,6 +2,9 @@
 import { useState, useCallback, useEffect } from 'react';
 import { User } from 'firebase/auth';
 import { Transaction } from '@/shared/types/transactions';
+import { authFetch } from '@/shared/utils/authFetch';
+import { useLinkedItems } from './useLinkedItems';
+import { LinkedPlaidItem, LinkedItemUpdate } from './types';
 
 interface ConnectionStatus {
   isConnected: boolean;
@@ -9,17 +12,13 @@ interface ConnectionStatus {
   error: string | null;
 }
 
-interface AccessTokenInfo {
-  token: string;
-  userId: string;
-  timestamp: number;
-}
-
 interface UseBankConnectionResult {
   connectionStatus: ConnectionStatus;
   transactions: Transaction[];
+  linkedItems: LinkedPlaidItem[];
   connectBank: (publicToken: string) => Promise<void>;
-  disconnectBank: () => void;
+  disconnectBank: (itemId?: string) => Promise<void>;
+  updateLinkedItem: (itemId: string, update: LinkedItemUpdate) => Promise<void>;
   autoReconnectBank: () => Promise<boolean>;
 }
 
@@ -30,65 +29,15 @@ export function useBankConnection(user: User | null): UseBankConnectionResult {
     isLoading: false,
     error: null
   });
+  const { linkedItems, refreshLinkedItems, updateLinkedItem, disconnectItem } = useLinkedItems(user);
 
-  // Function to store access token securely
-  const storeAccessToken = useCallback((accessToken: string) => {
-    if (!user) return;
-    
-    try {
-      // Create token info with user ID and timestamp
-      const tokenInfo: AccessTokenInfo = {
-        token: accessToken,
-        userId: user.uid,
-        timestamp: Date.now()
-      };
-      
-      // Store in localStorage - in a real app, consider more secure options
-      localStorage.setItem('plaid_access_token_info', JSON.stringify(tokenInfo));
-      console.log("🔐 Access token stored successfully");
-    } catch (error) {
-      console.warn("Could not store access token:", error);
-    }
-  }, [user]);
-  
-  // Function to retrieve stored access token
-  const getStoredAccessToken = useCallback((): string | null => {
-    if (!user) return null;
-    
-    try {
-      const storedData = localStorage.getItem('plaid_access_token_info');
-      if (!storedData) return null;
-      
-      const tokenInfo: AccessTokenInfo = JSON.parse(storedData);
-      
-      // Verify the token belongs to current user
-      if (tokenInfo.userId !== user.uid) {
-        console.warn("Stored token belongs to a different user");
-        localStorage.removeItem('plaid_access_token_info');
-        return null;
-      }
-      
-      // Verify token isn't too old (30 days expiry)
-      const thirtyDaysMs = 30 * 24 * 60 * 60 * 1000;
-      if (Date.now() - tokenInfo.timestamp > thirtyDaysMs) {
-        console.warn("Stored token has expired");
-        localStorage.removeItem('plaid_access_token_info');
-        return null;
-      }
-      
-      return tokenInfo.token;
-    } catch (error) {
-      console.warn("Error retrieving stored access token:", error);
-      return null;
-    }
-  }, [user]);
-
-  // Function to fetch transactions with a given access token
-  const fetchTransactions = useCallback(async (accessToken: string): Promise<Transaction[]> => {
-    const response = await fetch("/api/banking/transactions", {
+  // Function to fetch transactions for the user's linked items
+  // Access tokens stay on the server; it looks them up for this user
+  const fetchTransactions = useCallback(async (itemId?: string): Promise<Transaction[]> => {
+    const response = await authFetch("/api/banking/transactions", {
       method: "POST",
       headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ access_token: accessToken }),
+      body: JSON.stringify({ itemId }),
     });
 
     if (!response.ok) {
@@ -127,7 +76,7 @@ export function useBankConnection(user: User | null): UseBankConnectionResult {
 
     try {
       // Exchange public token for access token
-      const tokenResponse = await fetch("/api/banking/exchange_token", {
+      const tokenResponse = await authFetch("/api/banking/exchange_token", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({ public_token: publicToken }),
@@ -139,13 +88,10 @@ export function useBankConnection(user: User | null): UseBankConnectionResult {
 
       const tokenData = await tokenResponse.json();
       
-      if (!tokenData.access_token) {
-        throw new Error("No access token received from Plaid");
+      if (!tokenData.itemId) {
+        throw new Error("Bank connection was not saved");
       }
 
-      // Store the access token securely
-      storeAccessToken(tokenData.access_token);
-
       // Mark connection as successful even before retrieving transactions
       setConnectionStatus({
         isConnected: true,
@@ -153,9 +99,13 @@ export function useBankConnection(user: User | null): UseBankConnectionResult {
         error: null
       });
 
-      // Now get transactions
-      const fetchedTransactions = await fetchTransactions(tokenData.access_token);
-      setTransactions(fetchedTransactions);
+      // Now get transactions for the new item, keeping the other institutions' ones
+      const fetchedTransactions = await fetchTransactions(tokenData.itemId);
+      setTransactions(prev => {
+        const newAccountIds = new Set(fetchedTransactions.map(tx => tx.accountId));
+        return [...prev.filter(tx => !newAccountIds.has(tx.accountId)), ...fetchedTransactions];
+      });
+      await refreshLinkedItems();
       
       setConnectionStatus({
         isConnected: true,
@@ -172,7 +122,7 @@ export function useBankConnection(user: User | null): UseBankConnectionResult {
         error: error instanceof Error ? error.message : "Failed to connect bank account"
       });
     }
-  }, [storeAccessToken, fetchTransactions]);
+  }, [fetchTransactions, refreshLinkedItems]);
 
   // Auto reconnect function - called on component mount to restore previous connection
   const autoReconnectBank = useCallback(async (): Promise<boolean> => {
@@ -188,11 +138,11 @@ export function useBankConnection(user: User | null): UseBankConnectionResult {
     });
     
     try {
-      // Try to get the stored access token
-      const accessToken = getStoredAccessToken();
-      
-      if (!accessToken) {
-        console.log("No stored access token found - cannot auto-reconnect");
+      // Check whether the server has any linked items for this user
+      const items = await refreshLinkedItems();
+
+      if (items.length === 0) {
+        console.log("No linked bank accounts found - cannot auto-reconnect");
         setConnectionStatus({
           isConnected: false,
           isLoading: false,
@@ -201,10 +151,10 @@ export function useBankConnection(user: User | null): UseBankConnectionResult {
         return false;
       }
       
-      console.log("🔄 Auto-reconnecting with stored access token");
+      console.log("🔄 Auto-reconnecting with linked bank accounts");
       
-      // Verify the access token is still valid by fetching transactions
-      const fetchedTransactions = await fetchTransactions(accessToken);
+      // Verify the linked items still work by fetching transactions
+      const fetchedTransactions = await fetchTransactions();
       setTransactions(fetchedTransactions);
       
       // Update connection status
@@ -219,9 +169,6 @@ export function useBankConnection(user: User | null): UseBankConnectionResult {
     } catch (error) {
       console.error("Auto-reconnect failed:", error);
       
-      // Clear the stored token since it's invalid
-      localStorage.removeItem('plaid_access_token_info');
-      
       setConnectionStatus({
         isConnected: false,
         isLoading: false,
@@ -230,23 +177,32 @@ export function useBankConnection(user: User | null): UseBankConnectionResult {
       
       return false;
     }
-  }, [connectionStatus.isConnected, user, getStoredAccessToken, fetchTransactions]);
-
-  // Disconnect bank function
-  const disconnectBank = useCallback(() => {
-    console.log("Disconnecting bank account");
-    
-    // Clear stored access token
-    localStorage.removeItem('plaid_access_token_info');
-    
-    // Reset state
-    setTransactions([]);
+  }, [connectionStatus.isConnected, user, fetchTransactions, refreshLinkedItems]);
+
+  // Disconnect one institution, or every linked one when no id is given
+  const disconnectBank = useCallback(async (itemId?: string) => {
+    console.log(itemId ? `Disconnecting bank item ${itemId}` : "Disconnecting all bank accounts");
+
+    const disconnected = itemId ? linkedItems.filter(item => item.id === itemId) : linkedItems;
+    const removedAccountIds = new Set(
+      disconnected.flatMap(item => item.accounts.map(account => account.accountId))
+    );
+
+    // Remove the linked items (and their tokens) on the server
+    await disconnectItem(itemId);
+
+    const remainingItems = linkedItems.length - disconnected.length;
+    setTransactions(prev =>
+      itemId && remainingItems > 0
+        ? prev.filter(tx => !tx.accountId || !removedAccountIds.has(tx.accountId))
+        : []
+    );
     setConnectionStatus({
-      isConnected: false,
+      isConnected: Boolean(itemId) && remainingItems > 0,
       isLoading: false,
       error: null
     });
-  }, []);
+  }, [linkedItems, disconnectItem]);
 
   // Auto-reconnect on initial load
   useEffect(() => {
@@ -260,8 +216,10 @@ export function useBankConnection(user: User | null): UseBankConnectionResult {
   return {
     connectionStatus,
     transactions,
+    linkedItems,
     connectBank,
     disconnectBank,
+    updateLinkedItem,
     autoReconnectBank
   };
 }
\ No newline at end of file
@@ -0,0 +1,124 @@
+// src/features/banking/useLinkedItems.ts
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import { User } from 'firebase/auth';
+import { Transaction } from '@/shared/types/transactions';
+import { authFetch } from '@/shared/utils/authFetch';
+import { LinkedPlaidItem, LinkedItemUpdate } from './types';
+
+// What the server keeps after an item is disconnected
+export interface DisconnectResult {
+  transactions: Transaction[];
+  removedCount: number;
+  totalSocietalDebt: number;
+  debtPercentage: number;
+}
+
+interface UseLinkedItemsResult {
+  linkedItems: LinkedPlaidItem[];
+  isLoading: boolean;
+  error: string | null;
+  excludedAccountIds: Set<string>;
+  refreshLinkedItems: () => Promise<LinkedPlaidItem[]>;
+  updateLinkedItem: (itemId: string, update: LinkedItemUpdate) => Promise<void>;
+  disconnectItem: (itemId?: string) => Promise<DisconnectResult | null>;
+}
+
+/**
+ * The user's linked institutions and accounts, with their sync state and display settings
+ */
+export function useLinkedItems(user: User | null): UseLinkedItemsResult {
+  const [linkedItems, setLinkedItems] = useState<LinkedPlaidItem[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refreshLinkedItems = useCallback(async (): Promise<LinkedPlaidItem[]> => {
+    if (!user) {
+      setLinkedItems([]);
+      return [];
+    }
+
+    setIsLoading(true);
+    try {
+      const response = await authFetch("/api/banking/items");
+      if (!response.ok) {
+        throw new Error(`Failed to load linked accounts: ${response.status}`);
+      }
+
+      const { items = [] } = await response.json();
+      setLinkedItems(items);
+      setError(null);
+      return items;
+    } catch (error) {
+      console.error("Error loading linked accounts:", error);
+      setError(error instanceof Error ? error.message : "Failed to load linked accounts");
+      return [];
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user]);
+
+  const updateLinkedItem = useCallback(async (itemId: string, update: LinkedItemUpdate) => {
+    const response = await authFetch("/api/banking/items", {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ itemId, ...update }),
+    });
+
+    if (!response.ok) {
+      setError(`Failed to update linked account: ${response.status}`);
+      return;
+    }
+
+    const { item } = await response.json();
+    setLinkedItems(prev => prev.map(existing => (existing.id === item.id ? item : existing)));
+    setError(null);
+  }, []);
+
+  // Disconnect one institution, or all of them when no id is given
+  const disconnectItem = useCallback(async (itemId?: string): Promise<DisconnectResult | null> => {
+    const url = itemId
+      ? `/api/banking/items?itemId=${encodeURIComponent(itemId)}`
+      : "/api/banking/items";
+
+    try {
+      const response = await authFetch(url, { method: "DELETE" });
+      if (!response.ok) {
+        throw new Error(`Failed to disconnect bank: ${response.status}`);
+      }
+
+      const result = await response.json();
+      setLinkedItems(prev => (itemId ? prev.filter(item => item.id !== itemId) : []));
+      setError(null);
+      return result;
+    } catch (error) {
+      console.warn("Could not remove linked bank accounts:", error);
+      setError(error instanceof Error ? error.message : "Failed to disconnect bank");
+      return null;
+    }
+  }, []);
+
+  // Accounts the user has switched off, which don't count towards totals
+  const excludedAccountIds = useMemo(
+    () =>
+      new Set(
+        linkedItems.flatMap(item =>
+          item.accounts.filter(account => !account.included).map(account => account.accountId)
+        )
+      ),
+    [linkedItems]
+  );
+
+  useEffect(() => {
+    refreshLinkedItems().catch(err => console.error("Error loading linked accounts:", err));
+  }, [refreshLinkedItems]);
+
+  return {
+    linkedItems,
+    isLoading,
+    error,
+    excludedAccountIds,
+    refreshLinkedItems,
+    updateLinkedItem,
+    disconnectItem
+  };
+}
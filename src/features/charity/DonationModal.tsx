@@ -6,24 +6,32 @@ import {
   CharitySearchResult, 
   getRecommendedCharities, 
   createDonationUrl, 
-  cleanPracticeName 
+  cleanPracticeName,
+  donationCharityId
 } from "./charityService";
 import { CharitySearch } from "./CharitySearch";
 import { CharityImage } from "./CharityImage";
+import { OffsetInput, createOffsetId } from "./offsetLedger";
+import { useFavoriteCharities } from "./useFavoriteCharities";
+import { UNCATEGORIZED } from "@/features/analysis/impactAggregation";
 import { LoadingSpinner } from "@/components/ui/LoadingSpinner";
 
 interface DonationModalProps {
   practice: string;
   amount: number;
+  category?: string;
   isOpen: boolean;
   onClose: () => void;
+  onDonate?: (offset: OffsetInput) => void; // Records the donation in the offset ledger
 }
 
 export function DonationModal({
   practice,
   amount,
+  category: practiceCategory,
   isOpen,
   onClose,
+  onDonate,
 }: DonationModalProps) {
   // State management
   const [selectedCharity, setSelectedCharity] = useState<CharitySearchResult | null>(null);
@@ -32,6 +40,14 @@ export function DonationModal({
   const [recommendedCharities, setRecommendedCharities] = useState<CharitySearchResult[]>([]);
   const [loadingRecommendations, setLoadingRecommendations] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const { favorites, isLoading: loadingFavorites, saveFavorite, removeFavorite } = useFavoriteCharities();
+
+  // Practices the analysis couldn't place have no category to keep a favorite for
+  const category = practiceCategory !== UNCATEGORIZED ? practiceCategory : undefined;
+
+  // The user's preferred charity for this category, if they picked one
+  const favorite = category ? favorites[category] : undefined;
+  const isFavoriteSelected = Boolean(favorite && selectedCharity?.id === favorite.charity.id);
 
   // Format practice name for display
   const cleanedPractice = cleanPracticeName(practice);
@@ -45,12 +61,16 @@ export function DonationModal({
     }
   }, [isOpen, practice]); // eslint-disable-line react-hooks/exhaustive-deps
 
-  // Set a default charity when recommendations load
+  // Default to the user's favorite for the category, otherwise the top recommendation
   useEffect(() => {
-    if (recommendedCharities.length > 0 && !selectedCharity) {
+    if (selectedCharity || loadingFavorites) return;
+
+    if (favorite) {
+      setSelectedCharity(favorite.charity);
+    } else if (recommendedCharities.length > 0) {
       setSelectedCharity(recommendedCharities[0]);
     }
-  }, [recommendedCharities, selectedCharity]);
+  }, [recommendedCharities, selectedCharity, favorite, loadingFavorites]);
 
   // Function to fetch recommended charities
   const fetchRecommendedCharities = async () => {
@@ -59,7 +79,7 @@ export function DonationModal({
     
     try {
       console.log(`Fetching charities for: ${practice}`);
-      const charities = await getRecommendedCharities(practice);
+      const charities = await getRecommendedCharities(practice, category);
       
       if (charities.length === 0) {
         // If no specific recommendations, try a more generic search term
@@ -81,21 +101,35 @@ export function DonationModal({
   // Handle donation submission
   const handleDonate = () => {
     if (!selectedCharity) return;
+    if (!(donationAmount > 0)) {
+      setError("Enter a donation amount above zero.");
+      return;
+    }
     
     try {
       // Get charity ID from the URL or the ID field
-      const charityId = selectedCharity.id || 
-                         selectedCharity.url?.split('/').pop() || 
-                         'everydotorg';
+      const charityId = donationCharityId(selectedCharity);
       
       // Create donation URL consistently using our helper
+      const offsetId = createOffsetId();
       const donationUrl = createDonationUrl(
         charityId, 
         donationAmount, 
-        practice
+        practice,
+        offsetId
       );
       
       console.log("Opening donation URL:", donationUrl);
+
+      // Recorded as intended until the donation is confirmed
+      onDonate?.({
+        id: offsetId,
+        charityId,
+        charityName: selectedCharity.name,
+        amount: donationAmount,
+        practice: cleanedPractice,
+        ...(category ? { category } : {}),
+      });
       
       // Open donation URL in a new tab
       window.open(donationUrl, "_blank");
@@ -137,7 +171,43 @@ export function DonationModal({
               {selectedCharity.mission && (
                 <p className="text-gray-600 text-sm mt-1 mb-2">{selectedCharity.mission}</p>
               )}
-              <div className="mt-2 flex justify-end">
+              {(selectedCharity.ein || selectedCharity.location) && (
+                <p className="text-xs text-gray-500">
+                  {[selectedCharity.ein && `EIN ${selectedCharity.ein}`, selectedCharity.location]
+                    .filter(Boolean)
+                    .join(" · ")}
+                </p>
+              )}
+              {selectedCharity.relevance && selectedCharity.relevance.reasons.length > 0 && (
+                <ul className="mt-2 text-xs text-green-700 list-disc list-inside">
+                  {selectedCharity.relevance.reasons.map((reason) => (
+                    <li key={reason}>{reason}</li>
+                  ))}
+                </ul>
+              )}
+              <div className="mt-2 flex justify-between items-center">
+                {category ? (
+                  isFavoriteSelected ? (
+                    <span className="text-sm text-yellow-700">
+                      ★ Your favorite for {category}{" "}
+                      <button
+                        onClick={() => removeFavorite(category)}
+                        className="text-gray-500 hover:text-gray-700 underline ml-1"
+                      >
+                        Unfavorite
+                      </button>
+                    </span>
+                  ) : (
+                    <button
+                      onClick={() => saveFavorite(category, selectedCharity)}
+                      className="text-sm text-yellow-700 hover:text-yellow-900 underline"
+                    >
+                      ☆ Make this my favorite for {category}
+                    </button>
+                  )
+                ) : (
+                  <span />
+                )}
                 <button
                   onClick={() => setShowSearch(true)}
                   className="text-blue-600 hover:text-blue-800 text-sm underline"
@@ -200,6 +270,11 @@ export function DonationModal({
                         <div>
                           <h4 className="font-medium text-blue-700">{charity.name}</h4>
                           <p className="text-xs text-gray-700 truncate">{charity.mission}</p>
+                          {charity.relevance?.reasons[0] && (
+                            <p className="text-xs text-green-700 truncate">
+                              {charity.relevance.reasons[0]}
+                            </p>
+                          )}
                         </div>
                       </div>
                     </div>
@@ -0,0 +1,215 @@
+// src/features/charity/OffsetEverythingModal.tsx
+"use client";
+
+import { useState, useEffect, useMemo } from "react";
+import { createDonationUrl, donationCharityId } from "./charityService";
+import { IMPACT_CATEGORIES, OffsetAllocation, splitAcrossFavorites } from "./favoriteCharities";
+import { ALL_SOCIETAL_DEBT, OffsetInput, createOffsetId } from "./offsetLedger";
+import { useFavoriteCharities } from "./useFavoriteCharities";
+import { CharityImage } from "./CharityImage";
+import { LoadingSpinner } from "@/components/ui/LoadingSpinner";
+
+interface OffsetEverythingModalProps {
+  amount: number; // Suggested total, usually the net societal debt
+  categoryDebts: Record<string, number>;
+  isOpen: boolean;
+  onClose: () => void;
+  onDonate?: (offset: OffsetInput) => void;
+}
+
+interface OpenedDonation {
+  allocation: OffsetAllocation;
+  url: string;
+  blocked: boolean;
+}
+
+/**
+ * One donation split across the user's favorite charities by how much debt each category carries
+ */
+export function OffsetEverythingModal({
+  amount,
+  categoryDebts,
+  isOpen,
+  onClose,
+  onDonate,
+}: OffsetEverythingModalProps) {
+  const [donationAmount, setDonationAmount] = useState(Math.max(5, Math.round(amount)));
+  const [opened, setOpened] = useState<OpenedDonation[] | null>(null);
+  const { favorites, isLoading, error, removeFavorite } = useFavoriteCharities();
+
+  // Start fresh each time the modal opens, since the debt may have changed
+  useEffect(() => {
+    if (isOpen) {
+      setDonationAmount(Math.max(5, Math.round(amount)));
+      setOpened(null);
+    }
+  }, [isOpen]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const split = useMemo(
+    () => splitAcrossFavorites(donationAmount, categoryDebts, favorites),
+    [donationAmount, categoryDebts, favorites]
+  );
+
+  // Every donation is recorded; browsers may block all but the first tab, so those are listed to open by hand
+  const handleDonateAll = () => {
+    const results = split.allocations.map((allocation) => {
+      const offsetId = createOffsetId();
+      const charityId = donationCharityId(allocation.charity);
+      const url = createDonationUrl(charityId, allocation.amount, allocation.category, offsetId);
+
+      onDonate?.({
+        id: offsetId,
+        charityId,
+        charityName: allocation.charity.name,
+        amount: allocation.amount,
+        practice: ALL_SOCIETAL_DEBT,
+        category: allocation.category,
+      });
+
+      return { allocation, url, blocked: window.open(url, "_blank") === null };
+    });
+
+    setOpened(results);
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-lg max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          <h2 className="text-2xl font-bold text-gray-800 mb-2">Offset Everything</h2>
+          <p className="text-gray-700 mb-4">
+            Split one donation across your favorite charities, weighted by the debt in each category.
+          </p>
+
+          {error && (
+            <div className="mb-4 p-3 bg-red-100 text-red-700 rounded-md">{error}</div>
+          )}
+
+          {opened ? (
+            <div className="mb-6 space-y-2">
+              <p className="text-gray-700">
+                Recorded {opened.length} donation{opened.length === 1 ? "" : "s"}. Complete each one on
+                every.org; they&apos;ll be confirmed once every.org tells us they went through.
+              </p>
+              {opened.map(({ allocation, url, blocked }) => (
+                <div key={allocation.category} className="flex items-center justify-between text-sm">
+                  <span>
+                    {allocation.charity.name} - ${allocation.amount.toFixed(2)}
+                  </span>
+                  <a href={url} target="_blank" rel="noopener noreferrer" className="text-blue-600 underline">
+                    {blocked ? "Open donation page" : "Open again"}
+                  </a>
+                </div>
+              ))}
+            </div>
+          ) : isLoading ? (
+            <LoadingSpinner message="Loading your favorite charities..." />
+          ) : (
+            <>
+              <div className="mb-4">
+                <label className="block text-gray-700 mb-2">Total Donation</label>
+                <div className="flex items-center">
+                  <span className="text-gray-700 text-lg mr-2">$</span>
+                  <input
+                    type="number"
+                    min="1"
+                    value={donationAmount}
+                    onChange={(e) => setDonationAmount(Number(e.target.value))}
+                    className="w-full p-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-400 text-gray-800 font-medium"
+                  />
+                </div>
+              </div>
+
+              {split.allocations.length > 0 ? (
+                <div className="mb-4 space-y-2">
+                  {split.allocations.map((allocation) => (
+                    <div
+                      key={allocation.category}
+                      className="flex items-center border border-gray-200 rounded p-3"
+                    >
+                      <CharityImage
+                        src={allocation.charity.logoUrl}
+                        alt={allocation.charity.name}
+                        className="mr-3"
+                        width={32}
+                        height={32}
+                      />
+                      <div className="flex-1 min-w-0">
+                        <h4 className="font-medium text-blue-700 truncate">{allocation.charity.name}</h4>
+                        <p className="text-xs text-gray-500">{allocation.category}</p>
+                      </div>
+                      <div className="text-right">
+                        <div className="font-bold text-gray-800">${allocation.amount.toFixed(2)}</div>
+                        <div className="text-xs text-gray-500">{allocation.share.toFixed(0)}%</div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <div className="mb-4 p-3 bg-yellow-50 text-yellow-800 rounded-md text-sm">
+                  None of the categories you owe debt in has a favorite charity yet.
+                </div>
+              )}
+
+              {split.uncovered.length > 0 && (
+                <p className="mb-4 text-xs text-gray-600">
+                  No favorite for {split.uncovered.join(", ")}, so their share goes to the others. Use
+                  &quot;Make this my favorite&quot; when offsetting a practice in those categories to
+                  include them.
+                </p>
+              )}
+
+              <div className="mb-6 border-t pt-4">
+                <h3 className="font-semibold text-gray-800 mb-2">Your Favorite Charities</h3>
+                <ul className="space-y-1 text-sm">
+                  {IMPACT_CATEGORIES.map((category) => (
+                    <li key={category} className="flex items-center justify-between">
+                      <span className="text-gray-600">{category}</span>
+                      {favorites[category] ? (
+                        <span className="flex items-center">
+                          <span className="text-gray-800 mr-2">{favorites[category].charity.name}</span>
+                          <button
+                            onClick={() => removeFavorite(category)}
+                            className="text-xs text-red-600 hover:underline"
+                          >
+                            Remove
+                          </button>
+                        </span>
+                      ) : (
+                        <span className="text-gray-400">None yet</span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            </>
+          )}
+
+          <div className="flex justify-end space-x-3">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 bg-gray-300 hover:bg-gray-400 text-gray-800 rounded-lg"
+            >
+              {opened ? "Done" : "Cancel"}
+            </button>
+            {!opened && (
+              <button
+                onClick={handleDonateAll}
+                disabled={split.allocations.length === 0}
+                className={`px-4 py-2 rounded-lg text-white ${
+                  split.allocations.length > 0
+                    ? "bg-green-600 hover:bg-green-700"
+                    : "bg-gray-400 cursor-not-allowed"
+                }`}
+              >
+                Donate to All
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+// src/features/charity/OffsetHistoryView.tsx
+"use client";
+
+import { useMemo, useState } from "react";
+import { OffsetEntry, OffsetSummary, offsetsByPractice } from "./offsetLedger";
+
+interface OffsetHistoryViewProps {
+  offsets: OffsetEntry[];
+  offsetSummary: OffsetSummary;
+  totalSocietalDebt: number;
+  onConfirmOffset: (offsetId: string) => Promise<void>;
+  onRemoveOffset: (offsetId: string) => Promise<void>;
+}
+
+export function OffsetHistoryView({
+  offsets,
+  offsetSummary,
+  totalSocietalDebt,
+  onConfirmOffset,
+  onRemoveOffset,
+}: OffsetHistoryViewProps) {
+  const [expandedPractices, setExpandedPractices] = useState<Record<string, boolean>>({});
+  const [busyOffsetId, setBusyOffsetId] = useState<string | null>(null);
+
+  const histories = useMemo(() => offsetsByPractice(offsets), [offsets]);
+  const netDebt = totalSocietalDebt - offsetSummary.confirmed;
+
+  const togglePractice = (practice: string) => {
+    setExpandedPractices(prev => ({ ...prev, [practice]: !prev[practice] }));
+  };
+
+  const run = async (offsetId: string, action: (offsetId: string) => Promise<void>) => {
+    setBusyOffsetId(offsetId);
+    await action(offsetId);
+    setBusyOffsetId(null);
+  };
+
+  if (offsets.length === 0) {
+    return (
+      <div className="bg-white rounded-xl shadow-md p-6 text-center text-gray-600">
+        No donations yet. Use an &quot;Offset&quot; button on any view to donate against your
+        societal debt.
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow-md p-6">
+      <h2 className="text-lg font-semibold text-gray-800 mb-4">Offset History</h2>
+
+      <div className="grid grid-cols-3 gap-4 mb-6 text-center">
+        <div>
+          <div className="text-sm text-gray-600">Societal Debt</div>
+          <div className="text-xl font-bold text-red-600">${totalSocietalDebt.toFixed(2)}</div>
+        </div>
+        <div>
+          <div className="text-sm text-gray-600">Confirmed Offsets</div>
+          <div className="text-xl font-bold text-green-600">${offsetSummary.confirmed.toFixed(2)}</div>
+          {offsetSummary.pending > 0 && (
+            <div className="text-xs text-gray-500">${offsetSummary.pending.toFixed(2)} pending</div>
+          )}
+        </div>
+        <div>
+          <div className="text-sm text-gray-600">Net Societal Debt</div>
+          <div className={`text-xl font-bold ${netDebt > 0 ? "text-red-600" : "text-green-600"}`}>
+            ${netDebt.toFixed(2)}
+          </div>
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        {histories.map(history => (
+          <div key={history.practice} className="border border-gray-200 rounded-lg">
+            <button
+              onClick={() => togglePractice(history.practice)}
+              className="w-full flex items-center justify-between p-3 hover:bg-gray-50 text-left"
+            >
+              <div>
+                <div className="font-medium text-gray-800">{history.practice}</div>
+                {history.category && (
+                  <div className="text-xs text-gray-500">{history.category}</div>
+                )}
+              </div>
+              <div className="text-right">
+                <div className="font-bold text-green-600">${history.confirmed.toFixed(2)}</div>
+                {history.pending > 0 && (
+                  <div className="text-xs text-gray-500">${history.pending.toFixed(2)} pending</div>
+                )}
+              </div>
+            </button>
+
+            {expandedPractices[history.practice] && (
+              <table className="w-full text-sm border-t border-gray-200">
+                <tbody>
+                  {history.entries.map(offset => (
+                    <tr key={offset.id} className="border-b border-gray-100 last:border-b-0">
+                      <td className="p-2 text-gray-600">
+                        {new Date(offset.createdAt).toLocaleDateString()}
+                      </td>
+                      <td className="p-2">{offset.charityName}</td>
+                      <td className="p-2 text-right">${offset.amount.toFixed(2)}</td>
+                      <td className="p-2 text-right">
+                        {offset.status === "confirmed" ? (
+                          <span className="text-green-700">
+                            {offset.confirmedVia === "every.org" ? "Confirmed by every.org" : "Confirmed"}
+                          </span>
+                        ) : (
+                          <span className="space-x-2">
+                            <span className="text-yellow-700">Pending</span>
+                            <button
+                              onClick={() => run(offset.id, onConfirmOffset)}
+                              disabled={busyOffsetId === offset.id}
+                              className="text-xs text-blue-600 underline"
+                            >
+                              I donated
+                            </button>
+                            <button
+                              onClick={() => run(offset.id, onRemoveOffset)}
+                              disabled={busyOffsetId === offset.id}
+                              className="text-xs text-red-600 underline"
+                            >
+                              Remove
+                            </button>
+                          </span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
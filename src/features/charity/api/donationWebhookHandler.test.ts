@@ -0,0 +1,123 @@
+// src/features/charity/api/donationWebhookHandler.test.ts
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createHmac } from "crypto";
+import { NextRequest } from "next/server";
+import { config } from "@/config";
+import { OffsetConfirmation, OffsetEntry } from "../offsetLedger";
+import { createDonationWebhookHandler } from "./donationWebhookHandler";
+
+const SECRET = "webhook-secret";
+const OFFSET_ID = "3f2b8c1e-offset-0001";
+
+const intended: OffsetEntry = {
+  id: OFFSET_ID,
+  charityId: "catf",
+  charityName: "Clean Air Task Force",
+  amount: 20,
+  practice: "High Emissions",
+  status: "intended",
+  createdAt: Date.UTC(2025, 2, 1),
+};
+
+// A ledger holding one offset for user-1, recording every confirmation it is asked for
+function createLedger() {
+  const confirmations: { userId: string; offsetId: string; confirmation: OffsetConfirmation }[] = [];
+
+  return {
+    confirmations,
+    ledger: {
+      findOffsetOwner: async (offsetId: string) => (offsetId === OFFSET_ID ? "user-1" : null),
+      confirmOffset: async (userId: string, offsetId: string, confirmation: OffsetConfirmation) => {
+        confirmations.push({ userId, offsetId, confirmation });
+        return {
+          ...intended,
+          status: "confirmed" as const,
+          confirmedVia: confirmation.via,
+          amount: confirmation.amount ?? intended.amount,
+        };
+      },
+    },
+  };
+}
+
+function webhookRequest(payload: object, { timestamp = Math.floor(Date.now() / 1000), tamper = false } = {}) {
+  const body = JSON.stringify(payload);
+  const signature = createHmac("sha256", SECRET).update(`${timestamp}.${body}`).digest("hex");
+
+  return new NextRequest("http://localhost/api/charity/webhook", {
+    method: "POST",
+    headers: {
+      "content-type": "application/json",
+      [config.charity.webhookSignatureHeader]: signature,
+      [config.charity.webhookTimestampHeader]: String(timestamp),
+    },
+    body: tamper ? body.replace('"25.00"', '"2500.00"') : body,
+  });
+}
+
+const donation = { partnerDonationId: OFFSET_ID, chargeId: "ch_123", amount: "25.00", currency: "USD" };
+
+describe("donationWebhookHandler", () => {
+  const originalSecret = config.charity.webhookSecret;
+
+  before(() => {
+    config.charity.webhookSecret = SECRET;
+  });
+
+  after(() => {
+    config.charity.webhookSecret = originalSecret;
+  });
+
+  it("confirms the offset a correctly signed donation refers to", async () => {
+    const { ledger, confirmations } = createLedger();
+    const response = await createDonationWebhookHandler(ledger)(webhookRequest(donation));
+
+    assert.equal(response.status, 200);
+    assert.deepEqual(await response.json(), { matched: true, offsetId: OFFSET_ID });
+    assert.deepEqual(confirmations, [
+      { userId: "user-1", offsetId: OFFSET_ID, confirmation: { via: "every.org", amount: 25, chargeId: "ch_123" } },
+    ]);
+  });
+
+  it("rejects a tampered body without touching the ledger", async () => {
+    const { ledger, confirmations } = createLedger();
+    const response = await createDonationWebhookHandler(ledger)(webhookRequest(donation, { tamper: true }));
+
+    assert.equal(response.status, 401);
+    assert.equal(confirmations.length, 0);
+  });
+
+  it("rejects a replayed webhook with a stale timestamp", async () => {
+    const { ledger, confirmations } = createLedger();
+    const stale = Math.floor(Date.now() / 1000) - config.charity.webhookToleranceSeconds - 60;
+    const response = await createDonationWebhookHandler(ledger)(webhookRequest(donation, { timestamp: stale }));
+
+    assert.equal(response.status, 401);
+    assert.deepEqual(await response.json(), { error: "Timestamp is outside the tolerance" });
+    assert.equal(confirmations.length, 0);
+  });
+
+  it("acknowledges a donation for an unknown partnerDonationId without confirming anything", async () => {
+    const { ledger, confirmations } = createLedger();
+    const response = await createDonationWebhookHandler(ledger)(
+      webhookRequest({ ...donation, partnerDonationId: "0000aaaa-not-ours" })
+    );
+
+    assert.equal(response.status, 200);
+    assert.deepEqual(await response.json(), { matched: false, reason: "Unknown reference" });
+    assert.equal(confirmations.length, 0);
+  });
+
+  it("refuses every webhook when no secret is configured", async () => {
+    const { ledger } = createLedger();
+    config.charity.webhookSecret = undefined;
+
+    try {
+      const response = await createDonationWebhookHandler(ledger)(webhookRequest(donation));
+      assert.equal(response.status, 503);
+    } finally {
+      config.charity.webhookSecret = SECRET;
+    }
+  });
+});
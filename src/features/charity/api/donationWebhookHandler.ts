@@ -0,0 +1,89 @@
+// src/features/charity/api/donationWebhookHandler.ts
+// Receives every.org's partner webhook and confirms the matching offset
+
+import { NextRequest, NextResponse } from "next/server";
+import { config } from "@/config";
+import { verifyWebhookSignature, parseDonationWebhook } from "../donationWebhook";
+import { findOffsetOwner, confirmOffset } from "../offsetLedgerService";
+
+// The ledger lookups the webhook needs; tests pass their own instead of Firestore
+export interface DonationWebhookLedger {
+  findOffsetOwner: typeof findOffsetOwner;
+  confirmOffset: typeof confirmOffset;
+}
+
+/**
+ * Build the webhook handler over a ledger
+ * Called by every.org rather than a signed-in user, so it authenticates by signature
+ * Donations we can't match are acknowledged so every.org doesn't keep retrying them
+ */
+export function createDonationWebhookHandler(
+  ledger: DonationWebhookLedger = { findOffsetOwner, confirmOffset }
+) {
+  return async (req: NextRequest) => {
+    try {
+      const secret = config.charity.webhookSecret;
+      if (!secret) {
+        console.error("❌ EVERY_ORG_WEBHOOK_SECRET is not configured");
+        return NextResponse.json({ error: "Webhook not configured" }, { status: 503 });
+      }
+
+      // Signatures cover the exact bytes sent, so read the body as text first
+      const rawBody = await req.text();
+      const rejection = verifyWebhookSignature(
+        rawBody,
+        req.headers.get(config.charity.webhookSignatureHeader),
+        req.headers.get(config.charity.webhookTimestampHeader),
+        secret,
+        config.charity.webhookToleranceSeconds
+      );
+      if (rejection) {
+        console.warn(`⚠️ Rejected donation webhook: ${rejection}`);
+        return NextResponse.json({ error: rejection }, { status: 401 });
+      }
+
+      let body: unknown;
+      try {
+        body = JSON.parse(rawBody);
+      } catch {
+        return NextResponse.json({ error: "Body must be JSON" }, { status: 400 });
+      }
+
+      const donation = parseDonationWebhook(body);
+      if (typeof donation === "string") {
+        return NextResponse.json({ error: donation }, { status: 400 });
+      }
+
+      if (donation.currency !== "USD") {
+        console.warn(`⚠️ Donation ${donation.reference} was in ${donation.currency}; leaving it pending`);
+        return NextResponse.json({ matched: false, reason: "Unsupported currency" });
+      }
+
+      const userId = await ledger.findOffsetOwner(donation.reference);
+      if (!userId) {
+        console.warn(`⚠️ No offset matches donation reference ${donation.reference}`);
+        return NextResponse.json({ matched: false, reason: "Unknown reference" });
+      }
+
+      const offset = await ledger.confirmOffset(userId, donation.reference, {
+        via: "every.org",
+        amount: donation.amount,
+        chargeId: donation.chargeId,
+      });
+      if (!offset) {
+        return NextResponse.json({ matched: false, reason: "Offset was removed" });
+      }
+
+      console.log(`🎉 every.org confirmed a $${donation.amount} donation for offset ${offset.id}`);
+      return NextResponse.json({ matched: true, offsetId: offset.id });
+    } catch (error) {
+      console.error("❌ Error handling donation webhook:", error);
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : "Internal server error" },
+        { status: 500 }
+      );
+    }
+  };
+}
+
+export const donationWebhookHandler = createDonationWebhookHandler();
@@ -0,0 +1,101 @@
+// src/features/charity/api/favoriteCharitiesHandler.ts
+// API handlers for the charity a user prefers in each impact category
+
+import { NextRequest, NextResponse } from "next/server";
+import { AuthContext } from "@/shared/utils/withAuth";
+import {
+  getFavoriteCharities,
+  saveFavoriteCharity,
+  removeFavoriteCharity,
+} from "../favoriteCharityService";
+import { CharitySearchResult } from "../charityService";
+import { IMPACT_CATEGORIES } from "../favoriteCharities";
+
+function nonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.trim().length > 0;
+}
+
+// Favorites are only used for the categories offsets are split across
+function isCategory(value: unknown): value is string {
+  return typeof value === "string" && IMPACT_CATEGORIES.includes(value.trim());
+}
+
+const INVALID_CATEGORY = `category must be one of ${IMPACT_CATEGORIES.join(", ")}`;
+
+/**
+ * Check a charity from the client; only what we store needs to be there
+ */
+function toCharity(value: unknown): CharitySearchResult | null {
+  if (!value || typeof value !== "object") return null;
+
+  const charity = value as Record<string, unknown>;
+  if (!nonEmptyString(charity.id) || !nonEmptyString(charity.name)) return null;
+
+  const optionalString = (field: string) =>
+    nonEmptyString(charity[field]) ? (charity[field] as string) : undefined;
+
+  return {
+    id: charity.id,
+    name: charity.name,
+    url: optionalString("url") || "https://www.every.org",
+    mission: optionalString("mission") || "",
+    category: optionalString("category") || "Charity",
+    logoUrl: optionalString("logoUrl"),
+    donationUrl: optionalString("donationUrl"),
+    slug: optionalString("slug"),
+    ein: optionalString("ein"),
+  };
+}
+
+export async function getFavoriteCharitiesHandler(req: NextRequest, { uid: userId }: AuthContext) {
+  try {
+    return NextResponse.json({ favorites: await getFavoriteCharities(userId) });
+  } catch (error) {
+    console.error("❌ Error loading favorite charities:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function saveFavoriteCharityHandler(req: NextRequest, { uid: userId }: AuthContext) {
+  try {
+    const { category, charity } = await req.json();
+    if (!isCategory(category)) {
+      return NextResponse.json({ error: INVALID_CATEGORY }, { status: 400 });
+    }
+
+    const favoriteCharity = toCharity(charity);
+    if (!favoriteCharity) {
+      return NextResponse.json({ error: "charity needs an id and a name" }, { status: 400 });
+    }
+
+    const favorite = await saveFavoriteCharity(userId, category.trim(), favoriteCharity);
+    return NextResponse.json({ favorite });
+  } catch (error) {
+    console.error("❌ Error saving favorite charity:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function removeFavoriteCharityHandler(req: NextRequest, { uid: userId }: AuthContext) {
+  try {
+    const category = req.nextUrl.searchParams.get("category");
+    if (!isCategory(category)) {
+      return NextResponse.json({ error: INVALID_CATEGORY }, { status: 400 });
+    }
+
+    await removeFavoriteCharity(userId, category.trim());
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("❌ Error removing favorite charity:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
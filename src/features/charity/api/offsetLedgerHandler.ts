@@ -0,0 +1,146 @@
+// src/features/charity/api/offsetLedgerHandler.ts
+// API handlers for a user's offset ledger
+
+import { NextRequest, NextResponse } from "next/server";
+import { config } from "@/config";
+import { AuthContext } from "@/shared/utils/withAuth";
+import {
+  getOffsets,
+  recordIntendedOffset,
+  confirmOffset,
+  removeIntendedOffset,
+} from "../offsetLedgerService";
+import { OffsetInput, isOffsetId } from "../offsetLedger";
+
+function isDonationAmount(value: unknown): value is number {
+  return (
+    typeof value === "number" &&
+    Number.isFinite(value) &&
+    value > 0 &&
+    value <= config.offsetLedger.maxAmount
+  );
+}
+
+function nonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.trim().length > 0;
+}
+
+/**
+ * Check an offset from the client
+ * @returns The offset, or why it was rejected
+ */
+function parseOffsetInput(body: Record<string, unknown>): OffsetInput | string {
+  const { id, charityId, charityName, amount, practice, category } = body;
+
+  if (!isOffsetId(id)) {
+    return "id must be 8-64 letters, digits or dashes";
+  }
+  if (!nonEmptyString(charityId) || !nonEmptyString(charityName)) {
+    return "charityId and charityName are required";
+  }
+  if (!isDonationAmount(amount)) {
+    return `amount must be a positive number up to ${config.offsetLedger.maxAmount}`;
+  }
+  if (!nonEmptyString(practice)) {
+    return "practice is required";
+  }
+
+  return {
+    id,
+    charityId: charityId.trim(),
+    charityName: charityName.trim(),
+    amount: Math.round(amount * 100) / 100,
+    practice: practice.trim(),
+    ...(nonEmptyString(category) ? { category: category.trim() } : {}),
+  };
+}
+
+export async function getOffsetsHandler(req: NextRequest, { uid: userId }: AuthContext) {
+  try {
+    return NextResponse.json({ offsets: await getOffsets(userId) });
+  } catch (error) {
+    console.error("❌ Error listing offsets:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function recordOffsetHandler(req: NextRequest, { uid: userId }: AuthContext) {
+  try {
+    const input = parseOffsetInput(await req.json());
+    if (typeof input === "string") {
+      return NextResponse.json({ error: input }, { status: 400 });
+    }
+
+    const offset = await recordIntendedOffset(userId, input);
+    if (!offset) {
+      return NextResponse.json({ error: "Offset id is already in use" }, { status: 409 });
+    }
+
+    return NextResponse.json({ offset });
+  } catch (error) {
+    console.error("❌ Error recording offset:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function confirmOffsetHandler(req: NextRequest, { uid: userId }: AuthContext) {
+  try {
+    const { id, amount } = await req.json();
+    if (!isOffsetId(id)) {
+      return NextResponse.json({ error: "Missing offset id" }, { status: 400 });
+    }
+    if (amount !== undefined && !isDonationAmount(amount)) {
+      return NextResponse.json(
+        { error: `amount must be a positive number up to ${config.offsetLedger.maxAmount}` },
+        { status: 400 }
+      );
+    }
+
+    const offset = await confirmOffset(userId, id, { via: "user", amount });
+    if (!offset) {
+      return NextResponse.json({ error: "Offset not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ offset });
+  } catch (error) {
+    console.error("❌ Error confirming offset:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function removeOffsetHandler(req: NextRequest, { uid: userId }: AuthContext) {
+  try {
+    const id = req.nextUrl.searchParams.get("id");
+    if (!isOffsetId(id)) {
+      return NextResponse.json({ error: "Missing offset id" }, { status: 400 });
+    }
+
+    const removed = await removeIntendedOffset(userId, id);
+    if (removed === null) {
+      return NextResponse.json({ error: "Offset not found" }, { status: 404 });
+    }
+    if (!removed) {
+      return NextResponse.json(
+        { error: "Confirmed offsets can't be removed" },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("❌ Error removing offset:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
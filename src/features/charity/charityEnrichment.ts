@@ -0,0 +1,239 @@
+// src/features/charity/charityEnrichment.ts
+// Turns every.org nonprofits into charities and vets them against a practice category
+
+import { config } from "@/config";
+import { CharityRelevance, CharitySearchResult } from "./charityService";
+
+// A nonprofit as every.org's search and nonprofit endpoints return it
+export interface EveryOrgNonprofit {
+  ein?: string;
+  id?: string;
+  name: string;
+  profileUrl?: string;
+  slug?: string;
+  description?: string;
+  tags?: string[];
+  logoUrl?: string;
+  location?: string; // Search results
+  locationAddress?: string; // Nonprofit details
+  nteeCode?: string;
+  nteeCodeMeaning?: { majorMeaning?: string; decileMeaning?: string };
+}
+
+export interface EveryOrgNonprofitTag {
+  tagName: string;
+  causeCategory?: string;
+  title?: string;
+}
+
+// What fits a practice category: NTEE major groups, every.org tags and mission keywords
+interface CauseProfile {
+  nteeGroups: string[];
+  tags: string[];
+  keywords: string[];
+}
+
+const ENVIRONMENT: CauseProfile = {
+  nteeGroups: ["C"],
+  tags: ["climate", "environment", "conservation", "oceans", "water", "sustainability"],
+  keywords: ["climate", "environment", "conservation", "carbon", "emission", "renewable", "forest", "ocean", "sustainab"],
+};
+
+const LABOR: CauseProfile = {
+  nteeGroups: ["J", "R"],
+  tags: ["workers-rights", "fair-trade", "justice", "humans"],
+  keywords: ["worker", "labor", "labour", "fair trade", "wage", "union", "exploitation"],
+};
+
+const INEQUALITY: CauseProfile = {
+  nteeGroups: ["R", "P"],
+  tags: ["justice", "racial-justice", "gender-equality", "lgbt", "civil-rights"],
+  keywords: ["equality", "equity", "justice", "discrimination", "civil rights", "inclusion"],
+};
+
+// Keyed by the categories the analysis prompt assigns, plus the older names still in stored data
+const CAUSE_PROFILES: Record<string, CauseProfile> = {
+  Environment: ENVIRONMENT,
+  "Climate Change": ENVIRONMENT,
+  "Environmental Impact": ENVIRONMENT,
+  Poverty: {
+    nteeGroups: ["P", "S", "L", "J"],
+    tags: ["poverty", "housing", "homelessness", "economic-development"],
+    keywords: ["poverty", "income", "cash transfer", "housing", "homeless", "economic"],
+  },
+  "Food Insecurity": {
+    nteeGroups: ["K"],
+    tags: ["food-security", "hunger", "agriculture"],
+    keywords: ["food", "hunger", "nutrition", "meal", "farm"],
+  },
+  Conflict: {
+    nteeGroups: ["Q", "R", "I"],
+    tags: ["refugees", "humans", "peace", "disaster-relief"],
+    keywords: ["refugee", "human rights", "peace", "conflict", "humanitarian"],
+  },
+  Inequality: INEQUALITY,
+  "Social Responsibility": INEQUALITY,
+  "Labor Practices": LABOR,
+  "Animal Welfare": {
+    nteeGroups: ["D"],
+    tags: ["animals", "wildlife", "animal-rights"],
+    keywords: ["animal", "wildlife", "rescue", "shelter", "humane", "vegan"],
+  },
+  "Public Health": {
+    nteeGroups: ["E", "F", "G", "H"],
+    tags: ["health", "medicine", "mental-health", "disease"],
+    keywords: ["health", "medical", "disease", "hospital", "mental"],
+  },
+  "Digital Rights": {
+    nteeGroups: ["R", "U", "W"],
+    tags: ["technology", "civil-liberties", "free-speech"],
+    keywords: ["privacy", "digital", "internet", "surveillance", "technology", "freedom"],
+  },
+};
+
+const NTEE_MAJOR_GROUPS: Record<string, string> = {
+  C: "Environment",
+  D: "Animal-Related",
+  E: "Health Care",
+  F: "Mental Health",
+  G: "Diseases & Disorders",
+  H: "Medical Research",
+  I: "Crime & Legal",
+  J: "Employment",
+  K: "Food, Agriculture & Nutrition",
+  L: "Housing & Shelter",
+  P: "Human Services",
+  Q: "International Affairs",
+  R: "Civil Rights & Advocacy",
+  S: "Community Improvement",
+  U: "Science & Technology",
+  W: "Public & Societal Benefit",
+};
+
+export function getCauseProfile(category?: string): CauseProfile | null {
+  return category ? CAUSE_PROFILES[category] ?? null : null;
+}
+
+function extractSlug(url: string): string | null {
+  try {
+    const pathParts = new URL(url).pathname.split("/").filter(Boolean);
+    return pathParts[pathParts.length - 1] || null;
+  } catch {
+    const match = url.match(/\/([^/]+)\/?$/);
+    return match?.[1] || null;
+  }
+}
+
+/**
+ * Map an every.org nonprofit onto our charity shape, merging tags from its details if we have them
+ */
+export function toCharity(
+  nonprofit: EveryOrgNonprofit,
+  detailTags: EveryOrgNonprofitTag[] = []
+): CharitySearchResult {
+  const slug = nonprofit.slug || (nonprofit.profileUrl ? extractSlug(nonprofit.profileUrl) : null);
+  const tags = Array.from(new Set([...(nonprofit.tags || []), ...detailTags.map((tag) => tag.tagName)]));
+  const location = nonprofit.locationAddress || nonprofit.location;
+  const nteeMeaning =
+    nonprofit.nteeCodeMeaning?.decileMeaning ||
+    nonprofit.nteeCodeMeaning?.majorMeaning ||
+    (nonprofit.nteeCode ? NTEE_MAJOR_GROUPS[nonprofit.nteeCode[0].toUpperCase()] : undefined);
+
+  return {
+    id: nonprofit.ein || nonprofit.id || slug || "",
+    name: nonprofit.name || "Unknown Charity",
+    url: nonprofit.profileUrl || (slug ? `https://www.every.org/${slug}` : "https://www.every.org"),
+    mission: nonprofit.description || "No description available",
+    category: detailTags[0]?.title || tags[0] || "Charity",
+    donationUrl: slug
+      ? `https://www.every.org/${slug}/donate`
+      : nonprofit.ein
+        ? `https://www.every.org/ein/${nonprofit.ein}/donate`
+        : config.charity.defaultDonationUrl,
+    ...(nonprofit.logoUrl ? { logoUrl: nonprofit.logoUrl } : {}),
+    ...(slug ? { slug } : {}),
+    ...(nonprofit.ein ? { ein: nonprofit.ein } : {}),
+    ...(nonprofit.nteeCode ? { nteeCode: nonprofit.nteeCode } : {}),
+    ...(nteeMeaning ? { nteeMeaning } : {}),
+    ...(tags.length > 0 ? { tags } : {}),
+    ...(location ? { location } : {}),
+  };
+}
+
+/**
+ * Score how well a charity fits a practice category and search term
+ * NTEE cause codes weigh most, then every.org tags, then words in the name and mission
+ */
+export function scoreCharityRelevance(
+  charity: CharitySearchResult,
+  category: string | undefined,
+  searchTerm: string
+): CharityRelevance {
+  const profile = getCauseProfile(category);
+  const text = `${charity.name} ${charity.mission}`.toLowerCase();
+  const reasons: string[] = [];
+  let score = 0;
+  let mismatch: string | null = null;
+
+  if (profile && charity.nteeCode) {
+    const group = charity.nteeCode[0].toUpperCase();
+    const registeredAs = `${charity.nteeMeaning || NTEE_MAJOR_GROUPS[group] || group} (NTEE ${charity.nteeCode})`;
+    if (profile.nteeGroups.includes(group)) {
+      score += 50;
+      reasons.push(`Registered as ${registeredAs}`);
+    } else {
+      // Its registered cause is something else; a keyword match alone shouldn't carry it
+      score -= 25;
+      mismatch = `Registered as ${registeredAs}, outside ${category}`;
+    }
+  }
+
+  if (profile) {
+    const matchedTags = (charity.tags || []).filter((tag) => profile.tags.includes(tag.toLowerCase()));
+    if (matchedTags.length > 0) {
+      score += 25;
+      reasons.push(`Tagged ${matchedTags.join(", ")} on every.org`);
+    }
+
+    const matchedKeywords = profile.keywords.filter((keyword) => text.includes(keyword));
+    if (matchedKeywords.length > 0) {
+      score += Math.min(30, matchedKeywords.length * 15);
+      reasons.push(`Mission mentions ${matchedKeywords.map((keyword) => `"${keyword}"`).join(", ")}`);
+    }
+  }
+
+  const term = searchTerm.toLowerCase().trim();
+  if (term && text.includes(term)) {
+    score += profile ? 10 : 60;
+    reasons.push(`Matches "${searchTerm}"`);
+  }
+
+  // Without a category there's nothing to vet against, so keep every result in play
+  if (!profile) {
+    score = Math.max(score, config.charity.enrichment.minRelevance);
+  }
+
+  return {
+    score: Math.max(0, Math.min(100, score)),
+    reasons: mismatch ? [...reasons, mismatch] : reasons,
+  };
+}
+
+/**
+ * Score charities, drop the ones that don't fit the category, and put the best fits first
+ * Ties keep every.org's order
+ */
+export function vetCharities(
+  charities: CharitySearchResult[],
+  category: string | undefined,
+  searchTerm: string
+): CharitySearchResult[] {
+  return charities
+    .map((charity, index) => ({
+      charity: { ...charity, relevance: scoreCharityRelevance(charity, category, searchTerm) },
+      index,
+    }))
+    .filter(({ charity }) => charity.relevance.score >= config.charity.enrichment.minRelevance)
+    .sort((a, b) => b.charity.relevance.score - a.charity.relevance.score || a.index - b.index)
+    .map(({ charity }) => charity);
+}
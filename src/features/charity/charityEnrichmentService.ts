@@ -0,0 +1,210 @@
+// src/features/charity/charityEnrichmentService.ts
+// Fetches nonprofits from every.org, enriches them with their details and caches the vetted results
+
+import { db } from "@/shared/firebase/firebase";
+import { doc, getDoc, setDoc, Timestamp } from "firebase/firestore";
+import { config } from "@/config";
+import { CharitySearchResult } from "./charityService";
+import {
+  EveryOrgNonprofit,
+  EveryOrgNonprofitTag,
+  toCharity,
+  vetCharities,
+} from "./charityEnrichment";
+
+interface NonprofitDetails {
+  nonprofit: EveryOrgNonprofit;
+  tags: EveryOrgNonprofitTag[];
+}
+
+interface CacheEntry<T> {
+  value: T;
+  cachedAt: number;
+}
+
+interface StoredRecommendations {
+  searchTerm: string;
+  category: string | null;
+  charities: CharitySearchResult[];
+  cachedAt: Timestamp;
+}
+
+// Map keeps insertion order, so the first key is always the least recently used
+const recommendationCache = new Map<string, CacheEntry<CharitySearchResult[]>>();
+const detailsCache = new Map<string, CacheEntry<NonprofitDetails | null>>();
+
+function remember<T>(cache: Map<string, CacheEntry<T>>, key: string, entry: CacheEntry<T>) {
+  cache.delete(key);
+  cache.set(key, entry);
+
+  while (cache.size > config.charity.enrichment.maxMemoryEntries) {
+    const oldestKey = cache.keys().next().value;
+    if (oldestKey === undefined) break;
+    cache.delete(oldestKey);
+  }
+}
+
+function isFresh(entry: CacheEntry<unknown> | undefined, ttlMs: number): boolean {
+  return entry !== undefined && Date.now() - entry.cachedAt <= ttlMs;
+}
+
+function recommendationKey(searchTerm: string, category?: string): string {
+  return `${category || "any"}|${searchTerm.toLowerCase().trim()}`;
+}
+
+function recommendationDocId(key: string): string {
+  return encodeURIComponent(key).replace(/\./g, "%2E");
+}
+
+async function fetchEveryOrg<T>(path: string): Promise<T | null> {
+  const separator = path.includes("?") ? "&" : "?";
+  const response = await fetch(`${config.charity.baseUrl}${path}${separator}apiKey=${config.charity.apiKey}`);
+
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw new Error(`every.org API error: ${response.status}`);
+  }
+
+  return (await response.json()) as T;
+}
+
+async function searchNonprofits(searchTerm: string, take: number): Promise<EveryOrgNonprofit[]> {
+  const data = await fetchEveryOrg<{ nonprofits?: EveryOrgNonprofit[] }>(
+    `/search/${encodeURIComponent(searchTerm)}?take=${take}`
+  );
+  return Array.isArray(data?.nonprofits) ? data.nonprofits : [];
+}
+
+/**
+ * A nonprofit's full record - NTEE code, location and cause tags - cached per server instance
+ */
+async function getNonprofitDetails(id: string): Promise<NonprofitDetails | null> {
+  const cached = detailsCache.get(id);
+  if (cached && isFresh(cached, config.charity.enrichment.detailsTtlMs)) {
+    remember(detailsCache, id, cached);
+    return cached.value;
+  }
+
+  // The nonprofit endpoint wraps its payload in "data"; older responses didn't
+  type DetailsPayload = { nonprofit?: EveryOrgNonprofit; nonprofitTags?: EveryOrgNonprofitTag[] };
+  const response = await fetchEveryOrg<DetailsPayload & { data?: DetailsPayload }>(
+    `/nonprofit/${encodeURIComponent(id)}`
+  );
+  const payload = response?.data ?? response;
+  const details = payload?.nonprofit
+    ? { nonprofit: payload.nonprofit, tags: payload.nonprofitTags || [] }
+    : null;
+
+  remember(detailsCache, id, { value: details, cachedAt: Date.now() });
+  return details;
+}
+
+/**
+ * Merge a search result with its details; falls back to the search result alone
+ */
+async function enrichNonprofit(nonprofit: EveryOrgNonprofit): Promise<CharitySearchResult> {
+  const id = nonprofit.slug || nonprofit.ein || nonprofit.id;
+  if (!id) return toCharity(nonprofit);
+
+  try {
+    const details = await getNonprofitDetails(id);
+    if (!details) return toCharity(nonprofit);
+
+    return toCharity(
+      { ...nonprofit, ...details.nonprofit, tags: nonprofit.tags || details.nonprofit.tags },
+      details.tags
+    );
+  } catch (error) {
+    console.warn(`⚠️ Could not load details for nonprofit "${id}":`, error);
+    return toCharity(nonprofit);
+  }
+}
+
+async function readStoredRecommendations(key: string): Promise<CharitySearchResult[] | null> {
+  try {
+    const snapshot = await getDoc(
+      doc(db, config.charity.enrichment.cacheCollection, recommendationDocId(key))
+    );
+    if (!snapshot.exists()) return null;
+
+    const { charities, cachedAt } = snapshot.data() as StoredRecommendations;
+    const entry = { value: charities, cachedAt: cachedAt.toMillis() };
+    if (!isFresh(entry, config.charity.enrichment.ttlMs)) return null;
+
+    remember(recommendationCache, key, entry);
+    return charities;
+  } catch (error) {
+    // A cache failure should never block recommendations
+    console.warn(`⚠️ Charity cache read failed for "${key}":`, error);
+    return null;
+  }
+}
+
+async function storeRecommendations(
+  key: string,
+  searchTerm: string,
+  category: string | undefined,
+  charities: CharitySearchResult[]
+): Promise<void> {
+  const cachedAt = Date.now();
+  remember(recommendationCache, key, { value: charities, cachedAt });
+
+  try {
+    const stored: StoredRecommendations = {
+      searchTerm,
+      category: category || null,
+      charities,
+      cachedAt: Timestamp.fromMillis(cachedAt),
+    };
+    await setDoc(doc(db, config.charity.enrichment.cacheCollection, recommendationDocId(key)), stored);
+  } catch (error) {
+    console.warn(`⚠️ Charity cache write failed for "${key}":`, error);
+  }
+}
+
+/**
+ * Charities for a search term, enriched and vetted against the practice's category
+ * The same term and category give the same list until the cache expires
+ */
+export async function findVettedCharities(
+  searchTerm: string,
+  { category, take }: { category?: string; take: number }
+): Promise<CharitySearchResult[]> {
+  const key = recommendationKey(searchTerm, category);
+
+  const cached = recommendationCache.get(key);
+  if (cached && isFresh(cached, config.charity.enrichment.ttlMs)) {
+    remember(recommendationCache, key, cached);
+    return cached.value.slice(0, take);
+  }
+
+  const stored = await readStoredRecommendations(key);
+  if (stored) return stored.slice(0, take);
+
+  const nonprofits = await searchNonprofits(
+    searchTerm,
+    Math.max(take, config.charity.enrichment.candidates)
+  );
+  const enriched = await Promise.all(nonprofits.map(enrichNonprofit));
+  const vetted = vetCharities(enriched, category, searchTerm);
+
+  console.log(
+    `🔎 Vetted ${vetted.length}/${enriched.length} charities for "${searchTerm}"${category ? ` (${category})` : ""}`
+  );
+
+  // Only cache what every.org actually answered, so an empty outage response isn't kept for a day
+  if (nonprofits.length > 0) {
+    await storeRecommendations(key, searchTerm, category, vetted);
+  }
+
+  return vetted.slice(0, take);
+}
+
+/**
+ * One charity with its enriched metadata
+ * @returns null if every.org doesn't know it
+ */
+export async function getEnrichedCharity(id: string): Promise<CharitySearchResult | null> {
+  const details = await getNonprofitDetails(id);
+  return details ? toCharity(details.nonprofit, details.tags) : null;
+}
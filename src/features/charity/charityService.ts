@@ -1,4 +1,5 @@
 // src/features/charity/charityService.ts
+import { authFetch } from "@/shared/utils/authFetch";
 
 // Helper function for logging
 function logDebug(message: string, data?: unknown) {
@@ -23,10 +24,22 @@ function logDebug(message: string, data?: unknown) {
     logoUrl?: string;
     donationUrl?: string;
     slug?: string;  // Added slug for direct URL construction
+    ein?: string;
+    nteeCode?: string; // IRS cause code, e.g. "C20"
+    nteeMeaning?: string;
+    tags?: string[];
+    location?: string;
+    relevance?: CharityRelevance; // Set when results were vetted against a practice category
+  }
+
+  // How well a charity fits the practice being offset, and why
+  export interface CharityRelevance {
+    score: number; // 0-100
+    reasons: string[];
   }
   
-  // Search for charities by cause or keyword
-  export async function searchCharities(query: string): Promise<CharitySearchResult[]> {
+  // Search for charities by cause or keyword, vetted against a practice category if given
+  export async function searchCharities(query: string, category?: string): Promise<CharitySearchResult[]> {
     try {
       const cleanQuery = cleanPracticeName(query);
       logDebug(`Searching for charities with query: ${cleanQuery}`);
@@ -36,8 +49,9 @@ function logDebug(message: string, data?: unknown) {
       }
       
       // Use our own API endpoint to avoid exposing API key in client code
-      const response = await fetch(
-        `/api/charity/search?query=${encodeURIComponent(cleanQuery)}`
+      const categoryParam = category ? `&category=${encodeURIComponent(category)}` : '';
+      const response = await authFetch(
+        `/api/charity/search?query=${encodeURIComponent(cleanQuery)}${categoryParam}`
       );
       
       if (!response.ok) {
@@ -58,7 +72,7 @@ function logDebug(message: string, data?: unknown) {
   export async function getCharityById(id: string): Promise<CharitySearchResult | null> {
     try {
       // Use our own API endpoint to avoid exposing API key in client code
-      const response = await fetch(
+      const response = await authFetch(
         `/api/charity/details?id=${encodeURIComponent(id)}`
       );
       
@@ -78,7 +92,7 @@ function logDebug(message: string, data?: unknown) {
   }
   
   // Get recommended charities for a specific practice
-  export async function getRecommendedCharities(practice: string): Promise<CharitySearchResult[]> {
+  export async function getRecommendedCharities(practice: string, category?: string): Promise<CharitySearchResult[]> {
     try {
       const cleanPractice = cleanPracticeName(practice);
         
@@ -88,8 +102,9 @@ function logDebug(message: string, data?: unknown) {
       logDebug(`Getting recommended charities for: ${searchTerm}`);
       
       // Use our API route to get recommendations
-      const response = await fetch(
-        `/api/charity/recommend?practice=${encodeURIComponent(practice)}`
+      const categoryParam = category ? `&category=${encodeURIComponent(category)}` : '';
+      const response = await authFetch(
+        `/api/charity/recommend?practice=${encodeURIComponent(practice)}${categoryParam}`
       );
       
       if (!response.ok) {
@@ -104,8 +119,19 @@ function logDebug(message: string, data?: unknown) {
     }
   }
   
+  // The ID every.org's donate page accepts for a charity
+  export function donationCharityId(charity: CharitySearchResult): string {
+    return charity.id || charity.url?.split('/').pop() || 'everydotorg';
+  }
+  
   // Create a donation URL for the given charity and amount
-  export function createDonationUrl(charityId: string, amount: number, cause?: string): string {
+  // The reference comes back in every.org's webhook so the donation can be matched to its offset
+  export function createDonationUrl(
+    charityId: string,
+    amount: number,
+    cause?: string,
+    reference?: string
+  ): string {
     try {
       // Clean the cause/practice name if provided
       const cleanCause = cause ? cleanPracticeName(cause) : undefined;
@@ -147,6 +173,10 @@ function logDebug(message: string, data?: unknown) {
       if (cleanCause) {
         params.append('designation', cleanCause);
       }
+
+      if (reference) {
+        params.append('partner_donation_id', reference);
+      }
       
       // Construct final URL
       const finalUrl = `${baseUrl}?${params.toString()}`;
@@ -0,0 +1,83 @@
+// src/features/charity/donationWebhook.test.ts
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createHmac } from "crypto";
+import { parseDonationWebhook, verifyWebhookSignature } from "./donationWebhook";
+
+const SECRET = "webhook-secret";
+const TOLERANCE = 300;
+const NOW = Date.UTC(2025, 2, 15, 12, 0, 0);
+const timestamp = String(Math.floor(NOW / 1000));
+
+const body = JSON.stringify({
+  partnerDonationId: "3f2b8c1e-offset-0001",
+  chargeId: "ch_123",
+  amount: "25.00",
+  currency: "usd",
+  toNonprofit: { name: "Clean Air Task Force" },
+});
+
+const sign = (payload: string, at = timestamp) =>
+  createHmac("sha256", SECRET).update(`${at}.${payload}`).digest("hex");
+
+describe("verifyWebhookSignature", () => {
+  it("accepts a fresh webhook signed with the secret", () => {
+    assert.equal(verifyWebhookSignature(body, sign(body), timestamp, SECRET, TOLERANCE, NOW), null);
+    assert.equal(verifyWebhookSignature(body, `sha256=${sign(body)}`, timestamp, SECRET, TOLERANCE, NOW), null);
+  });
+
+  it("rejects a tampered body", () => {
+    const tampered = body.replace('"25.00"', '"2500.00"');
+
+    assert.equal(
+      verifyWebhookSignature(tampered, sign(body), timestamp, SECRET, TOLERANCE, NOW),
+      "Invalid signature"
+    );
+  });
+
+  it("rejects a signature made with another secret or over another timestamp", () => {
+    const otherSecret = createHmac("sha256", "other").update(`${timestamp}.${body}`).digest("hex");
+    const laterTimestamp = String(Number(timestamp) + 60);
+
+    assert.equal(verifyWebhookSignature(body, otherSecret, timestamp, SECRET, TOLERANCE, NOW), "Invalid signature");
+    assert.equal(verifyWebhookSignature(body, sign(body), laterTimestamp, SECRET, TOLERANCE, NOW), "Invalid signature");
+  });
+
+  it("rejects a stale timestamp even when its signature is valid", () => {
+    const stale = String(Number(timestamp) - TOLERANCE - 1);
+
+    assert.equal(
+      verifyWebhookSignature(body, sign(body, stale), stale, SECRET, TOLERANCE, NOW),
+      "Timestamp is outside the tolerance"
+    );
+  });
+
+  it("rejects a webhook without a signature or timestamp", () => {
+    assert.equal(verifyWebhookSignature(body, null, timestamp, SECRET, TOLERANCE, NOW), "Missing signature or timestamp");
+    assert.equal(verifyWebhookSignature(body, sign(body), null, SECRET, TOLERANCE, NOW), "Missing signature or timestamp");
+    assert.equal(verifyWebhookSignature(body, sign(body), "soon", SECRET, TOLERANCE, NOW), "Missing signature or timestamp");
+  });
+});
+
+describe("parseDonationWebhook", () => {
+  it("reads the donation every.org sends", () => {
+    assert.deepEqual(parseDonationWebhook(JSON.parse(body)), {
+      reference: "3f2b8c1e-offset-0001",
+      chargeId: "ch_123",
+      amount: 25,
+      currency: "USD",
+      nonprofitName: "Clean Air Task Force",
+    });
+  });
+
+  it("rejects a malformed partnerDonationId or amount", () => {
+    const donation = JSON.parse(body);
+
+    assert.equal(
+      parseDonationWebhook({ ...donation, partnerDonationId: "../users" }),
+      "partnerDonationId is missing or malformed"
+    );
+    assert.equal(parseDonationWebhook({ ...donation, amount: "-5" }), "amount must be a positive number");
+    assert.equal(parseDonationWebhook(null), "Body must be a JSON object");
+  });
+});
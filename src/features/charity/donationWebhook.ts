@@ -0,0 +1,80 @@
+// src/features/charity/donationWebhook.ts
+// Verifying and reading every.org partner webhooks - server only
+
+import { createHmac, timingSafeEqual } from "crypto";
+import { isOffsetId } from "./offsetLedger";
+
+// The parts of every.org's donation payload we use
+export interface DonationWebhook {
+  reference: string; // partnerDonationId - the offset ID put in the donation URL
+  chargeId?: string;
+  amount: number;
+  currency: string;
+  nonprofitName?: string;
+}
+
+/**
+ * Check a webhook's signature and age
+ * The signature is a hex HMAC-SHA256 of "<timestamp>.<raw body>", so a captured
+ * delivery can't be replayed once its timestamp falls outside the tolerance
+ * @returns null for an authentic webhook, otherwise why it was rejected
+ */
+export function verifyWebhookSignature(
+  rawBody: string,
+  signature: string | null,
+  timestamp: string | null,
+  secret: string,
+  toleranceSeconds: number,
+  now = Date.now()
+): string | null {
+  if (!signature || !timestamp || !/^\d+$/.test(timestamp)) {
+    return "Missing signature or timestamp";
+  }
+
+  if (Math.abs(Math.floor(now / 1000) - Number(timestamp)) > toleranceSeconds) {
+    return "Timestamp is outside the tolerance";
+  }
+
+  const expected = createHmac("sha256", secret).update(`${timestamp}.${rawBody}`).digest();
+  const actual = Buffer.from(signature.replace(/^sha256=/, ""), "hex");
+
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return "Invalid signature";
+  }
+  return null;
+}
+
+/**
+ * Pull what we need out of a webhook body
+ * @returns The donation, or why it was rejected
+ */
+export function parseDonationWebhook(body: unknown): DonationWebhook | string {
+  if (!body || typeof body !== "object") {
+    return "Body must be a JSON object";
+  }
+
+  const { partnerDonationId, chargeId, amount, currency, toNonprofit } = body as Record<string, unknown>;
+
+  if (!isOffsetId(partnerDonationId)) {
+    return "partnerDonationId is missing or malformed";
+  }
+
+  // every.org sends amounts as decimal strings
+  const parsedAmount = typeof amount === "string" ? Number(amount) : amount;
+  if (typeof parsedAmount !== "number" || !Number.isFinite(parsedAmount) || parsedAmount <= 0) {
+    return "amount must be a positive number";
+  }
+
+  const nonprofitName =
+    toNonprofit && typeof toNonprofit === "object"
+      ? (toNonprofit as Record<string, unknown>).name
+      : undefined;
+
+  return {
+    reference: partnerDonationId,
+    ...(typeof chargeId === "string" && chargeId ? { chargeId } : {}),
+    amount: Math.round(parsedAmount * 100) / 100,
+    currency: typeof currency === "string" ? currency.toUpperCase() : "USD",
+    ...(typeof nonprofitName === "string" ? { nonprofitName } : {}),
+  };
+}
@@ -0,0 +1,91 @@
+// src/features/charity/favoriteCharities.ts
+// A user's preferred charity for each impact category, and splitting one donation across them
+
+import { CharitySearchResult } from "./charityService";
+import { PRACTICE_CATEGORIES } from "@/features/analysis/practiceTaxonomy";
+
+// The categories the analysis prompt assigns to practices
+export const IMPACT_CATEGORIES = PRACTICE_CATEGORIES.map((category) => category.name);
+
+export interface FavoriteCharity {
+  category: string;
+  charity: CharitySearchResult;
+  savedAt: number;
+}
+
+// Keyed by category
+export type FavoriteCharities = Record<string, FavoriteCharity>;
+
+export interface OffsetAllocation {
+  category: string;
+  charity: CharitySearchResult;
+  amount: number;
+  share: number; // Percent of the donation
+}
+
+export interface OffsetSplit {
+  allocations: OffsetAllocation[];
+  uncovered: string[]; // Categories with debt but no favorite charity
+}
+
+/**
+ * Keep only the fields worth storing - Firestore rejects undefined and relevance is per search
+ */
+export function toStoredCharity(charity: CharitySearchResult): CharitySearchResult {
+  return {
+    id: charity.id,
+    name: charity.name,
+    url: charity.url,
+    mission: charity.mission,
+    category: charity.category,
+    ...(charity.logoUrl ? { logoUrl: charity.logoUrl } : {}),
+    ...(charity.donationUrl ? { donationUrl: charity.donationUrl } : {}),
+    ...(charity.slug ? { slug: charity.slug } : {}),
+    ...(charity.ein ? { ein: charity.ein } : {}),
+  };
+}
+
+/**
+ * Split a donation across the favorite charities of the categories in debt, in proportion
+ * to each category's debt. Categories without a favorite are left out and reported,
+ * so their share goes to the categories that have one
+ */
+export function splitAcrossFavorites(
+  amount: number,
+  categoryDebts: Record<string, number>,
+  favorites: FavoriteCharities
+): OffsetSplit {
+  const inDebt = Object.entries(categoryDebts).filter(([, debt]) => debt > 0);
+  const covered = inDebt.filter(([category]) => favorites[category]);
+  const uncovered = inDebt.filter(([category]) => !favorites[category]).map(([category]) => category);
+
+  const coveredDebt = covered.reduce((sum, [, debt]) => sum + debt, 0);
+  if (amount <= 0 || coveredDebt <= 0) {
+    return { allocations: [], uncovered };
+  }
+
+  // Work in cents so the allocations add up to exactly the amount
+  const totalCents = Math.round(amount * 100);
+  const allocations = covered
+    .sort((a, b) => b[1] - a[1])
+    .map(([category, debt]) => ({
+      category,
+      charity: favorites[category].charity,
+      cents: Math.floor((totalCents * debt) / coveredDebt),
+    }));
+
+  const remainder = totalCents - allocations.reduce((sum, allocation) => sum + allocation.cents, 0);
+  allocations[0].cents += remainder;
+
+  return {
+    allocations: allocations
+      .filter((allocation) => allocation.cents > 0)
+      .map(({ category, charity, cents }) => ({
+        category,
+        charity,
+        amount: cents / 100,
+        share: (cents / totalCents) * 100,
+      })),
+    uncovered,
+  };
+}
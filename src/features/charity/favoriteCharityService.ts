@@ -0,0 +1,49 @@
+// src/features/charity/favoriteCharityService.ts
+// Each user's favorite charities, kept on their users/{userId} document - no HTTP concerns
+
+import { db } from "@/shared/firebase/firebase";
+import { doc, getDoc, setDoc, updateDoc, deleteField, FieldPath } from "firebase/firestore";
+import { config } from "@/config";
+import { CharitySearchResult } from "./charityService";
+import { FavoriteCharities, FavoriteCharity, toStoredCharity } from "./favoriteCharities";
+
+function userRef(userId: string) {
+  return doc(db, config.transactionStorage.usersCollection, userId);
+}
+
+export async function getFavoriteCharities(userId: string): Promise<FavoriteCharities> {
+  if (!userId) {
+    throw new Error("User ID is required");
+  }
+
+  const snapshot = await getDoc(userRef(userId));
+  return (snapshot.exists() && snapshot.data().favoriteCharities) || {};
+}
+
+export async function saveFavoriteCharity(
+  userId: string,
+  category: string,
+  charity: CharitySearchResult
+): Promise<FavoriteCharity> {
+  if (!userId) {
+    throw new Error("User ID is required");
+  }
+
+  const favorite: FavoriteCharity = {
+    category,
+    charity: toStoredCharity(charity),
+    savedAt: Date.now(),
+  };
+
+  await setDoc(userRef(userId), { favoriteCharities: { [category]: favorite } }, { merge: true });
+  return favorite;
+}
+
+export async function removeFavoriteCharity(userId: string, category: string): Promise<void> {
+  if (!userId) {
+    throw new Error("User ID is required");
+  }
+
+  // A FieldPath, since category names can contain characters a dotted path can't
+  await updateDoc(userRef(userId), new FieldPath("favoriteCharities", category), deleteField());
+}
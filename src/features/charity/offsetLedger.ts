@@ -0,0 +1,127 @@
+// src/features/charity/offsetLedger.ts
+// Donations recorded against a user's societal debt, and the totals derived from them
+
+export const ALL_SOCIETAL_DEBT = "All Societal Debt";
+
+// A donation is intended when the user is sent to every.org and confirmed once it went through
+export type OffsetStatus = "intended" | "confirmed";
+
+// Who confirmed a donation - the user by hand, or every.org's webhook
+export type OffsetConfirmationSource = "user" | "every.org";
+
+export interface OffsetEntry {
+  id: string;
+  charityId: string;
+  charityName: string;
+  amount: number;
+  practice: string; // The practice offset, or ALL_SOCIETAL_DEBT
+  category?: string;
+  status: OffsetStatus;
+  createdAt: number;
+  confirmedAt?: number;
+  confirmedVia?: OffsetConfirmationSource;
+  chargeId?: string; // every.org's ID for the completed donation
+}
+
+export type OffsetInput = Omit<
+  OffsetEntry,
+  "status" | "createdAt" | "confirmedAt" | "confirmedVia" | "chargeId"
+>;
+
+export interface OffsetConfirmation {
+  via: OffsetConfirmationSource;
+  amount?: number; // What was actually given, if it differs from what was intended
+  chargeId?: string;
+}
+
+export interface OffsetSummary {
+  confirmed: number;
+  pending: number;
+  confirmedThisMonth: number;
+}
+
+export interface PracticeOffsetHistory {
+  practice: string;
+  category?: string;
+  confirmed: number;
+  pending: number;
+  entries: OffsetEntry[]; // Newest first
+}
+
+/**
+ * A ledger ID picked before the donation page opens, so every.org can send it back
+ */
+export function createOffsetId(): string {
+  return crypto.randomUUID();
+}
+
+export function isOffsetId(value: unknown): value is string {
+  return typeof value === "string" && /^[A-Za-z0-9-]{8,64}$/.test(value);
+}
+
+function isSameMonth(timestamp: number, now: Date): boolean {
+  const date = new Date(timestamp);
+  return date.getFullYear() === now.getFullYear() && date.getMonth() === now.getMonth();
+}
+
+/**
+ * Confirmed and pending totals; only confirmed donations count against debt
+ */
+export function summarizeOffsets(offsets: OffsetEntry[], now = new Date()): OffsetSummary {
+  return offsets.reduce(
+    (summary, offset) => {
+      if (offset.status !== "confirmed") {
+        return { ...summary, pending: summary.pending + offset.amount };
+      }
+
+      return {
+        ...summary,
+        confirmed: summary.confirmed + offset.amount,
+        confirmedThisMonth:
+          summary.confirmedThisMonth +
+          (isSameMonth(offset.confirmedAt ?? offset.createdAt, now) ? offset.amount : 0),
+      };
+    },
+    { confirmed: 0, pending: 0, confirmedThisMonth: 0 }
+  );
+}
+
+/**
+ * Societal debt left after confirmed donations; negative once offsets exceed the debt
+ */
+export function netSocietalDebt(totalSocietalDebt: number, offsets: OffsetEntry[]): number {
+  return totalSocietalDebt - summarizeOffsets(offsets).confirmed;
+}
+
+/**
+ * Offsets grouped by the practice they were made against, largest confirmed total first
+ */
+export function offsetsByPractice(offsets: OffsetEntry[]): PracticeOffsetHistory[] {
+  const byPractice = new Map<string, PracticeOffsetHistory>();
+
+  offsets.forEach((offset) => {
+    const history = byPractice.get(offset.practice) ?? {
+      practice: offset.practice,
+      category: offset.category,
+      confirmed: 0,
+      pending: 0,
+      entries: [],
+    };
+
+    if (offset.status === "confirmed") {
+      history.confirmed += offset.amount;
+    } else {
+      history.pending += offset.amount;
+    }
+    history.category = history.category ?? offset.category;
+    history.entries.push(offset);
+    byPractice.set(offset.practice, history);
+  });
+
+  return Array.from(byPractice.values())
+    .map((history) => ({
+      ...history,
+      entries: history.entries.sort((a, b) => b.createdAt - a.createdAt),
+    }))
+    .sort((a, b) => b.confirmed - a.confirmed || b.pending - a.pending);
+}
@@ -0,0 +1,190 @@
+// src/features/charity/offsetLedgerService.ts
+// Reads and writes a user's offset ledger - no HTTP concerns
+
+import { db } from "@/shared/firebase/firebase";
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  runTransaction,
+} from "firebase/firestore";
+import { config } from "@/config";
+import { OffsetConfirmation, OffsetEntry, OffsetInput } from "./offsetLedger";
+
+function offsetsRef(userId: string) {
+  return collection(
+    db,
+    config.transactionStorage.usersCollection,
+    userId,
+    config.offsetLedger.subcollection
+  );
+}
+
+// Webhooks only carry the offset ID, so each one points back at its user
+function referenceRef(offsetId: string) {
+  return doc(db, config.offsetLedger.referencesCollection, offsetId);
+}
+
+/**
+ * The user who recorded an offset
+ * @returns null if no offset has this ID
+ */
+export async function findOffsetOwner(offsetId: string): Promise<string | null> {
+  const snapshot = await getDoc(referenceRef(offsetId));
+  return snapshot.exists() ? (snapshot.data().userId as string) : null;
+}
+
+/**
+ * A user's offsets, newest first
+ */
+export async function getOffsets(userId: string): Promise<OffsetEntry[]> {
+  if (!userId) {
+    throw new Error("User ID is required");
+  }
+
+  const snapshot = await getDocs(offsetsRef(userId));
+  return snapshot.docs
+    .map((snap) => snap.data() as OffsetEntry)
+    .sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/**
+ * Record a donation the user was sent to make
+ * Recording the same ID twice keeps the first entry
+ * @returns null if another user already recorded an offset with this ID
+ */
+export async function recordIntendedOffset(userId: string, input: OffsetInput): Promise<OffsetEntry | null> {
+  if (!userId) {
+    throw new Error("User ID is required");
+  }
+
+  const ref = doc(offsetsRef(userId), input.id);
+  const reference = referenceRef(input.id);
+
+  // The client picks the ID, so the shared reference is only written when it is free or
+  // already ours - otherwise one user could redirect another's webhook
+  const result = await runTransaction(db, async (transaction) => {
+    const [existing, existingReference] = await Promise.all([
+      transaction.get(ref),
+      transaction.get(reference),
+    ]);
+
+    if (existingReference.exists() && existingReference.data().userId !== userId) {
+      return null;
+    }
+    if (existing.exists()) {
+      return { offset: existing.data() as OffsetEntry, created: false };
+    }
+
+    const offset: OffsetEntry = {
+      id: input.id,
+      charityId: input.charityId,
+      charityName: input.charityName,
+      amount: input.amount,
+      practice: input.practice,
+      ...(input.category ? { category: input.category } : {}),
+      status: "intended",
+      createdAt: Date.now(),
+    };
+
+    transaction.set(ref, offset);
+    transaction.set(reference, { userId, createdAt: offset.createdAt });
+    return { offset, created: true };
+  });
+
+  if (!result) {
+    console.warn(`⚠️ Offset ${input.id} belongs to another user; not recording it for ${userId}`);
+    return null;
+  }
+  if (result.created) {
+    const { offset } = result;
+    console.log(`💚 Recorded intended offset ${offset.id} of $${offset.amount} for "${offset.practice}"`);
+  }
+  return result.offset;
+}
+
+/**
+ * Mark a donation as made, optionally with the amount actually given
+ * A user's own confirmation can't claim more than they set out to give; only
+ * every.org can record a larger amount. every.org's confirmation also replaces a
+ * user's, so the ledger keeps the amount and charge every.org reported
+ * @returns null if there is no such offset
+ */
+export async function confirmOffset(
+  userId: string,
+  offsetId: string,
+  { via, amount, chargeId }: OffsetConfirmation
+): Promise<OffsetEntry | null> {
+  if (!userId) {
+    throw new Error("User ID is required");
+  }
+
+  const ref = doc(offsetsRef(userId), offsetId);
+
+  const result = await runTransaction(db, async (transaction) => {
+    const existing = await transaction.get(ref);
+    if (!existing.exists()) {
+      return null;
+    }
+
+    const offset = existing.data() as OffsetEntry;
+    const isUpgrade = offset.status === "confirmed" && offset.confirmedVia === "user" && via === "every.org";
+    if (offset.status === "confirmed" && !isUpgrade) {
+      return { offset, updated: false };
+    }
+
+    const confirmedAmount = via === "user" && amount !== undefined ? Math.min(amount, offset.amount) : amount;
+
+    const changes = {
+      status: "confirmed" as const,
+      // An upgrade keeps when the user said it happened, so monthly totals don't move
+      confirmedAt: offset.confirmedAt ?? Date.now(),
+      confirmedVia: via,
+      ...(confirmedAmount !== undefined ? { amount: confirmedAmount } : {}),
+      ...(chargeId ? { chargeId } : {}),
+    };
+
+    transaction.update(ref, changes);
+    return { offset: { ...offset, ...changes }, updated: true };
+  });
+
+  if (result?.updated) {
+    console.log(`✅ Confirmed offset ${offsetId} via ${via}`);
+  }
+  return result ? result.offset : null;
+}
+
+/**
+ * Drop a donation the user didn't go through with
+ * Confirmed offsets stay in the ledger
+ * @returns null if the user has no such offset, false if it was already confirmed
+ */
+export async function removeIntendedOffset(userId: string, offsetId: string): Promise<boolean | null> {
+  if (!userId) {
+    throw new Error("User ID is required");
+  }
+
+  const ref = doc(offsetsRef(userId), offsetId);
+  const reference = referenceRef(offsetId);
+
+  return runTransaction(db, async (transaction) => {
+    const [existing, existingReference] = await Promise.all([
+      transaction.get(ref),
+      transaction.get(reference),
+    ]);
+
+    if (!existing.exists()) {
+      return null;
+    }
+    if ((existing.data() as OffsetEntry).status === "confirmed") {
+      return false;
+    }
+
+    transaction.delete(ref);
+    if (existingReference.exists() && existingReference.data().userId === userId) {
+      transaction.delete(reference);
+    }
+    return true;
+  });
+}
@@ -0,0 +1,88 @@
+// src/features/charity/useFavoriteCharities.ts
+import { useState, useEffect, useCallback } from 'react';
+import { authFetch } from '@/shared/utils/authFetch';
+import { CharitySearchResult } from './charityService';
+import { FavoriteCharities } from './favoriteCharities';
+
+interface UseFavoriteCharitiesResult {
+  favorites: FavoriteCharities;
+  isLoading: boolean;
+  error: string | null;
+  saveFavorite: (category: string, charity: CharitySearchResult) => Promise<void>;
+  removeFavorite: (category: string) => Promise<void>;
+}
+
+/**
+ * The charity the signed-in user prefers for each impact category, loaded when first used
+ */
+export function useFavoriteCharities(): UseFavoriteCharitiesResult {
+  const [favorites, setFavorites] = useState<FavoriteCharities>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    authFetch("/api/charity/favorites")
+      .then(async response => {
+        if (!response.ok) {
+          throw new Error(`Failed to load favorite charities: ${response.status}`);
+        }
+        const { favorites = {} } = await response.json();
+        setFavorites(favorites);
+      })
+      .catch(err => {
+        console.error("Error loading favorite charities:", err);
+        setError(err instanceof Error ? err.message : "Failed to load favorite charities");
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const saveFavorite = useCallback(async (category: string, charity: CharitySearchResult) => {
+    try {
+      const response = await authFetch("/api/charity/favorites", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ category, charity }),
+      });
+      if (!response.ok) {
+        throw new Error(`Failed to save favorite charity: ${response.status}`);
+      }
+
+      const { favorite } = await response.json();
+      setFavorites(prev => ({ ...prev, [category]: favorite }));
+      setError(null);
+    } catch (error) {
+      console.error("Error saving favorite charity:", error);
+      setError(error instanceof Error ? error.message : "Failed to save favorite charity");
+    }
+  }, []);
+
+  const removeFavorite = useCallback(async (category: string) => {
+    try {
+      const response = await authFetch(
+        `/api/charity/favorites?category=${encodeURIComponent(category)}`,
+        { method: "DELETE" }
+      );
+      if (!response.ok) {
+        throw new Error(`Failed to remove favorite charity: ${response.status}`);
+      }
+
+      setFavorites(prev => {
+        const next = { ...prev };
+        delete next[category];
+        return next;
+      });
+      setError(null);
+    } catch (error) {
+      console.error("Error removing favorite charity:", error);
+      setError(error instanceof Error ? error.message : "Failed to remove favorite charity");
+    }
+  }, []);
+
+  return {
+    favorites,
+    isLoading,
+    error,
+    saveFavorite,
+    removeFavorite
+  };
+}
@@ -0,0 +1,131 @@
+// src/features/charity/useOffsetLedger.ts
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import { User } from 'firebase/auth';
+import { authFetch } from '@/shared/utils/authFetch';
+import { OffsetEntry, OffsetInput, OffsetSummary, summarizeOffsets } from './offsetLedger';
+
+interface UseOffsetLedgerResult {
+  offsets: OffsetEntry[];
+  offsetSummary: OffsetSummary;
+  error: string | null;
+  refreshOffsets: () => Promise<OffsetEntry[]>;
+  recordOffset: (input: OffsetInput) => Promise<void>;
+  confirmOffset: (offsetId: string) => Promise<void>;
+  removeOffset: (offsetId: string) => Promise<void>;
+}
+
+/**
+ * The user's donations against their societal debt
+ */
+export function useOffsetLedger(user: User | null): UseOffsetLedgerResult {
+  const [offsets, setOffsets] = useState<OffsetEntry[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const refreshOffsets = useCallback(async (): Promise<OffsetEntry[]> => {
+    if (!user) {
+      setOffsets([]);
+      return [];
+    }
+
+    try {
+      const response = await authFetch("/api/charity/offsets");
+      if (!response.ok) {
+        throw new Error(`Failed to load offsets: ${response.status}`);
+      }
+
+      const { offsets = [] } = await response.json();
+      setOffsets(offsets);
+      setError(null);
+      return offsets;
+    } catch (error) {
+      console.error("Error loading offsets:", error);
+      setError(error instanceof Error ? error.message : "Failed to load offsets");
+      return [];
+    }
+  }, [user]);
+
+  // Put the server's copy of an offset in place of ours, newest first
+  const upsertOffset = useCallback((offset: OffsetEntry) => {
+    setOffsets(prev =>
+      [offset, ...prev.filter(existing => existing.id !== offset.id)]
+        .sort((a, b) => b.createdAt - a.createdAt)
+    );
+  }, []);
+
+  const recordOffset = useCallback(async (input: OffsetInput) => {
+    try {
+      const response = await authFetch("/api/charity/offsets", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(input),
+      });
+      if (!response.ok) {
+        const { error } = await response.json().catch(() => ({ error: null }));
+        throw new Error(error || `Failed to record donation: ${response.status}`);
+      }
+
+      const { offset } = await response.json();
+      upsertOffset(offset);
+      setError(null);
+    } catch (error) {
+      console.error("Error recording offset:", error);
+      setError(error instanceof Error ? error.message : "Failed to record donation");
+    }
+  }, [upsertOffset]);
+
+  // The user says they completed the donation
+  const confirmOffset = useCallback(async (offsetId: string) => {
+    try {
+      const response = await authFetch("/api/charity/offsets", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id: offsetId }),
+      });
+      if (!response.ok) {
+        throw new Error(`Failed to confirm donation: ${response.status}`);
+      }
+
+      const { offset } = await response.json();
+      upsertOffset(offset);
+      setError(null);
+    } catch (error) {
+      console.error("Error confirming offset:", error);
+      setError(error instanceof Error ? error.message : "Failed to confirm donation");
+    }
+  }, [upsertOffset]);
+
+  const removeOffset = useCallback(async (offsetId: string) => {
+    try {
+      const response = await authFetch(
+        `/api/charity/offsets?id=${encodeURIComponent(offsetId)}`,
+        { method: "DELETE" }
+      );
+      if (!response.ok) {
+        const { error } = await response.json().catch(() => ({ error: null }));
+        throw new Error(error || `Failed to remove donation: ${response.status}`);
+      }
+
+      setOffsets(prev => prev.filter(offset => offset.id !== offsetId));
+      setError(null);
+    } catch (error) {
+      console.error("Error removing offset:", error);
+      setError(error instanceof Error ? error.message : "Failed to remove donation");
+    }
+  }, []);
+
+  const offsetSummary = useMemo(() => summarizeOffsets(offsets), [offsets]);
+
+  useEffect(() => {
+    refreshOffsets().catch(err => console.error("Error loading offsets:", err));
+  }, [refreshOffsets]);
+
+  return {
+    offsets,
+    offsetSummary,
+    error,
+    refreshOffsets,
+    recordOffset,
+    confirmOffset,
+    removeOffset
+  };
+}
@@ -2,24 +2,15 @@
 "use client";
 
 import { useState, useCallback } from 'react';
-import { db } from '@/shared/firebase/firebase';
-import { collection, getDocs, query, where, orderBy, limit, DocumentData } from 'firebase/firestore';
 import { User } from 'firebase/auth';
+import { getMonthlySummaries, MonthlySummary } from '@/features/analysis/transactionStorageService';
 
 interface FirebaseVerifierProps {
   user: User | null;
 }
 
-interface TransactionBatch {
-  id: string;
-  userId: string;
-  createdAt: Date;
-  transactionCount: number;
-  totalDebt: number;
-}
-
 export function FirebaseVerifier({ user }: FirebaseVerifierProps) {
-  const [results, setResults] = useState<TransactionBatch[]>([]);
+  const [results, setResults] = useState<MonthlySummary[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [expanded, setExpanded] = useState(false);
@@ -34,42 +25,21 @@ export function FirebaseVerifier({ user }: FirebaseVerifierProps) {
     setError(null);
 
     try {
-      // Query the transactionBatches collection for the current user's data
-      const q = query(
-        collection(db, 'transactionBatches'),
-        where('userId', '==', user.uid),
-        orderBy('createdAt', 'desc'),
-        limit(10) // Get the 10 most recent batches
-      );
-
+      // The monthly summaries cover every stored transaction
       console.log(`📊 Checking Firebase for data belonging to user: ${user.uid}`);
       
-      const querySnapshot = await getDocs(q);
+      const summaries = await getMonthlySummaries(user.uid);
       
-      if (querySnapshot.empty) {
-        console.log('⚠️ No transaction batches found in Firebase');
+      if (summaries.length === 0) {
+        console.log('⚠️ No stored transactions found in Firebase');
         setResults([]);
         setError("No data found in Firebase for this user");
         setLoading(false);
         return;
       }
       
-      // Process the results
-      const batchData: TransactionBatch[] = [];
-      
-      querySnapshot.forEach((doc) => {
-        const data = doc.data() as DocumentData;
-        batchData.push({
-          id: doc.id,
-          userId: data.userId,
-          createdAt: data.createdAt?.toDate() || new Date(),
-          transactionCount: data.transactions?.length || 0,
-          totalDebt: data.totalSocietalDebt || 0
-        });
-      });
-      
-      console.log(`✅ Found ${batchData.length} transaction batches`);
-      setResults(batchData);
+      console.log(`✅ Found ${summaries.length} months of transactions`);
+      setResults(summaries);
       
     } catch (err) {
       console.error('❌ Error verifying Firebase data:', err);
@@ -113,24 +83,24 @@ export function FirebaseVerifier({ user }: FirebaseVerifierProps) {
           
           {results.length > 0 && (
             <div className="mb-3">
-              <h4 className="font-semibold text-sm mb-1">Found {results.length} Transaction Batches:</h4>
+              <h4 className="font-semibold text-sm mb-1">Found {results.length} Months of Transactions:</h4>
               <div className="max-h-40 overflow-y-auto">
                 <table className="w-full text-xs border-collapse">
                   <thead>
                     <tr className="bg-gray-200">
-                      <th className="p-1 text-left">ID</th>
-                      <th className="p-1 text-left">Date</th>
+                      <th className="p-1 text-left">Month</th>
+                      <th className="p-1 text-left">Updated</th>
                       <th className="p-1 text-right">Transactions</th>
                       <th className="p-1 text-right">Debt</th>
                     </tr>
                   </thead>
                   <tbody>
-                    {results.map((batch) => (
-                      <tr key={batch.id} className="border-b border-gray-200">
-                        <td className="p-1 text-left">{batch.id.substring(0, 6)}...</td>
-                        <td className="p-1 text-left">{batch.createdAt.toLocaleString()}</td>
-                        <td className="p-1 text-right">{batch.transactionCount}</td>
-                        <td className="p-1 text-right">${batch.totalDebt.toFixed(2)}</td>
+                    {results.map((summary) => (
+                      <tr key={summary.month} className="border-b border-gray-200">
+                        <td className="p-1 text-left">{summary.month}</td>
+                        <td className="p-1 text-left">{summary.updatedAt.toDate().toLocaleString()}</td>
+                        <td className="p-1 text-right">{summary.transactionCount}</td>
+                        <td className="p-1 text-right">${summary.totalSocietalDebt.toFixed(2)}</td>
                       </tr>
                     ))}
                   </tbody>
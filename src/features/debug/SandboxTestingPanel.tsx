@@ -2,6 +2,7 @@
 import { useState, useCallback } from 'react';
 import { User } from 'firebase/auth';
 import { Transaction } from '@/shared/types/transactions';
+import { authFetch } from '@/shared/utils/authFetch';
 
 interface SandboxTestingPanelProps {
   user: User | null;
@@ -30,7 +31,7 @@ export function SandboxTestingPanel({
     
     try {
       // Get a sandbox token from the API
-      const response = await fetch("/api/banking/sandbox_token", {
+      const response = await authFetch("/api/banking/sandbox_token", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
       });
@@ -43,7 +44,7 @@ export function SandboxTestingPanel({
       console.log("🏦 Using Plaid Sandbox API with token:", public_token);
       
       // Now fetch transactions using this token
-      const txResponse = await fetch("/api/banking/exchange_token", {
+      const txResponse = await authFetch("/api/banking/exchange_token", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({ public_token }),
@@ -53,13 +54,13 @@ export function SandboxTestingPanel({
         throw new Error(`Token exchange error: ${txResponse.status}`);
       }
       
-      const { access_token } = await txResponse.json();
+      const { itemId } = await txResponse.json();
       
-      // Now get transactions with this access token
-      const dataResponse = await fetch("/api/banking/transactions", {
+      // Now get transactions for the linked item; the server holds its token
+      const dataResponse = await authFetch("/api/banking/transactions", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ access_token }),
+        body: JSON.stringify({ itemId }),
       });
       
       if (!dataResponse.ok) {
@@ -105,7 +106,7 @@ export function SandboxTestingPanel({
       console.log("📋 Fetching local sample transaction data...");
       
       // Use your existing API endpoint that already has sample data handling
-      const response = await fetch("/api/banking/transactions", {
+      const response = await authFetch("/api/banking/transactions", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({ useSampleData: true }),
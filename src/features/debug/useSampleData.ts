@@ -1,6 +1,7 @@
 // src/features/debug/useSampleData.ts
 import { useCallback } from 'react';
 import { Transaction } from '@/shared/types/transactions';
+import { assignTransactionIds } from '@/shared/utils/transactionIdentity';
 
 /**
  * Hook to provide sample transaction data for testing
@@ -14,7 +15,7 @@ export function useSampleData() {
       return date.toISOString().split('T')[0];
     };
     
-    return [
+    return assignTransactionIds<Transaction>([
       {
         date: formatDate(1),
         name: "Whole Foods Market",
@@ -141,40 +142,11 @@ export function useSampleData() {
         },
         analyzed: true
       }
-    ];
+    ], "sample");
   }, []);
   
-  // Calculate societal debt for the sample transactions
-  const calculateSampleDebt = useCallback((transactions: Transaction[]): number => {
-    let totalDebt = 0;
-    
-    transactions.forEach(tx => {
-      let transactionDebt = 0;
-      
-      // Add debt from unethical practices
-      (tx.unethicalPractices || []).forEach(practice => {
-        const weight = tx.practiceWeights?.[practice] || 0;
-        const practiceDebt = tx.amount * (weight / 100);
-        transactionDebt += practiceDebt;
-      });
-      
-      // Subtract debt from ethical practices
-      (tx.ethicalPractices || []).forEach(practice => {
-        const weight = tx.practiceWeights?.[practice] || 0;
-        const practiceCredit = tx.amount * (weight / 100) *.5;
-        transactionDebt -= practiceCredit;
-      });
-      
-      // Add this transaction's debt to the total
-      totalDebt += transactionDebt;
-    });
-    
-    return totalDebt;
-  }, []);
-
   // Return the sample data generation functions
   return {
-    generateSampleTransactions,
-    calculateSampleDebt
+    generateSampleTransactions
   };
 }
\ No newline at end of file
@@ -0,0 +1,225 @@
+// src/features/import/StatementImport.tsx
+"use client";
+
+import { ChangeEvent } from 'react';
+import { useStatementImport } from './useStatementImport';
+import { CsvColumnMapping, StatementImportResult } from './types';
+
+interface StatementImportProps {
+  onImported: (result: StatementImportResult) => void;
+}
+
+const PREVIEW_ROWS = 5;
+
+// One mapping dropdown over the file's headers
+function ColumnSelect({
+  label,
+  value,
+  headers,
+  onChange
+}: {
+  label: string;
+  value?: string;
+  headers: string[];
+  onChange: (value: string | undefined) => void;
+}) {
+  return (
+    <label className="flex flex-col text-xs text-gray-600">
+      {label}
+      <select
+        value={value || ""}
+        onChange={(e) => onChange(e.target.value || undefined)}
+        className="mt-1 border border-gray-300 rounded px-2 py-1 text-sm text-gray-800"
+      >
+        {headers.map((header) => (
+          <option key={header} value={header}>{header}</option>
+        ))}
+      </select>
+    </label>
+  );
+}
+
+export function StatementImport({ onImported }: StatementImportProps) {
+  const {
+    step,
+    fileName,
+    csvTable,
+    mapping,
+    preview,
+    result,
+    error,
+    selectFile,
+    setMapping,
+    confirmMapping,
+    reset
+  } = useStatementImport(onImported);
+
+  const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      selectFile(file).catch(err => console.error("Error reading statement:", err));
+    }
+    // Allow picking the same file again
+    e.target.value = "";
+  };
+
+  const updateMapping = (changes: Partial<CsvColumnMapping>) => {
+    if (mapping) setMapping({ ...mapping, ...changes });
+  };
+
+  const usesDebitCredit = Boolean(mapping?.debit && mapping?.credit);
+
+  return (
+    <div className="space-y-4">
+      {(step === 'idle' || step === 'error' || step === 'done') && (
+        <div>
+          <input
+            type="file"
+            accept=".csv,.ofx,.qfx,text/csv"
+            onChange={handleFileChange}
+            className="text-sm text-gray-700"
+          />
+          <p className="text-xs text-gray-500 mt-1">
+            CSV, OFX or QFX statements downloaded from your bank
+          </p>
+        </div>
+      )}
+
+      {step === 'error' && error && (
+        <p className="text-sm text-red-600">{error}</p>
+      )}
+
+      {step === 'importing' && (
+        <p className="text-sm text-gray-600">Importing {fileName}...</p>
+      )}
+
+      {step === 'done' && result && (
+        <p className="text-sm text-green-700">
+          Imported {result.added.length} new transactions from {fileName}
+          {result.duplicateCount > 0 && `, skipped ${result.duplicateCount} already stored`}
+          {preview && preview.skippedCount > 0 && `, ignored ${preview.skippedCount} credits`}.
+        </p>
+      )}
+
+      {step === 'mapping' && csvTable && mapping && (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-700">
+            Check which columns hold each value in <strong>{fileName}</strong>
+          </p>
+
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+            <ColumnSelect
+              label="Date"
+              value={mapping.date}
+              headers={csvTable.headers}
+              onChange={(date) => updateMapping({ date: date || "" })}
+            />
+            <label className="flex flex-col text-xs text-gray-600">
+              Date format
+              <select
+                value={mapping.dateOrder}
+                onChange={(e) => updateMapping({ dateOrder: e.target.value as CsvColumnMapping["dateOrder"] })}
+                className="mt-1 border border-gray-300 rounded px-2 py-1 text-sm text-gray-800"
+              >
+                <option value="MDY">Month/Day/Year</option>
+                <option value="DMY">Day/Month/Year</option>
+                <option value="YMD">Year-Month-Day</option>
+              </select>
+            </label>
+            <ColumnSelect
+              label="Description"
+              value={mapping.description}
+              headers={csvTable.headers}
+              onChange={(description) => updateMapping({ description: description || "" })}
+            />
+            {usesDebitCredit ? (
+              <>
+                <ColumnSelect
+                  label="Debit (money out)"
+                  value={mapping.debit}
+                  headers={csvTable.headers}
+                  onChange={(debit) => updateMapping({ debit })}
+                />
+                <ColumnSelect
+                  label="Credit (money in)"
+                  value={mapping.credit}
+                  headers={csvTable.headers}
+                  onChange={(credit) => updateMapping({ credit })}
+                />
+              </>
+            ) : (
+              <>
+                <ColumnSelect
+                  label="Amount"
+                  value={mapping.amount}
+                  headers={csvTable.headers}
+                  onChange={(amount) => updateMapping({ amount })}
+                />
+                <label className="flex flex-col text-xs text-gray-600">
+                  Spending shows as
+                  <select
+                    value={mapping.amountSign}
+                    onChange={(e) => updateMapping({ amountSign: e.target.value as CsvColumnMapping["amountSign"] })}
+                    className="mt-1 border border-gray-300 rounded px-2 py-1 text-sm text-gray-800"
+                  >
+                    <option value="negative_is_spending">Negative amounts</option>
+                    <option value="positive_is_spending">Positive amounts</option>
+                  </select>
+                </label>
+              </>
+            )}
+          </div>
+
+          <button
+            onClick={() =>
+              usesDebitCredit
+                ? updateMapping({ amount: mapping.debit, debit: undefined, credit: undefined })
+                : updateMapping({ debit: mapping.amount, credit: csvTable.headers.find(h => h !== mapping.amount) })
+            }
+            className="text-xs text-blue-600 underline"
+          >
+            {usesDebitCredit ? "Use a single amount column" : "Use separate debit and credit columns"}
+          </button>
+
+          {preview && (
+            <div className="text-sm">
+              <p className="text-gray-700 mb-2">
+                {preview.transactions.length} purchases will be imported
+                {preview.skippedCount > 0 && `, ${preview.skippedCount} credits ignored`}
+                {preview.errors.length > 0 && `, ${preview.errors.length} rows unreadable`}
+              </p>
+              <ul className="divide-y divide-gray-100 border border-gray-200 rounded">
+                {preview.transactions.slice(0, PREVIEW_ROWS).map((tx) => (
+                  <li key={tx.transactionId} className="flex justify-between px-3 py-1">
+                    <span className="text-gray-500 w-24">{tx.date}</span>
+                    <span className="flex-1 truncate">{tx.name}</span>
+                    <span className="text-gray-700">${tx.amount.toFixed(2)}</span>
+                  </li>
+                ))}
+              </ul>
+              {preview.errors.slice(0, 3).map((rowError) => (
+                <p key={rowError} className="text-xs text-red-600 mt-1">{rowError}</p>
+              ))}
+            </div>
+          )}
+
+          <div className="flex space-x-2">
+            <button
+              onClick={() => confirmMapping()}
+              disabled={!preview || preview.transactions.length === 0}
+              className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 text-white px-3 py-1 rounded text-sm"
+            >
+              Import
+            </button>
+            <button
+              onClick={reset}
+              className="bg-gray-300 hover:bg-gray-400 text-gray-800 px-3 py-1 rounded text-sm"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
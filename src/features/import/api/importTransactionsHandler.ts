@@ -0,0 +1,42 @@
+// src/features/import/api/importTransactionsHandler.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import { config } from "@/config";
+import { Transaction } from "@/shared/types/transactions";
+import { AuthContext } from "@/shared/utils/withAuth";
+import { importStatementTransactions, toImportedTransaction } from "../importService";
+
+export async function importTransactionsHandler(req: NextRequest, { uid: userId }: AuthContext) {
+  try {
+    const { transactions } = await req.json();
+
+    if (!Array.isArray(transactions) || transactions.length === 0) {
+      return NextResponse.json({ error: "No transactions to import" }, { status: 400 });
+    }
+
+    if (transactions.length > config.statementImport.maxTransactions) {
+      return NextResponse.json(
+        { error: `Imports are limited to ${config.statementImport.maxTransactions} transactions` },
+        { status: 413 }
+      );
+    }
+
+    const imported = transactions.map(toImportedTransaction);
+    const invalidCount = imported.filter((tx) => tx === null).length;
+    if (invalidCount > 0) {
+      return NextResponse.json(
+        { error: `${invalidCount} transactions are missing a date, name or amount` },
+        { status: 400 }
+      );
+    }
+
+    const result = await importStatementTransactions(userId, imported as Transaction[]);
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("❌ Error importing transactions:", error);
+    return NextResponse.json(
+      { error: "Failed to import transactions", details: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,134 @@
+// src/features/import/csvParser.test.ts
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "fs";
+import { join } from "path";
+import {
+  guessColumnMapping,
+  guessDateOrder,
+  mapCsvRows,
+  parseAmount,
+  parseCsv,
+  parseStatementDate,
+} from "./csvParser";
+
+const statement = readFileSync(join(__dirname, "fixtures", "statement.csv"), "utf8");
+
+describe("parseCsv", () => {
+  it("keeps quoted delimiters and doubled quotes inside a cell", () => {
+    const { headers, rows } = parseCsv(statement);
+
+    assert.deepEqual(headers, ["Transaction Date", "Description", "Amount", "Balance"]);
+    assert.equal(rows.length, 6);
+    assert.equal(rows[0].Description, "AMAZON.COM*2K4, SEATTLE WA");
+    assert.equal(rows[4].Description, 'Corner Bakery "Downtown"');
+  });
+
+  it("detects semicolon-delimited exports, drops a byte order mark and names blank headers", () => {
+    const { headers, rows } = parseCsv("\uFEFFDatum;Omschrijving;;Bedrag\n02-03-2025;Albert Heijn;x;-12,50\n");
+
+    assert.deepEqual(headers, ["Datum", "Omschrijving", "Column 3", "Bedrag"]);
+    assert.deepEqual(rows[0], { Datum: "02-03-2025", Omschrijving: "Albert Heijn", "Column 3": "x", Bedrag: "-12,50" });
+  });
+});
+
+describe("guessColumnMapping", () => {
+  it("maps common bank headers and reads negative amounts as spending", () => {
+    assert.deepEqual(guessColumnMapping(parseCsv(statement)), {
+      date: "Transaction Date",
+      description: "Description",
+      amount: "Amount",
+      amountSign: "negative_is_spending",
+      dateOrder: "MDY",
+    });
+  });
+
+  it("prefers separate debit and credit columns", () => {
+    const table = parseCsv("Date,Payee,Debit,Credit\n2025-03-02,Amazon,80.00,\n2025-03-05,Payroll,,2500.00\n");
+
+    assert.deepEqual(guessColumnMapping(table), {
+      date: "Date",
+      description: "Payee",
+      debit: "Debit",
+      credit: "Credit",
+      amountSign: "negative_is_spending",
+      dateOrder: "YMD",
+    });
+  });
+
+  it("reads mostly positive amounts as a card export that lists purchases as positive", () => {
+    const table = parseCsv("Date,Description,Amount\n03/02/2025,Amazon,80.00\n03/03/2025,Starbucks,12.50\n");
+
+    assert.equal(guessColumnMapping(table).amountSign, "positive_is_spending");
+  });
+});
+
+describe("statement dates and amounts", () => {
+  it("guesses day-first dates from a day over 12", () => {
+    assert.equal(guessDateOrder(["02/03/2025", "25/03/2025"]), "DMY");
+    assert.equal(guessDateOrder(["02/03/2025"]), "MDY");
+  });
+
+  it("normalizes dates and rejects ones that don't exist", () => {
+    assert.equal(parseStatementDate("03/02/25", "MDY"), "2025-03-02");
+    assert.equal(parseStatementDate("02.03.2025", "DMY"), "2025-03-02");
+    assert.equal(parseStatementDate("02/30/2025", "MDY"), null);
+    assert.equal(parseStatementDate("not a date", "MDY"), null);
+  });
+
+  it("reads signs, currency symbols, parentheses and decimal commas", () => {
+    assert.equal(parseAmount("-1,234.56"), -1234.56);
+    assert.equal(parseAmount("$12.00"), 12);
+    assert.equal(parseAmount("($15.25)"), -15.25);
+    assert.equal(parseAmount("1.234,56"), 1234.56);
+    assert.equal(parseAmount("  "), null);
+  });
+});
+
+describe("mapCsvRows", () => {
+  it("imports spending, skips credits and reports unreadable rows", () => {
+    const table = parseCsv(statement);
+    const result = mapCsvRows(table, guessColumnMapping(table));
+
+    assert.equal(result.format, "csv");
+    assert.equal(result.skippedCount, 1);
+    assert.deepEqual(result.errors, ['Row 7: invalid date "not a date"']);
+    assert.deepEqual(
+      result.transactions.map(({ date, name, amount, analyzed }) => ({ date, name, amount, analyzed })),
+      [
+        { date: "2025-03-02", name: "AMAZON.COM*2K4, SEATTLE WA", amount: 80, analyzed: false },
+        { date: "2025-03-03", name: "STARBUCKS STORE 1234", amount: 12.5, analyzed: false },
+        { date: "2025-03-03", name: "STARBUCKS STORE 1234", amount: 12.5, analyzed: false },
+        { date: "2025-03-31", name: 'Corner Bakery "Downtown"', amount: 15.25, analyzed: false },
+      ]
+    );
+  });
+
+  it("gives identical purchases separate ids that are stable across imports", () => {
+    const table = parseCsv(statement);
+    const ids = mapCsvRows(table, guessColumnMapping(table)).transactions.map((tx) => tx.transactionId);
+
+    assert.deepEqual(ids.slice(1, 3), [
+      "csv-2025-03-03-starbucks-store-1234-12.50-0",
+      "csv-2025-03-03-starbucks-store-1234-12.50-1",
+    ]);
+    assert.deepEqual(mapCsvRows(table, guessColumnMapping(table)).transactions.map((tx) => tx.transactionId), ids);
+  });
+
+  it("resolves merchant descriptors to their canonical merchant", () => {
+    const table = parseCsv(statement);
+    const [amazon, starbucks] = mapCsvRows(table, guessColumnMapping(table)).transactions;
+
+    assert.deepEqual([amazon.merchantId, amazon.merchantName], ["amazon", "Amazon"]);
+    assert.deepEqual([starbucks.merchantId, starbucks.merchantName], ["starbucks", "Starbucks"]);
+  });
+
+  it("uses debit and credit columns when mapped", () => {
+    const table = parseCsv("Date,Payee,Debit,Credit\n2025-03-02,Amazon,80.00,\n2025-03-05,Payroll,,2500.00\n2025-03-06,Shell,,\n");
+    const result = mapCsvRows(table, guessColumnMapping(table));
+
+    assert.deepEqual(result.transactions.map((tx) => [tx.name, tx.amount]), [["Amazon", 80]]);
+    assert.equal(result.skippedCount, 1);
+    assert.deepEqual(result.errors, ["Row 4: invalid amount"]);
+  });
+});
@@ -0,0 +1,263 @@
+// src/features/import/csvParser.ts
+// CSV statement parsing - split the file, guess a column mapping, then map rows to transactions
+
+import { Transaction } from "@/shared/types/transactions";
+import { assignTransactionIds } from "@/shared/utils/transactionIdentity";
+import { withCanonicalMerchant } from "@/features/analysis/merchantNormalization";
+import { CsvColumnMapping, CsvTable, DateOrder, ParsedStatement } from "./types";
+
+/**
+ * Pick the delimiter that splits the header line into the most columns
+ */
+function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0] || "";
+  const candidates = [",", ";", "\t"];
+
+  return candidates.reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+}
+
+/**
+ * Split CSV text into rows of cells, honouring quoted cells with embedded
+ * delimiters, newlines and doubled quotes
+ */
+export function splitCsv(text: string, delimiter = detectDelimiter(text)): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  // Drop a byte order mark some banks prepend
+  const input = text.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell.trim());
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(cell.trim());
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell || row.length > 0) {
+    row.push(cell.trim());
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((value) => value !== ""));
+}
+
+/**
+ * Parse CSV text into a header list and rows keyed by header
+ * Blank or repeated headers get a positional name so no column is lost
+ */
+export function parseCsv(text: string): CsvTable {
+  const [headerRow = [], ...dataRows] = splitCsv(text);
+
+  const seen = new Set<string>();
+  const headers = headerRow.map((header, index) => {
+    const name = header && !seen.has(header) ? header : `Column ${index + 1}`;
+    seen.add(name);
+    return name;
+  });
+
+  const rows = dataRows.map((cells) =>
+    Object.fromEntries(headers.map((header, index) => [header, cells[index] ?? ""]))
+  );
+
+  return { headers, rows };
+}
+
+function findHeader(headers: string[], patterns: RegExp[]): string | undefined {
+  for (const pattern of patterns) {
+    const match = headers.find((header) => pattern.test(header));
+    if (match) return match;
+  }
+  return undefined;
+}
+
+/**
+ * Guess a column mapping from common bank export headers
+ * The user confirms or corrects it before anything is imported
+ */
+export function guessColumnMapping(table: CsvTable): CsvColumnMapping {
+  const { headers } = table;
+
+  const date = findHeader(headers, [/^(transaction |posted |post )?date$/i, /date/i]) || headers[0] || "";
+  const description =
+    findHeader(headers, [/^description$/i, /payee|merchant|narrative|details/i, /name|memo/i]) ||
+    headers[1] ||
+    "";
+  const debit = findHeader(headers, [/^(debit|withdrawal|money out)s?$/i]);
+  const credit = findHeader(headers, [/^(credit|deposit|money in)s?$/i]);
+  const amount = findHeader(headers, [/^amount$/i, /amount/i]);
+
+  // Most bank exports show spending as negative numbers
+  const amountSign = amount && !(debit && credit) ? guessAmountSign(table.rows, amount) : "negative_is_spending";
+
+  return {
+    date,
+    description,
+    ...(debit && credit ? { debit, credit } : { amount: amount || headers[2] || "" }),
+    amountSign,
+    dateOrder: guessDateOrder(table.rows.map((row) => row[date] || "")),
+  };
+}
+
+function guessAmountSign(rows: Record<string, string>[], column: string): CsvColumnMapping["amountSign"] {
+  const amounts = rows.map((row) => parseAmount(row[column])).filter((value) => value !== null);
+  const negatives = amounts.filter((value) => (value as number) < 0).length;
+
+  // A card export that lists purchases as positive has few or no negatives
+  return negatives >= amounts.length / 2 ? "negative_is_spending" : "positive_is_spending";
+}
+
+/**
+ * Guess the day/month order from sample dates - a first part over 12 means day first
+ */
+export function guessDateOrder(samples: string[]): DateOrder {
+  for (const sample of samples) {
+    const parts = sample.trim().split(/[/.\-\s]+/);
+    if (parts.length < 3) continue;
+
+    if (parts[0].length === 4) return "YMD";
+    if (Number(parts[0]) > 12) return "DMY";
+  }
+
+  return "MDY";
+}
+
+/**
+ * Normalize a statement date to YYYY-MM-DD
+ * @returns null when the value isn't a valid date in the given order
+ */
+export function parseStatementDate(value: string, order: DateOrder): string | null {
+  const parts = (value || "").trim().split(/[/.\-\s]+/);
+  if (parts.length < 3) return null;
+
+  const [year, month, day] =
+    order === "YMD"
+      ? [parts[0], parts[1], parts[2]]
+      : order === "DMY"
+      ? [parts[2], parts[1], parts[0]]
+      : [parts[2], parts[0], parts[1]];
+
+  let fullYear = Number(year);
+  if (year.length === 2) fullYear += fullYear < 70 ? 2000 : 1900;
+
+  const date = new Date(Date.UTC(fullYear, Number(month) - 1, Number(day)));
+  if (
+    Number.isNaN(date.getTime()) ||
+    date.getUTCFullYear() !== fullYear ||
+    date.getUTCMonth() !== Number(month) - 1 ||
+    date.getUTCDate() !== Number(day)
+  ) {
+    return null;
+  }
+
+  return date.toISOString().split("T")[0];
+}
+
+/**
+ * Parse a statement amount like "-1,234.56", "$12.00" or "(45.10)"
+ * @returns null for blank or unreadable cells
+ */
+export function parseAmount(value: string | undefined): number | null {
+  if (!value || !value.trim()) return null;
+
+  const trimmed = value.trim();
+  const negative = /^\(.*\)$/.test(trimmed) || /^-|-$/.test(trimmed.replace(/[^\d.,-]/g, ""));
+  const digits = trimmed.replace(/[^\d.,]/g, "");
+
+  // Treat a trailing ",dd" as a decimal comma (1.234,56) - otherwise commas group thousands
+  const normalized = /,\d{1,2}$/.test(digits)
+    ? digits.replace(/\./g, "").replace(",", ".")
+    : digits.replace(/,/g, "");
+
+  const amount = Number(normalized);
+  if (!normalized || Number.isNaN(amount)) return null;
+
+  return negative ? -amount : amount;
+}
+
+/**
+ * Map CSV rows to transactions using the confirmed column mapping
+ * Only spending is kept; rows that can't be read are reported, not imported
+ */
+export function mapCsvRows(table: CsvTable, mapping: CsvColumnMapping): ParsedStatement {
+  const transactions: Transaction[] = [];
+  const errors: string[] = [];
+  let skippedCount = 0;
+
+  table.rows.forEach((row, index) => {
+    const rowNumber = index + 2; // 1-based, after the header row
+    const date = parseStatementDate(row[mapping.date], mapping.dateOrder);
+    const name = (row[mapping.description] || "").trim();
+
+    if (!date) {
+      errors.push(`Row ${rowNumber}: invalid date "${row[mapping.date] || ""}"`);
+      return;
+    }
+    if (!name) {
+      errors.push(`Row ${rowNumber}: missing description`);
+      return;
+    }
+
+    let spending: number | null;
+    if (mapping.debit && mapping.credit) {
+      const debit = parseAmount(row[mapping.debit]);
+      const credit = parseAmount(row[mapping.credit]);
+      spending = debit !== null ? Math.abs(debit) : credit !== null ? -Math.abs(credit) : null;
+    } else {
+      const amount = parseAmount(row[mapping.amount || ""]);
+      spending =
+        amount === null ? null : mapping.amountSign === "negative_is_spending" ? -amount : amount;
+    }
+
+    if (spending === null) {
+      errors.push(`Row ${rowNumber}: invalid amount`);
+      return;
+    }
+    if (spending <= 0) {
+      skippedCount++;
+      return;
+    }
+
+    transactions.push({
+      date,
+      name,
+      amount: Math.round(spending * 100) / 100,
+      analyzed: false,
+    });
+  });
+
+  return {
+    format: "csv",
+    transactions: assignTransactionIds(transactions, "csv").map(withCanonicalMerchant),
+    skippedCount,
+    errors,
+  };
+}
@@ -0,0 +1,115 @@
+// src/features/import/importService.test.ts
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Transaction } from "@/shared/types/transactions";
+import { dedupeImportedTransactions, toImportedTransaction } from "./importService";
+
+describe("toImportedTransaction", () => {
+  it("keeps only what a statement can supply", () => {
+    const imported = toImportedTransaction({
+      transactionId: "csv-2025-03-02-amazon-80.00-0",
+      date: "2025-03-02",
+      name: "  Amazon  ",
+      amount: 80,
+      analyzed: true,
+      unethicalPractices: ["Labor Exploitation"],
+      societalDebt: 0,
+    });
+
+    assert.deepEqual(imported, {
+      transactionId: "csv-2025-03-02-amazon-80.00-0",
+      date: "2025-03-02",
+      name: "Amazon",
+      amount: 80,
+      analyzed: false,
+    });
+  });
+
+  it("leaves out a missing or empty transactionId", () => {
+    assert.deepEqual(toImportedTransaction({ transactionId: "", date: "2025-03-02", name: "Amazon", amount: 80 }), {
+      date: "2025-03-02",
+      name: "Amazon",
+      amount: 80,
+      analyzed: false,
+    });
+  });
+
+  it("rejects transactions without a date, name or positive amount", () => {
+    const valid = { date: "2025-03-02", name: "Amazon", amount: 80 };
+
+    assert.equal(toImportedTransaction(null), null);
+    assert.equal(toImportedTransaction("Amazon"), null);
+    assert.equal(toImportedTransaction({ ...valid, date: "03/02/2025" }), null);
+    assert.equal(toImportedTransaction({ ...valid, name: "   " }), null);
+    assert.equal(toImportedTransaction({ ...valid, amount: "80" }), null);
+    assert.equal(toImportedTransaction({ ...valid, amount: 0 }), null);
+    assert.equal(toImportedTransaction({ ...valid, amount: -80 }), null);
+    assert.equal(toImportedTransaction({ ...valid, amount: Infinity }), null);
+  });
+});
+
+describe("dedupeImportedTransactions", () => {
+  const storedAmazon: Transaction = {
+    transactionId: "csv-2025-03-02-amazon-80.00-0",
+    date: "2025-03-02",
+    name: "Amazon",
+    amount: 80,
+    analyzed: true,
+    societalDebt: 28,
+  };
+
+  it("skips transactions whose id is already stored", () => {
+    const { added, duplicateCount } = dedupeImportedTransactions(
+      [storedAmazon],
+      [{ ...storedAmazon, analyzed: false, societalDebt: undefined }]
+    );
+
+    assert.deepEqual(added, []);
+    assert.equal(duplicateCount, 1);
+  });
+
+  it("skips transactions matching a stored one by date, name and amount", () => {
+    // A Plaid transaction for the same purchase, from before the statement was imported
+    const plaidCoffee: Transaction = {
+      transactionId: "plaid-abc123",
+      date: "2025-03-03",
+      name: "Starbucks",
+      amount: 12.5,
+    };
+    const imported = { transactionId: "csv-2025-03-03-starbucks-12.50-0", date: "2025-03-03", name: "Starbucks", amount: 12.5 };
+
+    const { added, duplicateCount } = dedupeImportedTransactions([plaidCoffee], [imported]);
+
+    assert.deepEqual(added, []);
+    assert.equal(duplicateCount, 1);
+  });
+
+  it("matches transactions stored before they had ids by their legacy key", () => {
+    const legacy: Transaction = { date: "2025-03-03", name: "Starbucks", amount: 12.5, analyzed: true };
+    const imported = { transactionId: "ofx-987654-2025030301", date: "2025-03-03", name: "Starbucks", amount: 12.5 };
+
+    assert.equal(dedupeImportedTransactions([legacy], [imported]).duplicateCount, 1);
+  });
+
+  it("lets each stored transaction absorb only one identical import", () => {
+    const stored: Transaction = { transactionId: "plaid-abc123", date: "2025-03-03", name: "Starbucks", amount: 12.5 };
+    const imported = [
+      { transactionId: "csv-2025-03-03-starbucks-12.50-0", date: "2025-03-03", name: "Starbucks", amount: 12.5 },
+      { transactionId: "csv-2025-03-03-starbucks-12.50-1", date: "2025-03-03", name: "Starbucks", amount: 12.5 },
+    ];
+
+    const { added, duplicateCount } = dedupeImportedTransactions([stored], imported);
+
+    assert.equal(duplicateCount, 1);
+    assert.deepEqual(added, [{ ...imported[1], analyzed: false }]);
+  });
+
+  it("doesn't add the same id twice from one import", () => {
+    const imported = { transactionId: "ofx-987654-2025030701", date: "2025-03-07", name: "Whole Foods", amount: 64 };
+
+    const { added, duplicateCount } = dedupeImportedTransactions([], [imported, { ...imported }]);
+
+    assert.deepEqual(added, [{ ...imported, analyzed: false }]);
+    assert.equal(duplicateCount, 1);
+  });
+});
@@ -0,0 +1,109 @@
+// src/features/import/importService.ts
+// Stores imported statement transactions alongside the ones from Plaid - no HTTP concerns
+
+import { Transaction } from "@/shared/types/transactions";
+import { getTransactionId, legacyTransactionKey } from "@/shared/utils/transactionIdentity";
+import {
+  getUserTransactions,
+  saveUserTransactions,
+} from "@/features/analysis/transactionStorageService";
+import { recomputeTotals } from "@/features/banking/transactionSyncService";
+import { StatementImportResult } from "./types";
+
+/**
+ * Keep only the fields a statement can supply, so an import can't carry its own analysis
+ * @returns null if the transaction is missing a date, name or positive amount
+ */
+export function toImportedTransaction(value: unknown): Transaction | null {
+  if (!value || typeof value !== "object") return null;
+
+  const { transactionId, date, name, amount } = value as Record<string, unknown>;
+  if (
+    typeof date !== "string" ||
+    !/^\d{4}-\d{2}-\d{2}$/.test(date) ||
+    typeof name !== "string" ||
+    !name.trim() ||
+    typeof amount !== "number" ||
+    !Number.isFinite(amount) ||
+    amount <= 0
+  ) {
+    return null;
+  }
+
+  return {
+    ...(typeof transactionId === "string" && transactionId ? { transactionId } : {}),
+    date,
+    name: name.trim(),
+    amount,
+    analyzed: false,
+  };
+}
+
+/**
+ * Split imported transactions into new ones and ones we already have
+ * A transaction is already stored if its id matches, or if a stored transaction has the
+ * same date, name and amount - that catches a statement overlapping a Plaid sync.
+ * Each stored match only absorbs one import, so two identical purchases both survive
+ */
+export function dedupeImportedTransactions(
+  stored: Transaction[],
+  imported: Transaction[]
+): { added: Transaction[]; duplicateCount: number } {
+  const storedIds = new Set(stored.map(getTransactionId));
+  const unmatched = new Map<string, number>();
+  stored.forEach((tx) => {
+    const key = legacyTransactionKey(tx);
+    unmatched.set(key, (unmatched.get(key) || 0) + 1);
+  });
+
+  const added: Transaction[] = [];
+  let duplicateCount = 0;
+
+  imported.forEach((tx) => {
+    const key = legacyTransactionKey(tx);
+    const matches = unmatched.get(key) || 0;
+
+    if (storedIds.has(getTransactionId(tx))) {
+      duplicateCount++;
+      if (matches > 0) unmatched.set(key, matches - 1);
+    } else if (matches > 0) {
+      duplicateCount++;
+      unmatched.set(key, matches - 1);
+    } else {
+      added.push({ ...tx, analyzed: false });
+      storedIds.add(getTransactionId(tx));
+    }
+  });
+
+  return { added, duplicateCount };
+}
+
+/**
+ * Add imported transactions to the user's stored transactions
+ * New ones are stored unanalyzed, like a Plaid sync, until the client sends them for analysis
+ */
+export async function importStatementTransactions(
+  userId: string,
+  imported: Transaction[]
+): Promise<StatementImportResult> {
+  if (!userId) {
+    throw new Error("User ID is required");
+  }
+
+  const stored = (await getUserTransactions(userId))?.transactions || [];
+  const { added, duplicateCount } = dedupeImportedTransactions(stored, imported);
+
+  const totals = recomputeTotals([...stored, ...added]);
+
+  await saveUserTransactions(userId, added);
+
+  console.log(`📥 Imported ${added.length} transactions, skipped ${duplicateCount} already stored`);
+
+  return {
+    transactions: totals.transactions,
+    added,
+    duplicateCount,
+    totalSocietalDebt: totals.totalSocietalDebt,
+    debtPercentage: totals.debtPercentage,
+  };
+}
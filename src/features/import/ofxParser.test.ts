@@ -0,0 +1,82 @@
+// src/features/import/ofxParser.test.ts
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "fs";
+import { join } from "path";
+import { parseOfx, parseOfxDate } from "./ofxParser";
+import { detectStatementFormat } from "./statementParser";
+
+const fixture = (name: string) => readFileSync(join(__dirname, "fixtures", name), "utf8");
+
+describe("parseOfx", () => {
+  it("reads debits from an SGML OFX 1.x statement", () => {
+    const result = parseOfx(fixture("statement.ofx"));
+
+    assert.equal(result.format, "ofx");
+    assert.equal(result.skippedCount, 1);
+    assert.deepEqual(result.errors, ["Transaction 4: invalid date"]);
+    assert.deepEqual(result.transactions, [
+      {
+        transactionId: "ofx-987654-2025030201",
+        date: "2025-03-02",
+        name: "AMAZON.COM*2K4",
+        amount: 80,
+        analyzed: false,
+        merchantId: "amazon",
+        merchantName: "Amazon",
+      },
+      {
+        transactionId: "ofx-987654-2025030701",
+        date: "2025-03-07",
+        name: "WHOLEFDS MKT 10234",
+        amount: 64,
+        analyzed: false,
+        merchantId: "whole foods",
+        merchantName: "Whole Foods",
+      },
+    ]);
+  });
+
+  it("reads debits from an XML QFX statement", () => {
+    const result = parseOfx(fixture("statement.qfx"), "qfx");
+
+    assert.equal(result.format, "qfx");
+    assert.equal(result.skippedCount, 1);
+    assert.deepEqual(result.errors, ["Transaction 4: missing payee"]);
+    assert.deepEqual(
+      result.transactions.map(({ transactionId, date, name, amount }) => ({ transactionId, date, name, amount })),
+      [
+        { transactionId: "ofx-4111222233334444-320250303001", date: "2025-03-03", name: "STARBUCKS STORE 1234", amount: 12.5 },
+        { transactionId: "ofx-4111222233334444-320250310001", date: "2025-03-10", name: "BEN & JERRY'S", amount: 42.1 },
+      ]
+    );
+  });
+
+  it("rejects files that aren't OFX", () => {
+    assert.deepEqual(parseOfx("Date,Description,Amount\n"), {
+      format: "ofx",
+      transactions: [],
+      skippedCount: 0,
+      errors: ["Not an OFX file"],
+    });
+  });
+});
+
+describe("parseOfxDate", () => {
+  it("drops the time and timezone and rejects dates that don't exist", () => {
+    assert.equal(parseOfxDate("20250302120000[-5:EST]"), "2025-03-02");
+    assert.equal(parseOfxDate("20250231"), null);
+    assert.equal(parseOfxDate(undefined), null);
+  });
+});
+
+describe("detectStatementFormat", () => {
+  it("goes by the file extension, then the contents", () => {
+    assert.equal(detectStatementFormat("march.qfx", fixture("statement.qfx")), "qfx");
+    assert.equal(detectStatementFormat("march.ofx", fixture("statement.ofx")), "ofx");
+    assert.equal(detectStatementFormat("march.csv", fixture("statement.csv")), "csv");
+    assert.equal(detectStatementFormat("export.txt", fixture("statement.ofx")), "ofx");
+    assert.equal(detectStatementFormat("download", fixture("statement.ofx")), "ofx");
+    assert.equal(detectStatementFormat("notes.pdf", "%PDF-1.4"), null);
+  });
+});
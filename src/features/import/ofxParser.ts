@@ -0,0 +1,100 @@
+// src/features/import/ofxParser.ts
+// OFX statement parsing - handles both SGML (OFX 1.x) and XML (OFX 2.x) files.
+// QFX is Quicken's OFX with a few extra tags, so it goes through the same parser
+
+import { Transaction } from "@/shared/types/transactions";
+import { assignTransactionIds } from "@/shared/utils/transactionIdentity";
+import { withCanonicalMerchant } from "@/features/analysis/merchantNormalization";
+import { ParsedStatement, StatementFormat } from "./types";
+
+/**
+ * Read a leaf element's value from an OFX block
+ * SGML leaves aren't closed, so the value runs to the next tag or line break
+ */
+function readTag(block: string, tag: string): string | undefined {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, "i"));
+  const value = match?.[1].trim();
+  return value ? decodeEntities(value) : undefined;
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+/**
+ * Convert an OFX date (YYYYMMDD, optionally followed by a time and timezone) to YYYY-MM-DD
+ */
+export function parseOfxDate(value: string | undefined): string | null {
+  const match = (value || "").match(/^(\d{4})(\d{2})(\d{2})/);
+  if (!match) return null;
+
+  const [, year, month, day] = match;
+  const date = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)));
+  if (Number.isNaN(date.getTime()) || date.getUTCDate() !== Number(day)) return null;
+
+  return `${year}-${month}-${day}`;
+}
+
+/**
+ * Parse an OFX or QFX statement into transactions
+ * Only debits are kept, matching what we import from Plaid. FITIDs are unique per
+ * account, so they make stable transaction ids for re-imports of overlapping statements
+ */
+export function parseOfx(text: string, format: StatementFormat = "ofx"): ParsedStatement {
+  if (!/<OFX>/i.test(text)) {
+    return { format, transactions: [], skippedCount: 0, errors: ["Not an OFX file"] };
+  }
+
+  const accountId = readTag(text, "ACCTID");
+  const blocks = text.match(/<STMTTRN>[\s\S]*?<\/STMTTRN>/gi) || [];
+  const transactions: Transaction[] = [];
+  const errors: string[] = [];
+  let skippedCount = 0;
+
+  blocks.forEach((block, index) => {
+    const label = `Transaction ${index + 1}`;
+    const date = parseOfxDate(readTag(block, "DTPOSTED"));
+    const amount = Number((readTag(block, "TRNAMT") || "").replace(",", "."));
+    const name = readTag(block, "NAME") || readTag(block, "PAYEE") || readTag(block, "MEMO");
+    const fitId = readTag(block, "FITID");
+
+    if (!date) {
+      errors.push(`${label}: invalid date`);
+      return;
+    }
+    if (!name) {
+      errors.push(`${label}: missing payee`);
+      return;
+    }
+    if (Number.isNaN(amount)) {
+      errors.push(`${label}: invalid amount`);
+      return;
+    }
+
+    // OFX amounts are signed from the account's point of view - debits are negative
+    if (amount >= 0) {
+      skippedCount++;
+      return;
+    }
+
+    transactions.push({
+      ...(fitId ? { transactionId: `ofx-${accountId || "account"}-${fitId}` } : {}),
+      date,
+      name,
+      amount: Math.round(Math.abs(amount) * 100) / 100,
+      analyzed: false,
+    });
+  });
+
+  return {
+    format,
+    transactions: assignTransactionIds(transactions, format).map(withCanonicalMerchant),
+    skippedCount,
+    errors,
+  };
+}
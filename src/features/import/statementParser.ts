@@ -0,0 +1,24 @@
+// src/features/import/statementParser.ts
+// Entry point for reading statement files - works out the format and hands off to its parser
+
+import { StatementFormat } from "./types";
+
+/**
+ * Work out a statement's format from its file name, falling back to its contents
+ * @returns null when the file doesn't look like a statement we can read
+ */
+export function detectStatementFormat(fileName: string, text: string): StatementFormat | null {
+  const extension = fileName.split(".").pop()?.toLowerCase();
+
+  if (extension === "qfx") return "qfx";
+  if (extension === "ofx") return "ofx";
+  if (extension === "csv" || extension === "txt") {
+    return /<OFX>/i.test(text) ? "ofx" : "csv";
+  }
+
+  if (/<OFX>/i.test(text) || /^\s*OFXHEADER/i.test(text)) return "ofx";
+  return text.includes(",") || text.includes(";") ? "csv" : null;
+}
+
+export { parseCsv, guessColumnMapping, mapCsvRows } from "./csvParser";
+export { parseOfx } from "./ofxParser";
@@ -0,0 +1,42 @@
+// src/features/import/types.ts
+import { Transaction } from "@/shared/types/transactions";
+
+export type StatementFormat = "csv" | "ofx" | "qfx";
+
+// Which way round a single amount column counts spending
+export type AmountSign = "positive_is_spending" | "negative_is_spending";
+
+export type DateOrder = "YMD" | "MDY" | "DMY";
+
+// How the columns of a CSV file map onto a transaction
+// Either a single amount column, or separate debit and credit columns
+export interface CsvColumnMapping {
+  date: string;
+  description: string;
+  amount?: string;
+  debit?: string;
+  credit?: string;
+  amountSign: AmountSign;
+  dateOrder: DateOrder;
+}
+
+export interface CsvTable {
+  headers: string[];
+  rows: Record<string, string>[];
+}
+
+export interface ParsedStatement {
+  format: StatementFormat;
+  transactions: Transaction[]; // Spending only, ready for analysis
+  skippedCount: number; // Credits, transfers in and zero-amount lines
+  errors: string[]; // Lines that couldn't be read, e.g. "Row 4: invalid date"
+}
+
+// What the server did with an import
+export interface StatementImportResult {
+  transactions: Transaction[]; // Full stored list after the import
+  added: Transaction[]; // New transactions that still need analysis
+  duplicateCount: number; // Already stored, from an earlier import or a Plaid sync
+  totalSocietalDebt: number;
+  debtPercentage: number;
+}
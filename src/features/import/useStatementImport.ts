@@ -0,0 +1,156 @@
+// src/features/import/useStatementImport.ts
+import { useState, useCallback, useMemo } from 'react';
+import { config } from '@/config';
+import { authFetch } from '@/shared/utils/authFetch';
+import {
+  detectStatementFormat,
+  parseCsv,
+  guessColumnMapping,
+  mapCsvRows,
+  parseOfx,
+} from './statementParser';
+import { CsvColumnMapping, CsvTable, ParsedStatement, StatementImportResult } from './types';
+
+type ImportStep = 'idle' | 'mapping' | 'importing' | 'done' | 'error';
+
+interface UseStatementImportResult {
+  step: ImportStep;
+  fileName: string | null;
+  csvTable: CsvTable | null;
+  mapping: CsvColumnMapping | null;
+  preview: ParsedStatement | null; // What the current mapping would import
+  result: StatementImportResult | null;
+  error: string | null;
+  selectFile: (file: File) => Promise<void>;
+  setMapping: (mapping: CsvColumnMapping) => void;
+  confirmMapping: () => Promise<void>;
+  reset: () => void;
+}
+
+/**
+ * Read a CSV, OFX or QFX statement, let the user map CSV columns, then store
+ * the new transactions on the server
+ * @param onImported Called with the full stored list once the import is saved
+ */
+export function useStatementImport(
+  onImported: (result: StatementImportResult) => void
+): UseStatementImportResult {
+  const [step, setStep] = useState<ImportStep>('idle');
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [csvTable, setCsvTable] = useState<CsvTable | null>(null);
+  const [mapping, setMapping] = useState<CsvColumnMapping | null>(null);
+  const [parsedStatement, setParsedStatement] = useState<ParsedStatement | null>(null);
+  const [result, setResult] = useState<StatementImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const preview = useMemo(() => {
+    if (csvTable && mapping) return mapCsvRows(csvTable, mapping);
+    return parsedStatement;
+  }, [csvTable, mapping, parsedStatement]);
+
+  const fail = useCallback((message: string) => {
+    setError(message);
+    setStep('error');
+  }, []);
+
+  const importStatement = useCallback(async (statement: ParsedStatement) => {
+    if (statement.transactions.length === 0) {
+      fail(statement.errors[0] || "No spending found in this statement");
+      return;
+    }
+
+    setStep('importing');
+    setError(null);
+
+    try {
+      const response = await authFetch("/api/import", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ transactions: statement.transactions }),
+      });
+
+      if (!response.ok) {
+        const { error: message } = await response.json().catch(() => ({ error: null }));
+        throw new Error(message || `Import failed: ${response.status}`);
+      }
+
+      const importResult: StatementImportResult = await response.json();
+      setResult(importResult);
+      setStep('done');
+      onImported(importResult);
+    } catch (error) {
+      console.error("Statement import error:", error);
+      fail(error instanceof Error ? error.message : "Failed to import statement");
+    }
+  }, [fail, onImported]);
+
+  const selectFile = useCallback(async (file: File) => {
+    setFileName(file.name);
+    setCsvTable(null);
+    setMapping(null);
+    setParsedStatement(null);
+    setResult(null);
+    setError(null);
+
+    if (file.size > config.statementImport.maxFileBytes) {
+      fail("This file is too large to import");
+      return;
+    }
+
+    const text = await file.text();
+    const format = detectStatementFormat(file.name, text);
+
+    if (!format) {
+      fail("Unsupported file - choose a CSV, OFX or QFX statement");
+      return;
+    }
+
+    if (format === 'csv') {
+      // CSV layouts differ per bank, so the user confirms the columns first
+      const table = parseCsv(text);
+      if (table.rows.length === 0) {
+        fail("This CSV file has no rows");
+        return;
+      }
+
+      setCsvTable(table);
+      setMapping(guessColumnMapping(table));
+      setStep('mapping');
+      return;
+    }
+
+    const statement = parseOfx(text, format);
+    setParsedStatement(statement);
+    await importStatement(statement);
+  }, [fail, importStatement]);
+
+  const confirmMapping = useCallback(async () => {
+    if (preview) {
+      await importStatement(preview);
+    }
+  }, [preview, importStatement]);
+
+  const reset = useCallback(() => {
+    setStep('idle');
+    setFileName(null);
+    setCsvTable(null);
+    setMapping(null);
+    setParsedStatement(null);
+    setResult(null);
+    setError(null);
+  }, []);
+
+  return {
+    step,
+    fileName,
+    csvTable,
+    mapping,
+    preview,
+    result,
+    error,
+    selectFile,
+    setMapping,
+    confirmMapping,
+    reset
+  };
+}
@@ -0,0 +1,101 @@
+// src/shared/firebase/verifyIdToken.test.ts
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createSign, generateKeyPairSync } from "crypto";
+import { createTestIdToken, verifyIdToken } from "./verifyIdToken";
+
+const PROJECT_ID = "test-project";
+const KID = "test-key";
+
+// Stands in for Google's signing key; the public half is served as the cert
+const { privateKey, publicKey } = generateKeyPairSync("rsa", { modulusLength: 2048 });
+
+const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString("base64url");
+
+function signToken(claims: Record<string, unknown> = {}, header: Record<string, unknown> = {}) {
+  const now = Math.floor(Date.now() / 1000);
+  const signingInput = `${encode({ alg: "RS256", kid: KID, typ: "JWT", ...header })}.${encode({
+    sub: "user-1",
+    aud: PROJECT_ID,
+    iss: `https://securetoken.google.com/${PROJECT_ID}`,
+    auth_time: now - 60,
+    iat: now - 60,
+    exp: now + 3600,
+    ...claims,
+  })}`;
+  const signature = createSign("RSA-SHA256").update(signingInput).sign(privateKey, "base64url");
+
+  return `${signingInput}.${signature}`;
+}
+
+describe("verifyIdToken", () => {
+  const originalFetch = globalThis.fetch;
+
+  before(() => {
+    globalThis.fetch = (async () =>
+      new Response(JSON.stringify({ [KID]: publicKey.export({ type: "spki", format: "pem" }) }), {
+        headers: { "cache-control": "public, max-age=3600" },
+      })) as typeof fetch;
+  });
+
+  after(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  it("accepts a token signed by a known key for this project", async () => {
+    const verified = await verifyIdToken(signToken({ email: "user@example.com", admin: true }));
+
+    assert.deepEqual(verified, { uid: "user-1", email: "user@example.com", admin: true });
+  });
+
+  it("rejects an expired token", async () => {
+    const now = Math.floor(Date.now() / 1000);
+
+    await assert.rejects(verifyIdToken(signToken({ exp: now - 10 })), /expired/);
+  });
+
+  it("rejects a token issued for another project", async () => {
+    await assert.rejects(verifyIdToken(signToken({ aud: "other-project" })), /wrong audience/);
+  });
+
+  it("rejects a token from the wrong issuer", async () => {
+    await assert.rejects(
+      verifyIdToken(signToken({ iss: "https://securetoken.google.com/other-project" })),
+      /wrong issuer/
+    );
+  });
+
+  it("rejects a token with a tampered payload", async () => {
+    const [header, , signature] = signToken().split(".");
+    const forged = encode({
+      sub: "someone-else",
+      aud: PROJECT_ID,
+      iss: `https://securetoken.google.com/${PROJECT_ID}`,
+      auth_time: 0,
+      exp: Math.floor(Date.now() / 1000) + 3600,
+    });
+
+    await assert.rejects(verifyIdToken(`${header}.${forged}.${signature}`), /signature is invalid/);
+  });
+
+  it("rejects a token signed with an unknown key", async () => {
+    await assert.rejects(verifyIdToken(signToken({}, { kid: "rotated-out" })), /unknown key/);
+  });
+
+  it("accepts HS256 test tokens in test mode", async () => {
+    assert.deepEqual(await verifyIdToken(createTestIdToken("user-1")), { uid: "user-1" });
+  });
+
+  it("rejects HS256 test tokens when NODE_ENV is production", async () => {
+    const env = process.env as Record<string, string | undefined>;
+    const originalNodeEnv = env.NODE_ENV;
+    const token = createTestIdToken("user-1");
+    env.NODE_ENV = "production";
+
+    try {
+      await assert.rejects(verifyIdToken(token), /unexpected algorithm/);
+    } finally {
+      env.NODE_ENV = originalNodeEnv;
+    }
+  });
+});
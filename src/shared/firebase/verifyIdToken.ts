@@ -0,0 +1,172 @@
+// src/shared/firebase/verifyIdToken.ts
+// Server-side Firebase ID token verification without the Admin SDK
+
+import { createHmac, createPublicKey, createVerify, timingSafeEqual } from "crypto";
+import { config } from "@/config";
+
+export interface VerifiedIdToken {
+  uid: string;
+  email?: string;
+  admin?: boolean; // Set by the admin: true custom claim
+}
+
+interface JwtHeader {
+  alg?: string;
+  kid?: string;
+}
+
+interface JwtPayload {
+  sub?: string;
+  aud?: string;
+  iss?: string;
+  exp?: number;
+  iat?: number;
+  auth_time?: number;
+  email?: string;
+  admin?: unknown;
+}
+
+// Google rotates these certs; cache them for as long as the response allows
+let certCache: { certs: Record<string, string>; expiresAt: number } | null = null;
+
+function decodeSegment<T>(segment: string): T {
+  return JSON.parse(Buffer.from(segment, "base64url").toString("utf8")) as T;
+}
+
+async function getGoogleCerts(): Promise<Record<string, string>> {
+  if (certCache && certCache.expiresAt > Date.now()) {
+    return certCache.certs;
+  }
+
+  const response = await fetch(config.auth.certsUrl);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch Firebase signing certs: ${response.status}`);
+  }
+
+  const certs = (await response.json()) as Record<string, string>;
+  const maxAge = Number(response.headers.get("cache-control")?.match(/max-age=(\d+)/)?.[1] || 3600);
+  certCache = { certs, expiresAt: Date.now() + maxAge * 1000 };
+
+  return certs;
+}
+
+function checkTimestamps(payload: JwtPayload) {
+  const now = Math.floor(Date.now() / 1000);
+
+  if (typeof payload.exp !== "number" || payload.exp <= now) {
+    throw new Error("ID token has expired");
+  }
+  if (typeof payload.iat === "number" && payload.iat > now + 60) {
+    throw new Error("ID token was issued in the future");
+  }
+}
+
+function toVerifiedToken(payload: JwtPayload): VerifiedIdToken {
+  if (!payload.sub || payload.sub.length > 128) {
+    throw new Error("ID token has no valid subject");
+  }
+
+  return {
+    uid: payload.sub,
+    ...(payload.email ? { email: payload.email } : {}),
+    ...(payload.admin === true ? { admin: true } : {}),
+  };
+}
+
+/**
+ * Verify a test-mode token: HS256, signed with AUTH_TEST_SECRET
+ */
+function verifyTestToken(signingInput: string, signature: string, payload: JwtPayload): VerifiedIdToken {
+  if (!config.auth.testSecret) {
+    throw new Error("AUTH_TEST_SECRET is not configured");
+  }
+
+  const expected = createHmac("sha256", config.auth.testSecret).update(signingInput).digest();
+  const actual = Buffer.from(signature, "base64url");
+
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    throw new Error("Test token signature is invalid");
+  }
+
+  checkTimestamps(payload);
+  return toVerifiedToken(payload);
+}
+
+/**
+ * Verify a Firebase ID token and return the user it was issued to
+ * In test mode, HS256 tokens signed with AUTH_TEST_SECRET are accepted as well,
+ * so routes can be exercised without the Firebase service
+ */
+export async function verifyIdToken(idToken: string): Promise<VerifiedIdToken> {
+  const segments = idToken.split(".");
+  if (segments.length !== 3) {
+    throw new Error("ID token is not a JWT");
+  }
+
+  const [encodedHeader, encodedPayload, signature] = segments;
+  const header = decodeSegment<JwtHeader>(encodedHeader);
+  const payload = decodeSegment<JwtPayload>(encodedPayload);
+  const signingInput = `${encodedHeader}.${encodedPayload}`;
+
+  if (config.auth.testMode && header.alg === "HS256") {
+    return verifyTestToken(signingInput, signature, payload);
+  }
+
+  if (header.alg !== "RS256" || !header.kid) {
+    throw new Error("ID token has an unexpected algorithm");
+  }
+
+  const projectId = config.firebase.projectId;
+  if (!projectId) {
+    throw new Error("NEXT_PUBLIC_FIREBASE_PROJECT_ID is not configured");
+  }
+  if (payload.aud !== projectId) {
+    throw new Error("ID token has the wrong audience");
+  }
+  if (payload.iss !== `https://securetoken.google.com/${projectId}`) {
+    throw new Error("ID token has the wrong issuer");
+  }
+  if (typeof payload.auth_time !== "number" || payload.auth_time > Math.floor(Date.now() / 1000) + 60) {
+    throw new Error("ID token has an invalid auth_time");
+  }
+  checkTimestamps(payload);
+
+  const certs = await getGoogleCerts();
+  const cert = certs[header.kid];
+  if (!cert) {
+    throw new Error("ID token was signed with an unknown key");
+  }
+
+  const isValid = createVerify("RSA-SHA256")
+    .update(signingInput)
+    .verify(createPublicKey(cert), Buffer.from(signature, "base64url"));
+
+  if (!isValid) {
+    throw new Error("ID token signature is invalid");
+  }
+
+  return toVerifiedToken(payload);
+}
+
+/**
+ * Create a test-mode ID token for local development and scripts
+ * Only accepted by verifyIdToken when AUTH_TEST_MODE=true
+ */
+export function createTestIdToken(uid: string, expiresInSeconds = 3600): string {
+  if (!config.auth.testSecret) {
+    throw new Error("AUTH_TEST_SECRET is not configured");
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString("base64url");
+  const signingInput = `${encode({ alg: "HS256", typ: "JWT" })}.${encode({
+    sub: uid,
+    iat: now,
+    exp: now + expiresInSeconds,
+  })}`;
+  const signature = createHmac("sha256", config.auth.testSecret)
+    .update(signingInput)
+    .digest("base64url");
+
+  return `${signingInput}.${signature}`;
+}
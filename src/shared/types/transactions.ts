@@ -5,25 +5,67 @@ export interface Charity {
 }
 
 export interface Transaction {
+  transactionId?: string; // Plaid transaction_id, or a generated fallback id for CSV/sample data
+  accountId?: string; // Plaid account_id
+  pending?: boolean; // Plaid pending flag
+  category?: string[]; // Plaid category hierarchy, e.g. ["Food and Drink", "Coffee Shop"]
   analyzed?: boolean;
   date: string;
-  name: string;
+  name: string; // The descriptor as the bank printed it
+  merchantId?: string; // Canonical merchant key, see merchantNormalization
+  merchantName?: string; // Canonical merchant name; Plaid's merchant_name until normalized
   amount: number;
   societalDebt?: number;
   unethicalPractices?: string[];
   ethicalPractices?: string[];
   practiceWeights?: Record<string, number>; // percentages
+  practiceConfidence?: Record<string, number>; // 0-1, how sure the model is of each practice
   practiceDebts?: Record<string, number>; // + or -
   practiceSearchTerms?: Record<string, string>; // search terms for charity lookup
   practiceCategories?: Record<string, string>; // categories for practices like "Climate Change", "Poverty", etc.
   charities?: Record<string, Charity>;
   information?: Record<string, string>; // Information per practice
+  evidence?: Record<string, EvidenceRecord[]>; // Sources per practice
+  analysisErrors?: string[]; // Why the model's analysis was rejected, if it was
+  modelAnalysis?: ModelPracticeAnalysis; // The model's own practices, kept while a user override applies
+  userOverride?: UserOverrideMarks; // Which practices the user's merchant override changed
+}
+
+// A source the model cited for a practice
+export interface EvidenceRecord {
+  url: string;
+  title: string;
+  snippet?: string; // The claim the source backs up
+  practice: string;
+  merchant: string;
+  retrievedAt: string; // YYYY-MM-DD the analysis ran
+}
+
+// The model's practices and weights for a transaction, before any user override
+export type ModelPracticeAnalysis = Pick<
+  Transaction,
+  "unethicalPractices" | "ethicalPractices" | "practiceWeights" | "practiceCategories"
+>;
+
+export interface UserOverrideMarks {
+  added: string[]; // Practices the user added
+  removed: string[]; // Model practices the user removed
+  reweighted: string[]; // Model practices the user gave a different weight
+}
+
+export interface AnalysisBatchReport {
+  index: number;
+  status: "success" | "failed";
+  transactionCount: number;
+  quarantinedCount?: number; // Transactions that failed validation after the correction attempt
+  error?: string;
 }
 
 export interface AnalyzedTransactionData {
   transactions: Transaction[];
   totalSocietalDebt: number;
   debtPercentage: number;
+  batches?: AnalysisBatchReport[]; // Per-batch outcome when analysis ran in batches
 }
 
 export interface PlaidError {
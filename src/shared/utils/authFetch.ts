@@ -0,0 +1,16 @@
+// src/shared/utils/authFetch.ts
+import { auth } from "@/shared/firebase/firebase";
+
+/**
+ * fetch() for our API routes, with the signed-in user's Firebase ID token attached
+ */
+export async function authFetch(input: string, init: RequestInit = {}): Promise<Response> {
+  const headers = new Headers(init.headers);
+  const user = auth.currentUser;
+
+  if (user) {
+    headers.set("Authorization", `Bearer ${await user.getIdToken()}`);
+  }
+
+  return fetch(input, { ...init, headers });
+}
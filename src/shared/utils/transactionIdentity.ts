@@ -0,0 +1,61 @@
+// src/shared/utils/transactionIdentity.ts
+import { Transaction } from "@/shared/types/transactions";
+
+type IdentifiableTransaction = Pick<Transaction, "date" | "name" | "amount" | "transactionId">;
+
+/**
+ * The old date-name-amount key, used for transactions saved before they had ids
+ */
+export function legacyTransactionKey(tx: Pick<Transaction, "date" | "name" | "amount">): string {
+  return `${tx.date}-${tx.name}-${tx.amount}`;
+}
+
+/**
+ * Stable identifier for a transaction: the Plaid transaction_id when we have one,
+ * otherwise the fallback id assigned on import
+ */
+export function getTransactionId(tx: IdentifiableTransaction): string {
+  return tx.transactionId || legacyTransactionKey(tx);
+}
+
+function slugify(value: string): string {
+  return (value || "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+/**
+ * Give every transaction without a Plaid id a deterministic fallback id
+ * Identical purchases get an occurrence suffix so two same-day coffees stay separate,
+ * and importing the same file twice produces the same ids
+ * @param source Where the transactions came from, e.g. "csv" or "sample"
+ */
+export function assignTransactionIds<T extends IdentifiableTransaction>(
+  transactions: T[],
+  source = "manual"
+): T[] {
+  const occurrences = new Map<string, number>();
+
+  return transactions.map((tx) => {
+    if (tx.transactionId) return tx;
+
+    const amount = typeof tx.amount === "number" ? tx.amount.toFixed(2) : String(tx.amount);
+    const baseId = `${source}-${tx.date}-${slugify(tx.name)}-${amount}`;
+    const occurrence = occurrences.get(baseId) || 0;
+    occurrences.set(baseId, occurrence + 1);
+
+    return { ...tx, transactionId: `${baseId}-${occurrence}` };
+  });
+}
+
+/**
+ * Drop repeated transactions, keeping the first position and the latest copy of each id
+ */
+export function dedupeTransactions<T extends IdentifiableTransaction>(transactions: T[]): T[] {
+  const byId = new Map<string, T>();
+  transactions.forEach((tx) => {
+    byId.set(getTransactionId(tx), tx);
+  });
+  return Array.from(byId.values());
+}
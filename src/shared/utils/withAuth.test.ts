@@ -0,0 +1,107 @@
+// src/shared/utils/withAuth.test.ts
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { NextRequest } from "next/server";
+import { config } from "@/config";
+import { createTestIdToken } from "@/shared/firebase/verifyIdToken";
+import { AuthContext, withAdmin, withAuth } from "./withAuth";
+
+function request(path: string, init: { token?: string; body?: object } = {}) {
+  const headers: Record<string, string> = {};
+  if (init.token) headers.authorization = `Bearer ${init.token}`;
+  if (init.body) headers["content-type"] = "application/json";
+
+  return new NextRequest(`http://localhost${path}`, {
+    method: init.body ? "POST" : "GET",
+    headers,
+    ...(init.body ? { body: JSON.stringify(init.body) } : {}),
+  });
+}
+
+// Handler that records who it ran as
+function recordingHandler() {
+  const calls: AuthContext[] = [];
+  const handler = async (_req: NextRequest, auth: AuthContext) => {
+    calls.push(auth);
+    return Response.json({ ok: true });
+  };
+  return { calls, handler };
+}
+
+describe("withAuth", () => {
+  it("rejects a request without an ID token", async () => {
+    const { calls, handler } = recordingHandler();
+    const response = await withAuth(handler)(request("/api/transactions"));
+
+    assert.equal(response.status, 401);
+    assert.equal(calls.length, 0);
+  });
+
+  it("rejects an expired ID token", async () => {
+    const { calls, handler } = recordingHandler();
+    const response = await withAuth(handler)(
+      request("/api/transactions", { token: createTestIdToken("user-1", -10) })
+    );
+
+    assert.equal(response.status, 401);
+    assert.equal(calls.length, 0);
+  });
+
+  it("passes the verified user to the handler", async () => {
+    const { calls, handler } = recordingHandler();
+    const response = await withAuth(handler)(
+      request("/api/transactions?userId=user-1", { token: createTestIdToken("user-1") })
+    );
+
+    assert.equal(response.status, 200);
+    assert.deepEqual(calls, [{ uid: "user-1" }]);
+  });
+
+  it("rejects a userId in the query string that isn't the token's user", async () => {
+    const { calls, handler } = recordingHandler();
+    const response = await withAuth(handler)(
+      request("/api/transactions?userId=user-2", { token: createTestIdToken("user-1") })
+    );
+
+    assert.equal(response.status, 403);
+    assert.equal(calls.length, 0);
+  });
+
+  it("rejects a userId in the JSON body that isn't the token's user", async () => {
+    const { calls, handler } = recordingHandler();
+    const response = await withAuth(handler)(
+      request("/api/transactions", { token: createTestIdToken("user-1"), body: { userId: "user-2" } })
+    );
+
+    assert.equal(response.status, 403);
+    assert.equal(calls.length, 0);
+  });
+});
+
+describe("withAdmin", () => {
+  it("rejects a signed-in user who isn't an admin", async () => {
+    const { calls, handler } = recordingHandler();
+    const response = await withAdmin(handler)(
+      request("/api/admin/merchants", { token: createTestIdToken("user-1") })
+    );
+
+    assert.equal(response.status, 403);
+    assert.equal(calls.length, 0);
+  });
+
+  it("lets through a user listed in ADMIN_UIDS", async () => {
+    const { calls, handler } = recordingHandler();
+    config.auth.adminUids.push("admin-1");
+
+    try {
+      const response = await withAdmin(handler)(
+        request("/api/admin/merchants", { token: createTestIdToken("admin-1") })
+      );
+
+      assert.equal(response.status, 200);
+      assert.deepEqual(calls, [{ uid: "admin-1" }]);
+    } finally {
+      config.auth.adminUids.pop();
+    }
+  });
+});
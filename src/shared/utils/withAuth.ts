@@ -0,0 +1,86 @@
+// src/shared/utils/withAuth.ts
+import { NextRequest } from "next/server";
+import { config } from "@/config";
+import { verifyIdToken } from "@/shared/firebase/verifyIdToken";
+import { errorResponse } from "./api";
+
+export interface AuthContext {
+  uid: string;
+  email?: string;
+  admin?: boolean;
+}
+
+export type AuthenticatedHandler = (req: NextRequest, auth: AuthContext) => Promise<Response>;
+
+/**
+ * Pull a userId the client claims to be acting as, from the query string or JSON body
+ */
+async function getClaimedUserId(req: NextRequest): Promise<string | null> {
+  const fromQuery = req.nextUrl.searchParams.get("userId");
+  if (fromQuery) return fromQuery;
+
+  if (!req.headers.get("content-type")?.includes("application/json")) {
+    return null;
+  }
+
+  try {
+    // Clone so the handler can still read the body
+    const body = await req.clone().json();
+    return typeof body?.userId === "string" ? body.userId : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Require a valid Firebase ID token in the Authorization header
+ * The verified uid is passed to the handler; requests that claim a different
+ * userId are rejected
+ */
+export function withAuth(handler: AuthenticatedHandler) {
+  return async (req: NextRequest): Promise<Response> => {
+    const authorization = req.headers.get("authorization") || "";
+    const match = authorization.match(/^Bearer\s+(.+)$/i);
+
+    if (!match) {
+      return errorResponse("Unauthorized: missing ID token", 401);
+    }
+
+    let auth: AuthContext;
+    try {
+      auth = await verifyIdToken(match[1]);
+    } catch (error) {
+      console.warn("⚠️ Rejected ID token:", error instanceof Error ? error.message : error);
+      return errorResponse("Unauthorized: invalid ID token", 401);
+    }
+
+    const claimedUserId = await getClaimedUserId(req);
+    if (claimedUserId && claimedUserId !== auth.uid) {
+      return errorResponse("Forbidden: user ID does not match the authenticated user", 403);
+    }
+
+    return handler(req, auth);
+  };
+}
+
+/**
+ * An admin has the admin: true custom claim or a uid listed in ADMIN_UIDS
+ */
+export function isAdmin(auth: AuthContext): boolean {
+  return auth.admin === true || config.auth.adminUids.includes(auth.uid);
+}
+
+/**
+ * Require a valid ID token that belongs to an admin
+ * For routes that act on data shared by every user
+ */
+export function withAdmin(handler: AuthenticatedHandler) {
+  return withAuth(async (req, auth) => {
+    if (!isAdmin(auth)) {
+      console.warn(`⚠️ Rejected non-admin ${auth.uid} on ${req.nextUrl.pathname}`);
+      return errorResponse("Forbidden: admin access required", 403);
+    }
+
+    return handler(req, auth);
+  });
+}
@@ -0,0 +1,11 @@
+// src/test/setup.ts
+// Loaded before every test file by npm test
+//
+// The Firebase client only needs a config shaped like a real one to initialize; tests never
+// reach Firestore, they pass stubs for whatever would
+process.env.NEXT_PUBLIC_FIREBASE_API_KEY ||= "test-api-key";
+process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID ||= "test-project";
+
+// Auth tests also sign HS256 test-mode tokens; config.auth.testMode still refuses them in production
+process.env.AUTH_TEST_MODE ||= "true";
+process.env.AUTH_TEST_SECRET ||= "test-secret";